@@ -12,6 +12,18 @@ import { ProductionModule } from './modules/production/production.module';
 import { MaterialOrderModule } from './modules/material-order/material-order.module';
 import { CacheModule } from '@nestjs/cache-manager';
 import { QuotesModule } from './modules/quotes/quotes.module';
+import { WorkspacesModule } from './modules/workspaces/workspaces.module';
+import { InvitationsModule } from './modules/invitations/invitations.module';
+import { StocktakesModule } from './modules/stocktakes/stocktakes.module';
+import { LocationsModule } from './modules/locations/locations.module';
+import { LotsModule } from './modules/lots/lots.module';
+import { CostingModule } from './modules/costing/costing.module';
+import { ProductionPlansModule } from './modules/production-plans/production-plans.module';
+import { SalesModule } from './modules/sales/sales.module';
+import { SuppliersModule } from './modules/suppliers/suppliers.module';
+import { PurchaseOrdersModule } from './modules/purchase-orders/purchase-orders.module';
+import { ReplenishmentModule } from './modules/replenishment/replenishment.module';
+import { ForecastingModule } from './modules/forecasting/forecasting.module';
 
 @Module({
   imports: [
@@ -26,10 +38,22 @@ import { QuotesModule } from './modules/quotes/quotes.module';
     MongooseModule.forRoot(process.env.MONGODB_URI ?? ''),
     AuthModule,
     UserModule,
+    WorkspacesModule,
+    InvitationsModule,
     MaterialsModule,
     MaterialOrderModule,
+    SuppliersModule,
+    PurchaseOrdersModule,
+    ReplenishmentModule,
     ProductsModule,
     StockAdjustmentsModule,
+    StocktakesModule,
+    LocationsModule,
+    LotsModule,
+    CostingModule,
+    ProductionPlansModule,
+    SalesModule,
+    ForecastingModule,
     UnitsModule,
     ProductionModule,
     QuotesModule,
@@ -52,6 +76,10 @@ export class AppModule {
         { path: 'auth/reset-password', method: RequestMethod.ALL },
         { path: 'auth/confirm-password-reset', method: RequestMethod.ALL },
         { path: 'auth/validate-reset-token', method: RequestMethod.ALL },
+
+        // Invitation routes used before the invitee has an account
+        { path: 'invitations/validate', method: RequestMethod.ALL },
+        { path: 'invitations/accept', method: RequestMethod.ALL },
       )
       .forRoutes('*');
   }
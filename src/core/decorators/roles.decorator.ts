@@ -0,0 +1,10 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { ROLES_KEY, RolesGuard } from '../guards/Roles.guard';
+
+/**
+ * Decorator to restrict a route to users holding one of the given roles
+ */
+export function Roles(...roles: UserRole[]) {
+  return applyDecorators(SetMetadata(ROLES_KEY, roles), UseGuards(RolesGuard));
+}
@@ -0,0 +1,55 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './Roles.guard';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+describe('RolesGuard', () => {
+  let reflector: Reflector;
+  let guard: RolesGuard;
+
+  const contextFor = (user?: { role?: UserRole }) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    guard = new RolesGuard(reflector);
+  });
+
+  it('lets anyone through a route without roles', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    expect(guard.canActivate(contextFor({ role: UserRole.MAKER }))).toBe(true);
+  });
+
+  it('lets a user with one of the roles through', () => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue([UserRole.OWNER, UserRole.MANAGER]);
+
+    expect(guard.canActivate(contextFor({ role: UserRole.MANAGER }))).toBe(
+      true,
+    );
+  });
+
+  it('turns away a user without one of the roles', () => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue([UserRole.OWNER, UserRole.MANAGER]);
+
+    expect(() =>
+      guard.canActivate(contextFor({ role: UserRole.MAKER })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('turns away a user with no role yet', () => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue([UserRole.OWNER]);
+
+    expect(() => guard.canActivate(contextFor({}))).toThrow(ForbiddenException);
+  });
+});
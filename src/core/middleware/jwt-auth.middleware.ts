@@ -9,6 +9,8 @@ import { UserService } from 'src/modules/user/services/user.service';
 import { Request, Response, NextFunction } from 'express';
 import * as jwt from 'jsonwebtoken';
 import { UserDocument } from 'src/modules/user/schemas/User.schema';
+import { WorkspacesService } from 'src/modules/workspaces/services/workspaces.service';
+import { workspaceContext } from '../utils/workspaceContext';
 
 export interface AuthenticatedRequest extends Request {
   user: UserDocument;
@@ -20,6 +22,7 @@ export class JwtAuthMiddleware implements NestMiddleware {
   constructor(
     private configService: ConfigService,
     private userService: UserService,
+    private workspacesService: WorkspacesService,
   ) {}
 
   async use(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -60,7 +63,11 @@ export class JwtAuthMiddleware implements NestMiddleware {
 
       req.user = user;
 
-      next();
+      const workspaceId =
+        await this.workspacesService.ensureWorkspaceForUser(user);
+
+      // everything downstream of this request is scoped to the workspace
+      workspaceContext.run({ workspaceId }, () => next());
     } catch (err) {
       console.log('JWT verification error:', err.message);
       throw new UnauthorizedException('Invalid or expired token');
@@ -0,0 +1,108 @@
+import { Model, Schema, Types, createConnection } from 'mongoose';
+import { workspaceScopePlugin } from './workspace-scope.plugin';
+import { workspaceContext } from '../utils/workspaceContext';
+
+type Item = { name: string; workspace?: Types.ObjectId };
+
+describe('workspaceScopePlugin', () => {
+  let ItemModel: Model<Item>;
+  const workspaceId = new Types.ObjectId();
+
+  // Middleware runs before the driver is reached, so no database is needed;
+  // the unconnected model rejects every operation once the hooks are done
+  const inWorkspace = (run: () => Promise<unknown>) =>
+    workspaceContext.run({ workspaceId }, () => run().catch(() => undefined));
+
+  beforeAll(() => {
+    const schema = new Schema<Item>(
+      { name: String, workspace: Schema.Types.ObjectId },
+      { bufferCommands: false },
+    );
+    schema.plugin(workspaceScopePlugin);
+    ItemModel = createConnection().model<Item>('Item', schema);
+  });
+
+  it('limits queries to the current workspace', async () => {
+    const query = ItemModel.find({ name: 'Wax' });
+    await inWorkspace(() => query.exec());
+
+    expect(query.getFilter()).toEqual({ name: 'Wax', workspace: workspaceId });
+  });
+
+  it('overrides a filter that names another workspace', async () => {
+    const query = ItemModel.find({ workspace: new Types.ObjectId() });
+    await inWorkspace(() => query.exec());
+
+    expect(query.getFilter()).toEqual({ workspace: workspaceId });
+  });
+
+  it('only skips the scope when asked to explicitly', async () => {
+    const other = new Types.ObjectId();
+    const query = ItemModel.updateMany(
+      { workspace: other },
+      { name: 'Wax' },
+    ).setOptions({ skipWorkspaceScope: true });
+    await inWorkspace(() => query.exec());
+
+    expect(query.getFilter()).toEqual({ workspace: other });
+  });
+
+  it('does not let updates move records to another workspace', async () => {
+    const query = ItemModel.updateOne(
+      { name: 'Wax' },
+      {
+        workspace: new Types.ObjectId(),
+        $set: { name: 'Soy wax', workspace: new Types.ObjectId() },
+      },
+    );
+    await inWorkspace(() => query.exec());
+
+    expect(query.getUpdate()).toEqual({ $set: { name: 'Soy wax' } });
+  });
+
+  it('keeps replaced documents in the current workspace', async () => {
+    const query = ItemModel.replaceOne(
+      { name: 'Wax' },
+      { name: 'Soy wax', workspace: new Types.ObjectId() },
+    );
+    await inWorkspace(() => query.exec());
+
+    expect(query.getUpdate()).toMatchObject({
+      name: 'Soy wax',
+      workspace: workspaceId,
+    });
+  });
+
+  it('does not scope anything outside a workspace', async () => {
+    const query = ItemModel.find({ name: 'Wax' });
+    await query.exec().catch(() => undefined);
+
+    expect(query.getFilter()).toEqual({ name: 'Wax' });
+  });
+
+  it('matches on the workspace at the start of aggregations', async () => {
+    const aggregate = ItemModel.aggregate([{ $group: { _id: '$name' } }]);
+    await inWorkspace(() => aggregate.exec());
+
+    expect(aggregate.pipeline()[0]).toEqual({
+      $match: { workspace: workspaceId },
+    });
+  });
+
+  it('stamps new documents with the current workspace', async () => {
+    const item = new ItemModel({ name: 'Wax' });
+    await inWorkspace(() => item.validate());
+
+    expect(item.workspace).toEqual(workspaceId);
+  });
+
+  it('replaces a workspace set on new documents by the caller', async () => {
+    const item = new ItemModel({
+      name: 'Wax',
+      workspace: new Types.ObjectId(),
+    });
+    await inWorkspace(() => item.validate());
+
+    expect(item.workspace).toEqual(workspaceId);
+  });
+});
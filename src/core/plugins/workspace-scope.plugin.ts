@@ -0,0 +1,82 @@
+import { Query, Schema, UpdateQuery } from 'mongoose';
+import { getCurrentWorkspaceId } from '../utils/workspaceContext';
+
+const SCOPED_QUERY_MIDDLEWARE = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+] as const;
+
+const UPDATE_MIDDLEWARE = [
+  'findOneAndUpdate',
+  'updateMany',
+  'updateOne',
+] as const;
+
+const REPLACE_MIDDLEWARE = ['findOneAndReplace', 'replaceOne'] as const;
+
+/**
+ * Scopes every query, aggregation and new document on the schema to the
+ * workspace of the current request. A filter or update naming another
+ * workspace is overridden, so records cannot be read or moved across
+ * workspaces. Cross-workspace maintenance has to ask for it explicitly with
+ * the `skipWorkspaceScope` query or aggregate option.
+ */
+export function workspaceScopePlugin(schema: Schema) {
+  schema.pre<Query<unknown, unknown>>(
+    [...SCOPED_QUERY_MIDDLEWARE],
+    function () {
+      const workspaceId = getCurrentWorkspaceId();
+      if (!workspaceId || this.getOptions().skipWorkspaceScope) return;
+
+      this.where({ workspace: workspaceId });
+    },
+  );
+
+  schema.pre<Query<unknown, unknown>>([...UPDATE_MIDDLEWARE], function () {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId || this.getOptions().skipWorkspaceScope) return;
+
+    const update = this.getUpdate() as UpdateQuery<unknown> | null;
+    if (!update || Array.isArray(update)) return;
+
+    delete update.workspace;
+    for (const operator of ['$set', '$setOnInsert', '$unset'] as const) {
+      delete update[operator]?.workspace;
+    }
+    this.setUpdate(update);
+  });
+
+  schema.pre<Query<unknown, unknown>>([...REPLACE_MIDDLEWARE], function () {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId || this.getOptions().skipWorkspaceScope) return;
+
+    const replacement = this.getUpdate() as Record<string, unknown> | null;
+    if (!replacement) return;
+
+    this.setUpdate({ ...replacement, workspace: workspaceId });
+  });
+
+  schema.pre('aggregate', function () {
+    const workspaceId = getCurrentWorkspaceId();
+    if (!workspaceId || this.options.skipWorkspaceScope) return;
+
+    this.pipeline().unshift({ $match: { workspace: workspaceId } });
+  });
+
+  schema.pre('validate', function () {
+    const workspaceId = getCurrentWorkspaceId();
+    if (workspaceId) {
+      this.set('workspace', workspaceId);
+    }
+  });
+}
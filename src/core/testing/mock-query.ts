@@ -0,0 +1,29 @@
+/**
+ * Stands in for a mongoose query in unit tests. Chained calls such as
+ * `populate` and `sort` return the same query, and it resolves to `result`
+ * whether it is awaited directly or through `exec`.
+ */
+export function mockQuery<T>(result: T) {
+  const query = {
+    populate: jest.fn(() => query),
+    select: jest.fn(() => query),
+    sort: jest.fn(() => query),
+    skip: jest.fn(() => query),
+    limit: jest.fn(() => query),
+    lean: jest.fn(() => query),
+    session: jest.fn(() => query),
+    exec: jest.fn(() => Promise.resolve(result)),
+    then: <R1 = T, R2 = never>(
+      onFulfilled?: (value: T) => R1 | PromiseLike<R1>,
+      onRejected?: (reason: unknown) => R2 | PromiseLike<R2>,
+    ) => Promise.resolve(result).then(onFulfilled, onRejected),
+  };
+  return query;
+}
+
+/** A connection whose transactions just run the callback */
+export function mockConnection() {
+  return {
+    transaction: jest.fn(<T>(fn: () => Promise<T>) => fn()),
+  };
+}
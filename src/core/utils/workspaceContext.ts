@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Types } from 'mongoose';
+
+export type WorkspaceContext = {
+  workspaceId: Types.ObjectId;
+};
+
+/**
+ * Holds the workspace of the user making the current request. Populated by
+ * the JwtAuthMiddleware and read by the workspace scope mongoose plugin.
+ */
+export const workspaceContext = new AsyncLocalStorage<WorkspaceContext>();
+
+export function getCurrentWorkspaceId(): Types.ObjectId | undefined {
+  return workspaceContext.getStore()?.workspaceId;
+}
@@ -16,6 +16,7 @@ import { ConfigService } from '@nestjs/config';
 import { AuthProviders } from 'src/modules/user/enums/AuthProviders.enum';
 import { EmailService, EmailOptions } from 'src/modules/email/email.service';
 import { InAppPasswordChangeOpts } from '../types/InAppPasswordChangeOpts';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
 
 @Injectable()
 export class AuthService {
@@ -72,6 +73,46 @@ export class AuthService {
     };
   }
 
+  /**
+   * Creates an account for someone accepting a workspace invitation. The
+   * invite link proves they own the email address so it is marked verified.
+   */
+  async registerInvitedUser(
+    registerDto: { name: string; email: string; password: string },
+    membership: { workspace: Types.ObjectId; role: UserRole },
+  ) {
+    const existingUser = await this.userModel.findOne({
+      email: registerDto.email,
+    });
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const user = await this.userModel.create({
+      name: registerDto.name,
+      email: registerDto.email,
+      password: await this.hashPassword(registerDto.password),
+      authProvider: AuthProviders.LOCAL,
+      verifiedEmail: true,
+      workspace: membership.workspace,
+      role: membership.role,
+    });
+
+    const tokenData = this.generateJWT(user);
+
+    return {
+      user: {
+        name: user.name,
+        email: user.email,
+        id: user.id,
+        verifiedEmail: user.verifiedEmail,
+        authProvider: user.authProvider,
+      },
+      token: tokenData.token,
+      expiresAt: tokenData.expiresAt,
+    };
+  }
+
   async loginOrCreateUser(config: AuthData): Promise<UserDocument> {
     const existingUser = await this.userModel
       .findOne({ authId: config.authId })
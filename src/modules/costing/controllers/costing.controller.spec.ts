@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CostingController } from './costing.controller';
+import { CostingService } from '../services/costing.service';
+import { ConversionCostsService } from '../services/conversion-costs.service';
+
+describe('CostingController', () => {
+  let controller: CostingController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CostingController],
+      providers: [
+        { provide: CostingService, useValue: {} },
+        { provide: ConversionCostsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<CostingController>(CostingController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
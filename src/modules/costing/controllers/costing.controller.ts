@@ -0,0 +1,51 @@
+import { Body, Controller, Get, Put } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { CostingService } from '../services/costing.service';
+import { CostingMethod } from '../enums/CostingMethod.enum';
+import { UpdateCostingMethodDto } from '../dto/update-costing-method.dto';
+import { UpdateConversionRatesDto } from '../dto/update-conversion-rates.dto';
+import {
+  ConversionCostsService,
+  ConversionRates,
+} from '../services/conversion-costs.service';
+
+@RequireVerified()
+@Controller('costing')
+export class CostingController {
+  constructor(
+    private readonly costingService: CostingService,
+    private readonly conversionCostsService: ConversionCostsService,
+  ) {}
+
+  @Get('method')
+  async getMethod(): Promise<{ costingMethod: CostingMethod }> {
+    return { costingMethod: await this.costingService.getMethod() };
+  }
+
+  @Put('method')
+  @Roles(UserRole.OWNER)
+  async setMethod(
+    @Body() updateCostingMethodDto: UpdateCostingMethodDto,
+  ): Promise<{ costingMethod: CostingMethod }> {
+    return {
+      costingMethod: await this.costingService.setMethod(
+        updateCostingMethodDto.costingMethod,
+      ),
+    };
+  }
+
+  @Get('rates')
+  async getRates(): Promise<ConversionRates> {
+    return this.conversionCostsService.getRates();
+  }
+
+  @Put('rates')
+  @Roles(UserRole.OWNER)
+  async setRates(
+    @Body() updateConversionRatesDto: UpdateConversionRatesDto,
+  ): Promise<ConversionRates> {
+    return this.conversionCostsService.setRates(updateConversionRatesDto);
+  }
+}
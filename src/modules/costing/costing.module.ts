@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  Workspace,
+  WorkspaceSchema,
+} from '../workspaces/schemas/workspace.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { LotsModule } from '../lots/lots.module';
+import { LocationsModule } from '../locations/locations.module';
+import { UnitsModule } from '../units/units.module';
+import { CostingService } from './services/costing.service';
+import { ConversionCostsService } from './services/conversion-costs.service';
+import { LandedCostService } from './services/landed-cost.service';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { CostingController } from './controllers/costing.controller';
+
+@Module({
+  imports: [
+    LotsModule,
+    LocationsModule,
+    UnitsModule,
+    MongooseModule.forFeature([
+      { name: Workspace.name, schema: WorkspaceSchema },
+      { name: Material.name, schema: MaterialSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [CostingController],
+  providers: [CostingService, ConversionCostsService, LandedCostService],
+  exports: [CostingService, ConversionCostsService, LandedCostService],
+})
+export class CostingModule {}
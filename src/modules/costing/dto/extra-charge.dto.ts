@@ -0,0 +1,33 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { ChargeType } from '../enums/ChargeType.enum';
+import { AllocationBasis } from '../enums/AllocationBasis.enum';
+
+export class ExtraChargeDto {
+  @IsEnum(ChargeType)
+  type: ChargeType;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  /** Reclaimable charges, such as VAT claimed back, are not added to cost */
+  @IsBoolean()
+  @IsOptional()
+  reclaimable?: boolean;
+
+  /** Defaults to value */
+  @IsEnum(AllocationBasis)
+  @IsOptional()
+  allocation?: AllocationBasis;
+}
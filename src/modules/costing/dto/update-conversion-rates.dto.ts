@@ -0,0 +1,57 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { OverheadBasis } from '../enums/OverheadBasis.enum';
+
+export class LabourRateDto {
+  /** Keep the id of an existing rate so products using it stay linked */
+  @IsOptional()
+  @IsMongoId()
+  _id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsNumber()
+  @Min(0)
+  hourlyRate: number;
+}
+
+export class OverheadRateDto {
+  @IsOptional()
+  @IsMongoId()
+  _id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  @IsEnum(OverheadBasis)
+  basis: OverheadBasis;
+}
+
+export class UpdateConversionRatesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LabourRateDto)
+  labourRates: LabourRateDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OverheadRateDto)
+  overheadRates: OverheadRateDto[];
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { CostingMethod } from '../enums/CostingMethod.enum';
+
+export class UpdateCostingMethodDto {
+  @IsEnum(CostingMethod)
+  costingMethod: CostingMethod;
+}
@@ -0,0 +1,5 @@
+export enum AllocationBasis {
+  VALUE = 'value',
+  WEIGHT = 'weight',
+  QUANTITY = 'quantity',
+}
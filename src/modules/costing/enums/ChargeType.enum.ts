@@ -0,0 +1,7 @@
+export enum ChargeType {
+  SHIPPING = 'shipping',
+  DUTY = 'duty',
+  VAT = 'vat',
+  CARD_FEE = 'card_fee',
+  OTHER = 'other',
+}
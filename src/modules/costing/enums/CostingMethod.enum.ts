@@ -0,0 +1,4 @@
+export enum CostingMethod {
+  WEIGHTED_AVERAGE = 'weighted_average',
+  FIFO = 'fifo',
+}
@@ -0,0 +1,4 @@
+export enum OverheadBasis {
+  PER_UNIT = 'per_unit',
+  PER_BATCH = 'per_batch', // Shared across every unit in the batch
+}
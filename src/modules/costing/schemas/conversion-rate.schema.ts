@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { OverheadBasis } from '../enums/OverheadBasis.enum';
+
+@Schema()
+export class LabourRate {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string; // e.g. Pouring, Packing
+
+  @Prop({ required: true, min: 0 })
+  hourlyRate: number;
+}
+
+export const LabourRateSchema = SchemaFactory.createForClass(LabourRate);
+
+@Schema()
+export class OverheadRate {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string; // e.g. Electricity, Rent
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ required: true, enum: OverheadBasis })
+  basis: OverheadBasis;
+}
+
+export const OverheadRateSchema = SchemaFactory.createForClass(OverheadRate);
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ChargeType } from '../enums/ChargeType.enum';
+import { AllocationBasis } from '../enums/AllocationBasis.enum';
+
+/** A cost of getting goods in on top of their price, e.g. postage or duty */
+@Schema({ _id: false })
+export class ExtraCharge {
+  @Prop({ required: true, enum: ChargeType })
+  type: ChargeType;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ default: false })
+  reclaimable?: boolean; // e.g. VAT claimed back, so not part of the cost
+
+  @Prop({ enum: AllocationBasis, default: AllocationBasis.VALUE })
+  allocation?: AllocationBasis; // How it is shared across order lines
+}
+
+export const ExtraChargeSchema = SchemaFactory.createForClass(ExtraCharge);
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ConversionCostsService } from './conversion-costs.service';
+import { OverheadBasis } from '../enums/OverheadBasis.enum';
+import { Workspace } from 'src/modules/workspaces/schemas/workspace.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+
+describe('ConversionCostsService', () => {
+  let service: ConversionCostsService;
+  let workspaceModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+
+  const pouring = {
+    _id: new Types.ObjectId(),
+    name: 'Pouring',
+    hourlyRate: 12,
+  };
+  const electricity = {
+    _id: new Types.ObjectId(),
+    name: 'Electricity',
+    basis: OverheadBasis.PER_BATCH,
+    amount: 5,
+  };
+
+  const useRates = (labourRates: object[], overheadRates: object[] = []) =>
+    workspaceModel.findById.mockResolvedValue({ labourRates, overheadRates });
+
+  beforeEach(async () => {
+    workspaceModel = {
+      findById: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn(),
+    };
+    productModel = { exists: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversionCostsService,
+        { provide: getModelToken(Workspace.name), useValue: workspaceModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+      ],
+    }).compile();
+
+    service = module.get<ConversionCostsService>(ConversionCostsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('has no rates until some are set', async () => {
+    await expect(service.getRates()).resolves.toEqual({
+      labourRates: [],
+      overheadRates: [],
+    });
+  });
+
+  describe('setRates', () => {
+    it('keeps a labour rate that products still use', async () => {
+      useRates([pouring]);
+      productModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.setRates({ labourRates: [], overheadRates: [] }),
+      ).rejects.toThrow(
+        'Labour rate Pouring is used by products so cannot be removed',
+      );
+      expect(workspaceModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('replaces both lists', async () => {
+      useRates([pouring]);
+      const rates = {
+        labourRates: [
+          { _id: pouring._id.toString(), name: 'Pouring', hourlyRate: 14 },
+        ],
+        overheadRates: [
+          { name: 'Rent', basis: OverheadBasis.PER_UNIT, amount: 0.2 },
+        ],
+      };
+
+      await service.setRates(rates);
+
+      expect(productModel.exists).not.toHaveBeenCalled();
+      expect(workspaceModel.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        rates,
+      );
+    });
+  });
+
+  describe('validateLabour', () => {
+    it('refuses time booked against an unknown rate', async () => {
+      useRates([pouring], [electricity]);
+      const unknown = new Types.ObjectId().toString();
+
+      await expect(
+        service.validateLabour([{ labourRate: unknown }]),
+      ).rejects.toThrow(`Labour rate ${unknown} not found`);
+    });
+  });
+
+  describe('allocate', () => {
+    it('charges labour by the minute and overhead per unit or per batch', async () => {
+      useRates(
+        [pouring],
+        [
+          electricity,
+          {
+            _id: new Types.ObjectId(),
+            name: 'Rent',
+            basis: OverheadBasis.PER_UNIT,
+            amount: 0.25,
+          },
+        ],
+      );
+
+      const cost = await service.allocate(
+        [{ labourRate: pouring._id, minutesPerUnit: 3 }],
+        20,
+      );
+
+      // 60 minutes at 12 an hour
+      expect(cost.labour).toEqual([
+        {
+          labourRate: pouring._id,
+          name: 'Pouring',
+          minutes: 60,
+          hourlyRate: 12,
+          cost: 12,
+        },
+      ]);
+      expect(cost.overhead.map((line) => line.cost)).toEqual([5, 5]);
+      expect(cost.labourCost).toBe(12);
+      expect(cost.overheadCost).toBe(10);
+    });
+
+    it('costs time against a removed rate at nothing', async () => {
+      useRates([]);
+
+      const cost = await service.allocate(
+        [{ labourRate: new Types.ObjectId(), minutesPerUnit: 5 }],
+        2,
+      );
+
+      expect(cost.labour[0]).toMatchObject({
+        name: 'Removed labour rate',
+        minutes: 10,
+        cost: 0,
+      });
+      expect(cost.labourCost).toBe(0);
+    });
+  });
+});
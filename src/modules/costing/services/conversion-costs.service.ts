@@ -0,0 +1,143 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Workspace,
+  WorkspaceDocument,
+} from 'src/modules/workspaces/schemas/workspace.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { getCurrentWorkspaceId } from 'src/core/utils/workspaceContext';
+import { LabourRate, OverheadRate } from '../schemas/conversion-rate.schema';
+import { OverheadBasis } from '../enums/OverheadBasis.enum';
+import { UpdateConversionRatesDto } from '../dto/update-conversion-rates.dto';
+import { ConversionCost } from '../types/ConversionCost';
+
+export type ConversionRates = {
+  labourRates: LabourRate[];
+  overheadRates: OverheadRate[];
+};
+
+/**
+ * Labour and overhead, the cost of turning materials into a product. Rates
+ * are set per workspace; each product says how long it takes to make.
+ */
+@Injectable()
+export class ConversionCostsService {
+  constructor(
+    @InjectModel(Workspace.name)
+    private readonly workspaceModel: Model<WorkspaceDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+  ) {}
+
+  async getRates(): Promise<ConversionRates> {
+    const workspace = await this.workspaceModel.findById(
+      getCurrentWorkspaceId(),
+      { labourRates: 1, overheadRates: 1 },
+    );
+
+    return {
+      labourRates: workspace?.labourRates ?? [],
+      overheadRates: workspace?.overheadRates ?? [],
+    };
+  }
+
+  /**
+   * Replaces both lists. A labour rate cannot be dropped while a product
+   * still books time against it.
+   */
+  async setRates(
+    updateConversionRatesDto: UpdateConversionRatesDto,
+  ): Promise<ConversionRates> {
+    const { labourRates } = await this.getRates();
+    const kept = new Set(
+      updateConversionRatesDto.labourRates
+        .filter((rate) => rate._id)
+        .map((rate) => rate._id),
+    );
+
+    for (const rate of labourRates) {
+      if (kept.has(rate._id!.toString())) continue;
+
+      const inUse = await this.productModel.exists({
+        'labour.labourRate': rate._id,
+      });
+      if (inUse) {
+        throw new BadRequestException(
+          `Labour rate ${rate.name} is used by products so cannot be removed`,
+        );
+      }
+    }
+
+    await this.workspaceModel.updateOne(
+      { _id: getCurrentWorkspaceId() },
+      {
+        labourRates: updateConversionRatesDto.labourRates,
+        overheadRates: updateConversionRatesDto.overheadRates,
+      },
+    );
+    return this.getRates();
+  }
+
+  async validateLabour(labour: { labourRate: string }[]): Promise<void> {
+    const { labourRates } = await this.getRates();
+
+    for (const line of labour) {
+      if (
+        !labourRates.some((rate) => rate._id!.toString() === line.labourRate)
+      ) {
+        throw new BadRequestException(
+          `Labour rate ${line.labourRate} not found`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Labour and overhead for making `quantity` units in one batch. Per-batch
+   * overheads are charged once however many are made.
+   */
+  async allocate(
+    labour: { labourRate: Types.ObjectId; minutesPerUnit: number }[],
+    quantity: number,
+  ): Promise<ConversionCost> {
+    const { labourRates, overheadRates } = await this.getRates();
+
+    const labourLines = labour.map((line) => {
+      const rate = labourRates.find(
+        (r) => r._id!.toString() === line.labourRate.toString(),
+      );
+      const minutes = line.minutesPerUnit * quantity;
+      const hourlyRate = rate?.hourlyRate ?? 0;
+
+      return {
+        labourRate: line.labourRate,
+        name: rate?.name ?? 'Removed labour rate',
+        minutes,
+        hourlyRate,
+        cost: (minutes / 60) * hourlyRate,
+      };
+    });
+
+    const overheadLines = overheadRates.map((rate) => ({
+      overheadRate: rate._id!,
+      name: rate.name,
+      basis: rate.basis,
+      amount: rate.amount,
+      cost:
+        rate.basis === OverheadBasis.PER_BATCH
+          ? rate.amount
+          : rate.amount * quantity,
+    }));
+
+    return {
+      labour: labourLines,
+      overhead: overheadLines,
+      labourCost: labourLines.reduce((sum, line) => sum + line.cost, 0),
+      overheadCost: overheadLines.reduce((sum, line) => sum + line.cost, 0),
+    };
+  }
+}
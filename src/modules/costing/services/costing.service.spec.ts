@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { CostingService } from './costing.service';
+import { CostingMethod } from '../enums/CostingMethod.enum';
+import { Workspace } from 'src/modules/workspaces/schemas/workspace.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+
+describe('CostingService', () => {
+  let service: CostingService;
+  let workspaceModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let lotsService: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+
+  const main = new Types.ObjectId();
+  const shed = new Types.ObjectId();
+
+  const material = (currentStock: number, averageCost: number, fields = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      currentStock,
+      averageCost,
+      locationStock: [],
+      save: jest.fn().mockResolvedValue(undefined),
+      ...fields,
+    }) as unknown as MaterialDocument;
+
+  const useMethod = (costingMethod: CostingMethod) =>
+    workspaceModel.findById.mockResolvedValue({ costingMethod });
+
+  beforeEach(async () => {
+    workspaceModel = { findById: jest.fn(), updateOne: jest.fn() };
+    materialModel = { find: jest.fn() };
+    lotsService = {
+      findRemaining: jest.fn().mockResolvedValue([]),
+      valueUsages: jest.fn(),
+      createFromReceipt: jest.fn(),
+    };
+    locationsService = {
+      getDefaultLocationId: jest.fn().mockResolvedValue(main),
+      getQuantityAt: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CostingService,
+        { provide: getModelToken(Workspace.name), useValue: workspaceModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: LotsService, useValue: lotsService },
+        { provide: LocationsService, useValue: locationsService },
+      ],
+    }).compile();
+
+    service = module.get<CostingService>(CostingService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('uses weighted average until a workspace picks a method', async () => {
+    workspaceModel.findById.mockResolvedValue({});
+
+    await expect(service.getMethod()).resolves.toBe(
+      CostingMethod.WEIGHTED_AVERAGE,
+    );
+  });
+
+  describe('weighted average', () => {
+    beforeEach(() => useMethod(CostingMethod.WEIGHTED_AVERAGE));
+
+    it('blends a receipt into the average', async () => {
+      // 10 at 2 already held, 10 more received for 40
+      const wax = material(20, 2);
+
+      await service.onReceipt(wax, 10, 10, 40);
+
+      expect(wax.averageCost).toBe(3);
+    });
+
+    it('issues at the average whatever lots were drawn', async () => {
+      const wax = material(6, 3);
+
+      await expect(
+        service.onIssue(wax, 10, 4, [
+          { lot: new Types.ObjectId(), quantity: 4 },
+        ]),
+      ).resolves.toEqual({ unitCost: 3, totalCost: 12 });
+      expect(lotsService.valueUsages).not.toHaveBeenCalled();
+    });
+
+    it('takes a removed receipt back out of the average', async () => {
+      // 20 at 3, of which a receipt of 10 at 4 is removed
+      const wax = material(10, 3);
+
+      await service.onReceiptRemoved(wax, 20, 10, 4);
+
+      expect(wax.averageCost).toBe(2);
+    });
+  });
+
+  describe('FIFO', () => {
+    beforeEach(() => useMethod(CostingMethod.FIFO));
+
+    it('issues at the price of the lots drawn from', async () => {
+      // 4 taken from lots worth 10 in total, 1 more held without a lot
+      const wax = material(5, 2);
+      lotsService.valueUsages.mockResolvedValue(10);
+      lotsService.findRemaining.mockResolvedValue([
+        { quantityRemaining: 5, unitCost: 3 },
+      ]);
+
+      const cost = await service.onIssue(wax, 10, 5, [
+        { lot: new Types.ObjectId(), quantity: 4 },
+      ]);
+
+      expect(cost).toEqual({ unitCost: 12 / 5, totalCost: 12 });
+    });
+
+    it('revalues the average from the lots left', async () => {
+      const wax = material(10, 1);
+      lotsService.findRemaining.mockResolvedValue([
+        { quantityRemaining: 4, unitCost: 2 },
+        { quantityRemaining: 4, unitCost: 4 },
+      ]);
+
+      // 2 held without a lot keep the old average of 1
+      await service.onReceipt(wax, 2, 8, 24);
+
+      expect(wax.averageCost).toBe((8 + 16 + 2) / 10);
+    });
+  });
+
+  describe('setMethod', () => {
+    it('opens a layer at each location for stock held without a lot', async () => {
+      useMethod(CostingMethod.WEIGHTED_AVERAGE);
+      const wax = material(12, 2.5, {
+        locationStock: [
+          { location: main, quantity: 8 },
+          { location: shed, quantity: 4 },
+        ],
+      });
+      materialModel.find.mockResolvedValue([wax]);
+      locationsService.getQuantityAt.mockImplementation((_item, location) =>
+        Promise.resolve(location === main ? 8 : 4),
+      );
+      lotsService.findRemaining.mockImplementation((_id, location) =>
+        Promise.resolve(
+          location === main
+            ? [
+                {
+                  quantityRemaining: 5,
+                  receivedAt: new Date('2026-01-01'),
+                },
+              ]
+            : [],
+        ),
+      );
+
+      await service.setMethod(CostingMethod.FIFO);
+
+      expect(lotsService.createFromReceipt).toHaveBeenCalledTimes(2);
+      expect(lotsService.createFromReceipt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          quantity: 3,
+          unitCost: 2.5,
+          location: main,
+          // ahead of the oldest lot so it is used first
+          receivedAt: new Date(new Date('2026-01-01').getTime() - 1),
+        }),
+      );
+      expect(lotsService.createFromReceipt).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 4, location: shed }),
+      );
+      expect(workspaceModel.updateOne).toHaveBeenCalledWith(expect.anything(), {
+        costingMethod: CostingMethod.FIFO,
+      });
+    });
+
+    it('opens no layers when already on FIFO', async () => {
+      useMethod(CostingMethod.FIFO);
+
+      await service.setMethod(CostingMethod.FIFO);
+
+      expect(materialModel.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  Workspace,
+  WorkspaceDocument,
+} from 'src/modules/workspaces/schemas/workspace.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotUsage } from 'src/modules/lots/types/LotUsage';
+import { getCurrentWorkspaceId } from 'src/core/utils/workspaceContext';
+import { CostingMethod } from '../enums/CostingMethod.enum';
+
+/**
+ * Values material stock and usage under the workspace's costing method.
+ *
+ * Both methods keep `Material.averageCost` as the value per unit of the
+ * stock on hand so stock valuations read the same way. Weighted average
+ * blends every receipt into a rolling average. FIFO uses the material's lots
+ * as cost layers: usage is costed at the price of the lots drawn from and
+ * the average is recalculated from what remains.
+ *
+ * Every method expects the material's stock level (and lots) to already
+ * reflect the movement, and takes the stock level from before it.
+ */
+@Injectable()
+export class CostingService {
+  constructor(
+    @InjectModel(Workspace.name)
+    private readonly workspaceModel: Model<WorkspaceDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    private readonly lotsService: LotsService,
+    private readonly locationsService: LocationsService,
+  ) {}
+
+  async getMethod(): Promise<CostingMethod> {
+    const workspace = await this.workspaceModel.findById(
+      getCurrentWorkspaceId(),
+      { costingMethod: 1 },
+    );
+    return workspace?.costingMethod ?? CostingMethod.WEIGHTED_AVERAGE;
+  }
+
+  /**
+   * Switches the workspace's costing method. Moving to FIFO turns stock held
+   * without a lot into an opening lot at the current average cost, so every
+   * unit on hand sits in a cost layer.
+   */
+  async setMethod(method: CostingMethod): Promise<CostingMethod> {
+    const current = await this.getMethod();
+
+    if (method === CostingMethod.FIFO && current !== CostingMethod.FIFO) {
+      await this.openLayersForUntrackedStock();
+    }
+
+    await this.workspaceModel.updateOne(
+      { _id: getCurrentWorkspaceId() },
+      { costingMethod: method },
+    );
+    return method;
+  }
+
+  /**
+   * Material received, e.g. from an order
+   */
+  async onReceipt(
+    material: MaterialDocument,
+    stockBefore: number,
+    quantity: number,
+    totalCost: number,
+  ): Promise<void> {
+    if ((await this.getMethod()) === CostingMethod.FIFO) {
+      await this.revalue(material);
+      return;
+    }
+
+    const oldTotalValue = stockBefore * material.averageCost;
+    material.averageCost =
+      (oldTotalValue + totalCost) / (stockBefore + quantity);
+  }
+
+  /**
+   * Material used, e.g. by production or breakage. Returns the cost of the
+   * quantity used.
+   */
+  async onIssue(
+    material: MaterialDocument,
+    stockBefore: number,
+    quantity: number,
+    lots: LotUsage[],
+  ): Promise<{ unitCost: number; totalCost: number }> {
+    if ((await this.getMethod()) !== CostingMethod.FIFO) {
+      return {
+        unitCost: material.averageCost,
+        totalCost: quantity * material.averageCost,
+      };
+    }
+
+    // anything not drawn from a lot was held without one and carries the
+    // average cost
+    const fromLots = lots.reduce((sum, usage) => sum + usage.quantity, 0);
+    const totalCost =
+      (await this.lotsService.valueUsages(lots)) +
+      Math.max(0, quantity - fromLots) * material.averageCost;
+
+    await this.revalue(material);
+
+    return { unitCost: quantity > 0 ? totalCost / quantity : 0, totalCost };
+  }
+
+  /**
+   * Material put back into stock at the cost it was issued at, e.g. when a
+   * production batch is reversed
+   */
+  async onReturn(
+    material: MaterialDocument,
+    stockBefore: number,
+    quantity: number,
+    unitCost: number,
+  ): Promise<void> {
+    if ((await this.getMethod()) === CostingMethod.FIFO) {
+      await this.revalue(material);
+      return;
+    }
+
+    const currentTotalValue = stockBefore * material.averageCost;
+    const restoredValue = quantity * unitCost;
+    material.averageCost =
+      (currentTotalValue + restoredValue) / (stockBefore + quantity);
+  }
+
+  /**
+   * A receipt taken back out of stock, e.g. when an order is deleted
+   */
+  async onReceiptRemoved(
+    material: MaterialDocument,
+    stockBefore: number,
+    quantity: number,
+    unitCost: number,
+  ): Promise<void> {
+    if ((await this.getMethod()) === CostingMethod.FIFO) {
+      await this.revalue(material);
+      return;
+    }
+
+    const newStock = stockBefore - quantity;
+    const currentTotalValue = stockBefore * material.averageCost;
+    const removedValue = quantity * unitCost;
+    const newTotalValue = Math.max(0, currentTotalValue - removedValue);
+
+    material.averageCost = newStock > 0 ? newTotalValue / newStock : 0;
+  }
+
+  /**
+   * FIFO: recalculates the average cost from the lots still holding stock.
+   * Stock held without a lot keeps the previous average.
+   */
+  private async revalue(material: MaterialDocument): Promise<void> {
+    const lots = await this.lotsService.findRemaining(material._id);
+
+    const lotted = lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+    const lottedValue = lots.reduce(
+      (sum, lot) => sum + lot.quantityRemaining * lot.unitCost,
+      0,
+    );
+    const untracked = Math.max(0, material.currentStock - lotted);
+    const totalValue = lottedValue + untracked * material.averageCost;
+
+    material.averageCost =
+      material.currentStock > 0 ? totalValue / material.currentStock : 0;
+  }
+
+  private async openLayersForUntrackedStock(): Promise<void> {
+    const materials = await this.materialModel.find({
+      currentStock: { $gt: 0 },
+    });
+
+    for (const material of materials) {
+      const defaultId = await this.locationsService.getDefaultLocationId();
+      const locations = [
+        defaultId,
+        ...material.locationStock
+          .map((entry) => entry.location)
+          .filter((location) => !location.equals(defaultId)),
+      ];
+
+      // each location gets its own layer so it is drawn where it is held
+      for (const location of locations) {
+        const held = await this.locationsService.getQuantityAt(
+          material,
+          location,
+        );
+        const lots = await this.lotsService.findRemaining(
+          material._id,
+          location,
+        );
+        const lotted = lots.reduce(
+          (sum, lot) => sum + lot.quantityRemaining,
+          0,
+        );
+        const untracked = held - lotted;
+
+        // allow for floating point dust on fractional quantities
+        if (untracked <= 1e-9) continue;
+
+        // stock held without a lot predates every lot, so it is used first
+        const receivedAt = lots.length
+          ? new Date(lots[0].receivedAt.getTime() - 1)
+          : new Date();
+
+        await this.lotsService.createFromReceipt({
+          material: material._id,
+          quantity: untracked,
+          unitCost: material.averageCost || 0,
+          location,
+          receivedAt,
+          lotNumber: `OPEN-${Date.now()}`,
+        });
+      }
+
+      // keeps any stock folded into the default location above
+      await material.save();
+    }
+  }
+}
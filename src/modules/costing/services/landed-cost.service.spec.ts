@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { LandedCostService } from './landed-cost.service';
+import { AllocationBasis } from '../enums/AllocationBasis.enum';
+import { MaterialDocument } from 'src/modules/materials/schemas/material.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+
+describe('LandedCostService', () => {
+  let service: LandedCostService;
+  let unitsService: { toGrams: jest.Mock };
+
+  const material = (name: string, gramsPerUnit: number) =>
+    ({
+      _id: new Types.ObjectId(),
+      name,
+      unit: new Types.ObjectId(),
+      gramsPerUnit,
+    }) as unknown as MaterialDocument;
+
+  // 10 kg of wax at 40, 100 jars at 60 weighing 150 g each
+  const lines = [
+    { material: material('Soy wax', 1000), quantity: 10, totalCost: 40 },
+    { material: material('Jar', 150), quantity: 100, totalCost: 60 },
+  ];
+
+  beforeEach(async () => {
+    unitsService = {
+      toGrams: jest.fn(
+        (quantity: number, _unit, item: { gramsPerUnit: number }) =>
+          Promise.resolve(quantity * item.gramsPerUnit),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LandedCostService,
+        { provide: UnitsService, useValue: unitsService },
+      ],
+    }).compile();
+
+    service = module.get<LandedCostService>(LandedCostService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('allocate', () => {
+    it('shares a charge by value unless told otherwise', async () => {
+      await expect(service.allocate(lines, [{ amount: 20 }])).resolves.toEqual([
+        8, 12,
+      ]);
+    });
+
+    it('shares a charge by quantity', async () => {
+      const allocated = await service.allocate(lines, [
+        { amount: 22, allocation: AllocationBasis.QUANTITY },
+      ]);
+
+      expect(allocated[0]).toBeCloseTo(2);
+      expect(allocated[1]).toBeCloseTo(20);
+    });
+
+    it('shares a charge by weight in grams', async () => {
+      await expect(
+        service.allocate(lines, [
+          { amount: 25, allocation: AllocationBasis.WEIGHT },
+        ]),
+      ).resolves.toEqual([10, 15]);
+    });
+
+    it('adds up several charges and leaves out reclaimable ones', async () => {
+      await expect(
+        service.allocate(lines, [
+          { amount: 10 },
+          { amount: 25, allocation: AllocationBasis.WEIGHT },
+          { amount: 100, reclaimable: true },
+        ]),
+      ).resolves.toEqual([14, 21]);
+    });
+
+    it('weighs each line once per basis', async () => {
+      await service.allocate(lines, [
+        { amount: 5, allocation: AllocationBasis.WEIGHT },
+        { amount: 5, allocation: AllocationBasis.WEIGHT },
+      ]);
+
+      expect(unitsService.toGrams).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls back to quantity when every line is free', async () => {
+      const samples = lines.map((line) => ({ ...line, totalCost: 0 }));
+
+      const allocated = await service.allocate(samples, [{ amount: 11 }]);
+
+      expect(allocated[0]).toBeCloseTo(1);
+      expect(allocated[1]).toBeCloseTo(10);
+    });
+  });
+});
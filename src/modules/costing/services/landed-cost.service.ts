@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { MaterialDocument } from 'src/modules/materials/schemas/material.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { AllocationBasis } from '../enums/AllocationBasis.enum';
+
+/** The parts of an order line that charges are shared out by */
+export type LandedCostLine = {
+  material: MaterialDocument;
+  quantity: number; // In the material's stock unit
+  totalCost: number;
+};
+
+/** Anything shaped like a charge, saved or as submitted */
+export type LandedCostCharge = {
+  amount: number;
+  reclaimable?: boolean;
+  allocation?: AllocationBasis;
+};
+
+/**
+ * Shares an order's extra charges across its lines so the goods are costed
+ * at what it took to get them in, not just their price.
+ */
+@Injectable()
+export class LandedCostService {
+  constructor(private readonly unitsService: UnitsService) {}
+
+  /**
+   * The amount of the charges each line carries, in line order. Reclaimable
+   * charges are left out. A basis every line weighs nothing on, e.g. value
+   * on free samples, falls back to quantity.
+   */
+  async allocate(
+    lines: LandedCostLine[],
+    charges: LandedCostCharge[],
+  ): Promise<number[]> {
+    const allocated = lines.map(() => 0);
+    const weights = new Map<AllocationBasis, number[]>();
+
+    for (const charge of charges) {
+      if (charge.reclaimable || charge.amount === 0) continue;
+
+      const basis = charge.allocation ?? AllocationBasis.VALUE;
+      if (!weights.has(basis)) {
+        weights.set(basis, await this.measure(lines, basis));
+      }
+
+      let shares = weights.get(basis)!;
+      if (shares.every((share) => share === 0)) {
+        shares = lines.map((line) => line.quantity);
+      }
+      const total = shares.reduce((sum, share) => sum + share, 0);
+
+      shares.forEach((share, index) => {
+        allocated[index] += total > 0 ? (charge.amount * share) / total : 0;
+      });
+    }
+
+    return allocated;
+  }
+
+  private async measure(
+    lines: LandedCostLine[],
+    basis: AllocationBasis,
+  ): Promise<number[]> {
+    switch (basis) {
+      case AllocationBasis.VALUE:
+        return lines.map((line) => line.totalCost);
+      case AllocationBasis.QUANTITY:
+        return lines.map((line) => line.quantity);
+      case AllocationBasis.WEIGHT:
+        return Promise.all(
+          lines.map((line) =>
+            this.unitsService.toGrams(
+              line.quantity,
+              line.material.unit,
+              line.material,
+            ),
+          ),
+        );
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Types } from 'mongoose';
+import { OverheadBasis } from '../enums/OverheadBasis.enum';
+
+export type LabourCostLine = {
+  labourRate: Types.ObjectId;
+  name: string;
+  minutes: number;
+  hourlyRate: number;
+  cost: number;
+};
+
+export type OverheadCostLine = {
+  overheadRate: Types.ObjectId;
+  name: string;
+  basis: OverheadBasis;
+  amount: number;
+  cost: number;
+};
+
+/** Labour and overhead for a quantity made, on top of its materials */
+export type ConversionCost = {
+  labour: LabourCostLine[];
+  overhead: OverheadCostLine[];
+  labourCost: number;
+  overheadCost: number;
+};
@@ -0,0 +1,47 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForecastingController } from './forecasting.controller';
+import { ForecastingService } from '../services/forecasting.service';
+
+describe('ForecastingController', () => {
+  let controller: ForecastingController;
+  let forecastingService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    forecastingService = { getForecasts: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ForecastingController],
+      providers: [
+        { provide: ForecastingService, useValue: forecastingService },
+      ],
+    }).compile();
+
+    controller = module.get<ForecastingController>(ForecastingController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('passes whole months on to the forecast', async () => {
+    await controller.getForecasts('36', '120');
+
+    expect(forecastingService.getForecasts).toHaveBeenCalledWith({
+      months: 36,
+      history: 120,
+      category: undefined,
+    });
+  });
+
+  it('refuses months that are not whole or are too many', async () => {
+    for (const months of ['Infinity', '1.5', '37']) {
+      await expect(controller.getForecasts(months)).rejects.toThrow(
+        'months must be a whole number from 1 to 36',
+      );
+    }
+    await expect(controller.getForecasts(undefined, '121')).rejects.toThrow(
+      'history must be a whole number from 1 to 120',
+    );
+    expect(forecastingService.getForecasts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { ProductCategory } from 'src/modules/products/schemas/product.schema';
+import { ProductionPlan } from 'src/modules/production-plans/schemas/production-plan.schema';
+import { ForecastingService } from '../services/forecasting.service';
+import { CreateForecastPlanDto } from '../dto/create-forecast-plan.dto';
+import { ProductForecast, ProductionForecast } from '../types/ProductForecast';
+
+const MAX_MONTHS = 36;
+const MAX_HISTORY_MONTHS = 120;
+
+@RequireVerified()
+@Controller('forecasts')
+export class ForecastingController {
+  constructor(private readonly forecastingService: ForecastingService) {}
+
+  @Get()
+  async getForecasts(
+    @Query('months') months?: string,
+    @Query('history') history?: string,
+    @Query('category') category?: string,
+  ): Promise<ProductForecast[]> {
+    if (
+      category &&
+      !Object.values(ProductCategory).includes(category as ProductCategory)
+    ) {
+      throw new BadRequestException(`${category} is not a product category`);
+    }
+
+    return this.forecastingService.getForecasts({
+      months: this.parsePositive('months', months, MAX_MONTHS),
+      history: this.parsePositive('history', history, MAX_HISTORY_MONTHS),
+      category: category as ProductCategory | undefined,
+    });
+  }
+
+  @Get('production')
+  async getProductionForecast(
+    @Query('months') months?: string,
+    @Query('history') history?: string,
+    @Query('location') location?: string,
+  ): Promise<ProductionForecast> {
+    return this.forecastingService.getProductionForecast({
+      months: this.parsePositive('months', months, MAX_MONTHS),
+      history: this.parsePositive('history', history, MAX_HISTORY_MONTHS),
+      location,
+    });
+  }
+
+  @Post('production-plan')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async createProductionPlan(
+    @Body() createForecastPlanDto: CreateForecastPlanDto,
+    @GetUser() user: User,
+  ): Promise<ProductionPlan> {
+    return this.forecastingService.createProductionPlan(
+      createForecastPlanDto,
+      user._id!,
+    );
+  }
+
+  @Get(':productId')
+  async getForecast(
+    @Param('productId') productId: string,
+    @Query('months') months?: string,
+    @Query('history') history?: string,
+  ): Promise<ProductForecast> {
+    return this.forecastingService.getForecast(productId, {
+      months: this.parsePositive('months', months, MAX_MONTHS),
+      history: this.parsePositive('history', history, MAX_HISTORY_MONTHS),
+    });
+  }
+
+  /** Whole months only, up to `max` */
+  private parsePositive(
+    name: string,
+    value: string | undefined,
+    max: number,
+  ): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0 || number > max) {
+      throw new BadRequestException(
+        `${name} must be a whole number from 1 to ${max}`,
+      );
+    }
+    return number;
+  }
+}
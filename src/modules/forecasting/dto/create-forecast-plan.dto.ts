@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+export class CreateForecastPlanDto {
+  /** Defaults to one naming the months covered */
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  /** Months ahead to make stock for */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  months?: number;
+
+  /** Months of history to forecast from */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  history?: number;
+
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  plannedFor?: Date;
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import {
+  SalesOrder,
+  SalesOrderSchema,
+} from '../sales/schemas/sales-order.schema';
+import {
+  ProductionBatch,
+  ProductionBatchSchema,
+} from '../production/schemas/production-batch.schema';
+import { ProductionPlansModule } from '../production-plans/production-plans.module';
+import { ForecastingService } from './services/forecasting.service';
+import { ForecastingController } from './controllers/forecasting.controller';
+
+@Module({
+  imports: [
+    ProductionPlansModule,
+    MongooseModule.forFeature([
+      { name: Product.name, schema: ProductSchema },
+      { name: SalesOrder.name, schema: SalesOrderSchema },
+      { name: ProductionBatch.name, schema: ProductionBatchSchema },
+    ]),
+  ],
+  controllers: [ForecastingController],
+  providers: [ForecastingService],
+})
+export class ForecastingModule {}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ForecastingService } from './forecasting.service';
+import {
+  Product,
+  ProductCategory,
+} from 'src/modules/products/schemas/product.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { SalesOrder } from 'src/modules/sales/schemas/sales-order.schema';
+import { ProductionPlansService } from 'src/modules/production-plans/services/production-plans.service';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+describe('ForecastingService', () => {
+  let service: ForecastingService;
+  let productModel: Record<string, jest.Mock>;
+  let salesOrderModel: { aggregate: jest.Mock };
+  let batchModel: { aggregate: jest.Mock };
+  let productionPlansService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+
+  const product = (name: string, category: ProductCategory, stock = 0) => ({
+    _id: new Types.ObjectId(),
+    name,
+    sku: name.toUpperCase(),
+    category,
+    currentStock: stock,
+  });
+  const candle = product('Candle', ProductCategory.REGULAR, 12);
+  const pudding = product('Pudding', ProductCategory.CHRISTMAS);
+  const pumpkin = product('Pumpkin', ProductCategory.HALLOWEEN);
+
+  /** Rows as the monthly aggregations return them */
+  const monthly = (
+    item: { _id: Types.ObjectId },
+    quantities: Record<string, number>,
+  ) =>
+    Object.entries(quantities).map(([month, quantity]) => ({
+      _id: { product: item._id, month },
+      quantity,
+    }));
+
+  const months = (from: string, count: number, quantity: number) =>
+    Object.fromEntries(
+      Array.from({ length: count }, (_, i) => {
+        const date = new Date(`${from}-01T00:00:00Z`);
+        date.setUTCMonth(date.getUTCMonth() + i);
+        return [date.toISOString().slice(0, 7), quantity];
+      }),
+    );
+
+  beforeEach(async () => {
+    productModel = {
+      find: jest.fn().mockReturnValue(mockQuery([candle])),
+      findById: jest.fn(),
+    };
+    salesOrderModel = { aggregate: jest.fn().mockResolvedValue([]) };
+    batchModel = { aggregate: jest.fn().mockResolvedValue([]) };
+    productionPlansService = {
+      estimateRequirements: jest.fn().mockResolvedValue({ materials: [] }),
+      create: jest.fn((dto: object) => Promise.resolve(dto)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForecastingService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(SalesOrder.name), useValue: salesOrderModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: batchModel },
+        { provide: ProductionPlansService, useValue: productionPlansService },
+      ],
+    }).compile();
+
+    service = module.get<ForecastingService>(ForecastingService);
+
+    // Forecasts run from September with history up to the end of August
+    jest.useFakeTimers({ now: new Date('2026-09-15T12:00:00Z') });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getForecasts', () => {
+    it('forecasts steady sales flat, with a band from Poisson noise', async () => {
+      salesOrderModel.aggregate.mockResolvedValue(
+        monthly(candle, months('2026-03', 6, 10)),
+      );
+
+      const [forecast] = await service.getForecasts();
+
+      expect(forecast).toMatchObject({
+        basis: 'sales',
+        averageMonthlyDemand: 10,
+      });
+      expect(forecast.history).toHaveLength(24);
+      expect(forecast.periods.map((period) => period.month)).toEqual([
+        '2026-09',
+        '2026-10',
+        '2026-11',
+      ]);
+      expect(forecast.periods[0]).toMatchObject({
+        seasonalIndex: 1,
+        expected: 10,
+      });
+      expect(forecast.periods[0].lower).toBeCloseTo(
+        10 - 1.2816 * Math.sqrt(10),
+      );
+      expect(forecast.horizon.expected).toBe(30);
+      expect(forecast.horizon.upper).toBeCloseTo(30 + 1.2816 * Math.sqrt(30));
+      // Enough to reach the top of the band from the 12 in stock
+      expect(forecast.recommendedProduction).toBe(26);
+    });
+
+    it('ramps Christmas products up with the default pattern until they have a year of history', async () => {
+      productModel.find.mockReturnValue(mockQuery([pudding]));
+      batchModel.aggregate.mockResolvedValue(
+        monthly(pudding, months('2026-03', 6, 2)),
+      );
+
+      const [forecast] = await service.getForecasts();
+
+      // 12 made over months worth 1.3 of an average month
+      expect(forecast.basis).toBe('production');
+      expect(forecast.averageMonthlyDemand).toBeCloseTo(12 / 1.3);
+      expect(forecast.periods.map((period) => period.seasonalIndex)).toEqual([
+        1, 2, 3.4,
+      ]);
+      expect(forecast.periods[2].expected).toBeCloseTo((12 / 1.3) * 3.4);
+    });
+
+    it('learns the seasonality from two years of history', async () => {
+      productModel.find.mockReturnValue(mockQuery([pumpkin]));
+      salesOrderModel.aggregate.mockResolvedValue(
+        monthly(pumpkin, {
+          ...months('2024-09', 24, 5),
+          '2024-10': 50,
+          '2025-10': 50,
+        }),
+      );
+
+      const [forecast] = await service.getForecasts();
+
+      // October averages 50 against 8.75 across the year
+      expect(forecast.periods[0].seasonalIndex).toBeCloseTo(5 / 8.75);
+      expect(forecast.periods[1].seasonalIndex).toBeCloseTo(50 / 8.75);
+      expect(forecast.averageMonthlyDemand).toBeCloseTo(8.75);
+      expect(forecast.periods[1].expected).toBeCloseTo(50);
+    });
+
+    it('recommends nothing for a product with no demand', async () => {
+      const [forecast] = await service.getForecasts();
+
+      expect(forecast.averageMonthlyDemand).toBe(0);
+      expect(forecast.horizon).toEqual({ expected: 0, lower: 0, upper: 0 });
+      expect(forecast.recommendedProduction).toBe(0);
+    });
+  });
+
+  describe('getForecast', () => {
+    it('refuses a product that does not exist', async () => {
+      productModel.findById.mockResolvedValue(null);
+
+      await expect(
+        service.getForecast(new Types.ObjectId().toString()),
+      ).rejects.toThrow('Product not found');
+    });
+  });
+
+  describe('getProductionForecast', () => {
+    it('totals materials for the products worth making', async () => {
+      productModel.find.mockReturnValue(mockQuery([candle, pumpkin]));
+      salesOrderModel.aggregate.mockResolvedValue(
+        monthly(candle, months('2026-03', 6, 10)),
+      );
+      const location = new Types.ObjectId().toString();
+
+      const forecast = await service.getProductionForecast({ location });
+
+      expect(forecast.products.map((p) => p.name)).toEqual(['Candle']);
+      expect(productionPlansService.estimateRequirements).toHaveBeenCalledWith(
+        [{ product: candle._id, quantity: 26 }],
+        location,
+      );
+    });
+  });
+
+  describe('createProductionPlan', () => {
+    it('raises a draft plan named after the months covered', async () => {
+      salesOrderModel.aggregate.mockResolvedValue(
+        monthly(candle, months('2026-03', 6, 10)),
+      );
+
+      await service.createProductionPlan({}, userId);
+
+      expect(productionPlansService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Forecast 2026-09 to 2026-11',
+          items: [{ product: candle._id.toString(), quantity: 26 }],
+        }),
+        userId,
+      );
+    });
+
+    it('refuses when stock already covers the forecast', async () => {
+      await expect(service.createProductionPlan({}, userId)).rejects.toThrow(
+        'Stock already covers the forecast, so there is nothing to plan',
+      );
+    });
+  });
+});
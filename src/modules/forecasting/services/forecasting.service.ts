@@ -0,0 +1,436 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Product,
+  ProductCategory,
+  ProductDocument,
+  ProductStatus,
+} from 'src/modules/products/schemas/product.schema';
+import {
+  ProductionBatch,
+  ProductionBatchDocument,
+} from 'src/modules/production/schemas/production-batch.schema';
+import {
+  SalesOrder,
+  SalesOrderDocument,
+  SalesOrderStatus,
+} from 'src/modules/sales/schemas/sales-order.schema';
+import { ProductionPlansService } from 'src/modules/production-plans/services/production-plans.service';
+import { ProductionPlan } from 'src/modules/production-plans/schemas/production-plan.schema';
+import { CreateForecastPlanDto } from '../dto/create-forecast-plan.dto';
+import {
+  ForecastPeriod,
+  ProductForecast,
+  ProductionForecast,
+} from '../types/ProductForecast';
+
+const DEFAULT_HORIZON_MONTHS = 3;
+const DEFAULT_HISTORY_MONTHS = 24;
+const LEVEL_MONTHS = 6; // Recent months the demand level is taken from
+const MIN_SEASONAL_INDEX = 0.05; // Keeps quiet months from dividing by zero
+const Z_80 = 1.2816; // Half-width of an 80% band in standard deviations
+
+/**
+ * Share of an average month's demand expected in each calendar month, Jan
+ * to Dec, for seasonal ranges without a year of their own history yet.
+ */
+const DEFAULT_SEASONALITY: Partial<Record<ProductCategory, number[]>> = {
+  [ProductCategory.CHRISTMAS]: [
+    0.2, 0.1, 0.1, 0.1, 0.1, 0.2, 0.3, 0.5, 1.0, 2.0, 3.4, 4.0,
+  ],
+  [ProductCategory.HALLOWEEN]: [
+    0.2, 0.1, 0.1, 0.1, 0.2, 0.3, 0.5, 1.0, 2.5, 5.0, 1.5, 0.5,
+  ],
+};
+
+const FLAT_SEASONALITY = Array<number>(12).fill(1);
+
+export type ForecastOptions = {
+  months?: number;
+  history?: number;
+  category?: ProductCategory;
+};
+
+/** First day of the month `offset` months on from the date, in UTC */
+function startOfMonth(date: Date, offset = 0): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1),
+  );
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function monthsFrom(start: Date, count: number): Date[] {
+  return Array.from({ length: count }, (_, i) => startOfMonth(start, i));
+}
+
+/**
+ * Forecasts monthly demand per product from sales, or from production for
+ * products not sold through the system yet. Demand is split into a level
+ * and a seasonal index per calendar month, learned per category once it
+ * has a year of history.
+ */
+@Injectable()
+export class ForecastingService {
+  constructor(
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    @InjectModel(SalesOrder.name)
+    private readonly salesOrderModel: Model<SalesOrderDocument>,
+    @InjectModel(ProductionBatch.name)
+    private readonly batchModel: Model<ProductionBatchDocument>,
+    private readonly productionPlansService: ProductionPlansService,
+  ) {}
+
+  async getForecasts(
+    options: ForecastOptions = {},
+  ): Promise<ProductForecast[]> {
+    const query: FilterQuery<Product> = {
+      status: { $ne: ProductStatus.DISCONTINUED },
+      'variantAxes.0': { $exists: false }, // Parents are never made or sold
+    };
+    if (options.category) query.category = options.category;
+
+    const products = await this.productModel.find(query).sort('name').exec();
+    return this.forecast(products, options);
+  }
+
+  async getForecast(
+    productId: string,
+    options: ForecastOptions = {},
+  ): Promise<ProductForecast> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const product = await this.productModel.findById(productId);
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    // The rest of the category is needed to learn its seasonality
+    const peers = await this.productModel.find({
+      _id: { $ne: product._id },
+      category: product.category,
+      status: { $ne: ProductStatus.DISCONTINUED },
+      'variantAxes.0': { $exists: false },
+    });
+    const [forecast] = await this.forecast([product, ...peers], options);
+    return forecast;
+  }
+
+  /**
+   * Products worth making over the horizon, and the materials to make them
+   * compared against stock at the location.
+   */
+  async getProductionForecast(
+    options: ForecastOptions & { location?: string } = {},
+  ): Promise<ProductionForecast> {
+    const products = (await this.getForecasts(options)).filter(
+      (forecast) => forecast.recommendedProduction > 0,
+    );
+    const requirements = await this.productionPlansService.estimateRequirements(
+      products.map((forecast) => ({
+        product: forecast.product,
+        quantity: forecast.recommendedProduction,
+      })),
+      options.location,
+    );
+
+    return { products, requirements };
+  }
+
+  /** Raises a draft production plan for the recommended quantities */
+  async createProductionPlan(
+    createForecastPlanDto: CreateForecastPlanDto,
+    userId: string,
+  ): Promise<ProductionPlan> {
+    const products = (await this.getForecasts(createForecastPlanDto)).filter(
+      (forecast) => forecast.recommendedProduction > 0,
+    );
+    if (products.length === 0) {
+      throw new BadRequestException(
+        'Stock already covers the forecast, so there is nothing to plan',
+      );
+    }
+
+    const periods = products[0].periods;
+    return this.productionPlansService.create(
+      {
+        name:
+          createForecastPlanDto.name ??
+          `Forecast ${periods[0].month} to ${periods[periods.length - 1].month}`,
+        plannedFor: createForecastPlanDto.plannedFor,
+        location: createForecastPlanDto.location,
+        items: products.map((forecast) => ({
+          product: forecast.product.toString(),
+          quantity: forecast.recommendedProduction,
+        })),
+        notes: 'Raised from the demand forecast',
+      },
+      userId,
+    );
+  }
+
+  private async forecast(
+    products: ProductDocument[],
+    {
+      months = DEFAULT_HORIZON_MONTHS,
+      history = DEFAULT_HISTORY_MONTHS,
+    }: ForecastOptions,
+  ): Promise<ProductForecast[]> {
+    // History runs up to the end of last month; the forecast starts with this one
+    const thisMonth = startOfMonth(new Date());
+    const historyStart = startOfMonth(thisMonth, -history);
+    const historyMonths = monthsFrom(historyStart, history);
+    const futureMonths = monthsFrom(thisMonth, months);
+
+    const ids = products.map((product) => product._id);
+    const [sales, production] = await Promise.all([
+      this.getMonthlySales(ids, historyStart, thisMonth),
+      this.getMonthlyProduction(ids, historyStart, thisMonth),
+    ]);
+
+    // Each product's demand series, oldest month first
+    const series = new Map<
+      string,
+      { basis: 'sales' | 'production'; quantities: number[] }
+    >();
+    for (const product of products) {
+      const id = product._id.toString();
+      const basis = sales.has(id) ? 'sales' : 'production';
+      const monthly = (basis === 'sales' ? sales : production).get(id);
+      series.set(id, {
+        basis,
+        quantities: historyMonths.map(
+          (month) => monthly?.get(monthKey(month)) ?? 0,
+        ),
+      });
+    }
+
+    const seasonality = this.getSeasonality(products, series, historyMonths);
+
+    return products.map((product) => {
+      const { basis, quantities } = series.get(product._id.toString())!;
+      const indices = seasonality.get(product.category) ?? FLAT_SEASONALITY;
+      const indexOf = (month: Date) => indices[month.getUTCMonth()];
+
+      // Months before the product's first demand say nothing about it
+      const first = quantities.findIndex((quantity) => quantity > 0);
+      const active = first === -1 ? [] : historyMonths.slice(first);
+      const activeQuantities = first === -1 ? [] : quantities.slice(first);
+
+      // Level is recent demand over the share of the year those months carry
+      const recent = active.slice(-LEVEL_MONTHS);
+      const recentIndex = recent.reduce((sum, m) => sum + indexOf(m), 0);
+      const recentDemand = activeQuantities
+        .slice(-LEVEL_MONTHS)
+        .reduce((sum, quantity) => sum + quantity, 0);
+      const level = recentIndex > 0 ? recentDemand / recentIndex : 0;
+
+      // Spread of the deseasonalised history, weighted so quiet months don't dominate
+      const weight = active.reduce((sum, m) => sum + indexOf(m), 0);
+      const deviation =
+        weight > 0
+          ? Math.sqrt(
+              active.reduce((sum, m, i) => {
+                const index = indexOf(m);
+                return sum + index * (activeQuantities[i] / index - level) ** 2;
+              }, 0) / weight,
+            )
+          : 0;
+
+      let variance = 0;
+      const periods: ForecastPeriod[] = futureMonths.map((month) => {
+        const seasonalIndex = indexOf(month);
+        const expected = level * seasonalIndex;
+        // Counts are never steadier than Poisson noise
+        const sd = Math.max(deviation * seasonalIndex, Math.sqrt(expected));
+        variance += sd ** 2;
+
+        return {
+          month: monthKey(month),
+          seasonalIndex,
+          expected,
+          lower: Math.max(0, expected - Z_80 * sd),
+          upper: expected + Z_80 * sd,
+        };
+      });
+
+      const expected = periods.reduce((sum, p) => sum + p.expected, 0);
+      const spread = Z_80 * Math.sqrt(variance);
+      const horizon = {
+        expected,
+        lower: Math.max(0, expected - spread),
+        upper: expected + spread,
+      };
+
+      return {
+        product: product._id,
+        name: product.name,
+        sku: product.sku,
+        category: product.category,
+        currentStock: product.currentStock,
+        basis,
+        history: historyMonths.map((month, i) => ({
+          month: monthKey(month),
+          quantity: quantities[i],
+        })),
+        averageMonthlyDemand: level,
+        periods,
+        horizon,
+        recommendedProduction: Math.max(
+          0,
+          Math.ceil(horizon.upper - product.currentStock),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Seasonal index per calendar month for each category. Categories with a
+   * year or more of pooled history use their own pattern; the rest fall
+   * back to the defaults, or to no seasonality.
+   */
+  private getSeasonality(
+    products: ProductDocument[],
+    series: Map<string, { quantities: number[] }>,
+    historyMonths: Date[],
+  ): Map<ProductCategory, number[]> {
+    const pooled = new Map<ProductCategory, number[]>();
+    for (const product of products) {
+      const quantities = series.get(product._id.toString())!.quantities;
+      const totals = pooled.get(product.category) ?? historyMonths.map(() => 0);
+      quantities.forEach((quantity, i) => (totals[i] += quantity));
+      pooled.set(product.category, totals);
+    }
+
+    const seasonality = new Map<ProductCategory, number[]>();
+    for (const [category, totals] of pooled) {
+      const first = totals.findIndex((total) => total > 0);
+      const learned =
+        first !== -1 && totals.length - first >= 12
+          ? this.learnSeasonality(
+              historyMonths.slice(first),
+              totals.slice(first),
+            )
+          : undefined;
+
+      seasonality.set(
+        category,
+        learned ?? DEFAULT_SEASONALITY[category] ?? FLAT_SEASONALITY,
+      );
+    }
+
+    return seasonality;
+  }
+
+  private learnSeasonality(
+    months: Date[],
+    totals: number[],
+  ): number[] | undefined {
+    const sums = Array<number>(12).fill(0);
+    const counts = Array<number>(12).fill(0);
+    months.forEach((month, i) => {
+      sums[month.getUTCMonth()] += totals[i];
+      counts[month.getUTCMonth()] += 1;
+    });
+
+    const averages = sums.map((sum, i) => sum / counts[i]);
+    const overall = averages.reduce((sum, average) => sum + average, 0) / 12;
+    if (overall === 0) return undefined;
+
+    return averages.map((average) =>
+      Math.max(MIN_SEASONAL_INDEX, average / overall),
+    );
+  }
+
+  /** Quantities sold per product per month, from fulfilled orders */
+  private async getMonthlySales(
+    products: Types.ObjectId[],
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, Map<string, number>>> {
+    const rows = await this.salesOrderModel.aggregate<{
+      _id: { product: Types.ObjectId; month: string };
+      quantity: number;
+    }>([
+      {
+        $match: {
+          status: SalesOrderStatus.FULFILLED,
+          orderedAt: { $gte: from, $lt: to },
+        },
+      },
+      { $unwind: '$lines' },
+      { $match: { 'lines.product': { $in: products } } },
+      {
+        $group: {
+          _id: {
+            product: '$lines.product',
+            month: { $dateToString: { format: '%Y-%m', date: '$orderedAt' } },
+          },
+          quantity: { $sum: '$lines.quantity' },
+        },
+      },
+    ]);
+
+    return this.byProductAndMonth(rows);
+  }
+
+  /** Quantities made per product per month, less anything reversed */
+  private async getMonthlyProduction(
+    products: Types.ObjectId[],
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, Map<string, number>>> {
+    const rows = await this.batchModel.aggregate<{
+      _id: { product: Types.ObjectId; month: string };
+      quantity: number;
+    }>([
+      {
+        $match: {
+          product: { $in: products },
+          createdAt: { $gte: from, $lt: to },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            product: '$product',
+            month: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+          },
+          quantity: {
+            $sum: {
+              $subtract: ['$quantity', { $ifNull: ['$reversedQuantity', 0] }],
+            },
+          },
+        },
+      },
+    ]);
+
+    return this.byProductAndMonth(rows);
+  }
+
+  private byProductAndMonth(
+    rows: Array<{
+      _id: { product: Types.ObjectId; month: string };
+      quantity: number;
+    }>,
+  ): Map<string, Map<string, number>> {
+    const result = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+      const key = row._id.product.toString();
+      const months = result.get(key) ?? new Map<string, number>();
+      months.set(row._id.month, row.quantity);
+      result.set(key, months);
+    }
+    return result;
+  }
+}
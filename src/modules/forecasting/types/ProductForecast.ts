@@ -0,0 +1,38 @@
+import { Types } from 'mongoose';
+import { ProductCategory } from 'src/modules/products/schemas/product.schema';
+import { ProductionPlanRequirements } from 'src/modules/production-plans/types/ProductionPlanRequirements';
+
+/** Demand in one calendar month, keyed YYYY-MM */
+export type DemandMonth = {
+  month: string;
+  quantity: number;
+};
+
+/** Expected demand with an 80% confidence band */
+export type ForecastPeriod = {
+  month: string;
+  seasonalIndex: number; // 1 is an average month
+  expected: number;
+  lower: number;
+  upper: number;
+};
+
+export type ProductForecast = {
+  product: Types.ObjectId;
+  name: string;
+  sku: string;
+  category: ProductCategory;
+  currentStock: number;
+  basis: 'sales' | 'production'; // Production stands in until there are sales
+  history: DemandMonth[];
+  averageMonthlyDemand: number; // With the seasonal swing taken out
+  periods: ForecastPeriod[];
+  horizon: { expected: number; lower: number; upper: number };
+  recommendedProduction: number; // Enough to meet the top of the band
+};
+
+/** What to make over the horizon, and the materials needed to make it */
+export type ProductionForecast = {
+  products: ProductForecast[];
+  requirements: ProductionPlanRequirements;
+};
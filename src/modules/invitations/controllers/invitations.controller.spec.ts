@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from '../services/invitations.service';
+
+describe('InvitationsController', () => {
+  let controller: InvitationsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [InvitationsController],
+      providers: [{ provide: InvitationsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<InvitationsController>(InvitationsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { UserDocument } from 'src/modules/user/schemas/User.schema';
+import { InvitationsService } from '../services/invitations.service';
+import { CreateInvitationDto } from '../dto/create-invitation.dto';
+import {
+  AcceptInvitationDto,
+  JoinWorkspaceDto,
+} from '../dto/accept-invitation.dto';
+
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @RequireVerified()
+  @Roles(UserRole.OWNER)
+  async create(
+    @Body() createInvitationDto: CreateInvitationDto,
+    @GetUser() user: UserDocument,
+  ) {
+    return this.invitationsService.createInvitation(createInvitationDto, user);
+  }
+
+  @Get()
+  @RequireVerified()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async findPending(@GetUser() user: UserDocument) {
+    return this.invitationsService.findPending(user.workspace!);
+  }
+
+  @Delete(':id')
+  @RequireVerified()
+  @Roles(UserRole.OWNER)
+  async revoke(@Param('id') id: string, @GetUser() user: UserDocument) {
+    return this.invitationsService.revoke(id, user.workspace!);
+  }
+
+  @Post(':id/resend')
+  @RequireVerified()
+  @Roles(UserRole.OWNER)
+  async resend(@Param('id') id: string, @GetUser() user: UserDocument) {
+    return this.invitationsService.resend(id, user);
+  }
+
+  /** public - used by the app before the invitee has an account */
+  @Get('validate')
+  async validate(@Query('token') token: string) {
+    return this.invitationsService.validateToken(token);
+  }
+
+  /** public - creates an account for the invitee */
+  @Throttle({
+    default: {
+      limit: 3, // 3 attempts
+      ttl: 60, // per 60 seconds
+      blockDuration: 300, // Optional: block for 5 minutes
+    },
+  })
+  @Post('accept')
+  async accept(@Body() acceptInvitationDto: AcceptInvitationDto) {
+    return this.invitationsService.acceptAsNewUser(acceptInvitationDto);
+  }
+
+  /** for invitees who already have an account and are logged in */
+  @Post('join')
+  @RequireVerified()
+  async join(
+    @Body() joinWorkspaceDto: JoinWorkspaceDto,
+    @GetUser() user: UserDocument,
+  ) {
+    return this.invitationsService.acceptAsExistingUser(
+      joinWorkspaceDto.token,
+      user,
+    );
+  }
+}
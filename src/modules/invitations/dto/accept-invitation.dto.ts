@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
+
+export class JoinWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,10 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+
+  @IsEnum(UserRole)
+  role: UserRole;
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Invitation, InvitationSchema } from './schemas/invitation.schema';
+import { User, UserSchema } from '../user/schemas/User.schema';
+import { InvitationsService } from './services/invitations.service';
+import { InvitationsController } from './controllers/invitations.controller';
+import { AuthModule } from '../auth/auth.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { EmailService } from '../email/email.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    WorkspacesModule,
+    MongooseModule.forFeature([
+      { name: Invitation.name, schema: InvitationSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [InvitationsController],
+  providers: [InvitationsService, EmailService],
+})
+export class InvitationsModule {}
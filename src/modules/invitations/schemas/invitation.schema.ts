@@ -0,0 +1,58 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+export type InvitationDocument = HydratedDocument<Invitation>;
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked',
+}
+
+// Invitations are looked up by token before the invitee belongs to any
+// workspace, so they are filtered by workspace explicitly rather than
+// through the workspace scope plugin.
+@Schema({ timestamps: true })
+export class Invitation {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ required: true, enum: UserRole })
+  role: UserRole;
+
+  @Prop({ required: true, select: false })
+  tokenHash: string; // sha256 of the token sent in the email
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({
+    required: true,
+    enum: InvitationStatus,
+    default: InvitationStatus.PENDING,
+  })
+  status: InvitationStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  invitedBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  acceptedBy: Types.ObjectId;
+
+  @Prop()
+  acceptedAt: Date;
+
+  @Prop()
+  revokedAt: Date;
+}
+
+export const InvitationSchema = SchemaFactory.createForClass(Invitation);
+
+InvitationSchema.index({ workspace: 1, status: 1 });
+InvitationSchema.index({ tokenHash: 1 });
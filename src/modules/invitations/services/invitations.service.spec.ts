@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { InvitationsService } from './invitations.service';
+import { Invitation, InvitationStatus } from '../schemas/invitation.schema';
+import { User, UserDocument } from 'src/modules/user/schemas/User.schema';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { EmailService } from 'src/modules/email/email.service';
+import { AuthService } from 'src/modules/auth/services/auth.service';
+import { WorkspacesService } from 'src/modules/workspaces/services/workspaces.service';
+
+const hash = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+  let invitationModel: Record<string, jest.Mock>;
+  let userModel: Record<string, jest.Mock>;
+  let emailService: { getAppName: jest.Mock; sendEmail: jest.Mock };
+
+  const workspaceId = new Types.ObjectId();
+  const inviter = {
+    _id: new Types.ObjectId(),
+    name: 'Ada',
+    workspace: workspaceId,
+  } as unknown as UserDocument;
+
+  const pendingInvitation = (fields = {}) => ({
+    _id: new Types.ObjectId(),
+    email: 'maker@example.com',
+    role: UserRole.MAKER,
+    workspace: new Types.ObjectId(),
+    status: InvitationStatus.PENDING,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    invitationModel = {
+      exists: jest.fn(),
+      create: jest.fn(),
+      findOne: jest.fn(),
+    };
+    userModel = {
+      exists: jest.fn(),
+      countDocuments: jest.fn(),
+      updateOne: jest.fn(),
+    };
+    emailService = {
+      getAppName: jest.fn().mockReturnValue('Makers'),
+      sendEmail: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        { provide: getModelToken(Invitation.name), useValue: invitationModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: AuthService, useValue: {} },
+        {
+          provide: WorkspacesService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue({ name: 'Candle Co' }),
+          },
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createInvitation', () => {
+    it('stores only a hash of the token and emails the token itself', async () => {
+      const invitation = pendingInvitation({ workspace: workspaceId });
+      invitationModel.exists.mockResolvedValue(null);
+      userModel.exists.mockResolvedValue(null);
+      invitationModel.create.mockResolvedValue(invitation);
+      invitationModel.findOne.mockReturnValue({
+        populate: jest.fn().mockResolvedValue(invitation),
+      });
+
+      await service.createInvitation(
+        { email: ' Maker@Example.com ', role: UserRole.MAKER },
+        inviter,
+      );
+
+      const created = invitationModel.create.mock.calls[0][0];
+      expect(created.email).toBe('maker@example.com');
+      expect(created.workspace).toBe(workspaceId);
+
+      const sent = emailService.sendEmail.mock.calls[0][0].text as string;
+      const token = /token=([0-9a-f]+)/.exec(sent)![1];
+      expect(created.tokenHash).toBe(hash(token));
+      expect(created.tokenHash).not.toBe(token);
+    });
+
+    it('refuses someone already in the business', async () => {
+      userModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.createInvitation(
+          { email: 'maker@example.com', role: UserRole.MAKER },
+          inviter,
+        ),
+      ).rejects.toThrow('maker@example.com is already part of this business');
+    });
+
+    it('refuses a second pending invitation to the same email', async () => {
+      userModel.exists.mockResolvedValue(null);
+      invitationModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.createInvitation(
+          { email: 'maker@example.com', role: UserRole.MAKER },
+          inviter,
+        ),
+      ).rejects.toThrow('already has a pending invitation');
+    });
+  });
+
+  describe('acceptAsExistingUser', () => {
+    const user = (fields = {}) =>
+      ({
+        _id: new Types.ObjectId(),
+        email: 'Maker@example.com',
+        ...fields,
+      }) as unknown as UserDocument;
+
+    it('looks the invitation up by the hash of the token', async () => {
+      invitationModel.findOne.mockResolvedValue(null);
+
+      await expect(service.acceptAsExistingUser('abc', user())).rejects.toThrow(
+        'Invalid or expired invitation',
+      );
+      expect(invitationModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokenHash: hash('abc'),
+          status: InvitationStatus.PENDING,
+        }),
+      );
+    });
+
+    it('moves the user into the business with the invited role', async () => {
+      const invitation = pendingInvitation();
+      const member = user();
+      invitationModel.findOne.mockResolvedValue(invitation);
+
+      await service.acceptAsExistingUser('abc', member);
+
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: member._id },
+        { workspace: invitation.workspace, role: UserRole.MAKER },
+      );
+      expect(invitation.status).toBe(InvitationStatus.ACCEPTED);
+      expect(invitation.save).toHaveBeenCalled();
+    });
+
+    it('refuses an invitation sent to someone else', async () => {
+      invitationModel.findOne.mockResolvedValue(pendingInvitation());
+
+      await expect(
+        service.acceptAsExistingUser(
+          'abc',
+          user({ email: 'other@example.com' }),
+        ),
+      ).rejects.toThrow('sent to a different email address');
+    });
+
+    it('stops the only owner leaving a business that has other members', async () => {
+      invitationModel.findOne.mockResolvedValue(pendingInvitation());
+      userModel.countDocuments
+        .mockResolvedValueOnce(0) // other owners
+        .mockResolvedValueOnce(2); // other members
+
+      await expect(
+        service.acceptAsExistingUser(
+          'abc',
+          user({ workspace: new Types.ObjectId(), role: UserRole.OWNER }),
+        ),
+      ).rejects.toThrow('Make another member an owner');
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  Invitation,
+  InvitationDocument,
+  InvitationStatus,
+} from '../schemas/invitation.schema';
+import { User, UserDocument } from 'src/modules/user/schemas/User.schema';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { EmailOptions, EmailService } from 'src/modules/email/email.service';
+import { AuthService } from 'src/modules/auth/services/auth.service';
+import { WorkspacesService } from 'src/modules/workspaces/services/workspaces.service';
+import { CreateInvitationDto } from '../dto/create-invitation.dto';
+import { AcceptInvitationDto } from '../dto/accept-invitation.dto';
+
+@Injectable()
+export class InvitationsService {
+  private readonly invitationTokenExpiry = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+
+  constructor(
+    @InjectModel(Invitation.name)
+    private readonly invitationModel: Model<InvitationDocument>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    private readonly authService: AuthService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createInvitation(
+    createInvitationDto: CreateInvitationDto,
+    inviter: UserDocument,
+  ): Promise<InvitationDocument> {
+    const email = createInvitationDto.email.trim().toLowerCase();
+
+    const existingMember = await this.userModel.exists({
+      email,
+      workspace: inviter.workspace,
+    });
+    if (existingMember) {
+      throw new ConflictException(`${email} is already part of this business`);
+    }
+
+    const pendingInvitation = await this.invitationModel.exists({
+      email,
+      workspace: inviter.workspace,
+      status: InvitationStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    });
+    if (pendingInvitation) {
+      throw new ConflictException(
+        `${email} already has a pending invitation. Resend it instead.`,
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await this.invitationModel.create({
+      email,
+      role: createInvitationDto.role,
+      workspace: inviter.workspace,
+      invitedBy: inviter._id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.invitationTokenExpiry),
+    });
+
+    await this.sendInvitationEmail(invitation, inviter, token);
+
+    return this.findOneInWorkspace(invitation._id, inviter.workspace!);
+  }
+
+  async findPending(workspaceId: Types.ObjectId): Promise<Invitation[]> {
+    return this.invitationModel
+      .find({ workspace: workspaceId, status: InvitationStatus.PENDING })
+      .populate('invitedBy', 'name email')
+      .sort('-createdAt')
+      .exec();
+  }
+
+  async revoke(id: string, workspaceId: Types.ObjectId): Promise<Invitation> {
+    const invitation = await this.findOneInWorkspace(id, workspaceId);
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new BadRequestException(
+        `Invitation has already been ${invitation.status}`,
+      );
+    }
+
+    invitation.status = InvitationStatus.REVOKED;
+    invitation.revokedAt = new Date();
+    return invitation.save();
+  }
+
+  /**
+   * Issues a fresh token and expiry for a pending invitation and emails it
+   * again. The previous link stops working.
+   */
+  async resend(id: string, inviter: UserDocument): Promise<Invitation> {
+    const invitation = await this.findOneInWorkspace(id, inviter.workspace!);
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new BadRequestException(
+        `Invitation has already been ${invitation.status}`,
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    invitation.tokenHash = this.hashToken(token);
+    invitation.expiresAt = new Date(Date.now() + this.invitationTokenExpiry);
+    await invitation.save();
+
+    await this.sendInvitationEmail(invitation, inviter, token);
+
+    return this.findOneInWorkspace(invitation._id, inviter.workspace!);
+  }
+
+  /**
+   * Lets the app show who the invite is from before the invitee signs up
+   */
+  async validateToken(token: string): Promise<{
+    email: string;
+    role: UserRole;
+    businessName: string;
+    accountExists: boolean;
+  }> {
+    const invitation = await this.findValidInvitation(token);
+    const workspace = await this.workspacesService.findById(
+      invitation.workspace,
+    );
+    const accountExists = await this.userModel.exists({
+      email: invitation.email,
+    });
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      businessName: workspace.name,
+      accountExists: !!accountExists,
+    };
+  }
+
+  /**
+   * Creates a new account for the invitee inside the inviter's business
+   */
+  async acceptAsNewUser(acceptInvitationDto: AcceptInvitationDto) {
+    const invitation = await this.findValidInvitation(
+      acceptInvitationDto.token,
+    );
+
+    const result = await this.authService.registerInvitedUser(
+      {
+        name: acceptInvitationDto.name,
+        email: invitation.email,
+        password: acceptInvitationDto.password,
+      },
+      { workspace: invitation.workspace, role: invitation.role },
+    );
+
+    await this.markAccepted(invitation, result.user.id);
+
+    return result;
+  }
+
+  /**
+   * Moves an existing, logged in user into the inviter's business
+   */
+  async acceptAsExistingUser(
+    token: string,
+    user: UserDocument,
+  ): Promise<{ success: boolean; message: string }> {
+    const invitation = await this.findValidInvitation(token);
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new BadRequestException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    if (user.workspace?.equals(invitation.workspace)) {
+      throw new ConflictException('You are already part of this business');
+    }
+
+    if (user.workspace && user.role === UserRole.OWNER) {
+      const [otherOwners, otherMembers] = await Promise.all([
+        this.userModel.countDocuments({
+          workspace: user.workspace,
+          role: UserRole.OWNER,
+          _id: { $ne: user._id },
+        }),
+        this.userModel.countDocuments({
+          workspace: user.workspace,
+          _id: { $ne: user._id },
+        }),
+      ]);
+
+      if (otherMembers > 0 && otherOwners === 0) {
+        throw new BadRequestException(
+          'Make another member an owner of your current business before leaving it',
+        );
+      }
+    }
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { workspace: invitation.workspace, role: invitation.role },
+    );
+    await this.markAccepted(invitation, user._id as string);
+
+    const workspace = await this.workspacesService.findById(
+      invitation.workspace,
+    );
+
+    return {
+      success: true,
+      message: `You have joined ${workspace.name}`,
+    };
+  }
+
+  private async findValidInvitation(
+    token: string,
+  ): Promise<InvitationDocument> {
+    if (!token) {
+      throw new BadRequestException('Invitation token is required');
+    }
+
+    const invitation = await this.invitationModel.findOne({
+      tokenHash: this.hashToken(token),
+      status: InvitationStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  private async findOneInWorkspace(
+    id: string | Types.ObjectId,
+    workspaceId: Types.ObjectId,
+  ): Promise<InvitationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    const invitation = await this.invitationModel
+      .findOne({ _id: id, workspace: workspaceId })
+      .populate('invitedBy', 'name email');
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private async markAccepted(
+    invitation: InvitationDocument,
+    userId: string,
+  ): Promise<void> {
+    invitation.status = InvitationStatus.ACCEPTED;
+    invitation.acceptedBy = new Types.ObjectId(userId);
+    invitation.acceptedAt = new Date();
+    await invitation.save();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Send the invitation email with the unhashed token
+   */
+  private async sendInvitationEmail(
+    invitation: InvitationDocument,
+    inviter: UserDocument,
+    token: string,
+  ): Promise<void> {
+    const appName = this.emailService.getAppName();
+    const workspace = await this.workspacesService.findById(
+      invitation.workspace,
+    );
+
+    // For Capacitor apps
+    const scheme = this.configService.get<string>('APP_URL') || 'gymnoteplus';
+    const inviteUrl = `${scheme}://accept-invite?token=${token}`;
+
+    const text = `
+Hello,
+
+${inviter.name} has invited you to join ${workspace.name} on ${appName} as a ${invitation.role}.
+
+Please click the link below to accept the invitation:
+
+${inviteUrl}
+
+This invitation will expire in 7 days.
+
+If you were not expecting this invitation, you can ignore this email.
+
+Thank you,
+${appName} Team
+  `;
+
+    const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>You're Invited</title>
+</head>
+<body style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333333; line-height: 1.6;">
+  <div style="text-align: center; margin-bottom: 25px;">
+    <img src="https://i.imgur.com/Aobatoz.png" alt="${appName} Logo" style="max-height: 60px; width: auto;">
+  </div>
+
+  <div style="background-color: #f9f9f9; border-radius: 8px; padding: 25px; border-left: 4px solid #4285f4;">
+    <h2 style="color: #4285f4; margin-top: 0;">Join ${workspace.name}</h2>
+
+    <p>Hello,</p>
+
+    <p><strong>${inviter.name}</strong> has invited you to join <strong>${workspace.name}</strong> on ${appName} as a <strong>${invitation.role}</strong>.</p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${inviteUrl}" style="background-color: #4285f4; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold; display: inline-block;">Accept Invitation in App</a>
+    </div>
+
+    <p>Or copy this link:</p>
+    <p style="background-color: #e9e9e9; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 14px;">
+      ${inviteUrl}
+    </p>
+
+    <p>This invitation will expire in 7 days.</p>
+
+    <p>If you were not expecting this invitation, you can ignore this email.</p>
+  </div>
+
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #dddddd; font-size: 12px; color: #777777; text-align: center;">
+    <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+  </div>
+</body>
+</html>
+  `;
+
+    const emailOptions: EmailOptions = {
+      to: invitation.email,
+      subject: `${inviter.name} invited you to ${workspace.name} - ${appName}`,
+      text,
+      html,
+    };
+
+    await this.emailService.sendEmail(emailOptions);
+  }
+}
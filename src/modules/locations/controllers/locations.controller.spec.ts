@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LocationsController } from './locations.controller';
+import { LocationsService } from '../services/locations.service';
+
+describe('LocationsController', () => {
+  let controller: LocationsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LocationsController],
+      providers: [{ provide: LocationsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<LocationsController>(LocationsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
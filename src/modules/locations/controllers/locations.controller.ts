@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { LocationsService } from '../services/locations.service';
+import { Location } from '../schemas/location.schema';
+import { CreateLocationDto, UpdateLocationDto } from '../dto/location.dto';
+import { SetLocationMinimumDto } from '../dto/set-location-minimum.dto';
+
+@RequireVerified()
+@Controller('locations')
+export class LocationsController {
+  constructor(private readonly locationsService: LocationsService) {}
+
+  @Get()
+  async findAll(
+    @Query('includeInactive') includeInactive?: boolean,
+  ): Promise<Location[]> {
+    // make sure every workspace has somewhere to put stock
+    await this.locationsService.getDefaultLocationId();
+    return this.locationsService.findAll(includeInactive);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<Location> {
+    return this.locationsService.findOne(id);
+  }
+
+  @Get(':id/stock')
+  async getStock(@Param('id') id: string) {
+    return this.locationsService.getStockAtLocation(id);
+  }
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async create(@Body() createLocationDto: CreateLocationDto) {
+    return this.locationsService.create(createLocationDto);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async update(
+    @Param('id') id: string,
+    @Body() updateLocationDto: UpdateLocationDto,
+  ) {
+    return this.locationsService.update(id, updateLocationDto);
+  }
+
+  @Put(':id/minimum-stock')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async setMinimumStock(
+    @Param('id') id: string,
+    @Body() setLocationMinimumDto: SetLocationMinimumDto,
+  ) {
+    return this.locationsService.setMinimumStock(id, setLocationMinimumDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async remove(@Param('id') id: string): Promise<void> {
+    const deleted = await this.locationsService.remove(id);
+    if (!deleted) {
+      throw new NotFoundException(`Location with ID "${id}" not found`);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class CreateLocationDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class UpdateLocationDto extends PartialType(CreateLocationDto) {
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
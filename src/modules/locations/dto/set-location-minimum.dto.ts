@@ -0,0 +1,13 @@
+import { IsIn, IsMongoId, IsNumber, Min } from 'class-validator';
+
+export class SetLocationMinimumDto {
+  @IsIn(['material', 'product'])
+  itemType: 'material' | 'product';
+
+  @IsMongoId()
+  itemId: string;
+
+  @IsNumber()
+  @Min(0)
+  minimumStock: number;
+}
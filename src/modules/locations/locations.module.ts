@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Location, LocationSchema } from './schemas/location.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { LocationsService } from './services/locations.service';
+import { LocationsController } from './controllers/locations.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Location.name, schema: LocationSchema },
+      { name: Material.name, schema: MaterialSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [LocationsController],
+  providers: [LocationsService],
+  exports: [LocationsService],
+})
+export class LocationsModule {}
@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema({ _id: false })
+export class LocationStock {
+  @Prop({ type: Types.ObjectId, ref: 'Location', required: true })
+  location: Types.ObjectId;
+
+  @Prop({ required: true, default: 0, min: 0 })
+  quantity: number;
+
+  @Prop({ default: 0, min: 0 })
+  minimumStock: number;
+}
+
+export const LocationStockSchema = SchemaFactory.createForClass(LocationStock);
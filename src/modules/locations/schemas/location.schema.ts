@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+
+export type LocationDocument = HydratedDocument<Location>;
+
+@Schema({ timestamps: true })
+export class Location {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ default: false })
+  isDefault: boolean; // Receives stock movements that don't name a location
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const LocationSchema = SchemaFactory.createForClass(Location);
+
+LocationSchema.plugin(workspaceScopePlugin);
+
+LocationSchema.index({ workspace: 1, name: 1 }, { unique: true });
+LocationSchema.index(
+  { workspace: 1, isDefault: 1 },
+  { unique: true, partialFilterExpression: { isDefault: true } },
+);
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { LocationsService } from './locations.service';
+import { Location } from '../schemas/location.schema';
+import { LocationStock } from '../schemas/location-stock.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+
+describe('LocationsService', () => {
+  let service: LocationsService;
+  let locationModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+
+  const main = new Types.ObjectId();
+  const shed = new Types.ObjectId();
+
+  const item = (currentStock: number, locationStock: LocationStock[] = []) =>
+    ({
+      name: 'Soy wax',
+      currentStock,
+      locationStock,
+    }) as unknown as MaterialDocument;
+
+  beforeEach(async () => {
+    locationModel = {
+      findById: jest.fn(),
+      findOneAndUpdate: jest.fn().mockResolvedValue({ _id: main }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    materialModel = { exists: jest.fn(), updateMany: jest.fn() };
+    productModel = { exists: jest.fn(), updateMany: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocationsService,
+        { provide: getModelToken(Location.name), useValue: locationModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+      ],
+    }).compile();
+
+    service = module.get<LocationsService>(LocationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('applyStockChange', () => {
+    it('moves stock at one location and keeps the total in step', async () => {
+      const wax = item(10, [
+        { location: main, quantity: 6, minimumStock: 0 },
+        { location: shed, quantity: 4, minimumStock: 0 },
+      ]);
+
+      await service.applyStockChange(wax, shed, -3);
+
+      expect(wax.locationStock[1].quantity).toBe(1);
+      expect(wax.currentStock).toBe(7);
+    });
+
+    it('refuses to take more than the location holds', async () => {
+      const wax = item(10, [
+        { location: main, quantity: 9, minimumStock: 0 },
+        { location: shed, quantity: 1, minimumStock: 0 },
+      ]);
+
+      await expect(service.applyStockChange(wax, shed, -2)).rejects.toThrow(
+        'Insufficient Soy wax at this location',
+      );
+      expect(wax.currentStock).toBe(10);
+    });
+
+    it('counts stock from before locations as held at the default', async () => {
+      const wax = item(5);
+
+      await service.applyStockChange(wax, shed, 2);
+
+      expect(wax.locationStock).toEqual([
+        { location: main, quantity: 5, minimumStock: 0 },
+        { location: shed, quantity: 2, minimumStock: 0 },
+      ]);
+      expect(wax.currentStock).toBe(7);
+    });
+  });
+
+  describe('getQuantityAt', () => {
+    it('is zero where nothing has been held', async () => {
+      const wax = item(3, [{ location: main, quantity: 3, minimumStock: 0 }]);
+
+      await expect(service.getQuantityAt(wax, shed)).resolves.toBe(0);
+    });
+  });
+
+  describe('remove', () => {
+    it('keeps a location that still holds stock', async () => {
+      locationModel.findById.mockResolvedValue({ _id: shed, isDefault: false });
+      materialModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+      productModel.exists.mockResolvedValue(null);
+
+      await expect(service.remove(shed.toString())).rejects.toThrow(
+        'Location still holds stock',
+      );
+      expect(locationModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('keeps the default location', async () => {
+      locationModel.findById.mockResolvedValue({ _id: main, isDefault: true });
+
+      await expect(service.remove(main.toString())).rejects.toThrow(
+        'The default location cannot be deleted',
+      );
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Location, LocationDocument } from '../schemas/location.schema';
+import { LocationStock } from '../schemas/location-stock.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { CreateLocationDto, UpdateLocationDto } from '../dto/location.dto';
+import { SetLocationMinimumDto } from '../dto/set-location-minimum.dto';
+
+/** Anything that keeps stock, i.e. a material or a product document */
+export type StockedItem = {
+  name: string;
+  currentStock: number;
+  locationStock: LocationStock[];
+};
+
+@Injectable()
+export class LocationsService {
+  constructor(
+    @InjectModel(Location.name)
+    private readonly locationModel: Model<LocationDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+  ) {}
+
+  async findAll(includeInactive = false): Promise<LocationDocument[]> {
+    return this.locationModel
+      .find(includeInactive ? {} : { isActive: true })
+      .sort({ isDefault: -1, name: 1 })
+      .exec();
+  }
+
+  async findOne(id: string | Types.ObjectId): Promise<LocationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Location not found');
+    }
+    const location = await this.locationModel.findById(id);
+    if (!location) {
+      throw new NotFoundException('Location not found');
+    }
+    return location;
+  }
+
+  async create(createLocationDto: CreateLocationDto): Promise<Location> {
+    // Make sure the default exists before anyone adds a second location
+    await this.getDefaultLocationId();
+    return this.locationModel.create({
+      ...createLocationDto,
+      isDefault: false,
+    });
+  }
+
+  async update(
+    id: string,
+    updateLocationDto: UpdateLocationDto,
+  ): Promise<Location> {
+    const location = await this.findOne(id);
+
+    if (location.isDefault && updateLocationDto.isActive === false) {
+      throw new BadRequestException(
+        'The default location cannot be deactivated',
+      );
+    }
+
+    Object.assign(location, updateLocationDto);
+    return location.save();
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const location = await this.findOne(id);
+
+    if (location.isDefault) {
+      throw new BadRequestException('The default location cannot be deleted');
+    }
+
+    const stockFilter = {
+      locationStock: {
+        $elemMatch: { location: location._id, quantity: { $gt: 0 } },
+      },
+    };
+    const [materialsHere, productsHere] = await Promise.all([
+      this.materialModel.exists(stockFilter),
+      this.productModel.exists(stockFilter),
+    ]);
+
+    if (materialsHere || productsHere) {
+      throw new BadRequestException(
+        'Location still holds stock. Transfer it elsewhere or deactivate the location instead.',
+      );
+    }
+
+    await Promise.all([
+      this.materialModel.updateMany(
+        {},
+        { $pull: { locationStock: { location: location._id } } },
+      ),
+      this.productModel.updateMany(
+        {},
+        { $pull: { locationStock: { location: location._id } } },
+      ),
+    ]);
+
+    const res = await this.locationModel.deleteOne({ _id: location._id });
+    return res.deletedCount === 1;
+  }
+
+  /**
+   * Materials and products held at a location along with their quantity and
+   * whether they are below that location's minimum.
+   */
+  async getStockAtLocation(id: string) {
+    const location = await this.findOne(id);
+    const filter = { 'locationStock.location': location._id };
+
+    const [materials, products] = await Promise.all([
+      this.materialModel.find(filter).populate('unit').sort('name').exec(),
+      this.productModel.find(filter).sort('name').exec(),
+    ]);
+
+    const toRow = (item: MaterialDocument | ProductDocument) => {
+      const entry = item.locationStock.find((s) =>
+        s.location.equals(location._id),
+      )!;
+      return {
+        _id: item._id,
+        name: item.name,
+        sku: item.sku,
+        quantity: entry.quantity,
+        minimumStock: entry.minimumStock,
+        isLowStock: entry.quantity < entry.minimumStock,
+      };
+    };
+
+    return {
+      location,
+      materials: materials.map((m) => ({
+        ...toRow(m),
+        unit: m.unit,
+      })),
+      products: products.map(toRow),
+    };
+  }
+
+  async setMinimumStock(
+    id: string,
+    setLocationMinimumDto: SetLocationMinimumDto,
+  ): Promise<LocationStock> {
+    const location = await this.findOne(id);
+    const { itemType, itemId, minimumStock } = setLocationMinimumDto;
+
+    const item =
+      itemType === 'material'
+        ? await this.materialModel.findById(itemId)
+        : await this.productModel.findById(itemId);
+
+    if (!item) {
+      throw new NotFoundException(`${itemType} not found`);
+    }
+
+    const entry = await this.getEntry(item, location._id);
+    entry.minimumStock = minimumStock;
+    await item.save();
+
+    return entry;
+  }
+
+  /**
+   * The workspace's default location, created on first use
+   */
+  async getDefaultLocationId(): Promise<Types.ObjectId> {
+    const location = await this.locationModel.findOneAndUpdate(
+      { isDefault: true },
+      { $setOnInsert: { name: 'Main', isDefault: true, isActive: true } },
+      { upsert: true, new: true },
+    );
+    return location._id;
+  }
+
+  /**
+   * Validates a location id from a request, falling back to the default
+   * location when none is given.
+   */
+  async resolveLocationId(
+    locationId?: string | Types.ObjectId,
+  ): Promise<Types.ObjectId> {
+    if (!locationId) return this.getDefaultLocationId();
+
+    const location = await this.findOne(locationId);
+    if (!location.isActive) {
+      throw new BadRequestException(`${location.name} is not active`);
+    }
+    return location._id;
+  }
+
+  /**
+   * Quantity of an item held at one location
+   */
+  async getQuantityAt(
+    item: StockedItem,
+    locationId: Types.ObjectId,
+  ): Promise<number> {
+    const entry = await this.getEntry(item, locationId);
+    return entry.quantity;
+  }
+
+  /**
+   * Moves `delta` units into (positive) or out of (negative) one location of
+   * a material or product and keeps `currentStock` equal to the sum across
+   * locations. The caller is responsible for saving the document.
+   */
+  async applyStockChange(
+    item: StockedItem,
+    locationId: Types.ObjectId,
+    delta: number,
+  ): Promise<void> {
+    const entry = await this.getEntry(item, locationId);
+    const newQuantity = entry.quantity + delta;
+
+    // allow for floating point dust on fractional quantities
+    if (newQuantity < -1e-9) {
+      throw new BadRequestException(
+        `Insufficient ${item.name} at this location. Need ${Math.abs(delta)}, have ${entry.quantity}`,
+      );
+    }
+
+    entry.quantity = Math.max(0, newQuantity);
+    item.currentStock = Math.max(0, item.currentStock + delta);
+  }
+
+  /**
+   * Returns the item's entry for a location, adding one if needed. Stock
+   * recorded before locations existed (or changed without one) is whatever
+   * `currentStock` holds beyond the tracked entries; it is folded into the
+   * default location first.
+   */
+  private async getEntry(
+    item: StockedItem,
+    locationId: Types.ObjectId,
+  ): Promise<LocationStock> {
+    const tracked = item.locationStock.reduce((sum, s) => sum + s.quantity, 0);
+    const untracked = item.currentStock - tracked;
+
+    if (Math.abs(untracked) > 1e-9) {
+      const defaultId = await this.getDefaultLocationId();
+      const defaultEntry = this.findOrAddEntry(item, defaultId);
+      defaultEntry.quantity = Math.max(0, defaultEntry.quantity + untracked);
+    }
+
+    return this.findOrAddEntry(item, locationId);
+  }
+
+  private findOrAddEntry(
+    item: StockedItem,
+    locationId: Types.ObjectId,
+  ): LocationStock {
+    let entry = item.locationStock.find((s) => s.location.equals(locationId));
+    if (!entry) {
+      item.locationStock.push({
+        location: locationId,
+        quantity: 0,
+        minimumStock: 0,
+      });
+      // read back the casted subdocument so later changes are tracked
+      entry = item.locationStock[item.locationStock.length - 1];
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LotsController } from './lots.controller';
+import { LotsService } from '../services/lots.service';
+
+describe('LotsController', () => {
+  let controller: LotsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LotsController],
+      providers: [{ provide: LotsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<LotsController>(LotsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
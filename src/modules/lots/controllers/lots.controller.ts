@@ -0,0 +1,41 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { LotsService } from '../services/lots.service';
+import { MaterialLot } from '../schemas/material-lot.schema';
+import { LotFiltersDto } from '../dto/lot-filters.dto';
+import { BatchBackwardTrace, LotForwardTrace } from '../types/LotTrace';
+
+@RequireVerified()
+@Controller('lots')
+export class LotsController {
+  constructor(private readonly lotsService: LotsService) {}
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: LotFiltersDto,
+  ): Promise<PaginatedResponse<MaterialLot>> {
+    return this.lotsService.findAll(page, pageSize, body);
+  }
+
+  /** lots that went into a production batch */
+  @Get('batch/:batchId')
+  async backwardTrace(
+    @Param('batchId') batchId: string,
+  ): Promise<BatchBackwardTrace> {
+    return this.lotsService.backwardTrace(batchId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<MaterialLot> {
+    return this.lotsService.findOne(id);
+  }
+
+  /** production batches that used a lot */
+  @Get(':id/batches')
+  async forwardTrace(@Param('id') id: string): Promise<LotForwardTrace> {
+    return this.lotsService.forwardTrace(id);
+  }
+}
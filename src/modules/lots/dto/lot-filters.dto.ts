@@ -0,0 +1,16 @@
+import { IsBoolean, IsMongoId, IsOptional, IsString } from 'class-validator';
+
+export class LotFiltersDto {
+  @IsOptional()
+  @IsMongoId()
+  material?: string;
+
+  /** Matches the lot number or the supplier's lot code */
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  includeDepleted?: boolean;
+}
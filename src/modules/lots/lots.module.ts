@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MaterialLot, MaterialLotSchema } from './schemas/material-lot.schema';
+import {
+  ProductionBatch,
+  ProductionBatchSchema,
+} from '../production/schemas/production-batch.schema';
+import { LocationsModule } from '../locations/locations.module';
+import { LotsService } from './services/lots.service';
+import { LotsController } from './controllers/lots.controller';
+
+@Module({
+  imports: [
+    LocationsModule,
+    MongooseModule.forFeature([
+      { name: MaterialLot.name, schema: MaterialLotSchema },
+      { name: ProductionBatch.name, schema: ProductionBatchSchema },
+    ]),
+  ],
+  controllers: [LotsController],
+  providers: [LotsService],
+  exports: [LotsService],
+})
+export class LotsModule {}
@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+
+export type MaterialLotDocument = HydratedDocument<MaterialLot>;
+
+/**
+ * A quantity of material received in one go, e.g. from a material order.
+ * Production draws lots down oldest first.
+ */
+@Schema({ timestamps: true })
+export class MaterialLot {
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Material', required: true })
+  material: Types.ObjectId;
+
+  @Prop({ required: true })
+  lotNumber: string;
+
+  @Prop()
+  supplierLotCode: string; // As printed on the supplier's label
+
+  @Prop()
+  supplier: string;
+
+  @Prop({ required: true })
+  receivedAt: Date;
+
+  @Prop({ required: true, min: 0 })
+  quantityReceived: number;
+
+  @Prop({ required: true, min: 0 })
+  quantityRemaining: number;
+
+  @Prop({ required: true, min: 0 })
+  unitCost: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'MaterialOrder' })
+  order: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'PurchaseOrder' })
+  purchaseOrder: Types.ObjectId; // Set instead of order for goods receipts
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId; // Where it is held
+
+  @Prop({ type: Types.ObjectId, ref: 'MaterialLot' })
+  splitFrom?: Types.ObjectId; // The lot it was split from by a transfer
+}
+
+export const MaterialLotSchema = SchemaFactory.createForClass(MaterialLot);
+
+MaterialLotSchema.plugin(workspaceScopePlugin);
+
+MaterialLotSchema.index({ workspace: 1, material: 1, receivedAt: 1 });
+MaterialLotSchema.index({ workspace: 1, supplierLotCode: 1 });
+MaterialLotSchema.index({ workspace: 1, order: 1 });
+MaterialLotSchema.index({ workspace: 1, splitFrom: 1 });
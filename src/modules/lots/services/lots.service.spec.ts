@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { LotsService } from './lots.service';
+import { MaterialLot } from '../schemas/material-lot.schema';
+import { MaterialDocument } from 'src/modules/materials/schemas/material.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+describe('LotsService', () => {
+  let service: LotsService;
+  let lotModel: Record<string, jest.Mock>;
+  let batchModel: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+
+  const main = new Types.ObjectId();
+  const shed = new Types.ObjectId();
+  const wax = { _id: new Types.ObjectId() } as MaterialDocument;
+
+  const lot = (quantityRemaining: number, fields = {}) => ({
+    _id: new Types.ObjectId(),
+    material: wax._id,
+    lotNumber: 'LOT-1',
+    receivedAt: new Date('2026-01-01'),
+    quantityReceived: quantityRemaining,
+    quantityRemaining,
+    unitCost: 2,
+    location: main,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    lotModel = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findById: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    };
+    batchModel = { find: jest.fn() };
+    locationsService = {
+      getDefaultLocationId: jest.fn().mockResolvedValue(main),
+      getQuantityAt: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LotsService,
+        { provide: getModelToken(MaterialLot.name), useValue: lotModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: batchModel },
+        { provide: LocationsService, useValue: locationsService },
+      ],
+    }).compile();
+
+    service = module.get<LotsService>(LotsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findRemaining', () => {
+    it('counts lots from before locations as held at the default', async () => {
+      lotModel.find.mockReturnValue(mockQuery([]));
+
+      await service.findRemaining(wax._id, main);
+
+      expect(lotModel.find).toHaveBeenCalledWith({
+        material: wax._id,
+        quantityRemaining: { $gt: 0 },
+        location: { $in: [main, null] },
+      });
+    });
+
+    it('only finds lots held at any other location', async () => {
+      lotModel.find.mockReturnValue(mockQuery([]));
+
+      await service.findRemaining(wax._id, shed);
+
+      expect(lotModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({ location: shed }),
+      );
+    });
+  });
+
+  describe('consume', () => {
+    it('draws the oldest lots first', async () => {
+      const oldest = lot(3);
+      const newer = lot(5);
+      lotModel.find.mockReturnValue(mockQuery([oldest, newer]));
+
+      const usages = await service.consume(wax, 4, main, 8);
+
+      expect(usages).toEqual([
+        { lot: oldest._id, quantity: 3 },
+        { lot: newer._id, quantity: 1 },
+      ]);
+      expect(oldest.quantityRemaining).toBe(0);
+      expect(newer.quantityRemaining).toBe(4);
+    });
+
+    it('uses stock held without a lot before any lot', async () => {
+      const only = lot(5);
+      lotModel.find.mockReturnValue(mockQuery([only]));
+
+      // 7 held, 5 of it in the lot
+      const usages = await service.consume(wax, 3, main, 7);
+
+      expect(usages).toEqual([{ lot: only._id, quantity: 1 }]);
+      expect(only.quantityRemaining).toBe(4);
+    });
+
+    it('works out what the location held when not told', async () => {
+      lotModel.find.mockReturnValue(mockQuery([lot(2)]));
+      locationsService.getQuantityAt.mockResolvedValue(2);
+
+      const usages = await service.consume(wax, 2, shed);
+
+      expect(locationsService.getQuantityAt).toHaveBeenCalledWith(wax, shed);
+      expect(usages).toHaveLength(1);
+    });
+  });
+
+  describe('transfer', () => {
+    it('moves whole lots and splits the last one', async () => {
+      const first = lot(3);
+      const second = lot(5);
+      lotModel.find.mockReturnValue(mockQuery([first, second]));
+
+      await service.transfer(wax, 4, main, shed, 8);
+
+      expect(first.location).toBe(shed);
+      expect(first.quantityRemaining).toBe(3);
+      expect(second.location).toBe(main);
+      expect(second.quantityRemaining).toBe(4);
+      expect(lotModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lotNumber: 'LOT-1',
+          quantityReceived: 1,
+          quantityRemaining: 1,
+          unitCost: 2,
+          location: shed,
+          splitFrom: second._id,
+        }),
+      );
+    });
+
+    it('moves stock held without a lot before any lot', async () => {
+      const only = lot(5);
+      lotModel.find.mockReturnValue(mockQuery([only]));
+
+      await service.transfer(wax, 2, main, shed, 7);
+
+      expect(only.location).toBe(main);
+      expect(lotModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('puts the quantity back on the lot it came from', async () => {
+      const used = lot(2);
+      lotModel.findById.mockResolvedValue(used);
+
+      await service.restore([{ lot: used._id, quantity: 3 }], main);
+
+      expect(used.quantityRemaining).toBe(5);
+      expect(lotModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('uses the part of a moved lot held where the stock goes back', async () => {
+      const used = lot(0, { location: shed });
+      const part = lot(1);
+      lotModel.findById.mockResolvedValue(used);
+      lotModel.findOne.mockResolvedValue(part);
+
+      await service.restore([{ lot: used._id, quantity: 3 }], main);
+
+      expect(lotModel.findOne).toHaveBeenCalledWith({
+        $or: [{ _id: used._id }, { splitFrom: used._id }],
+        location: { $in: [main, null] },
+      });
+      expect(used.quantityRemaining).toBe(0);
+      expect(part.quantityRemaining).toBe(4);
+    });
+
+    it('starts a new part when none of the lot is held there', async () => {
+      const original = new Types.ObjectId();
+      const used = lot(0, { splitFrom: original });
+      lotModel.findById.mockResolvedValue(used);
+      lotModel.findOne.mockResolvedValue(null);
+
+      await service.restore([{ lot: used._id, quantity: 3 }], shed);
+
+      expect(lotModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lotNumber: 'LOT-1',
+          quantityRemaining: 3,
+          unitCost: 2,
+          location: shed,
+          splitFrom: original,
+        }),
+      );
+    });
+  });
+
+  describe('removeForOrder', () => {
+    it('refuses once some of the lot has been used', async () => {
+      const received = lot(2, { quantityReceived: 5 });
+      lotModel.findOne.mockResolvedValue(received);
+      lotModel.find.mockReturnValue(mockQuery([lot(1, { location: shed })]));
+
+      await expect(
+        service.removeForOrder(new Types.ObjectId()),
+      ).rejects.toThrow('already used');
+      expect(lotModel.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('removes the parts moved elsewhere and says where they are', async () => {
+      const received = lot(2, { quantityReceived: 5 });
+      const part = lot(3, { location: shed });
+      lotModel.findOne.mockResolvedValue(received);
+      lotModel.find.mockReturnValue(mockQuery([part]));
+
+      const holdings = await service.removeForOrder(new Types.ObjectId());
+
+      expect(lotModel.find).toHaveBeenCalledWith({ splitFrom: received._id });
+      expect(lotModel.deleteMany).toHaveBeenCalledWith({
+        _id: { $in: [received._id, part._id] },
+      });
+      expect(holdings).toEqual([
+        { location: main, quantity: 2 },
+        { location: shed, quantity: 3 },
+      ]);
+    });
+
+    it('has nothing to say for orders from before lots', async () => {
+      lotModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.removeForOrder(new Types.ObjectId()),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('forwardTrace', () => {
+    it('includes batches that used parts of the lot moved elsewhere', async () => {
+      const original = lot(3);
+      const part = lot(1, { splitFrom: original._id });
+      lotModel.findById.mockReturnValue(mockQuery(original));
+      lotModel.find.mockReturnValue(mockQuery([{ _id: part._id }]));
+      batchModel.find.mockReturnValue(
+        mockQuery([
+          {
+            _id: new Types.ObjectId(),
+            batchNumber: 'BATCH-1',
+            quantity: 10,
+            materialCosts: [
+              {
+                lots: [
+                  { lot: original._id, quantity: 2 },
+                  { lot: part._id, quantity: 1 },
+                ],
+              },
+            ],
+          },
+        ]),
+      );
+
+      const trace = await service.forwardTrace(original._id.toString());
+
+      expect(batchModel.find).toHaveBeenCalledWith({
+        'materialCosts.lots.lot': { $in: [original._id, part._id] },
+      });
+      expect(trace.totalQuantityUsed).toBe(3);
+    });
+  });
+});
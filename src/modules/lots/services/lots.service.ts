@@ -0,0 +1,422 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  MaterialLot,
+  MaterialLotDocument,
+} from '../schemas/material-lot.schema';
+import { MaterialDocument } from 'src/modules/materials/schemas/material.schema';
+import {
+  ProductionBatch,
+  ProductionBatchDocument,
+} from 'src/modules/production/schemas/production-batch.schema';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotFiltersDto } from '../dto/lot-filters.dto';
+import { LotUsage } from '../types/LotUsage';
+import { LotHolding } from '../types/LotHolding';
+import { BatchBackwardTrace, LotForwardTrace } from '../types/LotTrace';
+
+@Injectable()
+export class LotsService {
+  constructor(
+    @InjectModel(MaterialLot.name)
+    private readonly lotModel: Model<MaterialLotDocument>,
+    @InjectModel(ProductionBatch.name)
+    private readonly batchModel: Model<ProductionBatchDocument>,
+    private readonly locationsService: LocationsService,
+  ) {}
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: LotFiltersDto,
+  ): Promise<PaginatedResponse<MaterialLot>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<MaterialLot> = {};
+
+    if (filters?.material) {
+      query.material = new Types.ObjectId(filters.material);
+    }
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { lotNumber: { $regex: filters.searchTerm, $options: 'i' } },
+        { supplierLotCode: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+
+    if (!filters?.includeDepleted) {
+      query.quantityRemaining = { $gt: 0 };
+    }
+
+    const [data, total] = await Promise.all([
+      this.lotModel
+        .find(query)
+        .populate('material', 'name sku')
+        .populate('location', 'name')
+        .sort('-receivedAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.lotModel.countDocuments(query),
+    ]);
+
+    return { data, page, pageSize, total };
+  }
+
+  async findOne(id: string): Promise<MaterialLotDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Lot not found');
+    }
+    const lot = await this.lotModel
+      .findById(id)
+      .populate('material', 'name sku')
+      .populate('location', 'name');
+    if (!lot) {
+      throw new NotFoundException('Lot not found');
+    }
+    return lot;
+  }
+
+  /**
+   * Records a new lot for a material receipt
+   */
+  async createFromReceipt(receipt: {
+    material: Types.ObjectId;
+    quantity: number;
+    unitCost: number;
+    order?: Types.ObjectId;
+    purchaseOrder?: Types.ObjectId;
+    location: Types.ObjectId;
+    supplier?: string;
+    supplierLotCode?: string;
+    receivedAt?: Date;
+    lotNumber?: string;
+  }): Promise<MaterialLotDocument> {
+    return this.lotModel.create({
+      material: receipt.material,
+      lotNumber: receipt.lotNumber ?? `LOT-${Date.now()}`,
+      supplierLotCode: receipt.supplierLotCode,
+      supplier: receipt.supplier,
+      receivedAt: receipt.receivedAt ?? new Date(),
+      quantityReceived: receipt.quantity,
+      quantityRemaining: receipt.quantity,
+      unitCost: receipt.unitCost,
+      order: receipt.order,
+      purchaseOrder: receipt.purchaseOrder,
+      location: receipt.location,
+    });
+  }
+
+  /**
+   * Draws `quantity` of a material from its lots at one location, oldest
+   * first. Stock held there without a lot (e.g. from before lot tracking) is
+   * worked out from the quantity at the location before the deduction and is
+   * used up first; that part is not returned in the usages.
+   */
+  async consume(
+    material: MaterialDocument,
+    quantity: number,
+    location: Types.ObjectId,
+    heldBefore?: number,
+  ): Promise<LotUsage[]> {
+    const lots = await this.findRemaining(material._id, location);
+    const held =
+      heldBefore ??
+      (await this.locationsService.getQuantityAt(material, location));
+
+    const lotted = lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+    const untracked = Math.max(0, held - lotted);
+
+    let outstanding = quantity - untracked;
+    const usages: LotUsage[] = [];
+
+    for (const lot of lots) {
+      // allow for floating point dust on fractional quantities
+      if (outstanding <= 1e-9) break;
+
+      const taken = Math.min(lot.quantityRemaining, outstanding);
+      lot.quantityRemaining -= taken;
+      await lot.save();
+
+      usages.push({ lot: lot._id, quantity: taken });
+      outstanding -= taken;
+    }
+
+    return usages;
+  }
+
+  /**
+   * Moves `quantity` of a material's lots from one location to another,
+   * oldest first, after any stock held there without a lot. A lot moved in
+   * part is split, and the new lot keeps its number, cost and receipt date.
+   */
+  async transfer(
+    material: MaterialDocument,
+    quantity: number,
+    from: Types.ObjectId,
+    to: Types.ObjectId,
+    heldBefore: number,
+  ): Promise<void> {
+    const lots = await this.findRemaining(material._id, from);
+
+    const lotted = lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+    let outstanding = quantity - Math.max(0, heldBefore - lotted);
+
+    for (const lot of lots) {
+      // allow for floating point dust on fractional quantities
+      if (outstanding <= 1e-9) break;
+
+      const taken = Math.min(lot.quantityRemaining, outstanding);
+      outstanding -= taken;
+
+      if (taken >= lot.quantityRemaining) {
+        lot.location = to;
+        await lot.save();
+        continue;
+      }
+
+      lot.quantityRemaining -= taken;
+      await lot.save();
+      await this.lotModel.create({
+        material: lot.material,
+        lotNumber: lot.lotNumber,
+        supplierLotCode: lot.supplierLotCode,
+        supplier: lot.supplier,
+        receivedAt: lot.receivedAt,
+        quantityReceived: taken,
+        quantityRemaining: taken,
+        unitCost: lot.unitCost,
+        location: to,
+        splitFrom: lot.splitFrom ?? lot._id,
+      });
+    }
+  }
+
+  /**
+   * Puts quantities back into the lots they were taken from, e.g. when a
+   * production batch is reversed into `location`. A lot moved or split since
+   * gets the quantity back on its part held there, or a new part if none is.
+   */
+  async restore(usages: LotUsage[], location: Types.ObjectId): Promise<void> {
+    const defaultId = await this.locationsService.getDefaultLocationId();
+    const isHere = (lot: MaterialLotDocument) =>
+      (lot.location ?? defaultId).equals(location);
+
+    for (const usage of usages) {
+      const lot = await this.lotModel.findById(usage.lot);
+
+      // a lot that no longer exists has nothing to go back to
+      if (!lot) continue;
+
+      const rootId = lot.splitFrom ?? lot._id;
+      const target = isHere(lot)
+        ? lot
+        : await this.lotModel.findOne({
+            $or: [{ _id: rootId }, { splitFrom: rootId }],
+            location: defaultId.equals(location)
+              ? { $in: [location, null] }
+              : location,
+          });
+
+      if (target) {
+        target.quantityRemaining += usage.quantity;
+        await target.save();
+        continue;
+      }
+
+      await this.lotModel.create({
+        material: lot.material,
+        lotNumber: lot.lotNumber,
+        supplierLotCode: lot.supplierLotCode,
+        supplier: lot.supplier,
+        receivedAt: lot.receivedAt,
+        quantityReceived: usage.quantity,
+        quantityRemaining: usage.quantity,
+        unitCost: lot.unitCost,
+        location,
+        splitFrom: rootId,
+      });
+    }
+  }
+
+  /**
+   * Cost of the quantities taken from each lot, at the lot's receipt price
+   */
+  async valueUsages(usages: LotUsage[]): Promise<number> {
+    if (usages.length === 0) return 0;
+
+    const lots = await this.lotModel.find(
+      { _id: { $in: usages.map((usage) => usage.lot) } },
+      { unitCost: 1 },
+    );
+
+    return usages.reduce((sum, usage) => {
+      const lot = lots.find((l) => l._id.equals(usage.lot));
+      return sum + usage.quantity * (lot?.unitCost ?? 0);
+    }, 0);
+  }
+
+  /**
+   * Lots of a material that still hold stock, oldest first. Given a location,
+   * only the lots held there; lots received before locations were tracked
+   * count as held at the default location.
+   */
+  async findRemaining(
+    materialId: Types.ObjectId,
+    location?: Types.ObjectId,
+  ): Promise<MaterialLotDocument[]> {
+    const query: FilterQuery<MaterialLot> = {
+      material: materialId,
+      quantityRemaining: { $gt: 0 },
+    };
+
+    if (location) {
+      const defaultId = await this.locationsService.getDefaultLocationId();
+      query.location = defaultId.equals(location)
+        ? { $in: [location, null] }
+        : location;
+    }
+
+    return this.lotModel
+      .find(query)
+      .sort({ receivedAt: 1, createdAt: 1 })
+      .exec();
+  }
+
+  /**
+   * Removes the lot created by a material order, along with the parts of it
+   * moved to other locations, and says where their stock is held so it can
+   * be taken out there. Returns null for orders placed before lots were
+   * tracked. Fails if any of it has been used since, because batches point
+   * at it.
+   */
+  async removeForOrder(orderId: Types.ObjectId): Promise<LotHolding[] | null> {
+    const lot = await this.lotModel.findOne({ order: orderId });
+    if (!lot) return null;
+
+    const parts = await this.lotModel.find({ splitFrom: lot._id }).exec();
+    const pieces = [lot, ...parts];
+
+    const remaining = pieces.reduce(
+      (sum, piece) => sum + piece.quantityRemaining,
+      0,
+    );
+    // allow for floating point dust on fractional quantities
+    if (lot.quantityReceived - remaining > 1e-9) {
+      throw new BadRequestException(
+        `Cannot delete order - stock from lot ${lot.lotNumber} already used`,
+      );
+    }
+
+    const defaultId = await this.locationsService.getDefaultLocationId();
+    const holdings: LotHolding[] = [];
+    for (const piece of pieces) {
+      const location = piece.location ?? defaultId;
+      const holding = holdings.find((h) => h.location.equals(location));
+      if (holding) {
+        holding.quantity += piece.quantityRemaining;
+      } else {
+        holdings.push({ location, quantity: piece.quantityRemaining });
+      }
+    }
+
+    await this.lotModel.deleteMany({
+      _id: { $in: pieces.map((piece) => piece._id) },
+    });
+    return holdings.filter((holding) => holding.quantity > 0);
+  }
+
+  /**
+   * Which batches used this lot, or any part of it moved to another
+   * location, e.g. to find products affected by a recall
+   */
+  async forwardTrace(id: string): Promise<LotForwardTrace> {
+    const lot = await this.findOne(id);
+    const parts = await this.lotModel
+      .find({ splitFrom: lot.splitFrom ?? lot._id }, { _id: 1 })
+      .exec();
+    const lotIds = [lot.splitFrom ?? lot._id, ...parts.map((p) => p._id)];
+
+    const batches = await this.batchModel
+      .find({ 'materialCosts.lots.lot': { $in: lotIds } })
+      .populate<{
+        product: { _id: Types.ObjectId; name: string; sku: string };
+      }>('product', 'name sku')
+      .sort('-createdAt')
+      .exec();
+
+    const rows = batches.map((batch) => {
+      const quantityUsed = batch.materialCosts
+        .flatMap((cost) => cost.lots ?? [])
+        .filter((usage) => lotIds.some((lotId) => usage.lot.equals(lotId)))
+        .reduce((sum, usage) => sum + usage.quantity, 0);
+
+      return {
+        _id: batch._id,
+        batchNumber: batch.batchNumber,
+        product: batch.product,
+        producedAt: batch.createdAt,
+        quantityProduced: batch.quantity,
+        quantityUsed,
+        isReversed: batch.isReversed,
+      };
+    });
+
+    return {
+      lot,
+      batches: rows,
+      totalQuantityUsed: rows.reduce((sum, row) => sum + row.quantityUsed, 0),
+    };
+  }
+
+  /**
+   * Which lots went into a production batch
+   */
+  async backwardTrace(batchId: string): Promise<BatchBackwardTrace> {
+    if (!Types.ObjectId.isValid(batchId)) {
+      throw new NotFoundException('Production batch not found');
+    }
+
+    const batch = await this.batchModel
+      .findById(batchId)
+      .populate<{
+        materialCosts: Array<{
+          material: Types.ObjectId;
+          quantity: number;
+          lots: Array<{ lot: MaterialLot | null; quantity: number }>;
+        }>;
+      }>({
+        path: 'materialCosts.lots.lot',
+        populate: { path: 'location', select: 'name' },
+      })
+      .populate('materialCosts.material', 'name sku');
+
+    if (!batch) {
+      throw new NotFoundException('Production batch not found');
+    }
+
+    return {
+      batch: {
+        _id: batch._id,
+        batchNumber: batch.batchNumber,
+        quantity: batch.quantity,
+      },
+      materials: batch.materialCosts.map((cost) => {
+        const lots = cost.lots ?? [];
+        const lotted = lots.reduce((sum, usage) => sum + usage.quantity, 0);
+        return {
+          material: cost.material,
+          quantity: cost.quantity,
+          lots,
+          untrackedQuantity: Math.max(0, cost.quantity - lotted),
+        };
+      }),
+    };
+  }
+}
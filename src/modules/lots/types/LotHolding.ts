@@ -0,0 +1,7 @@
+import { Types } from 'mongoose';
+
+/** How much of a lot, counting the parts moved elsewhere, a location holds */
+export type LotHolding = {
+  location: Types.ObjectId;
+  quantity: number;
+};
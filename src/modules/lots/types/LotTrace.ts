@@ -0,0 +1,29 @@
+import { Types } from 'mongoose';
+import { MaterialLot } from '../schemas/material-lot.schema';
+
+/** Forward trace: every batch that used a lot */
+export type LotForwardTrace = {
+  lot: MaterialLot;
+  batches: Array<{
+    _id: Types.ObjectId;
+    batchNumber: string;
+    product: { _id: Types.ObjectId; name: string; sku: string };
+    producedAt: Date;
+    quantityProduced: number;
+    quantityUsed: number;
+    isReversed: boolean;
+  }>;
+  totalQuantityUsed: number;
+};
+
+/** Backward trace: every lot that went into a batch */
+export type BatchBackwardTrace = {
+  batch: { _id: Types.ObjectId; batchNumber: string; quantity: number };
+  materials: Array<{
+    material: Types.ObjectId;
+    quantity: number;
+    lots: Array<{ lot: MaterialLot | null; quantity: number }>;
+    // stock received before lots were tracked
+    untrackedQuantity: number;
+  }>;
+};
@@ -0,0 +1,6 @@
+import { Types } from 'mongoose';
+
+export type LotUsage = {
+  lot: Types.ObjectId;
+  quantity: number;
+};
@@ -12,6 +12,8 @@ import { GetUser } from 'src/core/decorators/user.decorator';
 import { User } from '../../user/schemas/User.schema';
 import { CreateMaterialOrderDto } from '../dto/CreateMaterialOrder.dto';
 import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
 
 @RequireVerified()
 @Controller('material-orders')
@@ -19,6 +21,7 @@ export class MaterialOrderController {
   constructor(private readonly materialOrderService: MaterialOrderService) {}
 
   @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async createOrder(
     @Body()
     body: CreateMaterialOrderDto,
@@ -52,6 +55,7 @@ export class MaterialOrderController {
   }
 
   @Delete(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async deleteOrder(@Param('id') orderId: string) {
     return await this.materialOrderService.deleteOrder(orderId);
   }
@@ -1,4 +1,14 @@
-import { IsOptional, IsPositive, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDate,
+  IsMongoId,
+  IsOptional,
+  IsPositive,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { ExtraChargeDto } from 'src/modules/costing/dto/extra-charge.dto';
 
 export class CreateMaterialOrderDto {
   @IsString()
@@ -7,13 +17,44 @@ export class CreateMaterialOrderDto {
   @IsPositive()
   quantity: number;
 
+  /**
+   * Unit the quantity was bought in, e.g. ml for a fragrance oil stocked in
+   * grams. Defaults to the material's own unit.
+   */
+  @IsOptional()
+  @IsMongoId()
+  unit?: string;
+
   @IsPositive()
   totalCost: number;
 
+  /** Postage, duty, fees and the like paid on top of the goods */
   @IsOptional()
-  @IsString()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExtraChargeDto)
+  charges?: ExtraChargeDto[];
+
+  @IsOptional()
+  @IsMongoId()
   supplier?: string;
 
+  /** Where the goods were received. Defaults to the main location */
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+
+  /** The supplier's batch or lot code, used to trace recalls */
+  @IsOptional()
+  @IsString()
+  supplierLotCode?: string;
+
+  /** Defaults to now */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  receivedAt?: Date;
+
   @IsOptional()
   @IsString()
   notes?: string;
@@ -7,9 +7,19 @@ import {
   MaterialOrderSchema,
 } from './schemas/material-order.schema';
 import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { LocationsModule } from '../locations/locations.module';
+import { LotsModule } from '../lots/lots.module';
+import { CostingModule } from '../costing/costing.module';
+import { UnitsModule } from '../units/units.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
 
 @Module({
   imports: [
+    LocationsModule,
+    LotsModule,
+    CostingModule,
+    UnitsModule,
+    SuppliersModule,
     MongooseModule.forFeature([
       { name: MaterialOrder.name, schema: MaterialOrderSchema },
       { name: Material.name, schema: MaterialSchema },
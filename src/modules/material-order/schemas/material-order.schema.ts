@@ -1,5 +1,10 @@
 import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import {
+  ExtraCharge,
+  ExtraChargeSchema,
+} from 'src/modules/costing/schemas/extra-charge.schema';
 
 export type MaterialOrderDocument = HydratedDocument<MaterialOrder>;
 
@@ -9,20 +14,41 @@ export class MaterialOrder {
 
   updatedAt: Date;
 
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
   @Prop({ type: Types.ObjectId, ref: 'Material', required: true })
   material: Types.ObjectId;
 
   @Prop({ required: true, min: 0 })
-  quantity: number;
+  quantity: number; // In the material's stock unit
+
+  @Prop({ min: 0 })
+  orderedQuantity: number; // As bought, when bought in another unit
+
+  @Prop({ type: Types.ObjectId, ref: 'Unit' })
+  orderedUnit: Types.ObjectId;
 
   @Prop({ required: true, min: 0 })
-  totalCost: number;
+  totalCost: number; // Price of the goods alone
+
+  @Prop({ type: [ExtraChargeSchema], default: [] })
+  charges: ExtraCharge[];
+
+  @Prop({ min: 0 })
+  landedCost: number; // Goods plus charges that aren't reclaimed
 
   @Prop({ required: true, min: 0 })
-  unitCost: number; // Cost per unit at time of order
+  unitCost: number; // Landed cost per unit at time of order
 
-  @Prop()
-  supplier: string;
+  @Prop({ type: Types.ObjectId, ref: 'Supplier' })
+  supplier: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'MaterialLot' })
+  lot: Types.ObjectId; // Lot created when the order was received
 
   @Prop()
   notes: string;
@@ -32,3 +58,7 @@ export class MaterialOrder {
 }
 
 export const MaterialOrderSchema = SchemaFactory.createForClass(MaterialOrder);
+
+MaterialOrderSchema.plugin(workspaceScopePlugin);
+
+MaterialOrderSchema.index({ workspace: 1, material: 1, createdAt: -1 });
@@ -1,12 +1,86 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { MaterialOrderService } from './material-order.service';
+import { MaterialOrder } from '../schemas/material-order.schema';
+import { Material } from '../../materials/schemas/material.schema';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { CostingService } from 'src/modules/costing/services/costing.service';
+import { LandedCostService } from 'src/modules/costing/services/landed-cost.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
+import { ChargeType } from 'src/modules/costing/enums/ChargeType.enum';
+import { mockConnection } from 'src/core/testing/mock-query';
+
+// Orders are built with `new`, so the model is a class
+class OrderModel {
+  static find = jest.fn();
+  static aggregate = jest.fn();
+  _id = new Types.ObjectId();
+  constructor(data: object) {
+    Object.assign(this, data);
+  }
+  save() {
+    return Promise.resolve(this);
+  }
+}
 
 describe('MaterialOrderService', () => {
   let service: MaterialOrderService;
+  let materialModel: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+  let lotsService: Record<string, jest.Mock>;
+  let costingService: Record<string, jest.Mock>;
+  let landedCostService: { allocate: jest.Mock };
+  let unitsService: { convert: jest.Mock };
+
+  const userId = new Types.ObjectId().toString();
+  const location = new Types.ObjectId();
+  const millilitres = new Types.ObjectId().toString();
+
+  const oil = () => ({
+    _id: new Types.ObjectId(),
+    name: 'Lavender oil',
+    unit: new Types.ObjectId(),
+    density: 0.9,
+    currentStock: 100,
+    averageCost: 0.1,
+    save: jest.fn().mockResolvedValue(undefined),
+  });
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    materialModel = { findById: jest.fn() };
+    locationsService = {
+      resolveLocationId: jest.fn().mockResolvedValue(location),
+      applyStockChange: jest.fn().mockResolvedValue(undefined),
+    };
+    lotsService = {
+      createFromReceipt: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+    costingService = { onReceipt: jest.fn().mockResolvedValue(undefined) };
+    landedCostService = { allocate: jest.fn().mockResolvedValue([0]) };
+    // Stocked in grams at 0.9 g/ml
+    unitsService = {
+      convert: jest.fn((quantity: number) => Promise.resolve(quantity * 0.9)),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [MaterialOrderService],
+      providers: [
+        MaterialOrderService,
+        { provide: getConnectionToken(), useValue: mockConnection() },
+        { provide: getModelToken(MaterialOrder.name), useValue: OrderModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: LotsService, useValue: lotsService },
+        { provide: CostingService, useValue: costingService },
+        { provide: LandedCostService, useValue: landedCostService },
+        { provide: UnitsService, useValue: unitsService },
+        { provide: SuppliersService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<MaterialOrderService>(MaterialOrderService);
@@ -15,4 +89,123 @@ describe('MaterialOrderService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('createOrder', () => {
+    it('receives an order bought by volume in the weight it is stocked in', async () => {
+      const material = oil();
+      materialModel.findById.mockResolvedValue(material);
+
+      const order = await service.createOrder(
+        {
+          material: material._id.toString(),
+          quantity: 500,
+          unit: millilitres,
+          totalCost: 45,
+        },
+        userId,
+      );
+
+      expect(unitsService.convert).toHaveBeenCalledWith(
+        500,
+        millilitres,
+        material.unit,
+        material,
+      );
+      expect(order).toMatchObject({
+        quantity: 450,
+        orderedQuantity: 500,
+        orderedUnit: millilitres,
+        unitCost: 0.1,
+      });
+      expect(locationsService.applyStockChange).toHaveBeenCalledWith(
+        material,
+        location,
+        450,
+      );
+      expect(lotsService.createFromReceipt).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 450, unitCost: 0.1 }),
+      );
+      expect(costingService.onReceipt).toHaveBeenCalledWith(
+        material,
+        100,
+        450,
+        45,
+      );
+    });
+
+    it('takes the quantity as given in the material unit', async () => {
+      const material = oil();
+      materialModel.findById.mockResolvedValue(material);
+
+      const order = await service.createOrder(
+        { material: material._id.toString(), quantity: 200, totalCost: 20 },
+        userId,
+      );
+
+      expect(unitsService.convert).not.toHaveBeenCalled();
+      expect(order.quantity).toBe(200);
+      expect(order.orderedQuantity).toBeUndefined();
+    });
+
+    it('costs the stock at the goods plus its share of the charges', async () => {
+      const material = oil();
+      materialModel.findById.mockResolvedValue(material);
+      landedCostService.allocate.mockResolvedValue([5]);
+      const charges = [
+        { type: ChargeType.SHIPPING, amount: 5 },
+        { type: ChargeType.VAT, amount: 4, reclaimable: true },
+      ];
+
+      const order = await service.createOrder(
+        {
+          material: material._id.toString(),
+          quantity: 200,
+          totalCost: 20,
+          charges,
+        },
+        userId,
+      );
+
+      expect(landedCostService.allocate).toHaveBeenCalledWith(
+        [{ material, quantity: 200, totalCost: 20 }],
+        charges,
+      );
+      expect(order).toMatchObject({
+        totalCost: 20,
+        landedCost: 25,
+        unitCost: 0.125,
+      });
+      expect(costingService.onReceipt).toHaveBeenCalledWith(
+        material,
+        100,
+        200,
+        25,
+      );
+    });
+  });
+
+  describe('getOrderStats', () => {
+    it('totals what was spent landed, falling back for older orders', async () => {
+      const date = new Date('2026-03-01');
+      OrderModel.find.mockResolvedValue([
+        { quantity: 200, totalCost: 20, landedCost: 25, unitCost: 0.125 },
+        { quantity: 100, totalCost: 12, unitCost: 0.12, createdAt: date },
+      ]);
+
+      const stats = await service.getOrderStats(
+        new Types.ObjectId().toString(),
+      );
+
+      expect(stats).toMatchObject({
+        totalOrders: 2,
+        totalQuantity: 300,
+        totalSpent: 37,
+        averageOrderSize: 150,
+      });
+      expect(stats.priceHistory).toEqual([
+        { date: undefined, unitCost: 0.125, purchaseUnitCost: 0.1 },
+        { date, unitCost: 0.12, purchaseUnitCost: 0.12 },
+      ]);
+    });
+  });
 });
@@ -12,6 +12,12 @@ import { Connection, FilterQuery, Model, Types } from 'mongoose';
 import { CreateMaterialOrderDto } from '../dto/CreateMaterialOrder.dto';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
 import { OrderListStats } from '../types/OrderListStats';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { CostingService } from 'src/modules/costing/services/costing.service';
+import { LandedCostService } from 'src/modules/costing/services/landed-cost.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
 
 @Injectable()
 export class MaterialOrderService {
@@ -19,6 +25,12 @@ export class MaterialOrderService {
     @InjectConnection() private readonly connection: Connection,
     @InjectModel(MaterialOrder.name) private orderModel: Model<MaterialOrder>,
     @InjectModel(Material.name) private materialModel: Model<MaterialDocument>,
+    private readonly locationsService: LocationsService,
+    private readonly lotsService: LotsService,
+    private readonly costingService: CostingService,
+    private readonly landedCostService: LandedCostService,
+    private readonly unitsService: UnitsService,
+    private readonly suppliersService: SuppliersService,
   ) {}
 
   async createOrder(
@@ -31,35 +43,92 @@ export class MaterialOrderService {
       throw new BadRequestException('Material not found');
     }
 
-    const unitCost = orderDto.totalCost / orderDto.quantity;
-
-    // Update material's rolling average cost
-    const oldTotalValue = material.currentStock * material.averageCost;
-    const newTotalValue = oldTotalValue + orderDto.totalCost;
-    const newTotalQuantity = material.currentStock + orderDto.quantity;
-
-    material.averageCost = newTotalValue / newTotalQuantity;
-    material.currentStock = newTotalQuantity;
-
-    if (orderDto.supplier) {
-      material.supplier = orderDto.supplier;
+    const locationId = await this.locationsService.resolveLocationId(
+      orderDto.location,
+    );
+    const supplier = orderDto.supplier
+      ? await this.suppliersService.findOne(orderDto.supplier)
+      : undefined;
+
+    // Oils are often bought by volume but stocked by weight
+    const quantity = orderDto.unit
+      ? await this.unitsService.convert(
+          orderDto.quantity,
+          orderDto.unit,
+          material.unit,
+          material,
+        )
+      : orderDto.quantity;
+    const [charges] = await this.landedCostService.allocate(
+      [{ material, quantity, totalCost: orderDto.totalCost }],
+      orderDto.charges ?? [],
+    );
+    const landedCost = orderDto.totalCost + charges;
+    const unitCost = landedCost / quantity;
+    const previousStock = material.currentStock;
+
+    await this.locationsService.applyStockChange(
+      material,
+      locationId,
+      quantity,
+    );
+
+    if (supplier) {
+      this.suppliersService.recordPurchase(
+        material,
+        supplier._id,
+        orderDto.totalCost / quantity,
+        orderDto.receivedAt,
+      );
     }
 
-    await material.save();
+    return await this.connection.transaction(async () => {
+      // Create order record
+      const order = new this.orderModel({
+        ...orderDto,
+        material: material._id,
+        location: locationId,
+        quantity,
+        ...(orderDto.unit && {
+          orderedQuantity: orderDto.quantity,
+          orderedUnit: orderDto.unit,
+        }),
+        landedCost,
+        unitCost,
+        createdBy: userId,
+      });
+
+      // Every receipt becomes a lot so production can be traced back to it
+      const lot = await this.lotsService.createFromReceipt({
+        material: material._id,
+        quantity,
+        unitCost,
+        order: order._id,
+        location: locationId,
+        supplier: supplier?.name,
+        supplierLotCode: orderDto.supplierLotCode,
+        receivedAt: orderDto.receivedAt,
+      });
+      order.lot = lot._id;
+
+      // Update material's average cost
+      await this.costingService.onReceipt(
+        material,
+        previousStock,
+        quantity,
+        landedCost,
+      );
+      await material.save();
 
-    // Create order record
-    const order = new this.orderModel({
-      ...orderDto,
-      material: new Types.ObjectId(orderDto.material),
-      unitCost,
-      createdBy: userId,
+      return order.save();
     });
-
-    return order.save();
   }
 
   async getOrderById(_id: string): Promise<MaterialOrder> {
-    const order = await this.orderModel.findById(_id).populate('material');
+    const order = await this.orderModel
+      .findById(_id)
+      .populate('material')
+      .populate('supplier');
 
     if (!order) throw new BadRequestException('Order does not exist');
     return order;
@@ -94,6 +163,7 @@ export class MaterialOrderService {
             path: 'unit',
           },
         })
+        .populate('supplier', 'name')
         .sort('-createdAt')
         .skip(skip)
         .limit(pageSize),
@@ -122,9 +192,12 @@ export class MaterialOrderService {
         $group: {
           _id: null,
           totalOrders: { $sum: 1 },
-          totalSpent: { $sum: '$totalCost' },
+          // Orders placed before landed costs only have the goods cost
+          totalSpent: { $sum: { $ifNull: ['$landedCost', '$totalCost'] } },
           totalUnits: { $sum: '$quantity' },
-          averageOrderValue: { $avg: '$totalCost' },
+          averageOrderValue: {
+            $avg: { $ifNull: ['$landedCost', '$totalCost'] },
+          },
         },
       },
     ];
@@ -168,20 +241,33 @@ export class MaterialOrderService {
 
     return await this.connection.transaction(async () => {
       const previousStock = material.currentStock;
-      const newStock = previousStock - order.quantity;
 
-      // Recalculate average cost
-      const currentTotalValue = previousStock * material.averageCost;
-      const removedValue = order.quantity * order.unitCost;
-      const newTotalValue = Math.max(0, currentTotalValue - removedValue);
-
-      if (newStock > 0) {
-        material.averageCost = newTotalValue / newStock;
-      } else {
-        material.averageCost = 0;
+      // Stock comes out wherever the order's lot has since been moved to.
+      // Orders from before lots were tracked come out where they were
+      // received, which is the default for those older than locations.
+      const holdings = (await this.lotsService.removeForOrder(order._id)) ?? [
+        {
+          location:
+            order.location ??
+            (await this.locationsService.getDefaultLocationId()),
+          quantity: order.quantity,
+        },
+      ];
+      for (const holding of holdings) {
+        await this.locationsService.applyStockChange(
+          material,
+          holding.location,
+          -holding.quantity,
+        );
       }
 
-      material.currentStock = newStock;
+      // Recalculate average cost
+      await this.costingService.onReceiptRemoved(
+        material,
+        previousStock,
+        order.quantity,
+        order.unitCost,
+      );
       await material.save();
 
       await this.orderModel.deleteOne({ _id: orderId });
@@ -193,18 +279,26 @@ export class MaterialOrderService {
     totalQuantity: number;
     totalSpent: number;
     averageOrderSize: number;
-    priceHistory: Array<{ date: Date; unitCost: number }>;
+    priceHistory: Array<{
+      date: Date;
+      unitCost: number;
+      purchaseUnitCost: number;
+    }>;
   }> {
     const orders = await this.orderModel.find({ material: materialId });
 
     const totalOrders = orders.length;
     const totalQuantity = orders.reduce((sum, o) => sum + o.quantity, 0);
-    const totalSpent = orders.reduce((sum, o) => sum + o.totalCost, 0);
+    const totalSpent = orders.reduce(
+      (sum, o) => sum + (o.landedCost ?? o.totalCost),
+      0,
+    );
     const averageOrderSize = totalOrders > 0 ? totalQuantity / totalOrders : 0;
 
     const priceHistory = orders.map((order) => ({
       date: order.createdAt,
       unitCost: order.unitCost,
+      purchaseUnitCost: order.totalCost / order.quantity, // Before charges
     }));
 
     return {
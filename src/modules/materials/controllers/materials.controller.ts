@@ -18,7 +18,9 @@ import { Cache } from 'cache-manager';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
 import { StockLevel } from '../enums/StockLevel.enum';
 import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
-import { CreateMaterial } from '../types/CreateMaterial';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { CreateMaterialDto, UpdateMaterialDto } from '../dto/material.dto';
 import { MaterialListStats } from '../types/MaterialListStats';
 
 export type MatertialStatistics = {
@@ -82,10 +84,23 @@ export class MaterialsController {
     return this.materialsService.search(query, isActive);
   }
 
+  @Get('low-stock')
+  async findLowStock(
+    @Query('location') locationId?: string,
+  ): Promise<Material[]> {
+    return this.materialsService.findLowStock(locationId);
+  }
+
+  @Get('out-of-stock')
+  async findOutOfStock(): Promise<Material[]> {
+    return this.materialsService.findOutOfStock();
+  }
+
   @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async create(
     @Body()
-    createMaterialDto: CreateMaterial,
+    createMaterialDto: CreateMaterialDto,
   ): Promise<Material> {
     return this.materialsService.create(createMaterialDto);
   }
@@ -100,9 +115,10 @@ export class MaterialsController {
   }
 
   @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async update(
     @Param('id') id: string,
-    @Body() updateMaterialDto: Partial<Omit<Material, 'currentStock'>>,
+    @Body() updateMaterialDto: UpdateMaterialDto,
   ): Promise<Material> {
     const updated = await this.materialsService.update(id, updateMaterialDto);
     if (!updated) {
@@ -112,6 +128,7 @@ export class MaterialsController {
   }
 
   @Delete(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async remove(@Param('id') id: string): Promise<void> {
     const deleted = await this.materialsService.remove(id);
     if (!deleted) {
@@ -129,16 +146,6 @@ export class MaterialsController {
     return this.materialsService.findByCategory(category);
   }
 
-  @Get('low-stock')
-  async findLowStock(): Promise<Material[]> {
-    return this.materialsService.findLowStock();
-  }
-
-  @Get('out-of-stock')
-  async findOutOfStock(): Promise<Material[]> {
-    return this.materialsService.findOutOfStock();
-  }
-
   @Get(':id/adjustments')
   async getAdjustmentHistory(@Param('id') id: string) {
     return this.materialsService.getAdjustmentHistory(id);
@@ -0,0 +1,56 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Types } from 'mongoose';
+import { CreateMaterialDto, UpdateMaterialDto } from './material.dto';
+
+// Mirrors the global ValidationPipe options in main.ts
+const refusedFields = async (
+  dto: typeof CreateMaterialDto | typeof UpdateMaterialDto,
+  body: object,
+) => {
+  const errors = await validate(plainToInstance(dto, body), {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  return errors.map((error) => error.property);
+};
+
+describe('material DTOs', () => {
+  const material = {
+    name: 'Soy wax',
+    unit: new Types.ObjectId().toString(),
+    category: 'wax',
+  };
+
+  it('accepts a material without system fields', async () => {
+    expect(await refusedFields(CreateMaterialDto, material)).toEqual([]);
+  });
+
+  it('refuses a workspace on create and update', async () => {
+    const workspace = new Types.ObjectId().toString();
+
+    expect(
+      await refusedFields(CreateMaterialDto, { ...material, workspace }),
+    ).toEqual(['workspace']);
+    expect(await refusedFields(UpdateMaterialDto, { workspace })).toEqual([
+      'workspace',
+    ]);
+  });
+
+  it('refuses stock levels and average cost on create and update', async () => {
+    const stock = {
+      currentStock: 50,
+      locationStock: [{ location: new Types.ObjectId(), quantity: 50 }],
+      averageCost: 2.5,
+    };
+
+    expect(
+      await refusedFields(CreateMaterialDto, { ...material, ...stock }),
+    ).toEqual(['currentStock', 'locationStock', 'averageCost']);
+    expect(await refusedFields(UpdateMaterialDto, stock)).toEqual([
+      'currentStock',
+      'locationStock',
+      'averageCost',
+    ]);
+  });
+});
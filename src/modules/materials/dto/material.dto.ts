@@ -0,0 +1,88 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MaterialCategory } from '../schemas/material.schema';
+
+export class MaterialSupplierDto {
+  @IsMongoId()
+  supplier: string;
+
+  @IsString()
+  @IsOptional()
+  supplierSku?: string;
+
+  /** In the material's stock unit */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  packSize?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  lastPrice?: number;
+
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  lastPurchasedAt?: Date;
+
+  @IsBoolean()
+  @IsOptional()
+  isPreferred?: boolean;
+}
+
+/**
+ * Stock held, per-location stock and average cost are kept by adjustments,
+ * transfers and receipts, so they cannot be set here
+ */
+export class CreateMaterialDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsMongoId()
+  unit: string;
+
+  @IsEnum(MaterialCategory)
+  category: MaterialCategory;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minimumStock?: number;
+
+  /** Grams per millilitre */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  density?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MaterialSupplierDto)
+  @IsOptional()
+  suppliers?: MaterialSupplierDto[];
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class UpdateMaterialDto extends PartialType(CreateMaterialDto) {}
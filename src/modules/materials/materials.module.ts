@@ -8,9 +8,13 @@ import {
   MaterialOrderSchema,
 } from '../material-order/schemas/material-order.schema';
 import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { StockAdjustmentsModule } from '../stock-adjustments/stock-adjustments.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
 
 @Module({
   imports: [
+    StockAdjustmentsModule,
+    SuppliersModule,
     MongooseModule.forFeature([
       { name: Material.name, schema: MaterialSchema },
       { name: MaterialOrder.name, schema: MaterialOrderSchema },
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+/** A supplier a material can be bought from, on that supplier's terms */
+@Schema({ _id: false })
+export class MaterialSupplier {
+  @Prop({ type: Types.ObjectId, ref: 'Supplier', required: true })
+  supplier: Types.ObjectId;
+
+  @Prop()
+  supplierSku: string; // The supplier's own code for the material
+
+  @Prop({ min: 0 })
+  packSize?: number; // In the material's stock unit
+
+  @Prop({ min: 0 })
+  lastPrice?: number; // Per stock unit, on the most recent order
+
+  @Prop()
+  lastPurchasedAt?: Date;
+
+  @Prop({ default: false })
+  isPreferred: boolean;
+}
+
+export const MaterialSupplierSchema =
+  SchemaFactory.createForClass(MaterialSupplier);
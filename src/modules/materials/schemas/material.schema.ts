@@ -1,6 +1,15 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
 import { Unit } from 'src/modules/units/schemas/unit.schema';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import {
+  LocationStock,
+  LocationStockSchema,
+} from 'src/modules/locations/schemas/location-stock.schema';
+import {
+  MaterialSupplier,
+  MaterialSupplierSchema,
+} from './material-supplier.schema';
 
 export type MaterialDocument = HydratedDocument<Material>;
 
@@ -22,17 +31,23 @@ export enum MaterialCategory {
 export class Material {
   _id?: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
   @Prop({ required: true })
   name: string;
 
-  @Prop({ required: true, unique: true })
+  @Prop({ required: true })
   sku: string;
 
   @Prop({ type: Types.ObjectId, ref: 'Unit', required: true })
   unit: Unit;
 
   @Prop({ required: true, default: 0, min: 0 })
-  currentStock: number;
+  currentStock: number; // Total across all locations
+
+  @Prop({ type: [LocationStockSchema], default: [] })
+  locationStock: LocationStock[];
 
   @Prop({ required: true, default: 0, min: 0 })
   minimumStock: number;
@@ -40,8 +55,11 @@ export class Material {
   @Prop({ default: 0, min: 0 })
   averageCost: number;
 
-  @Prop()
-  supplier: string;
+  @Prop({ min: 0 })
+  density?: number; // Grams per millilitre, lets weight and volume units convert
+
+  @Prop({ type: [MaterialSupplierSchema], default: [] })
+  suppliers: MaterialSupplier[];
 
   @Prop({ required: true, enum: MaterialCategory })
   category: MaterialCategory;
@@ -55,6 +73,12 @@ export class Material {
 
 export const MaterialSchema = SchemaFactory.createForClass(Material);
 
+MaterialSchema.plugin(workspaceScopePlugin);
+
+// SKUs only need to be unique within a workspace
+MaterialSchema.index({ workspace: 1, sku: 1 }, { unique: true });
+
 // Add index for faster queries
-MaterialSchema.index({ category: 1, isActive: 1 });
-MaterialSchema.index({ currentStock: 1, minimumStock: 1 });
+MaterialSchema.index({ workspace: 1, category: 1, isActive: 1 });
+MaterialSchema.index({ workspace: 1, currentStock: 1, minimumStock: 1 });
+MaterialSchema.index({ workspace: 1, 'suppliers.supplier': 1 });
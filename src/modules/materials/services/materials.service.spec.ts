@@ -1,18 +1,144 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { MaterialsService } from './materials.service';
+import { Material } from '../schemas/material.schema';
+import { CreateMaterialDto } from '../dto/material.dto';
+import { MaterialOrder } from 'src/modules/material-order/schemas/material-order.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+// Materials are built with `new`, so the model is a class
+class MaterialModel {
+  static find = jest.fn();
+  static countDocuments = jest.fn();
+  static aggregate = jest.fn();
+  constructor(data: object) {
+    Object.assign(this, data);
+  }
+  save() {
+    return Promise.resolve(this);
+  }
+}
 
 describe('MaterialsService', () => {
   let service: MaterialsService;
+  let suppliersService: Record<string, jest.Mock>;
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    MaterialModel.find.mockReturnValue(mockQuery([]));
+    MaterialModel.countDocuments.mockResolvedValue(0);
+    MaterialModel.aggregate.mockReturnValue(mockQuery([]));
+    suppliersService = {
+      validateLinks: jest.fn().mockResolvedValue(undefined),
+      findIdsMatching: jest.fn().mockResolvedValue([]),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [MaterialsService],
+      providers: [
+        MaterialsService,
+        { provide: getModelToken(Material.name), useValue: MaterialModel },
+        { provide: getModelToken(MaterialOrder.name), useValue: {} },
+        { provide: getModelToken(Product.name), useValue: {} },
+        { provide: StockAdjustmentsService, useValue: {} },
+        { provide: SuppliersService, useValue: suppliersService },
+      ],
     }).compile();
 
     service = module.get<MaterialsService>(MaterialsService);
   });
 
+  afterEach(() => jest.restoreAllMocks());
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findLowStock', () => {
+    it('compares total stock against the minimum without a location', async () => {
+      await service.findLowStock();
+
+      expect(MaterialModel.find).toHaveBeenCalledWith({
+        $expr: { $lt: ['$currentStock', '$minimumStock'] },
+      });
+    });
+
+    it('compares stock held at a location against its own minimum', async () => {
+      const location = new Types.ObjectId();
+
+      await service.findLowStock(location.toString());
+
+      expect(MaterialModel.find).toHaveBeenCalledWith({
+        $expr: {
+          $anyElementTrue: {
+            $map: {
+              input: '$locationStock',
+              as: 'entry',
+              in: {
+                $and: [
+                  { $eq: ['$$entry.location', location] },
+                  { $lt: ['$$entry.quantity', '$$entry.minimumStock'] },
+                ],
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it('refuses a location id that is not valid', async () => {
+      await expect(service.findLowStock('shed')).rejects.toThrow(
+        'Invalid location id',
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('checks the supplier links and starts with no stock', async () => {
+      const suppliers = [{ supplier: new Types.ObjectId(), isPreferred: true }];
+
+      const created = await service.create({
+        name: 'Soy wax',
+        suppliers,
+        currentStock: 50,
+      } as unknown as CreateMaterialDto);
+
+      expect(suppliersService.validateLinks).toHaveBeenCalledWith(suppliers);
+      expect(created).toMatchObject({ name: 'Soy wax', currentStock: 0 });
+    });
+
+    it('saves nothing when a supplier link is refused', async () => {
+      suppliersService.validateLinks.mockRejectedValue(
+        new Error('Each supplier can only be listed once'),
+      );
+      const save = jest.spyOn(MaterialModel.prototype, 'save');
+
+      await expect(
+        service.create({
+          name: 'Soy wax',
+          suppliers: [],
+        } as unknown as CreateMaterialDto),
+      ).rejects.toThrow('Each supplier can only be listed once');
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('finds materials by the name of a supplier they come from', async () => {
+      const waxCo = new Types.ObjectId();
+      suppliersService.findIdsMatching.mockResolvedValue([waxCo]);
+
+      await service.findAll(1, 10, { searchTerm: 'wax co' });
+
+      expect(suppliersService.findIdsMatching).toHaveBeenCalledWith('wax co');
+      expect(MaterialModel.find).toHaveBeenCalledWith({
+        $or: expect.arrayContaining([
+          { 'suppliers.supplier': { $in: [waxCo] } },
+        ]) as unknown,
+      });
+    });
+  });
 });
@@ -8,7 +8,7 @@ import {
 } from '../schemas/material.schema';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
 import { StockLevel } from '../enums/StockLevel.enum';
-import { CreateMaterial } from '../types/CreateMaterial';
+import { CreateMaterialDto, UpdateMaterialDto } from '../dto/material.dto';
 import * as crypto from 'crypto';
 import {
   MaterialOrder,
@@ -19,6 +19,8 @@ import {
   ProductDocument,
 } from 'src/modules/products/schemas/product.schema';
 import { MaterialListStats } from '../types/MaterialListStats';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
 
 @Injectable()
 export class MaterialsService {
@@ -28,6 +30,8 @@ export class MaterialsService {
     private materialOrdersModel: Model<MaterialOrderDocument>,
     @InjectModel(Product.name)
     private readonly productModel: Model<ProductDocument>,
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+    private readonly suppliersService: SuppliersService,
   ) {}
 
   async findAll(
@@ -49,7 +53,13 @@ export class MaterialsService {
       query.$or = [
         { name: { $regex: filters.searchTerm, $options: 'i' } },
         { sku: { $regex: filters.searchTerm, $options: 'i' } },
-        { supplier: { $regex: filters.searchTerm, $options: 'i' } },
+        {
+          'suppliers.supplier': {
+            $in: await this.suppliersService.findIdsMatching(
+              filters.searchTerm,
+            ),
+          },
+        },
         { category: { $regex: filters.searchTerm, $options: 'i' } },
       ];
     }
@@ -147,10 +157,18 @@ export class MaterialsService {
 
   async findOne(id: string): Promise<MaterialDocument | null> {
     if (!Types.ObjectId.isValid(id)) return null;
-    return this.materialModel.findById(id).populate('unit').exec();
+    return this.materialModel
+      .findById(id)
+      .populate('unit')
+      .populate('suppliers.supplier', 'name currency leadTimeDays')
+      .exec();
   }
 
-  async create(createMaterialDto: CreateMaterial): Promise<Material> {
+  async create(createMaterialDto: CreateMaterialDto): Promise<Material> {
+    if (createMaterialDto.suppliers) {
+      await this.suppliersService.validateLinks(createMaterialDto.suppliers);
+    }
+
     const created = new this.materialModel({
       ...createMaterialDto,
       sku: this.createSku(createMaterialDto),
@@ -161,9 +179,13 @@ export class MaterialsService {
 
   async update(
     id: string,
-    updateMaterialDto: Partial<Material>,
+    updateMaterialDto: UpdateMaterialDto,
   ): Promise<Material | null> {
     if (!Types.ObjectId.isValid(id)) return null;
+    if (updateMaterialDto.suppliers) {
+      await this.suppliersService.validateLinks(updateMaterialDto.suppliers);
+    }
+
     return this.materialModel
       .findByIdAndUpdate(id, updateMaterialDto, { new: true })
       .populate('unit')
@@ -194,9 +216,41 @@ export class MaterialsService {
     return this.materialModel.find({ category }).populate('unit').exec();
   }
 
-  async findLowStock(): Promise<Material[]> {
+  /**
+   * Without a location this compares total stock against `minimumStock`.
+   * With one it compares the quantity held there against that location's
+   * own minimum.
+   */
+  async findLowStock(locationId?: string): Promise<Material[]> {
+    if (!locationId) {
+      return this.materialModel
+        .find({ $expr: { $lt: ['$currentStock', '$minimumStock'] } })
+        .populate('unit')
+        .exec();
+    }
+
+    if (!Types.ObjectId.isValid(locationId)) {
+      throw new BadRequestException('Invalid location id');
+    }
+
+    const location = new Types.ObjectId(locationId);
     return this.materialModel
-      .find({ $expr: { $lt: ['$currentStock', '$minimumStock'] } })
+      .find({
+        $expr: {
+          $anyElementTrue: {
+            $map: {
+              input: '$locationStock',
+              as: 'entry',
+              in: {
+                $and: [
+                  { $eq: ['$$entry.location', location] },
+                  { $lt: ['$$entry.quantity', '$$entry.minimumStock'] },
+                ],
+              },
+            },
+          },
+        },
+      })
       .populate('unit')
       .exec();
   }
@@ -213,7 +267,11 @@ export class MaterialsService {
       $or: [
         { name: { $regex: query, $options: 'i' } },
         { sku: { $regex: query, $options: 'i' } },
-        { supplier: { $regex: query, $options: 'i' } },
+        {
+          'suppliers.supplier': {
+            $in: await this.suppliersService.findIdsMatching(query),
+          },
+        },
       ],
     };
 
@@ -282,12 +340,11 @@ export class MaterialsService {
     };
   }
 
-  // Placeholder — you’ll likely want a separate StockAdjustment model here
   async getAdjustmentHistory(id: string) {
-    return []; // implement with StockAdjustment schema
+    return this.stockAdjustmentsService.getAdjustmentHistory(id, 'material');
   }
 
-  private createSku(createMaterial: CreateMaterial): string {
+  private createSku(createMaterial: CreateMaterialDto): string {
     const CAT = createMaterial.category?.substring(0, 3).toUpperCase();
     const NAME = createMaterial.name?.substring(0, 3).toUpperCase();
     const HASH = crypto
@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProductionPlansController } from './production-plans.controller';
+import { ProductionPlansService } from '../services/production-plans.service';
+
+describe('ProductionPlansController', () => {
+  let controller: ProductionPlansController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ProductionPlansController],
+      providers: [{ provide: ProductionPlansService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<ProductionPlansController>(
+      ProductionPlansController,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { Body, Controller, Get, Param, Post, Put, Query } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { ProductionPlansService } from '../services/production-plans.service';
+import { ProductionPlan } from '../schemas/production-plan.schema';
+import {
+  CreateProductionPlanDto,
+  UpdateProductionPlanDto,
+} from '../dto/create-production-plan.dto';
+import { ProductionPlanFiltersDto } from '../dto/production-plan-filters.dto';
+import { ProductionPlanRequirements } from '../types/ProductionPlanRequirements';
+
+@RequireVerified()
+@Controller('production-plans')
+export class ProductionPlansController {
+  constructor(
+    private readonly productionPlansService: ProductionPlansService,
+  ) {}
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async create(
+    @Body() createProductionPlanDto: CreateProductionPlanDto,
+    @GetUser() user: User,
+  ): Promise<ProductionPlan> {
+    return this.productionPlansService.create(
+      createProductionPlanDto,
+      user._id!,
+    );
+  }
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: ProductionPlanFiltersDto,
+  ): Promise<PaginatedResponse<ProductionPlan>> {
+    return this.productionPlansService.findAll(page, pageSize, body);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<ProductionPlan> {
+    return this.productionPlansService.findOne(id);
+  }
+
+  @Get(':id/requirements')
+  async getRequirements(
+    @Param('id') id: string,
+  ): Promise<ProductionPlanRequirements> {
+    return this.productionPlansService.getRequirements(id);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async update(
+    @Param('id') id: string,
+    @Body() updateProductionPlanDto: UpdateProductionPlanDto,
+  ): Promise<ProductionPlan> {
+    return this.productionPlansService.update(id, updateProductionPlanDto);
+  }
+
+  /** makers can run a plan, just as they can log a single batch */
+  @Post(':id/execute')
+  async execute(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<ProductionPlan> {
+    return this.productionPlansService.execute(id, user._id!);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async cancel(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<ProductionPlan> {
+    return this.productionPlansService.cancel(id, user._id!);
+  }
+}
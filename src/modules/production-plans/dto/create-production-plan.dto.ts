@@ -0,0 +1,56 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ProductionPlanItemDto {
+  @IsMongoId()
+  product: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class CreateProductionPlanDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  plannedFor?: Date;
+
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ProductionPlanItemDto)
+  items: ProductionPlanItemDto[];
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class UpdateProductionPlanDto extends PartialType(
+  CreateProductionPlanDto,
+) {}
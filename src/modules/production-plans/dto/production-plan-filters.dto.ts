@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ProductionPlanStatus } from '../schemas/production-plan.schema';
+
+export class ProductionPlanFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsEnum(ProductionPlanStatus)
+  status?: ProductionPlanStatus;
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ProductionPlan,
+  ProductionPlanSchema,
+} from './schemas/production-plan.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { ProductionModule } from '../production/production.module';
+import { LocationsModule } from '../locations/locations.module';
+import { ProductionPlansService } from './services/production-plans.service';
+import { ProductionPlansController } from './controllers/production-plans.controller';
+import { UnitsModule } from '../units/units.module';
+
+@Module({
+  imports: [
+    ProductionModule,
+    LocationsModule,
+    UnitsModule,
+    MongooseModule.forFeature([
+      { name: ProductionPlan.name, schema: ProductionPlanSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: Material.name, schema: MaterialSchema },
+    ]),
+  ],
+  controllers: [ProductionPlansController],
+  providers: [ProductionPlansService],
+  exports: [ProductionPlansService],
+})
+export class ProductionPlansModule {}
@@ -0,0 +1,88 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+
+export type ProductionPlanDocument = HydratedDocument<ProductionPlan>;
+
+export enum ProductionPlanStatus {
+  DRAFT = 'draft',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ _id: false })
+export class ProductionPlanItem {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop()
+  notes?: string;
+}
+
+export const ProductionPlanItemSchema =
+  SchemaFactory.createForClass(ProductionPlanItem);
+
+@Schema({ timestamps: true })
+export class ProductionPlan {
+  _id?: Types.ObjectId;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  reference: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  plannedFor?: Date; // e.g. the market weekend being built for
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location?: Types.ObjectId; // Where the plan is made; defaults to the main location
+
+  @Prop({
+    required: true,
+    enum: ProductionPlanStatus,
+    default: ProductionPlanStatus.DRAFT,
+  })
+  status: ProductionPlanStatus;
+
+  @Prop({ type: [ProductionPlanItemSchema], required: true })
+  items: ProductionPlanItem[];
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'ProductionBatch' }] })
+  batches: Types.ObjectId[]; // Created when the plan is executed
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  executedBy: Types.ObjectId;
+
+  @Prop()
+  executedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy: Types.ObjectId;
+
+  @Prop()
+  cancelledAt: Date;
+}
+
+export const ProductionPlanSchema =
+  SchemaFactory.createForClass(ProductionPlan);
+
+ProductionPlanSchema.plugin(workspaceScopePlugin);
+
+ProductionPlanSchema.index({ workspace: 1, status: 1, createdAt: -1 });
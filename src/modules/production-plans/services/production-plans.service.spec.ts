@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ProductionPlansService } from './production-plans.service';
+import {
+  ProductionPlan,
+  ProductionPlanStatus,
+} from '../schemas/production-plan.schema';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { ProductionService } from 'src/modules/production/services/production.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+describe('ProductionPlansService', () => {
+  let service: ProductionPlansService;
+  let connection: ReturnType<typeof mockConnection>;
+  let planModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let productionService: { recordProductionBatch: jest.Mock };
+  let locationsService: Record<string, jest.Mock>;
+  let unitsService: { convert: jest.Mock };
+
+  const userId = new Types.ObjectId().toString();
+  const location = new Types.ObjectId();
+  const grams = new Types.ObjectId();
+  const kilograms = new Types.ObjectId();
+
+  const wax = {
+    _id: new Types.ObjectId(),
+    name: 'Soy wax',
+    sku: 'WAX',
+    unit: kilograms,
+    averageCost: 4,
+  };
+
+  // Both candles use wax, written in grams and stocked in kilograms
+  const candle = {
+    _id: new Types.ObjectId(),
+    name: 'Candle',
+    recipe: [
+      { itemType: 'material', material: wax._id, quantity: 200, unit: grams },
+    ],
+  };
+  const tealight = {
+    _id: new Types.ObjectId(),
+    name: 'Tealight',
+    recipe: [
+      { itemType: 'material', material: wax._id, quantity: 50, unit: grams },
+    ],
+  };
+  const products = [candle, tealight];
+
+  const draftPlan = () => ({
+    _id: new Types.ObjectId(),
+    reference: 'PLAN-1',
+    status: ProductionPlanStatus.DRAFT,
+    items: [
+      { product: candle._id, quantity: 10 },
+      { product: tealight._id, quantity: 20 },
+    ],
+    save: jest.fn().mockResolvedValue(undefined),
+  });
+
+  const holdWax = (quantity: number) =>
+    locationsService.getQuantityAt.mockResolvedValue(quantity);
+
+  beforeEach(async () => {
+    connection = mockConnection();
+    planModel = { findById: jest.fn(), create: jest.fn() };
+    productModel = {
+      findById: jest.fn((id: Types.ObjectId) =>
+        Promise.resolve(products.find((p) => p._id.equals(id))),
+      ),
+    };
+    materialModel = { findById: jest.fn().mockResolvedValue(wax) };
+    productionService = {
+      recordProductionBatch: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+    locationsService = {
+      resolveLocationId: jest.fn().mockResolvedValue(location),
+      getQuantityAt: jest.fn(),
+    };
+    unitsService = {
+      convert: jest.fn((quantity: number) => Promise.resolve(quantity / 1000)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductionPlansService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(ProductionPlan.name), useValue: planModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: ProductionService, useValue: productionService },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: UnitsService, useValue: unitsService },
+      ],
+    }).compile();
+
+    service = module.get<ProductionPlansService>(ProductionPlansService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getRequirements', () => {
+    it('combines a material used by several products in its stock unit', async () => {
+      planModel.findById.mockResolvedValue(draftPlan());
+      holdWax(2.5);
+
+      const requirements = await service.getRequirements(
+        new Types.ObjectId().toString(),
+      );
+
+      // 10 × 200 g + 20 × 50 g = 3 kg
+      expect(requirements.materials).toHaveLength(1);
+      expect(requirements.materials[0]).toMatchObject({
+        required: 3,
+        available: 2.5,
+        shortage: 0.5,
+        estimatedCost: 12,
+      });
+      expect(requirements.materials[0].usedBy).toHaveLength(2);
+      expect(requirements.products[0]).toMatchObject({
+        estimatedCost: 8,
+        estimatedUnitCost: 0.8,
+      });
+      expect(requirements.canExecute).toBe(false);
+    });
+
+    it('treats a malformed id as a plan that does not exist', async () => {
+      await expect(service.getRequirements('plan-1')).rejects.toThrow(
+        'Production plan not found',
+      );
+      expect(planModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('execute', () => {
+    it('makes every product as a batch in one transaction', async () => {
+      const plan = draftPlan();
+      planModel.findById.mockReturnValue(mockQuery(plan));
+      holdWax(5);
+
+      await service.execute(plan._id.toString(), userId);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(productionService.recordProductionBatch).toHaveBeenCalledTimes(2);
+      expect(productionService.recordProductionBatch).toHaveBeenCalledWith(
+        candle,
+        10,
+        'Production plan PLAN-1',
+        userId,
+        location,
+        expect.stringMatching(/^BATCH-\d+-1$/),
+      );
+      expect(plan.status).toBe(ProductionPlanStatus.COMPLETED);
+      expect(plan.save).toHaveBeenCalled();
+    });
+
+    it('refuses to start when stock is short', async () => {
+      const plan = draftPlan();
+      planModel.findById.mockReturnValue(mockQuery(plan));
+      holdWax(1);
+
+      await expect(
+        service.execute(plan._id.toString(), userId),
+      ).rejects.toThrow('Not enough stock to run this plan: Soy wax (short 2)');
+      expect(connection.transaction).not.toHaveBeenCalled();
+    });
+
+    it('rolls back and leaves the plan a draft when a batch fails', async () => {
+      const plan = draftPlan();
+      planModel.findById.mockReturnValue(mockQuery(plan));
+      holdWax(5);
+      productionService.recordProductionBatch
+        .mockResolvedValueOnce({ _id: new Types.ObjectId() })
+        .mockRejectedValueOnce(new Error('write conflict'));
+
+      await expect(
+        service.execute(plan._id.toString(), userId),
+      ).rejects.toThrow('write conflict');
+      expect(plan.status).toBe(ProductionPlanStatus.DRAFT);
+      expect(plan.save).not.toHaveBeenCalled();
+    });
+
+    it('only runs draft plans', async () => {
+      const plan = { ...draftPlan(), status: ProductionPlanStatus.COMPLETED };
+      planModel.findById.mockReturnValue(mockQuery(plan));
+
+      await expect(
+        service.execute(plan._id.toString(), userId),
+      ).rejects.toThrow('Production plan is completed');
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import {
+  ProductionPlan,
+  ProductionPlanDocument,
+  ProductionPlanStatus,
+} from '../schemas/production-plan.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { ProductionService } from 'src/modules/production/services/production.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import {
+  CreateProductionPlanDto,
+  UpdateProductionPlanDto,
+} from '../dto/create-production-plan.dto';
+import { ProductionPlanFiltersDto } from '../dto/production-plan-filters.dto';
+import {
+  PlanComponentRequirement,
+  PlanMaterialRequirement,
+  ProductionPlanRequirements,
+} from '../types/ProductionPlanRequirements';
+
+@Injectable()
+export class ProductionPlansService {
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(ProductionPlan.name)
+    private readonly planModel: Model<ProductionPlanDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    private readonly productionService: ProductionService,
+    private readonly locationsService: LocationsService,
+    private readonly unitsService: UnitsService,
+  ) {}
+
+  async create(
+    createProductionPlanDto: CreateProductionPlanDto,
+    userId: string,
+  ): Promise<ProductionPlan> {
+    await this.validateItems(createProductionPlanDto.items);
+    if (createProductionPlanDto.location) {
+      await this.locationsService.resolveLocationId(
+        createProductionPlanDto.location,
+      );
+    }
+
+    return this.planModel.create({
+      ...createProductionPlanDto,
+      reference: `PLAN-${Date.now()}`,
+      createdBy: new Types.ObjectId(userId),
+    });
+  }
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: ProductionPlanFiltersDto,
+  ): Promise<PaginatedResponse<ProductionPlan>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<ProductionPlan> = {};
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { name: { $regex: filters.searchTerm, $options: 'i' } },
+        { reference: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+
+    if (filters?.status) {
+      query.status = filters.status;
+    }
+
+    const [data, total] = await Promise.all([
+      this.planModel
+        .find(query)
+        .populate('items.product', 'name sku')
+        .populate('createdBy', 'name email')
+        .sort('-createdAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.planModel.countDocuments(query),
+    ]);
+
+    return { data, page, pageSize, total };
+  }
+
+  async findOne(id: string): Promise<ProductionPlanDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Production plan not found');
+    }
+
+    const plan = await this.planModel
+      .findById(id)
+      .populate('items.product', 'name sku sellingPrice')
+      .populate('location', 'name')
+      .populate('batches', 'batchNumber quantity totalCost')
+      .populate('createdBy', 'name email')
+      .populate('executedBy', 'name email');
+
+    if (!plan) {
+      throw new NotFoundException('Production plan not found');
+    }
+    return plan;
+  }
+
+  async update(
+    id: string,
+    updateProductionPlanDto: UpdateProductionPlanDto,
+  ): Promise<ProductionPlan> {
+    const plan = await this.findDraft(id);
+
+    if (updateProductionPlanDto.items) {
+      await this.validateItems(updateProductionPlanDto.items);
+    }
+    if (updateProductionPlanDto.location) {
+      await this.locationsService.resolveLocationId(
+        updateProductionPlanDto.location,
+      );
+    }
+
+    plan.set(updateProductionPlanDto);
+    await plan.save();
+    return this.findOne(id);
+  }
+
+  async cancel(id: string, userId: string): Promise<ProductionPlan> {
+    const plan = await this.findDraft(id);
+
+    plan.status = ProductionPlanStatus.CANCELLED;
+    plan.cancelledBy = new Types.ObjectId(userId);
+    plan.cancelledAt = new Date();
+    await plan.save();
+
+    return plan;
+  }
+
+  /**
+   * Combines the recipes of every product in the plan into one list of
+   * materials, and one of sub-assemblies, compared against the stock at the
+   * plan's location.
+   */
+  async getRequirements(id: string): Promise<ProductionPlanRequirements> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Production plan not found');
+    }
+
+    const plan = await this.planModel.findById(id);
+    if (!plan) {
+      throw new NotFoundException('Production plan not found');
+    }
+    return this.calculateRequirements(plan);
+  }
+
+  /**
+   * Requirements for a list of products that isn't saved as a plan yet,
+   * e.g. quantities recommended by a forecast.
+   */
+  async estimateRequirements(
+    items: Array<{ product: Types.ObjectId; quantity: number }>,
+    location?: string,
+  ): Promise<ProductionPlanRequirements> {
+    return this.calculateRequirements({ items, location });
+  }
+
+  /**
+   * Makes every product in the plan as its own production batch, all in one
+   * transaction so the plan either happens in full or not at all.
+   */
+  async execute(id: string, userId: string): Promise<ProductionPlan> {
+    const plan = await this.findDraft(id);
+    const requirements = await this.calculateRequirements(plan);
+
+    if (!requirements.canExecute) {
+      const missing = [
+        ...requirements.shortages,
+        ...requirements.componentShortages,
+      ]
+        .map((s) => `${s.name} (short ${s.shortage})`)
+        .join(', ');
+      throw new BadRequestException(
+        `Not enough stock to run this plan: ${missing}`,
+      );
+    }
+
+    const location = await this.locationsService.resolveLocationId(
+      plan.location,
+    );
+
+    await this.connection.transaction(async () => {
+      const batchIds: Types.ObjectId[] = [];
+      const timestamp = Date.now();
+
+      for (const [index, item] of plan.items.entries()) {
+        const product = await this.productModel.findById(item.product);
+        if (!product) {
+          throw new NotFoundException('Product in plan no longer exists');
+        }
+
+        const batch = await this.productionService.recordProductionBatch(
+          product,
+          item.quantity,
+          item.notes || `Production plan ${plan.reference}`,
+          userId,
+          location,
+          `BATCH-${timestamp}-${index + 1}`,
+        );
+        batchIds.push(batch._id);
+      }
+
+      plan.batches = batchIds;
+      plan.status = ProductionPlanStatus.COMPLETED;
+      plan.executedBy = new Types.ObjectId(userId);
+      plan.executedAt = new Date();
+      await plan.save();
+    });
+
+    return this.findOne(id);
+  }
+
+  private async calculateRequirements(plan: {
+    items: Array<{ product: Types.ObjectId; quantity: number }>;
+    location?: string | Types.ObjectId;
+  }): Promise<ProductionPlanRequirements> {
+    const location = await this.locationsService.resolveLocationId(
+      plan.location,
+    );
+    const requirements = new Map<string, PlanMaterialRequirement>();
+    const components = new Map<string, PlanComponentRequirement>();
+    const products: ProductionPlanRequirements['products'] = [];
+
+    for (const item of plan.items) {
+      const product = await this.productModel.findById(item.product);
+      if (!product) {
+        throw new NotFoundException('Product in plan no longer exists');
+      }
+
+      let productCost = 0;
+
+      for (const recipeItem of product.recipe) {
+        if (recipeItem.itemType === 'product') {
+          const component = await this.addComponentRequirement(
+            components,
+            product,
+            recipeItem.product as unknown as Types.ObjectId,
+            recipeItem.quantity * item.quantity,
+            location,
+          );
+          productCost +=
+            recipeItem.quantity * item.quantity * component.unitCost;
+          continue;
+        }
+
+        const materialId = recipeItem.material as unknown as Types.ObjectId;
+        const key = materialId.toString();
+
+        const material = await this.materialModel.findById(materialId);
+        if (!material) {
+          throw new NotFoundException(
+            `A material used by ${product.name} no longer exists`,
+          );
+        }
+
+        // Requirements are totalled in the unit the material is stocked in
+        const quantity =
+          (await this.unitsService.convert(
+            recipeItem.quantity,
+            recipeItem.unit!,
+            material.unit,
+            material,
+          )) * item.quantity;
+
+        let requirement = requirements.get(key);
+        if (!requirement) {
+          requirement = {
+            material: material._id,
+            name: material.name,
+            sku: material.sku,
+            unit: material.unit as unknown as Types.ObjectId,
+            required: 0,
+            available: await this.locationsService.getQuantityAt(
+              material,
+              location,
+            ),
+            shortage: 0,
+            unitCost: material.averageCost || 0,
+            estimatedCost: 0,
+            usedBy: [],
+          };
+          requirements.set(key, requirement);
+        }
+
+        requirement.required += quantity;
+        requirement.usedBy.push({
+          product: product._id,
+          name: product.name,
+          quantity,
+        });
+
+        productCost += quantity * requirement.unitCost;
+      }
+
+      products.push({
+        product: product._id,
+        name: product.name,
+        quantity: item.quantity,
+        estimatedUnitCost: productCost / item.quantity,
+        estimatedCost: productCost,
+      });
+    }
+
+    const materials = [...requirements.values()].map((requirement) => ({
+      ...requirement,
+      shortage: Math.max(0, requirement.required - requirement.available),
+      estimatedCost: requirement.required * requirement.unitCost,
+    }));
+    const shortages = materials.filter((m) => m.shortage > 0);
+    const componentList = [...components.values()].map((component) => ({
+      ...component,
+      shortage: Math.max(0, component.required - component.available),
+      estimatedCost: component.required * component.unitCost,
+    }));
+    const componentShortages = componentList.filter((c) => c.shortage > 0);
+
+    return {
+      materials,
+      components: componentList,
+      products,
+      totalEstimatedCost: products.reduce((sum, p) => sum + p.estimatedCost, 0),
+      shortages,
+      componentShortages,
+      canExecute: shortages.length === 0 && componentShortages.length === 0,
+    };
+  }
+
+  /**
+   * Sub-assemblies are not made by the plan, so they must already be in
+   * finished stock at the plan's location.
+   */
+  private async addComponentRequirement(
+    components: Map<string, PlanComponentRequirement>,
+    parent: ProductDocument,
+    componentId: Types.ObjectId,
+    quantity: number,
+    location: Types.ObjectId,
+  ): Promise<PlanComponentRequirement> {
+    const key = componentId.toString();
+    let requirement = components.get(key);
+
+    if (!requirement) {
+      const component = await this.productModel.findById(componentId);
+      if (!component) {
+        throw new NotFoundException(
+          `A product used by ${parent.name} no longer exists`,
+        );
+      }
+
+      requirement = {
+        product: component._id,
+        name: component.name,
+        sku: component.sku,
+        required: 0,
+        available: await this.locationsService.getQuantityAt(
+          component,
+          location,
+        ),
+        shortage: 0,
+        unitCost: component.averageUnitCost || 0,
+        estimatedCost: 0,
+        usedBy: [],
+      };
+      components.set(key, requirement);
+    }
+
+    requirement.required += quantity;
+    requirement.usedBy.push({
+      product: parent._id,
+      name: parent.name,
+      quantity,
+    });
+    return requirement;
+  }
+
+  private async findDraft(id: string): Promise<ProductionPlanDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Production plan not found');
+    }
+
+    const plan = await this.planModel.findById(id);
+    if (!plan) {
+      throw new NotFoundException('Production plan not found');
+    }
+    if (plan.status !== ProductionPlanStatus.DRAFT) {
+      throw new BadRequestException(`Production plan is ${plan.status}`);
+    }
+    return plan;
+  }
+
+  private async validateItems(items: { product: string }[]): Promise<void> {
+    const ids = [...new Set(items.map((item) => item.product))];
+    const found = await this.productModel.countDocuments({ _id: { $in: ids } });
+
+    if (found !== ids.length) {
+      throw new BadRequestException('One or more products do not exist');
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Types } from 'mongoose';
+
+export type PlanMaterialRequirement = {
+  material: Types.ObjectId;
+  name: string;
+  sku: string;
+  unit?: Types.ObjectId;
+  required: number;
+  available: number;
+  shortage: number;
+  unitCost: number;
+  estimatedCost: number;
+  usedBy: Array<{ product: Types.ObjectId; name: string; quantity: number }>;
+};
+
+/** A sub-assembly the plan takes from finished stock */
+export type PlanComponentRequirement = {
+  product: Types.ObjectId;
+  name: string;
+  sku: string;
+  required: number;
+  available: number;
+  shortage: number;
+  unitCost: number;
+  estimatedCost: number;
+  usedBy: Array<{ product: Types.ObjectId; name: string; quantity: number }>;
+};
+
+export type PlanProductEstimate = {
+  product: Types.ObjectId;
+  name: string;
+  quantity: number;
+  estimatedUnitCost: number;
+  estimatedCost: number;
+};
+
+export type ProductionPlanRequirements = {
+  materials: PlanMaterialRequirement[];
+  components: PlanComponentRequirement[];
+  products: PlanProductEstimate[];
+  totalEstimatedCost: number;
+  shortages: PlanMaterialRequirement[];
+  componentShortages: PlanComponentRequirement[];
+  canExecute: boolean;
+};
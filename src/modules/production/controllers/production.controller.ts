@@ -15,6 +15,8 @@ import { ProductionBatch } from '../schemas/production-batch.schema';
 import { ProductionService } from '../services/production.service';
 import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
 
 @RequireVerified()
 @Controller('production')
@@ -28,6 +30,7 @@ export class ProductionController {
       productId: string;
       quantity: number;
       notes?: string;
+      locationId?: string;
     },
     @GetUser() user: User,
   ) {
@@ -37,6 +40,27 @@ export class ProductionController {
       body.quantity,
       body.notes || '',
       user._id!,
+      body.locationId,
+    );
+  }
+
+  @Post('assemble')
+  async assembleBundle(
+    @Body()
+    body: {
+      productId: string;
+      quantity: number;
+      notes?: string;
+      locationId?: string;
+    },
+    @GetUser() user: User,
+  ) {
+    return this.productionService.assembleBundle(
+      body.productId,
+      body.quantity,
+      body.notes || '',
+      user._id!,
+      body.locationId,
     );
   }
 
@@ -90,6 +114,7 @@ export class ProductionController {
 
   @Post('batch/:id/reverse')
   @HttpCode(200)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async reverseBatch(
     @Param('id') id: string,
     @Body('reason') reason: string,
@@ -12,9 +12,19 @@ import {
   StockAdjustmentSchema,
 } from '../stock-adjustments/schemas/stock-adjustment.schema';
 import { ProductionController } from './controllers/production.controller';
+import { LocationsModule } from '../locations/locations.module';
+import { LotsModule } from '../lots/lots.module';
+import { CostingModule } from '../costing/costing.module';
+import { StockAdjustmentsModule } from '../stock-adjustments/stock-adjustments.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
   imports: [
+    LocationsModule,
+    LotsModule,
+    CostingModule,
+    StockAdjustmentsModule,
+    ProductsModule,
     MongooseModule.forFeature([
       { name: ProductionBatch.name, schema: ProductionBatchSchema },
       { name: Product.name, schema: ProductSchema },
@@ -24,5 +34,6 @@ import { ProductionController } from './controllers/production.controller';
   ],
   controllers: [ProductionController],
   providers: [ProductionService],
+  exports: [ProductionService],
 })
 export class ProductionModule {}
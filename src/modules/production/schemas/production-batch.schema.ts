@@ -1,10 +1,20 @@
 import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import { LotUsage } from 'src/modules/lots/types/LotUsage';
+import { OverheadBasis } from 'src/modules/costing/enums/OverheadBasis.enum';
 
 export type ProductionBatchDocument = HydratedDocument<ProductionBatch>;
 
 @Schema({ timestamps: true })
 export class ProductionBatch {
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   product: Types.ObjectId;
 
@@ -14,6 +24,9 @@ export class ProductionBatch {
   @Prop({ required: true })
   batchNumber: string;
 
+  @Prop({ type: Types.ObjectId, ref: 'RecipeVersion' })
+  recipeVersion: Types.ObjectId; // Recipe the batch was made with
+
   @Prop({
     type: [
       {
@@ -21,6 +34,13 @@ export class ProductionBatch {
         quantity: Number,
         unitCostAtTime: Number,
         totalCost: Number,
+        lots: [
+          {
+            _id: false,
+            lot: { type: Types.ObjectId, ref: 'MaterialLot' },
+            quantity: Number,
+          },
+        ],
       },
     ],
   })
@@ -29,8 +49,79 @@ export class ProductionBatch {
     quantity: number;
     unitCostAtTime: number;
     totalCost: number;
+    lots: LotUsage[]; // Empty for stock received before lots were tracked
+  }>;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        product: { type: Types.ObjectId, ref: 'Product' },
+        quantity: Number,
+        unitCostAtTime: Number,
+        totalCost: Number,
+      },
+    ],
+    default: [],
+  })
+  componentCosts: Array<{
+    product: Types.ObjectId; // Sub-assembly taken from finished stock
+    quantity: number;
+    unitCostAtTime: number;
+    totalCost: number;
+  }>;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        labourRate: Types.ObjectId,
+        name: String,
+        minutes: Number,
+        hourlyRate: Number,
+        cost: Number,
+      },
+    ],
+    default: [],
+  })
+  labourCosts: Array<{
+    labourRate: Types.ObjectId;
+    name: string;
+    minutes: number;
+    hourlyRate: number; // Rate at the time, later changes don't alter the batch
+    cost: number;
   }>;
 
+  @Prop({
+    type: [
+      {
+        _id: false,
+        overheadRate: Types.ObjectId,
+        name: String,
+        basis: { type: String, enum: OverheadBasis },
+        amount: Number,
+        cost: Number,
+      },
+    ],
+    default: [],
+  })
+  overheadCosts: Array<{
+    overheadRate: Types.ObjectId;
+    name: string;
+    basis: OverheadBasis;
+    amount: number;
+    cost: number;
+  }>;
+
+  @Prop({ min: 0 })
+  materialCost: number; // Materials and sub-assemblies. Unset on older batches, where it is all of totalCost
+
+  @Prop({ default: 0, min: 0 })
+  labourCost: number;
+
+  @Prop({ default: 0, min: 0 })
+  overheadCost: number;
+
   @Prop({ required: true, min: 0 })
   unitCost: number;
 
@@ -40,9 +131,15 @@ export class ProductionBatch {
   @Prop({ type: Types.ObjectId, ref: 'User' })
   producedBy: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId; // Where materials were used and goods put away
+
   @Prop()
   notes: string;
 
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'StockAdjustment' }] })
+  productionAdjustments: Types.ObjectId[]; // Material deductions and the finished goods increase
+
   // Reversal fields
 
   @Prop({ default: 0 })
@@ -86,3 +183,8 @@ export class ProductionBatch {
 
 export const ProductionBatchSchema =
   SchemaFactory.createForClass(ProductionBatch);
+
+ProductionBatchSchema.plugin(workspaceScopePlugin);
+
+ProductionBatchSchema.index({ workspace: 1, createdAt: -1 });
+ProductionBatchSchema.index({ workspace: 1, 'materialCosts.lots.lot': 1 });
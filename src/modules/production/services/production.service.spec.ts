@@ -1,12 +1,125 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { ProductionService } from './production.service';
+import { ProductionBatch } from '../schemas/production-batch.schema';
+import {
+  Product,
+  ProductDocument,
+  ProductType,
+} from '../../products/schemas/product.schema';
+import { Material } from '../../materials/schemas/material.schema';
+import { StockAdjustment } from '../../stock-adjustments/schemas/stock-adjustment.schema';
+import { LocationsService } from '../../locations/services/locations.service';
+import { LotsService } from '../../lots/services/lots.service';
+import { CostingService } from '../../costing/services/costing.service';
+import { ConversionCostsService } from '../../costing/services/conversion-costs.service';
+import { StockAdjustmentsService } from '../../stock-adjustments/stock-adjustments.service';
+import { RecipeVersionsService } from '../../products/services/recipe-versions.service';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+// Batches are built with `new`, so the model is a class
+class BatchModel {
+  static find = jest.fn();
+  static findById = jest.fn();
+  static aggregate = jest.fn();
+  constructor(data: object) {
+    Object.assign(this, data);
+  }
+  save() {
+    return Promise.resolve(this);
+  }
+}
 
 describe('ProductionService', () => {
   let service: ProductionService;
+  let connection: ReturnType<typeof mockConnection>;
+  let productModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let stockAdjustmentModel: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+  let stockAdjustmentsService: Record<string, jest.Mock>;
+  let conversionCostsService: { allocate: jest.Mock };
+  let recipeVersionsService: { getCurrent: jest.Mock };
+
+  const userId = new Types.ObjectId().toString();
+  const location = new Types.ObjectId();
+  const recipeVersionId = new Types.ObjectId();
+  const wax = new Types.ObjectId();
+
+  const candle = (fields = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Candle',
+    currentStock: 0,
+    averageUnitCost: 0,
+    labour: [],
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    connection = mockConnection();
+    productModel = { findById: jest.fn() };
+    materialModel = { findById: jest.fn() };
+    stockAdjustmentModel = {
+      create: jest.fn().mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+    locationsService = {
+      resolveLocationId: jest.fn().mockResolvedValue(location),
+      getDefaultLocationId: jest.fn().mockResolvedValue(location),
+      getQuantityAt: jest.fn(),
+      applyStockChange: jest.fn().mockResolvedValue(undefined),
+    };
+    stockAdjustmentsService = {
+      handleProductionDeduction: jest.fn().mockResolvedValue({
+        adjustmentIds: [new Types.ObjectId()],
+        materialCosts: [
+          {
+            material: wax,
+            quantity: 5,
+            unitCost: 2,
+            totalCost: 10,
+            lots: [],
+          },
+        ],
+        componentCosts: [],
+        totalCost: 10,
+      }),
+      handleProductionIncrease: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+    conversionCostsService = {
+      allocate: jest.fn().mockResolvedValue({
+        labour: [],
+        overhead: [],
+        labourCost: 6,
+        overheadCost: 4,
+      }),
+    };
+    recipeVersionsService = {
+      getCurrent: jest.fn().mockResolvedValue({ _id: recipeVersionId }),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProductionService],
+      providers: [
+        ProductionService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: BatchModel },
+        {
+          provide: getModelToken(StockAdjustment.name),
+          useValue: stockAdjustmentModel,
+        },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: LotsService, useValue: { restore: jest.fn() } },
+        { provide: CostingService, useValue: { onReturn: jest.fn() } },
+        { provide: StockAdjustmentsService, useValue: stockAdjustmentsService },
+        { provide: RecipeVersionsService, useValue: recipeVersionsService },
+        { provide: ConversionCostsService, useValue: conversionCostsService },
+      ],
     }).compile();
 
     service = module.get<ProductionService>(ProductionService);
@@ -15,4 +128,231 @@ describe('ProductionService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('createProductionBatch', () => {
+    it('deducts materials, adds the goods and records the batch in one transaction', async () => {
+      const product = candle();
+      productModel.findById.mockResolvedValue(product);
+
+      const batch = await service.createProductionBatch(
+        product._id.toString(),
+        10,
+        '',
+        userId,
+      );
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(
+        stockAdjustmentsService.handleProductionDeduction,
+      ).toHaveBeenCalledWith(
+        product._id.toString(),
+        10,
+        userId,
+        batch.batchNumber,
+        location,
+      );
+      expect(
+        stockAdjustmentsService.handleProductionIncrease,
+      ).toHaveBeenCalledWith(
+        product._id.toString(),
+        10,
+        2,
+        userId,
+        batch.batchNumber,
+        location,
+      );
+      expect(batch).toMatchObject({
+        quantity: 10,
+        materialCost: 10,
+        totalCost: 20,
+        unitCost: 2,
+        location,
+        recipeVersion: recipeVersionId,
+      });
+      expect(batch.materialCosts[0]).toMatchObject({
+        material: wax,
+        unitCostAtTime: 2,
+      });
+    });
+
+    it('records nothing when a material is short', async () => {
+      const product = candle();
+      productModel.findById.mockResolvedValue(product);
+      stockAdjustmentsService.handleProductionDeduction.mockRejectedValue(
+        new Error('Insufficient Soy wax at this location'),
+      );
+      const save = jest.spyOn(BatchModel.prototype, 'save');
+
+      await expect(
+        service.createProductionBatch(product._id.toString(), 10, '', userId),
+      ).rejects.toThrow('Insufficient Soy wax at this location');
+      expect(
+        stockAdjustmentsService.handleProductionIncrease,
+      ).not.toHaveBeenCalled();
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('refuses an unknown product before starting a transaction', async () => {
+      productModel.findById.mockResolvedValue(null);
+
+      await expect(
+        service.createProductionBatch(
+          new Types.ObjectId().toString(),
+          1,
+          '',
+          userId,
+        ),
+      ).rejects.toThrow('Product not found');
+      expect(connection.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assembleBundle', () => {
+    it('records the assembly as a batch in one transaction', async () => {
+      const giftSet = candle({
+        name: 'Gift set',
+        productType: ProductType.BUNDLE,
+      });
+      productModel.findById.mockResolvedValue(giftSet);
+
+      const batch = await service.assembleBundle(
+        giftSet._id.toString(),
+        4,
+        '',
+        userId,
+      );
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(batch.batchNumber).toMatch(/^ASM-\d+$/);
+      expect(
+        stockAdjustmentsService.handleProductionDeduction,
+      ).toHaveBeenCalledWith(
+        giftSet._id.toString(),
+        4,
+        userId,
+        batch.batchNumber,
+        location,
+      );
+    });
+
+    it('refuses a product that is not a bundle', async () => {
+      productModel.findById.mockResolvedValue(candle());
+
+      await expect(
+        service.assembleBundle(new Types.ObjectId().toString(), 1, '', userId),
+      ).rejects.toThrow('Candle is not a bundle');
+      expect(connection.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getProductionHistory', () => {
+    it('shows which recipe version each batch was made with', async () => {
+      const query = mockQuery([]);
+      BatchModel.find.mockReturnValue(query);
+
+      await service.getProductionHistory();
+
+      expect(query.populate).toHaveBeenCalledWith(
+        'recipeVersion',
+        'version effectiveFrom changeNotes',
+      );
+      expect(query.populate).toHaveBeenCalledWith('materialCosts.material');
+    });
+  });
+
+  describe('recordProductionBatch', () => {
+    it('adds labour and overhead for the batch to its cost', async () => {
+      const labour = [{ labourRate: new Types.ObjectId(), minutesPerUnit: 3 }];
+      const product = candle({ labour }) as unknown as ProductDocument;
+
+      const batch = await service.recordProductionBatch(
+        product,
+        10,
+        '',
+        userId,
+        location,
+        'BATCH-1',
+      );
+
+      expect(conversionCostsService.allocate).toHaveBeenCalledWith(labour, 10);
+      expect(batch).toMatchObject({
+        materialCost: 10,
+        labourCost: 6,
+        overheadCost: 4,
+        totalCost: 20,
+        unitCost: 2,
+      });
+      // The product's average cost takes in the full unit cost
+      expect(
+        stockAdjustmentsService.handleProductionIncrease,
+      ).toHaveBeenCalledWith(
+        product._id.toString(),
+        10,
+        2,
+        userId,
+        'BATCH-1',
+        location,
+      );
+    });
+  });
+
+  describe('getFullProductionStats', () => {
+    it('breaks the cost down into materials, labour and overhead', async () => {
+      BatchModel.aggregate
+        .mockReturnValueOnce(
+          mockQuery([
+            {
+              totalBatches: 2,
+              totalProductsProduced: 30,
+              totalProductionCost: 75,
+              materialCost: 45,
+              labourCost: 20,
+              overheadCost: 10,
+              averageBatchSize: 15,
+            },
+          ]),
+        )
+        .mockReturnValue(mockQuery([]));
+
+      const stats = await service.getFullProductionStats('month');
+
+      expect(stats.costBreakdown).toEqual({
+        material: 45,
+        labour: 20,
+        overhead: 10,
+      });
+    });
+  });
+
+  describe('reverseProductionBatch', () => {
+    it('fails as a whole when a material has gone', async () => {
+      const product = candle({ currentStock: 10 });
+      const batch = {
+        _id: new Types.ObjectId(),
+        batchNumber: 'BATCH-1',
+        product: product._id,
+        quantity: 10,
+        unitCost: 2,
+        location,
+        materialCosts: [{ material: { _id: wax }, quantity: 5, lots: [] }],
+        save: jest.fn(),
+      };
+      BatchModel.findById.mockReturnValue(mockQuery(batch));
+      productModel.findById.mockResolvedValue(product);
+      materialModel.findById.mockResolvedValue(null);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+
+      await expect(
+        service.reverseProductionBatch(
+          batch._id.toString(),
+          'Wrong scent',
+          4,
+          userId,
+        ),
+      ).rejects.toThrow(`Material ${wax.toString()} not found`);
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(batch.save).not.toHaveBeenCalled();
+      expect(product.save).not.toHaveBeenCalled();
+    });
+  });
 });
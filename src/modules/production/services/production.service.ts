@@ -12,12 +12,22 @@ import {
 import {
   Product,
   ProductDocument,
+  ProductType,
 } from '../../products/schemas/product.schema';
-import { ProductionBatch } from '../schemas/production-batch.schema';
+import {
+  ProductionBatch,
+  ProductionBatchDocument,
+} from '../schemas/production-batch.schema';
 import {
   AdjustmentType,
   StockAdjustment,
 } from '../../stock-adjustments/schemas/stock-adjustment.schema';
+import { LocationsService } from '../../locations/services/locations.service';
+import { LotsService } from '../../lots/services/lots.service';
+import { CostingService } from '../../costing/services/costing.service';
+import { ConversionCostsService } from '../../costing/services/conversion-costs.service';
+import { StockAdjustmentsService } from '../../stock-adjustments/stock-adjustments.service';
+import { RecipeVersionsService } from '../../products/services/recipe-versions.service';
 
 export interface ProductionStats {
   totalBatches: number;
@@ -27,6 +37,7 @@ export interface ProductionStats {
 }
 
 export interface FullProductionStats extends ProductionStats {
+  costBreakdown: { material: number; labour: number; overhead: number };
   timeline: { date: string; totalQuantity: number; batchCount: number }[];
   productTotals: {
     productName: string;
@@ -45,6 +56,12 @@ export class ProductionService {
     private batchModel: Model<ProductionBatch>,
     @InjectModel(StockAdjustment.name)
     private stockAdjustmentModel: Model<StockAdjustment>,
+    private readonly locationsService: LocationsService,
+    private readonly lotsService: LotsService,
+    private readonly costingService: CostingService,
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+    private readonly recipeVersionsService: RecipeVersionsService,
+    private readonly conversionCostsService: ConversionCostsService,
   ) {}
 
   async createProductionBatch(
@@ -52,74 +69,140 @@ export class ProductionService {
     quantity: number,
     notes: string,
     userId: string,
+    locationId?: string,
   ): Promise<ProductionBatch> {
-    // Get product with recipe
-    const product = await this.productModel
-      .findById(productId)
-      .populate('recipe.material recipe.unit');
+    const product = await this.productModel.findById(productId);
 
     if (!product) {
       throw new BadRequestException('Product not found');
     }
 
-    // Check material availability
-    const materialCosts: {
-      material: Types.ObjectId;
-      quantity: number;
-      unitCostAtTime: number;
-      totalCost: number;
-    }[] = [];
-    let totalBatchCost = 0;
+    // Materials come out of, and finished goods go into, the same location
+    const location = await this.locationsService.resolveLocationId(locationId);
 
-    for (const item of product.recipe) {
-      const material = await this.materialModel.findById(item.material);
+    // All or nothing so a failure never leaves stock partly deducted
+    return await this.connection.transaction(() =>
+      this.recordProductionBatch(product, quantity, notes, userId, location),
+    );
+  }
 
-      if (!material) throw new BadRequestException('material does not exist');
-      const requiredQty = item.quantity * quantity;
+  /**
+   * Assembles bundles from component products and packaging. It is recorded
+   * like any other batch, under an ASM- number.
+   */
+  async assembleBundle(
+    productId: string,
+    quantity: number,
+    notes: string,
+    userId: string,
+    locationId?: string,
+  ): Promise<ProductionBatch> {
+    const product = await this.productModel.findById(productId);
 
-      if (material.currentStock < requiredQty) {
-        throw new BadRequestException(
-          `Insufficient ${material.name}. Need ${requiredQty}, have ${material.currentStock}`,
-        );
-      }
+    if (!product) {
+      throw new BadRequestException('Product not found');
+    }
+    if (product.productType !== ProductType.BUNDLE) {
+      throw new BadRequestException(`${product.name} is not a bundle`);
+    }
 
-      // Calculate cost for this material
-      const materialCost = {
-        material: material._id,
-        quantity: requiredQty,
-        unitCostAtTime: material.averageCost,
-        totalCost: requiredQty * material.averageCost,
-      };
+    const location = await this.locationsService.resolveLocationId(locationId);
 
-      materialCosts.push(materialCost);
-      totalBatchCost += materialCost.totalCost;
+    return await this.connection.transaction(() =>
+      this.recordProductionBatch(
+        product,
+        quantity,
+        notes,
+        userId,
+        location,
+        `ASM-${Date.now()}`,
+      ),
+    );
+  }
 
-      // Deduct from material stock
-      material.currentStock -= requiredQty;
-      await material.save();
+  /**
+   * Deducts materials, adds the finished goods and records the batch. Must
+   * be called inside a transaction; production plans run several in one.
+   */
+  async recordProductionBatch(
+    product: ProductDocument,
+    quantity: number,
+    notes: string,
+    userId: string,
+    location: Types.ObjectId,
+    batchNumber = `BATCH-${Date.now()}`,
+  ): Promise<ProductionBatchDocument> {
+    if (product.variantAxes?.length) {
+      throw new BadRequestException(
+        `${product.name} is made as its variants. Choose a variant to produce`,
+      );
     }
 
-    // Calculate unit cost for this batch
-    const unitCost = totalBatchCost / quantity;
+    const productId = product._id.toString();
+    const recipeVersion = await this.recipeVersionsService.getCurrent(product);
+
+    // Deduct materials, writing a PRODUCTION adjustment for each
+    const deduction =
+      await this.stockAdjustmentsService.handleProductionDeduction(
+        productId,
+        quantity,
+        userId,
+        batchNumber,
+        location,
+      );
+
+    // Labour and overhead at today's rates, so the batch carries its full cost
+    const conversion = await this.conversionCostsService.allocate(
+      product.labour ?? [],
+      quantity,
+    );
+    const totalCost =
+      deduction.totalCost + conversion.labourCost + conversion.overheadCost;
 
-    // Update product's average unit cost (rolling average)
-    const oldTotalValue = product.currentStock * product.averageUnitCost;
-    const newTotalValue = oldTotalValue + totalBatchCost;
-    const newTotalQuantity = product.currentStock + quantity;
-    product.averageUnitCost = newTotalValue / newTotalQuantity;
-    product.currentStock = newTotalQuantity;
-    await product.save();
+    // Calculate unit cost for this batch
+    const unitCost = totalCost / quantity;
+
+    // Add the finished goods and roll their cost into the product
+    const increase =
+      await this.stockAdjustmentsService.handleProductionIncrease(
+        productId,
+        quantity,
+        unitCost,
+        userId,
+        batchNumber,
+        location,
+      );
 
     // Create production batch record
     const batch = new this.batchModel({
       quantity,
-      materialCosts,
+      materialCosts: deduction.materialCosts.map((cost) => ({
+        material: cost.material,
+        quantity: cost.quantity,
+        unitCostAtTime: cost.unitCost,
+        totalCost: cost.totalCost,
+        lots: cost.lots,
+      })),
+      componentCosts: deduction.componentCosts.map((cost) => ({
+        product: cost.product,
+        quantity: cost.quantity,
+        unitCostAtTime: cost.unitCost,
+        totalCost: cost.totalCost,
+      })),
+      labourCosts: conversion.labour,
+      overheadCosts: conversion.overhead,
+      materialCost: deduction.totalCost,
+      labourCost: conversion.labourCost,
+      overheadCost: conversion.overheadCost,
       unitCost,
       notes,
-      product: new Types.ObjectId(productId),
-      batchNumber: `BATCH-${Date.now()}`,
-      totalCost: totalBatchCost,
+      product: product._id,
+      batchNumber,
+      recipeVersion: recipeVersion._id,
+      totalCost,
       producedBy: userId,
+      location,
+      productionAdjustments: [...deduction.adjustmentIds, increase._id],
     });
 
     return batch.save();
@@ -159,6 +242,7 @@ export class ProductionService {
     const allBatches = await this.batchModel
       .find(query)
       .populate('product')
+      .populate('recipeVersion', 'version effectiveFrom changeNotes')
       .populate('materialCosts.material')
       .sort({ createdAt: -1 })
       .exec();
@@ -241,7 +325,7 @@ export class ProductionService {
   // production.service.ts (inside your ProductionService)
   async getFullProductionStats(
     period: 'week' | 'month' | 'quarter' | '6months' | 'year' = 'month',
-  ) {
+  ): Promise<FullProductionStats> {
     // compute date range
     const endDate = new Date();
     endDate.setHours(23, 59, 59, 999);
@@ -272,6 +356,12 @@ export class ProductionService {
             totalBatches: { $sum: 1 },
             totalProductsProduced: { $sum: '$quantity' },
             totalProductionCost: { $sum: '$totalCost' },
+            // Batches from before labour and overhead were costed are all material
+            materialCost: {
+              $sum: { $ifNull: ['$materialCost', '$totalCost'] },
+            },
+            labourCost: { $sum: { $ifNull: ['$labourCost', 0] } },
+            overheadCost: { $sum: { $ifNull: ['$overheadCost', 0] } },
           },
         },
         {
@@ -280,6 +370,9 @@ export class ProductionService {
             totalBatches: 1,
             totalProductsProduced: 1,
             totalProductionCost: 1,
+            materialCost: 1,
+            labourCost: 1,
+            overheadCost: 1,
             averageBatchSize: {
               $cond: [
                 { $gt: ['$totalBatches', 0] },
@@ -299,6 +392,9 @@ export class ProductionService {
             totalBatches: 0,
             totalProductsProduced: 0,
             totalProductionCost: 0,
+            materialCost: 0,
+            labourCost: 0,
+            overheadCost: 0,
             averageBatchSize: 0,
           };
 
@@ -378,6 +474,11 @@ export class ProductionService {
       totalProductsProduced: round(overall.totalProductsProduced || 0),
       totalProductionCost: round(overall.totalProductionCost || 0),
       averageBatchSize: round(overall.averageBatchSize || 0),
+      costBreakdown: {
+        material: round(overall.materialCost || 0),
+        labour: round(overall.labourCost || 0),
+        overhead: round(overall.overheadCost || 0),
+      },
       timeline,
       productTotals,
     };
@@ -524,10 +625,18 @@ export class ProductionService {
         throw new NotFoundException('Product not found');
       }
 
+      // Batches made before locations existed went into the default
+      const location =
+        batch.location ?? (await this.locationsService.getDefaultLocationId());
+
       // Check stock available for waste
-      if (product.currentStock < quantity) {
+      const available = await this.locationsService.getQuantityAt(
+        product,
+        location,
+      );
+      if (available < quantity) {
         throw new BadRequestException(
-          `Cannot waste production. Only ${product.currentStock} units available, but ${quantity} units need to be wasted.`,
+          `Cannot waste production. Only ${available} units available at the batch location, but ${quantity} units need to be wasted.`,
         );
       }
 
@@ -544,13 +653,18 @@ export class ProductionService {
         product.averageUnitCost = 0;
       }
 
-      product.currentStock = newProductStock;
+      await this.locationsService.applyStockChange(
+        product,
+        location,
+        -quantity,
+      );
       await product.save();
 
       const productAdjustment = await this.stockAdjustmentModel.create({
         product: product._id,
         itemType: 'product',
         adjustmentType: AdjustmentType.WASTE,
+        location,
         quantity: -quantity,
         previousStock: previousProductStock,
         newStock: newProductStock,
@@ -612,10 +726,18 @@ export class ProductionService {
         throw new NotFoundException('Product not found');
       }
 
+      // Batches made before locations existed went into the default
+      const location =
+        batch.location ?? (await this.locationsService.getDefaultLocationId());
+
       // Check stock available for reversal
-      if (product.currentStock < quantity) {
+      const available = await this.locationsService.getQuantityAt(
+        product,
+        location,
+      );
+      if (available < quantity) {
         throw new BadRequestException(
-          `Cannot reverse production. Only ${product.currentStock} units available, but ${quantity} units need to be reversed.`,
+          `Cannot reverse production. Only ${available} units available at the batch location, but ${quantity} units need to be reversed.`,
         );
       }
 
@@ -640,13 +762,26 @@ export class ProductionService {
           const previousStock = material.currentStock;
           const newStock = previousStock + restoreQty;
 
-          material.currentStock = newStock;
+          await this.locationsService.applyStockChange(
+            material,
+            location,
+            restoreQty,
+          );
+          await this.lotsService.restore(
+            (materialCost.lots ?? []).map((usage) => ({
+              lot: usage.lot,
+              quantity: usage.quantity * ratio,
+            })),
+            location,
+          );
 
-          // Update average cost (approximate)
-          const currentTotalValue = previousStock * material.averageCost;
-          const restoredValue = restoreQty * materialCost.unitCostAtTime;
-          const newTotalValue = currentTotalValue + restoredValue;
-          material.averageCost = newTotalValue / newStock;
+          // Put the cost back the way it was issued
+          await this.costingService.onReturn(
+            material,
+            previousStock,
+            restoreQty,
+            materialCost.unitCostAtTime,
+          );
 
           await material.save();
 
@@ -654,6 +789,7 @@ export class ProductionService {
             material: material._id,
             itemType: 'material',
             adjustmentType: AdjustmentType.REVERSAL,
+            location,
             quantity: restoreQty,
             unit: new Types.ObjectId(material.unit as unknown as string),
             previousStock,
@@ -666,6 +802,50 @@ export class ProductionService {
           reversalAdjustments.push(adjustment._id);
         }
 
+        // Put sub-assemblies back into finished stock
+        for (const componentCost of batch.componentCosts ?? []) {
+          const component = await this.productModel.findById(
+            componentCost.product,
+          );
+          if (!component) {
+            throw new NotFoundException(
+              `Product ${componentCost.product.toString()} not found`,
+            );
+          }
+
+          const restoreQty =
+            componentCost.quantity * (quantity / batch.quantity);
+          const previousStock = component.currentStock;
+          const newStock = previousStock + restoreQty;
+
+          component.averageUnitCost =
+            (previousStock * component.averageUnitCost +
+              restoreQty * componentCost.unitCostAtTime) /
+            newStock;
+          await this.locationsService.applyStockChange(
+            component,
+            location,
+            restoreQty,
+          );
+          await component.save();
+
+          const adjustment = await this.stockAdjustmentModel.create({
+            product: component._id,
+            itemType: 'product',
+            adjustmentType: AdjustmentType.REVERSAL,
+            location,
+            quantity: restoreQty,
+            previousStock,
+            newStock,
+            relatedProduct: product._id,
+            reason: `Production partial reversal: ${reason}`,
+            batchNumber: batch.batchNumber,
+            adjustedBy: new Types.ObjectId(reversedBy),
+          });
+
+          reversalAdjustments.push(adjustment._id);
+        }
+
         // 2. Remove finished goods (partial)
         const previousProductStock = product.currentStock;
         const newProductStock = previousProductStock - quantity;
@@ -681,13 +861,18 @@ export class ProductionService {
           product.averageUnitCost = 0;
         }
 
-        product.currentStock = newProductStock;
+        await this.locationsService.applyStockChange(
+          product,
+          location,
+          -quantity,
+        );
         await product.save();
 
         const productAdjustment = await this.stockAdjustmentModel.create({
           product: product._id,
           itemType: 'product',
           adjustmentType: AdjustmentType.REVERSAL,
+          location,
           quantity: -quantity,
           previousStock: previousProductStock,
           newStock: newProductStock,
@@ -21,7 +21,12 @@ import { Cache } from 'cache-manager';
 import { User } from 'src/modules/user/schemas/User.schema';
 import { CreateProductDto } from '../dto/create-product.dto';
 import { UpdateProductDto } from '../dto/update-product.dto';
+import { ProductFiltersDto } from '../dto/product-filters.dto';
 import { ProductsService } from '../services/products.service';
+import { RecipeVersionsService } from '../services/recipe-versions.service';
+import { ProductVariantsService } from '../services/product-variants.service';
+import { ProductCostingService } from '../services/product-costing.service';
+import { CreateVariantDto, UpdateVariantDto } from '../dto/variant.dto';
 import { Product } from '../schemas/product.schema';
 import { AnyFilesInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
@@ -29,6 +34,8 @@ import { extname } from 'path';
 import * as fs from 'fs';
 import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
 
 @RequireVerified()
 @Controller('products')
@@ -36,6 +43,9 @@ export class ProductsController {
   CACHE_KEY = 'products';
   constructor(
     private readonly productsService: ProductsService,
+    private readonly recipeVersionsService: RecipeVersionsService,
+    private readonly productVariantsService: ProductVariantsService,
+    private readonly productCostingService: ProductCostingService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) {}
 
@@ -43,12 +53,7 @@ export class ProductsController {
   async findAll(
     @Query('page') page = 1,
     @Query('pageSize') pageSize = 10,
-    @Body()
-    body?: {
-      searchTerm?: string;
-      category?: string;
-      status?: string;
-    },
+    @Body() body?: ProductFiltersDto,
   ): Promise<PaginatedResponse<Product>> {
     const products = await this.productsService.findAll(page, pageSize, body);
     return products;
@@ -67,6 +72,13 @@ export class ProductsController {
     return this.productsService.findActive();
   }
 
+  @Get('margin-report')
+  async getMarginReport(@Query('targetMargin') targetMargin?: string) {
+    return this.productCostingService.getMarginReport(
+      this.parseNumber('targetMargin', targetMargin),
+    );
+  }
+
   @Get(':id')
   async findOne(@Param('id') id: string) {
     const product = await this.productsService.findOne(id);
@@ -78,10 +90,91 @@ export class ProductsController {
 
   @Get(':id/cost')
   async calculateCost(@Param('id') id: string) {
-    return this.productsService.calculateProductCost(id);
+    return this.productCostingService.calculateProductCost(id);
+  }
+
+  @Get(':id/cost-breakdown')
+  async getCostBreakdown(
+    @Param('id') id: string,
+    @Query('batchSize') batchSize?: string,
+    @Query('targetMargin') targetMargin?: string,
+  ) {
+    return this.productCostingService.getCostBreakdown(id, {
+      batchSize: this.parsePositive('batchSize', batchSize),
+      targetMargin: this.parseNumber('targetMargin', targetMargin),
+    });
+  }
+
+  @Get(':id/availability')
+  async getBundleAvailability(
+    @Param('id') id: string,
+    @Query('location') location?: string,
+  ) {
+    return this.productsService.getBundleAvailability(id, location);
+  }
+
+  @Get(':id/variants')
+  async getVariants(@Param('id') id: string) {
+    return this.productVariantsService.findAll(id);
+  }
+
+  @Post(':id/variants')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async createVariant(
+    @Param('id') id: string,
+    @Body() createVariantDto: CreateVariantDto,
+    @GetUser() user: User,
+  ) {
+    return this.productVariantsService.create(id, createVariantDto, user);
+  }
+
+  @Post(':id/variants/generate')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async generateVariants(@Param('id') id: string, @GetUser() user: User) {
+    return this.productVariantsService.generate(id, user);
+  }
+
+  @Put(':id/variants/:variantId')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body() updateVariantDto: UpdateVariantDto,
+    @GetUser() user: User,
+  ) {
+    return this.productVariantsService.update(
+      id,
+      variantId,
+      updateVariantDto,
+      user,
+    );
+  }
+
+  @Get(':id/recipe-versions')
+  async getRecipeVersions(@Param('id') id: string) {
+    return this.recipeVersionsService.findAll(id);
+  }
+
+  @Get(':id/recipe-versions/compare')
+  async compareRecipeVersions(
+    @Param('id') id: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ) {
+    const fromVersion = Number(from);
+    const toVersion = Number(to);
+    if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion)) {
+      throw new BadRequestException('from and to must be version numbers');
+    }
+    return this.productCostingService.compareRecipeVersions(
+      id,
+      fromVersion,
+      toVersion,
+    );
   }
 
   @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   @UseInterceptors(
     AnyFilesInterceptor({
       storage: diskStorage({
@@ -147,6 +240,7 @@ export class ProductsController {
   }
 
   @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   @UseInterceptors(
     AnyFilesInterceptor({
       storage: diskStorage({
@@ -227,10 +321,29 @@ export class ProductsController {
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async remove(@Param('id') id: string) {
     const result = await this.productsService.remove(id);
     if (!result) {
       throw new NotFoundException('Product not found');
     }
   }
+
+  private parseNumber(name: string, value?: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const number = Number(value);
+    if (Number.isNaN(number)) {
+      throw new BadRequestException(`${name} must be a number`);
+    }
+    return number;
+  }
+
+  private parsePositive(name: string, value?: string): number | undefined {
+    const number = this.parseNumber(name, value);
+    if (number !== undefined && number <= 0) {
+      throw new BadRequestException(`${name} must be greater than 0`);
+    }
+    return number;
+  }
 }
@@ -7,8 +7,15 @@ import {
   IsOptional,
   Min,
   IsNotEmpty,
+  IsIn,
+  ValidateIf,
+  IsDateString,
+  ArrayNotEmpty,
+  IsMongoId,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { RecipeItemType } from '../schemas/recipe-item.schema';
+import { ProductType } from '../schemas/product.schema';
 
 export enum ProductStatus {
   ACTIVE = 'active',
@@ -24,17 +31,49 @@ export enum ProductCategory {
 }
 
 export class RecipeItemDto {
+  @IsIn(['material', 'product'])
+  @IsOptional()
+  itemType?: RecipeItemType = 'material';
+
+  @ValidateIf((item) => item.itemType !== 'product')
+  @IsString()
+  @IsNotEmpty()
+  material?: string;
+
+  /** Another product used as a sub-assembly, e.g. a pre-wicked jar */
+  @ValidateIf((item) => item.itemType === 'product')
   @IsString()
   @IsNotEmpty()
-  material: string;
+  product?: string;
 
   @IsNumber()
   @Min(0.01)
   quantity: number;
 
+  @ValidateIf((item) => item.itemType !== 'product')
+  @IsString()
+  @IsNotEmpty()
+  unit?: string;
+}
+
+export class ProductLabourDto {
+  @IsMongoId()
+  labourRate: string;
+
+  @IsNumber()
+  @Min(0)
+  minutesPerUnit: number;
+}
+
+export class VariantAxisDto {
   @IsString()
   @IsNotEmpty()
-  unit: string;
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  values: string[];
 }
 
 export class CreateProductDto {
@@ -62,12 +101,39 @@ export class CreateProductDto {
   @IsOptional()
   category?: ProductCategory = ProductCategory.REGULAR;
 
+  @IsEnum(ProductType)
+  @IsOptional()
+  productType?: ProductType;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => RecipeItemDto)
   @IsOptional()
   recipe?: RecipeItemDto[];
 
+  /** Time taken to make one, against the workspace's labour rates */
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProductLabourDto)
+  @IsOptional()
+  labour?: ProductLabourDto[];
+
+  /** Turns the product into a parent whose variants are sold instead */
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VariantAxisDto)
+  @IsOptional()
+  variantAxes?: VariantAxisDto[];
+
+  /** Recorded on the recipe version created when the recipe changes */
+  @IsString()
+  @IsOptional()
+  recipeChangeNotes?: string;
+
+  @IsDateString()
+  @IsOptional()
+  recipeEffectiveFrom?: string;
+
   @IsString()
   @IsOptional()
   imageUrl?: string;
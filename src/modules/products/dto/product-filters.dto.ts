@@ -0,0 +1,41 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { VariantOptionDto } from './variant.dto';
+
+export class ProductFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  status?: string;
+
+  /** Lists the variants of one parent */
+  @IsOptional()
+  @IsMongoId()
+  parent?: string;
+
+  /** Lists parents and variants side by side instead of parents only */
+  @IsOptional()
+  @IsBoolean()
+  includeVariants?: boolean;
+
+  /** Matches variants with these options, or parents that have them */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VariantOptionDto)
+  variantOptions?: VariantOptionDto[];
+}
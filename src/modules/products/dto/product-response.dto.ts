@@ -7,6 +7,7 @@ export class ProductCostResponseDto {
 export class MaterialAvailabilityResponseDto {
   available: boolean;
   missingMaterials?: Array<{
+    itemType: 'material' | 'product';
     material: string;
     materialName: string;
     required: number;
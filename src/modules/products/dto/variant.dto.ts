@@ -0,0 +1,67 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { RecipeItemDto } from './create-product.dto';
+import { ProductStatus } from '../schemas/product.schema';
+
+export class VariantOptionDto {
+  @IsString()
+  @IsNotEmpty()
+  axis: string;
+
+  @IsString()
+  @IsNotEmpty()
+  value: string;
+}
+
+/**
+ * Replaces the parent's line for the same material or product, or adds a
+ * new one. A quantity of 0 leaves the parent's line out.
+ */
+export class RecipeOverrideDto extends OmitType(RecipeItemDto, ['quantity']) {
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+}
+
+export class CreateVariantDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => VariantOptionDto)
+  options: VariantOptionDto[];
+
+  /** Defaults to the parent's price */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  sellingPrice?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecipeOverrideDto)
+  @IsOptional()
+  recipeOverrides?: RecipeOverrideDto[];
+}
+
+export class UpdateVariantDto extends PartialType(
+  OmitType(CreateVariantDto, ['options']),
+) {
+  @IsEnum(ProductStatus)
+  @IsOptional()
+  status?: ProductStatus;
+
+  @IsString()
+  @IsOptional()
+  recipeChangeNotes?: string;
+}
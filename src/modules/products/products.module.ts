@@ -8,17 +8,36 @@ import {
   ProductionBatch,
   ProductionBatchSchema,
 } from '../production/schemas/production-batch.schema';
+import { UnitsModule } from '../units/units.module';
+import { LocationsModule } from '../locations/locations.module';
+import { CostingModule } from '../costing/costing.module';
+import { ProductCostingService } from './services/product-costing.service';
+import { RecipeVersionsService } from './services/recipe-versions.service';
+import { ProductVariantsService } from './services/product-variants.service';
+import {
+  RecipeVersion,
+  RecipeVersionSchema,
+} from './schemas/recipe-version.schema';
 
 @Module({
   imports: [
+    UnitsModule,
+    LocationsModule,
+    CostingModule,
     MongooseModule.forFeature([
       { name: Product.name, schema: ProductSchema },
       { name: ProductionBatch.name, schema: ProductionBatchSchema },
       { name: Material.name, schema: MaterialSchema },
+      { name: RecipeVersion.name, schema: RecipeVersionSchema },
     ]),
   ],
   controllers: [ProductsController],
-  providers: [ProductsService],
-  exports: [ProductsService],
+  providers: [
+    ProductsService,
+    RecipeVersionsService,
+    ProductVariantsService,
+    ProductCostingService,
+  ],
+  exports: [ProductsService, RecipeVersionsService],
 })
 export class ProductsModule {}
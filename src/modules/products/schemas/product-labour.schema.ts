@@ -0,0 +1,14 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+/** Time booked against one of the workspace's labour rates */
+@Schema({ _id: false })
+export class ProductLabour {
+  @Prop({ type: Types.ObjectId, required: true })
+  labourRate: Types.ObjectId; // A Workspace.labourRates entry
+
+  @Prop({ required: true, min: 0 })
+  minutesPerUnit: number;
+}
+
+export const ProductLabourSchema = SchemaFactory.createForClass(ProductLabour);
@@ -1,6 +1,18 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { HydratedDocument } from 'mongoose';
+import { HydratedDocument, Types } from 'mongoose';
 import { RecipeItem, RecipeItemSchema } from './recipe-item.schema';
+import { ProductLabour, ProductLabourSchema } from './product-labour.schema';
+import {
+  VariantAxis,
+  VariantAxisSchema,
+  VariantOption,
+  VariantOptionSchema,
+} from './variant-axis.schema';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import {
+  LocationStock,
+  LocationStockSchema,
+} from 'src/modules/locations/schemas/location-stock.schema';
 
 export type ProductDocument = HydratedDocument<Product>;
 
@@ -22,12 +34,22 @@ export enum ProductCategory {
   CUSTOM = 'custom',
 }
 
+export enum ProductType {
+  STANDARD = 'standard',
+  BUNDLE = 'bundle', // Assembled from other products plus packaging
+}
+
 @Schema({ timestamps: true })
 export class Product {
+  createdAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
   @Prop({ required: true })
   name: string;
 
-  @Prop({ required: true, unique: true })
+  @Prop({ required: true })
   sku: string;
 
   @Prop()
@@ -46,8 +68,32 @@ export class Product {
   })
   category: ProductCategory;
 
+  @Prop({ enum: ProductType, default: ProductType.STANDARD })
+  productType: ProductType;
+
   @Prop({ type: [RecipeItemSchema], required: true })
-  recipe: RecipeItem[];
+  recipe: RecipeItem[]; // A bundle's components
+
+  @Prop({ default: 1, min: 1 })
+  recipeVersion: number; // Version number of the recipe above
+
+  @Prop({ type: [ProductLabourSchema], default: [] })
+  labour: ProductLabour[];
+
+  // Variants are products in their own right with a parent, so stock,
+  // production and history all work per variant
+
+  @Prop({ type: [VariantAxisSchema], default: [] })
+  variantAxes: VariantAxis[]; // Only set on a parent
+
+  @Prop({ type: Types.ObjectId, ref: 'Product' })
+  parent?: Types.ObjectId; // Only set on a variant
+
+  @Prop({ type: [VariantOptionSchema], default: [] })
+  variantOptions: VariantOption[];
+
+  @Prop({ type: [RecipeItemSchema], default: [] })
+  recipeOverrides: RecipeItem[]; // Applied over the parent's recipe to give this variant's
 
   @Prop({ default: 0, min: 0 })
   averageUnitCost: number; // Rolling average cost of finished goods
@@ -58,24 +104,21 @@ export class Product {
   @Prop({ default: 0, min: 0 })
   currentStock: number; // For tracking finished products if needed
 
+  @Prop({ type: [LocationStockSchema], default: [] })
+  locationStock: LocationStock[]; // Per-location breakdown of currentStock
+
   @Prop()
   notes: string;
 }
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
 
+ProductSchema.plugin(workspaceScopePlugin);
+
+// SKUs only need to be unique within a workspace
+ProductSchema.index({ workspace: 1, sku: 1 }, { unique: true });
+
 // Add indexes for common queries
-ProductSchema.index({ status: 1, category: 1 });
+ProductSchema.index({ workspace: 1, status: 1, category: 1 });
+ProductSchema.index({ workspace: 1, parent: 1 });
 ProductSchema.index({ sku: 'text', name: 'text' });
-
-// Virtual for calculating material cost
-ProductSchema.virtual('materialCost').get(function () {
-  if (!this.populated('recipe.material')) {
-    return null;
-  }
-
-  return this.recipe.reduce((total, item) => {
-    const material = item.material as any;
-    return total + material.costPerUnit * item.quantity;
-  }, 0);
-});
@@ -2,17 +2,35 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Types } from 'mongoose';
 import { Material } from 'src/modules/materials/schemas/material.schema';
 import { Unit } from 'src/modules/units/schemas/unit.schema';
+import type { Product } from './product.schema';
+
+export type RecipeItemType = 'material' | 'product';
+
+/** A recipe line as stored, populated or about to be saved */
+export type RecipeLine = {
+  itemType?: string;
+  material?: unknown;
+  product?: unknown;
+  quantity: number;
+  unit?: unknown;
+};
 
 @Schema({ _id: false })
 export class RecipeItem {
-  @Prop({ type: Types.ObjectId, ref: 'Material', required: true })
-  material: Material;
+  @Prop({ enum: ['material', 'product'], default: 'material' })
+  itemType: RecipeItemType;
+
+  @Prop({ type: Types.ObjectId, ref: 'Material' })
+  material?: Material;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product' })
+  product?: Product; // Sub-assembly made by its own production batches
 
   @Prop({ required: true, min: 0 })
-  quantity: number;
+  quantity: number; // Whole units of stock for a sub-assembly
 
-  @Prop({ type: Types.ObjectId, ref: 'Unit', required: true })
-  unit: Unit;
+  @Prop({ type: Types.ObjectId, ref: 'Unit' })
+  unit?: Unit; // Only materials are measured in units
 }
 
 export const RecipeItemSchema = SchemaFactory.createForClass(RecipeItem);
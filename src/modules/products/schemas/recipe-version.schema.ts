@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import { RecipeItem, RecipeItemSchema } from './recipe-item.schema';
+
+export type RecipeVersionDocument = HydratedDocument<RecipeVersion>;
+
+@Schema({ timestamps: true })
+export class RecipeVersion {
+  _id?: Types.ObjectId;
+
+  createdAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  version: number;
+
+  @Prop({ type: [RecipeItemSchema], default: [] })
+  recipe: RecipeItem[];
+
+  @Prop({ required: true })
+  effectiveFrom: Date;
+
+  @Prop()
+  changeNotes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const RecipeVersionSchema = SchemaFactory.createForClass(RecipeVersion);
+
+RecipeVersionSchema.plugin(workspaceScopePlugin);
+
+RecipeVersionSchema.index(
+  { workspace: 1, product: 1, version: 1 },
+  { unique: true },
+);
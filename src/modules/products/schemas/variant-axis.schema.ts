@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/** One dimension a product varies along, e.g. Size: 20cl, 30cl */
+@Schema({ _id: false })
+export class VariantAxis {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: [String], default: [] })
+  values: string[];
+}
+
+export const VariantAxisSchema = SchemaFactory.createForClass(VariantAxis);
+
+/** A variant's value on one axis, e.g. Scent: Amber */
+@Schema({ _id: false })
+export class VariantOption {
+  @Prop({ required: true })
+  axis: string;
+
+  @Prop({ required: true })
+  value: string;
+}
+
+export const VariantOptionSchema = SchemaFactory.createForClass(VariantOption);
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ProductCostingService } from './product-costing.service';
+import { RecipeVersionsService } from './recipe-versions.service';
+import { Product } from '../schemas/product.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { ConversionCostsService } from 'src/modules/costing/services/conversion-costs.service';
+
+describe('ProductCostingService', () => {
+  let service: ProductCostingService;
+  let productModel: Record<string, jest.Mock>;
+  let batchModel: Record<string, jest.Mock>;
+  let conversionCostsService: { allocate: jest.Mock };
+  let recipeVersionsService: { findVersion: jest.Mock };
+
+  const grams = { _id: new Types.ObjectId(), name: 'Gram' };
+  const pieces = { _id: new Types.ObjectId(), name: 'Piece' };
+  const kilograms = new Types.ObjectId();
+
+  // Costed per kilogram, used in grams
+  const material = (name: string, averageCost: number) => ({
+    _id: new Types.ObjectId(),
+    name,
+    unit: kilograms,
+    averageCost,
+  });
+  const wax = material('Soy wax', 4);
+  const amber = material('Amber oil', 50);
+  const vanilla = material('Vanilla oil', 60);
+  const cotton = { ...material('Cotton wick', 0.1), unit: pieces._id };
+
+  const uses = (item: { _id: Types.ObjectId }, quantity: number) => ({
+    itemType: 'material' as const,
+    material: item,
+    quantity,
+    unit: grams,
+  });
+
+  const product = (fields: object) => ({
+    _id: new Types.ObjectId(),
+    sku: 'SKU',
+    sellingPrice: 0,
+    recipe: [] as object[],
+    labour: [] as object[],
+    // Recipes here are written already populated
+    populate: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  const wick = product({
+    name: 'Wick assembly',
+    recipe: [{ ...uses(cotton, 1), unit: pieces }],
+  });
+  const candle = product({
+    name: 'Candle',
+    sellingPrice: 10,
+    recipe: [
+      uses(wax, 200),
+      { itemType: 'product', product: wick, quantity: 1 },
+    ],
+    labour: [{ labourRate: new Types.ObjectId(), minutesPerUnit: 3 }],
+  });
+
+  beforeEach(async () => {
+    productModel = { findById: jest.fn(), find: jest.fn() };
+    // Candles are made 20 at a time
+    batchModel = { aggregate: jest.fn().mockResolvedValue([{ average: 20 }]) };
+    conversionCostsService = {
+      allocate: jest.fn((labour: object[]) =>
+        Promise.resolve(
+          labour.length > 0
+            ? {
+                labour: [{ name: 'Pouring', minutes: 60, cost: 20 }],
+                overhead: [{ name: 'Electricity', cost: 10 }],
+                labourCost: 20,
+                overheadCost: 10,
+              }
+            : { labour: [], overhead: [], labourCost: 0, overheadCost: 0 },
+        ),
+      ),
+    };
+    recipeVersionsService = { findVersion: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductCostingService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: batchModel },
+        {
+          provide: UnitsService,
+          useValue: {
+            convert: jest.fn((quantity: number, from: { name: string }) =>
+              Promise.resolve(
+                from.name === 'Gram' ? quantity / 1000 : quantity,
+              ),
+            ),
+            findOne: jest.fn().mockResolvedValue({ name: 'Kilogram' }),
+          },
+        },
+        { provide: ConversionCostsService, useValue: conversionCostsService },
+        { provide: RecipeVersionsService, useValue: recipeVersionsService },
+      ],
+    }).compile();
+
+    service = module.get<ProductCostingService>(ProductCostingService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getCostBreakdown', () => {
+    it('costs each ingredient in its stock unit at the average cost', async () => {
+      productModel.findById.mockResolvedValue(candle);
+
+      const breakdown = await service.getCostBreakdown(candle._id.toString());
+
+      expect(breakdown.ingredients).toEqual([
+        {
+          itemType: 'material',
+          item: wax._id,
+          name: 'Soy wax',
+          quantity: 200,
+          unit: 'Gram',
+          stockQuantity: 0.2,
+          stockUnit: 'Kilogram',
+          unitCost: 4,
+          cost: 0.8,
+        },
+        expect.objectContaining({
+          itemType: 'product',
+          name: 'Wick assembly',
+          unitCost: 0.1,
+          cost: 0.1,
+        }),
+      ]);
+      expect(breakdown.materialCost).toBeCloseTo(0.9);
+    });
+
+    it('spreads labour and overhead over the typical batch', async () => {
+      productModel.findById.mockResolvedValue(candle);
+
+      const breakdown = await service.getCostBreakdown(candle._id.toString());
+
+      expect(conversionCostsService.allocate).toHaveBeenCalledWith(
+        candle.labour,
+        20,
+      );
+      expect(breakdown).toMatchObject({
+        batchSize: 20,
+        labourCost: 1,
+        overheadCost: 0.5,
+      });
+      expect(breakdown.labour[0]).toMatchObject({ minutes: 3, cost: 1 });
+      expect(breakdown.unitCost).toBeCloseTo(2.4);
+      expect(breakdown.margin).toBeCloseTo(7.6);
+      expect(breakdown.marginPercentage).toBeCloseTo(76);
+    });
+
+    it('prices for a target margin', async () => {
+      productModel.findById.mockResolvedValue(candle);
+
+      const breakdown = await service.getCostBreakdown(candle._id.toString(), {
+        batchSize: 10,
+        targetMargin: 60,
+      });
+
+      // 0.9 of materials, 2 of labour and 1 of overhead per candle
+      expect(breakdown.unitCost).toBeCloseTo(3.9);
+      expect(breakdown.priceForTargetMargin).toBeCloseTo(9.75);
+    });
+
+    it('refuses a target margin of 100% or more', async () => {
+      productModel.findById.mockResolvedValue(candle);
+
+      await expect(
+        service.getCostBreakdown(candle._id.toString(), { targetMargin: 100 }),
+      ).rejects.toThrow('Target margin must be at least 0 and below 100');
+    });
+
+    it('refuses a recipe that contains itself', async () => {
+      const looped = product({ name: 'Loop' });
+      looped.recipe = [{ itemType: 'product', product: looped, quantity: 1 }];
+      productModel.findById.mockResolvedValue(looped);
+
+      await expect(
+        service.getCostBreakdown(looped._id.toString()),
+      ).rejects.toThrow('The recipe for Loop contains itself');
+    });
+  });
+
+  describe('getMarginReport', () => {
+    it('lists the lowest margins first and flags sales below cost', async () => {
+      const lossLeader = product({
+        name: 'Wax melt',
+        sellingPrice: 0.5,
+        recipe: [uses(wax, 200)],
+      });
+      productModel.find.mockResolvedValue([candle, lossLeader]);
+
+      const report = await service.getMarginReport(70);
+
+      expect(report.lines.map((line) => line.name)).toEqual([
+        'Wax melt',
+        'Candle',
+      ]);
+      expect(report.lines[0]).toMatchObject({
+        belowCost: true,
+        belowTarget: true,
+      });
+      expect(report.lines[1]).toMatchObject({
+        belowCost: false,
+        belowTarget: false,
+      });
+      expect(report).toMatchObject({
+        totalProducts: 2,
+        belowCostCount: 1,
+        belowTargetCount: 1,
+      });
+      expect(report.averageMarginPercentage).toBeCloseTo((-60 + 76) / 2);
+    });
+  });
+
+  describe('compareRecipeVersions', () => {
+    const version = (number: number, recipe: object[]) => ({
+      version: number,
+      effectiveFrom: new Date(),
+      recipe,
+      populate: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('lists the lines changed and the cost difference at today’s costs', async () => {
+      recipeVersionsService.findVersion
+        .mockResolvedValueOnce(version(1, [uses(wax, 200), uses(amber, 10)]))
+        .mockResolvedValueOnce(version(2, [uses(wax, 180), uses(vanilla, 15)]));
+
+      const comparison = await service.compareRecipeVersions(
+        candle._id.toString(),
+        1,
+        2,
+      );
+
+      expect(comparison.changed).toEqual([
+        expect.objectContaining({
+          name: 'Soy wax',
+          fromQuantity: 200,
+          toQuantity: 180,
+        }),
+      ]);
+      expect(comparison.removed).toEqual([
+        expect.objectContaining({ name: 'Amber oil', fromQuantity: 10 }),
+      ]);
+      expect(comparison.added).toEqual([
+        expect.objectContaining({ name: 'Vanilla oil', toQuantity: 15 }),
+      ]);
+      expect(comparison.from.unitCost).toBeCloseTo(1.3);
+      expect(comparison.to.unitCost).toBeCloseTo(1.62);
+      expect(comparison.costDifference).toBeCloseTo(0.32);
+    });
+  });
+});
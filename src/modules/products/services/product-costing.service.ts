@@ -0,0 +1,399 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Product,
+  ProductDocument,
+  ProductStatus,
+} from '../schemas/product.schema';
+import { RecipeItem } from '../schemas/recipe-item.schema';
+import {
+  ProductionBatch,
+  ProductionBatchDocument,
+} from 'src/modules/production/schemas/production-batch.schema';
+import { MaterialDocument } from 'src/modules/materials/schemas/material.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { ConversionCostsService } from 'src/modules/costing/services/conversion-costs.service';
+import { RecipeVersionsService } from './recipe-versions.service';
+import {
+  IngredientCost,
+  MarginReport,
+  MarginReportLine,
+  ProductCostBreakdown,
+} from '../types/ProductCostBreakdown';
+import {
+  RecipeLineChange,
+  RecipeVersionComparison,
+} from '../types/RecipeVersionComparison';
+
+/**
+ * What a product costs to make: materials and sub-assemblies from its
+ * recipe, plus labour and overhead, at today's costs.
+ */
+@Injectable()
+export class ProductCostingService {
+  constructor(
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    @InjectModel(ProductionBatch.name)
+    private readonly productionBatchModel: Model<ProductionBatchDocument>,
+    private readonly unitsService: UnitsService,
+    private readonly conversionCostsService: ConversionCostsService,
+    private readonly recipeVersionsService: RecipeVersionsService,
+  ) {}
+
+  async calculateProductCost(
+    id: string,
+  ): Promise<{ cost: number; margin: number; marginPercentage: number }> {
+    const breakdown = await this.getCostBreakdown(id);
+
+    return {
+      cost: breakdown.unitCost,
+      margin: breakdown.margin,
+      marginPercentage: breakdown.marginPercentage,
+    };
+  }
+
+  /**
+   * @param batchSize spreads per-batch overheads; defaults to the product's
+   * average batch size so far
+   * @param targetMargin percentage of the selling price to price for
+   */
+  async getCostBreakdown(
+    id: string,
+    options: { batchSize?: number; targetMargin?: number } = {},
+  ): Promise<ProductCostBreakdown> {
+    const product = Types.ObjectId.isValid(id)
+      ? await this.productModel.findById(id)
+      : null;
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const breakdown = await this.buildCostBreakdown(product, options.batchSize);
+    if (options.targetMargin === undefined) return breakdown;
+
+    return {
+      ...breakdown,
+      targetMargin: options.targetMargin,
+      priceForTargetMargin: this.priceForMargin(
+        breakdown.unitCost,
+        options.targetMargin,
+      ),
+    };
+  }
+
+  /**
+   * Every product on sale with its margin at the current selling price,
+   * lowest first, flagging any that sell below cost.
+   */
+  async getMarginReport(targetMargin?: number): Promise<MarginReport> {
+    if (targetMargin !== undefined) this.priceForMargin(0, targetMargin);
+
+    // Parents with variants are not sold themselves
+    const products = await this.productModel.find({
+      status: { $ne: ProductStatus.DISCONTINUED },
+      'variantAxes.0': { $exists: false },
+    });
+
+    const lines: MarginReportLine[] = [];
+    for (const product of products) {
+      const breakdown = await this.buildCostBreakdown(product);
+
+      lines.push({
+        product: product._id,
+        name: product.name,
+        sku: product.sku,
+        sellingPrice: product.sellingPrice,
+        unitCost: breakdown.unitCost,
+        margin: breakdown.margin,
+        marginPercentage: breakdown.marginPercentage,
+        belowCost: breakdown.margin < 0,
+        ...(targetMargin !== undefined && {
+          belowTarget: breakdown.marginPercentage < targetMargin,
+          priceForTargetMargin: this.priceForMargin(
+            breakdown.unitCost,
+            targetMargin,
+          ),
+        }),
+      });
+    }
+
+    lines.sort((a, b) => a.marginPercentage - b.marginPercentage);
+
+    return {
+      lines,
+      totalProducts: lines.length,
+      belowCostCount: lines.filter((line) => line.belowCost).length,
+      ...(targetMargin !== undefined && {
+        belowTargetCount: lines.filter((line) => line.belowTarget).length,
+      }),
+      averageMarginPercentage:
+        lines.length > 0
+          ? lines.reduce((sum, line) => sum + line.marginPercentage, 0) /
+            lines.length
+          : 0,
+    };
+  }
+
+  /**
+   * Lines added, removed or changed between two recipe versions, with both
+   * costed at today's costs so only the recipe change shows.
+   */
+  async compareRecipeVersions(
+    productId: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<RecipeVersionComparison> {
+    const [from, to] = await Promise.all([
+      this.recipeVersionsService.findVersion(productId, fromVersion),
+      this.recipeVersionsService.findVersion(productId, toVersion),
+    ]);
+
+    for (const version of [from, to]) {
+      await version.populate([
+        'recipe.material',
+        'recipe.product',
+        'recipe.unit',
+      ]);
+    }
+
+    const sum = (lines: IngredientCost[]) =>
+      lines.reduce((total, line) => total + line.cost, 0);
+    const fromCost = sum(await this.costIngredients(from.recipe, [productId]));
+    const toCost = sum(await this.costIngredients(to.recipe, [productId]));
+
+    const describe = (item: RecipeItem) => {
+      const ref = (item.itemType === 'product'
+        ? item.product
+        : item.material) as unknown as {
+        _id: Types.ObjectId;
+        name: string;
+      };
+      return {
+        key: `${item.itemType}:${ref._id.toString()}`,
+        itemType: item.itemType,
+        item: ref._id,
+        name: ref.name,
+        quantity: item.quantity,
+        unit: item.unit?.name,
+      };
+    };
+
+    const byKey = (recipe: RecipeItem[]) =>
+      new Map(recipe.map(describe).map((line) => [line.key, line]));
+    const fromLines = byKey(from.recipe);
+    const toLines = byKey(to.recipe);
+
+    const added: RecipeLineChange[] = [];
+    const removed: RecipeLineChange[] = [];
+    const changed: RecipeLineChange[] = [];
+
+    for (const [key, line] of toLines) {
+      const before = fromLines.get(key);
+      if (!before) {
+        added.push({
+          itemType: line.itemType,
+          item: line.item,
+          name: line.name,
+          toQuantity: line.quantity,
+          toUnit: line.unit,
+        });
+      } else if (
+        before.quantity !== line.quantity ||
+        before.unit !== line.unit
+      ) {
+        changed.push({
+          itemType: line.itemType,
+          item: line.item,
+          name: line.name,
+          fromQuantity: before.quantity,
+          toQuantity: line.quantity,
+          fromUnit: before.unit,
+          toUnit: line.unit,
+        });
+      }
+    }
+
+    for (const [key, line] of fromLines) {
+      if (!toLines.has(key)) {
+        removed.push({
+          itemType: line.itemType,
+          item: line.item,
+          name: line.name,
+          fromQuantity: line.quantity,
+          fromUnit: line.unit,
+        });
+      }
+    }
+
+    return {
+      from: {
+        version: from.version,
+        effectiveFrom: from.effectiveFrom,
+        changeNotes: from.changeNotes,
+        unitCost: fromCost,
+      },
+      to: {
+        version: to.version,
+        effectiveFrom: to.effectiveFrom,
+        changeNotes: to.changeNotes,
+        unitCost: toCost,
+      },
+      costDifference: toCost - fromCost,
+      added,
+      removed,
+      changed,
+    };
+  }
+
+  private async buildCostBreakdown(
+    product: ProductDocument,
+    batchSize?: number,
+    path: string[] = [],
+  ): Promise<ProductCostBreakdown> {
+    const productId = product._id.toString();
+    if (path.includes(productId)) {
+      throw new BadRequestException(
+        `The recipe for ${product.name} contains itself`,
+      );
+    }
+
+    await product.populate([
+      'recipe.material',
+      'recipe.product',
+      'recipe.unit',
+    ]);
+    const ingredients = await this.costIngredients(product.recipe, [
+      ...path,
+      productId,
+    ]);
+
+    const size = batchSize ?? (await this.typicalBatchSize(product._id));
+    const conversion = await this.conversionCostsService.allocate(
+      product.labour ?? [],
+      size,
+    );
+
+    // Conversion costs are for the whole batch; show them per unit
+    const labour = conversion.labour.map((line) => ({
+      ...line,
+      minutes: line.minutes / size,
+      cost: line.cost / size,
+    }));
+    const overhead = conversion.overhead.map((line) => ({
+      ...line,
+      cost: line.cost / size,
+    }));
+
+    const materialCost = ingredients.reduce((sum, line) => sum + line.cost, 0);
+    const labourCost = conversion.labourCost / size;
+    const overheadCost = conversion.overheadCost / size;
+    const unitCost = materialCost + labourCost + overheadCost;
+    const margin = product.sellingPrice - unitCost;
+
+    return {
+      product: product._id,
+      name: product.name,
+      sku: product.sku,
+      batchSize: size,
+      ingredients,
+      materialCost,
+      labour,
+      labourCost,
+      overhead,
+      overheadCost,
+      unitCost,
+      sellingPrice: product.sellingPrice,
+      margin,
+      marginPercentage:
+        product.sellingPrice > 0 ? (margin / product.sellingPrice) * 100 : 0,
+    };
+  }
+
+  /**
+   * Items must have their materials, sub-assemblies and units populated.
+   * Sub-assemblies are costed in full, all the way down.
+   */
+  private async costIngredients(
+    recipe: RecipeItem[],
+    path: string[],
+  ): Promise<IngredientCost[]> {
+    const lines: IngredientCost[] = [];
+
+    for (const item of recipe) {
+      if (item.itemType === 'product') {
+        const subAssembly = item.product as unknown as ProductDocument | null;
+        if (!subAssembly) continue;
+
+        const { unitCost } = await this.buildCostBreakdown(
+          subAssembly,
+          undefined,
+          path,
+        );
+        lines.push({
+          itemType: 'product',
+          item: subAssembly._id,
+          name: subAssembly.name,
+          quantity: item.quantity,
+          stockQuantity: item.quantity,
+          unitCost,
+          cost: unitCost * item.quantity,
+        });
+        continue;
+      }
+
+      const material = item.material as unknown as MaterialDocument | null;
+      if (!material) continue;
+
+      const stockQuantity = await this.unitsService.convert(
+        item.quantity,
+        item.unit!,
+        material.unit,
+        material,
+      );
+      const stockUnit = await this.unitsService.findOne(
+        material.unit as unknown as string,
+      );
+      const unitCost = material.averageCost || 0;
+
+      lines.push({
+        itemType: 'material',
+        item: material._id,
+        name: material.name,
+        quantity: item.quantity,
+        unit: item.unit?.name,
+        stockQuantity,
+        stockUnit: stockUnit?.name,
+        unitCost,
+        cost: unitCost * stockQuantity,
+      });
+    }
+
+    return lines;
+  }
+
+  private async typicalBatchSize(productId: Types.ObjectId): Promise<number> {
+    const [result] = await this.productionBatchModel.aggregate<{
+      average: number;
+    }>([
+      { $match: { product: productId } },
+      { $group: { _id: null, average: { $avg: '$quantity' } } },
+    ]);
+    return result?.average || 1;
+  }
+
+  /** Margin is a percentage of the selling price, so 100% is never reached */
+  private priceForMargin(unitCost: number, targetMargin: number): number {
+    if (targetMargin < 0 || targetMargin >= 100) {
+      throw new BadRequestException(
+        'Target margin must be at least 0 and below 100',
+      );
+    }
+    return unitCost / (1 - targetMargin / 100);
+  }
+}
@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ProductVariantsService } from './product-variants.service';
+import { ProductsService } from './products.service';
+import { RecipeVersionsService } from './recipe-versions.service';
+import { Product } from '../schemas/product.schema';
+import { User } from '../../user/schemas/User.schema';
+
+describe('ProductVariantsService', () => {
+  let service: ProductVariantsService;
+  let productModel: Record<string, jest.Mock>;
+  let validateRecipe: jest.Mock;
+  let recipeVersionsService: Record<string, jest.Mock>;
+
+  const user = { _id: new Types.ObjectId() } as unknown as User;
+  const grams = new Types.ObjectId();
+  const wax = new Types.ObjectId();
+  const amber = new Types.ObjectId();
+  const vanilla = new Types.ObjectId();
+
+  const parent = {
+    _id: new Types.ObjectId(),
+    name: 'Amber Jar',
+    sku: 'CAN-AMB-1A2',
+    sellingPrice: 18,
+    variantAxes: [
+      { name: 'Size', values: ['20cl', '30cl'] },
+      { name: 'Scent', values: ['Amber', 'Vanilla'] },
+    ],
+    recipe: [
+      { itemType: 'material', material: wax, quantity: 180, unit: grams },
+      { itemType: 'material', material: amber, quantity: 10, unit: grams },
+    ],
+  };
+
+  beforeEach(async () => {
+    productModel = {
+      findById: jest.fn().mockResolvedValue(parent),
+      find: jest.fn().mockResolvedValue([]),
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...data }),
+      ),
+    };
+    recipeVersionsService = { record: jest.fn(), getCurrent: jest.fn() };
+    // The recipe merging is the real thing; only validation is stubbed
+    validateRecipe = jest.fn();
+    const productsService = Object.assign(
+      Object.create(ProductsService.prototype) as ProductsService,
+      { validateRecipe },
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductVariantsService,
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: ProductsService, useValue: productsService },
+        { provide: RecipeVersionsService, useValue: recipeVersionsService },
+      ],
+    }).compile();
+
+    service = module.get<ProductVariantsService>(ProductVariantsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('generate', () => {
+    it('makes every combination of axis values not made yet', async () => {
+      productModel.find.mockResolvedValue([
+        {
+          variantOptions: [
+            { axis: 'Size', value: '20cl' },
+            { axis: 'Scent', value: 'Amber' },
+          ],
+        },
+      ]);
+
+      const created = await service.generate(parent._id.toString(), user);
+
+      expect(created.map((variant) => variant.name)).toEqual([
+        'Amber Jar - 20cl / Vanilla',
+        'Amber Jar - 30cl / Amber',
+        'Amber Jar - 30cl / Vanilla',
+      ]);
+      expect(created[0]).toMatchObject({
+        sku: 'CAN-AMB-1A2-20C-VAN',
+        sellingPrice: 18,
+        parent: parent._id,
+        recipeVersion: 1,
+      });
+      expect(recipeVersionsService.record).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('create', () => {
+    it('numbers a SKU that another variant already has', async () => {
+      productModel.exists
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ _id: new Types.ObjectId() });
+
+      const variant = await service.create(
+        parent._id.toString(),
+        {
+          options: [
+            { axis: 'Scent', value: 'Amber' },
+            { axis: 'Size', value: '30cl' },
+          ],
+        },
+        user,
+      );
+
+      // Options come back in the parent's axis order
+      expect(variant.sku).toBe('CAN-AMB-1A2-30C-AMB-2');
+    });
+
+    it('applies recipe overrides on top of the parent recipe', async () => {
+      const variant = await service.create(
+        parent._id.toString(),
+        {
+          options: [
+            { axis: 'Size', value: '30cl' },
+            { axis: 'Scent', value: 'Vanilla' },
+          ],
+          sellingPrice: 24,
+          recipeOverrides: [
+            {
+              itemType: 'material',
+              material: wax.toString(),
+              quantity: 270,
+              unit: grams.toString(),
+            },
+            { itemType: 'material', material: amber.toString(), quantity: 0 },
+            {
+              itemType: 'material',
+              material: vanilla.toString(),
+              quantity: 15,
+              unit: grams.toString(),
+            },
+          ],
+        },
+        user,
+      );
+
+      expect(variant.sellingPrice).toBe(24);
+      expect(variant.recipe).toEqual([
+        expect.objectContaining({ material: wax, quantity: 270 }),
+        expect.objectContaining({ material: vanilla, quantity: 15 }),
+      ]);
+      // Dropping a line has nothing to validate
+      expect(validateRecipe).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ quantity: 270 }),
+          expect.objectContaining({ quantity: 15 }),
+        ],
+        parent._id.toString(),
+      );
+    });
+
+    it('refuses a combination that already exists', async () => {
+      productModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.create(
+          parent._id.toString(),
+          {
+            options: [
+              { axis: 'Size', value: '20cl' },
+              { axis: 'Scent', value: 'Amber' },
+            ],
+          },
+          user,
+        ),
+      ).rejects.toThrow('Amber Jar already has a 20cl / Amber variant');
+      expect(productModel.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a value the axis does not have', async () => {
+      await expect(
+        service.create(
+          parent._id.toString(),
+          {
+            options: [
+              { axis: 'Size', value: '50cl' },
+              { axis: 'Scent', value: 'Amber' },
+            ],
+          },
+          user,
+        ),
+      ).rejects.toThrow('50cl is not one of the Size values');
+    });
+
+    it('needs a value for every axis', async () => {
+      await expect(
+        service.create(
+          parent._id.toString(),
+          { options: [{ axis: 'Size', value: '20cl' }] },
+          user,
+        ),
+      ).rejects.toThrow('Choose a Scent for the variant');
+    });
+
+    it('refuses variants of a variant', async () => {
+      productModel.findById.mockResolvedValue({
+        ...parent,
+        name: 'Amber Jar - 20cl / Amber',
+        parent: parent._id,
+      });
+
+      await expect(
+        service.create(parent._id.toString(), { options: [] }, user),
+      ).rejects.toThrow('Amber Jar - 20cl / Amber is itself a variant');
+    });
+  });
+
+  describe('update', () => {
+    it('checks new override lines against the variant as well as the parent', async () => {
+      const variant = {
+        _id: new Types.ObjectId(),
+        recipe: parent.recipe,
+        recipeVersion: 1,
+        set: jest.fn(),
+        save: jest.fn(),
+        populate: jest.fn(),
+      };
+      productModel.findOne = jest.fn().mockResolvedValue(variant);
+      validateRecipe.mockRejectedValue(
+        new Error('Recipe would contain itself: Gift set'),
+      );
+
+      await expect(
+        service.update(
+          parent._id.toString(),
+          variant._id.toString(),
+          {
+            recipeOverrides: [
+              {
+                itemType: 'product',
+                product: new Types.ObjectId().toString(),
+                quantity: 1,
+              },
+            ],
+          },
+          user,
+        ),
+      ).rejects.toThrow('Recipe would contain itself: Gift set');
+      expect(validateRecipe).toHaveBeenCalledWith(
+        [expect.objectContaining({ itemType: 'product' })],
+        parent._id.toString(),
+        variant._id.toString(),
+      );
+      expect(variant.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Product, ProductDocument } from '../schemas/product.schema';
+import { VariantOption } from '../schemas/variant-axis.schema';
+import { RecipeLine } from '../schemas/recipe-item.schema';
+import { User } from '../../user/schemas/User.schema';
+import {
+  CreateVariantDto,
+  RecipeOverrideDto,
+  UpdateVariantDto,
+} from '../dto/variant.dto';
+import { ProductsService } from './products.service';
+import { RecipeVersionsService } from './recipe-versions.service';
+
+@Injectable()
+export class ProductVariantsService {
+  constructor(
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    private readonly productsService: ProductsService,
+    private readonly recipeVersionsService: RecipeVersionsService,
+  ) {}
+
+  async findAll(parentId: string): Promise<Product[]> {
+    const parent = await this.findParent(parentId);
+
+    return this.productModel
+      .find({ parent: parent._id })
+      .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
+      .populate('recipe.unit')
+      .sort('sku')
+      .exec();
+  }
+
+  async create(
+    parentId: string,
+    createVariantDto: CreateVariantDto,
+    user: User,
+  ): Promise<Product> {
+    const parent = await this.findParent(parentId);
+    const options = this.matchAxes(parent, createVariantDto.options);
+
+    const exists = await this.productModel.exists({
+      parent: parent._id,
+      $and: options.map((option) => ({
+        variantOptions: { $elemMatch: option },
+      })),
+    });
+    if (exists) {
+      throw new BadRequestException(
+        `${parent.name} already has a ${this.describe(options)} variant`,
+      );
+    }
+
+    return this.createVariant(parent, options, createVariantDto, user);
+  }
+
+  /** Creates a variant for every combination of axis values not yet made */
+  async generate(parentId: string, user: User): Promise<Product[]> {
+    const parent = await this.findParent(parentId);
+    if (parent.variantAxes.length === 0) {
+      throw new BadRequestException(`${parent.name} has no variant axes`);
+    }
+
+    const combinations = parent.variantAxes.reduce<VariantOption[][]>(
+      (combos, axis) =>
+        combos.flatMap((combo) =>
+          axis.values.map((value) => [...combo, { axis: axis.name, value }]),
+        ),
+      [[]],
+    );
+
+    const existing = await this.productModel.find({ parent: parent._id });
+    const made = new Set(
+      existing.map((variant) => this.describe(variant.variantOptions)),
+    );
+
+    const created: Product[] = [];
+    for (const options of combinations) {
+      if (made.has(this.describe(options))) continue;
+      created.push(await this.createVariant(parent, options, {}, user));
+    }
+    return created;
+  }
+
+  async update(
+    parentId: string,
+    variantId: string,
+    updateVariantDto: UpdateVariantDto,
+    user: User,
+  ): Promise<Product> {
+    const parent = await this.findParent(parentId);
+    const variant = Types.ObjectId.isValid(variantId)
+      ? await this.productModel.findOne({ _id: variantId, parent: parent._id })
+      : null;
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    if (updateVariantDto.sellingPrice !== undefined) {
+      variant.sellingPrice = updateVariantDto.sellingPrice;
+    }
+    if (updateVariantDto.status) {
+      variant.status = updateVariantDto.status;
+    }
+
+    let newVersion = false;
+    if (updateVariantDto.recipeOverrides) {
+      const overrides = await this.toOverrides(
+        parent,
+        updateVariantDto.recipeOverrides,
+        variant,
+      );
+      const recipe = this.productsService.applyRecipeOverrides(
+        parent.recipe as RecipeLine[],
+        overrides,
+      );
+
+      variant.set('recipeOverrides', overrides);
+      if (!this.productsService.isSameRecipe(recipe, variant.recipe)) {
+        await this.recipeVersionsService.getCurrent(variant);
+        variant.set('recipe', recipe);
+        variant.recipeVersion = (variant.recipeVersion ?? 1) + 1;
+        newVersion = true;
+      }
+    }
+
+    await variant.save();
+
+    if (newVersion) {
+      await this.recipeVersionsService.record(
+        variant._id,
+        variant.recipeVersion,
+        variant.recipe,
+        {
+          changeNotes: updateVariantDto.recipeChangeNotes,
+          createdBy: user._id,
+        },
+      );
+    }
+
+    return variant.populate([
+      'recipe.material',
+      'recipe.product',
+      'recipe.unit',
+    ]);
+  }
+
+  private async createVariant(
+    parent: ProductDocument,
+    options: VariantOption[],
+    details: { sellingPrice?: number; recipeOverrides?: RecipeOverrideDto[] },
+    user: User,
+  ): Promise<Product> {
+    const overrides = await this.toOverrides(
+      parent,
+      details.recipeOverrides ?? [],
+    );
+    const recipe = this.productsService.applyRecipeOverrides(
+      parent.recipe as RecipeLine[],
+      overrides,
+    );
+
+    const variant = await this.productModel.create({
+      name: `${parent.name} - ${this.describe(options)}`,
+      sku: await this.createVariantSku(parent.sku, options),
+      description: parent.description,
+      sellingPrice: details.sellingPrice ?? parent.sellingPrice,
+      status: parent.status,
+      category: parent.category,
+      imageUrl: parent.imageUrl,
+      labour: parent.labour,
+      parent: parent._id,
+      variantOptions: options,
+      recipeOverrides: overrides,
+      recipe,
+      recipeVersion: 1,
+    });
+
+    await this.recipeVersionsService.record(variant._id, 1, recipe, {
+      changeNotes: 'Initial recipe',
+      createdBy: user._id,
+    });
+
+    return variant;
+  }
+
+  /**
+   * The added lines end up in the variant's recipe as well as being checked
+   * against the parent's, so neither may be reached from them
+   */
+  private async toOverrides(
+    parent: ProductDocument,
+    overrides: RecipeOverrideDto[],
+    variant?: ProductDocument,
+  ): Promise<RecipeLine[]> {
+    // Lines that only drop a parent item have nothing new to check
+    const additions = overrides.filter((override) => override.quantity > 0);
+    if (additions.length > 0) {
+      const productIds = [parent._id.toString()];
+      if (variant) productIds.push(variant._id.toString());
+      await this.productsService.validateRecipe(additions, ...productIds);
+    }
+
+    return overrides.map((override) =>
+      this.productsService.toRecipeItem(override),
+    );
+  }
+
+  /** One value per axis, in the parent's axis order */
+  private matchAxes(
+    parent: ProductDocument,
+    options: VariantOption[],
+  ): VariantOption[] {
+    if (parent.variantAxes.length === 0) {
+      throw new BadRequestException(`${parent.name} has no variant axes`);
+    }
+
+    for (const option of options) {
+      if (!parent.variantAxes.some((axis) => axis.name === option.axis)) {
+        throw new BadRequestException(
+          `${parent.name} does not vary by ${option.axis}`,
+        );
+      }
+    }
+
+    return parent.variantAxes.map((axis) => {
+      const option = options.find((o) => o.axis === axis.name);
+      if (!option) {
+        throw new BadRequestException(`Choose a ${axis.name} for the variant`);
+      }
+      if (!axis.values.includes(option.value)) {
+        throw new BadRequestException(
+          `${option.value} is not one of the ${axis.name} values`,
+        );
+      }
+      return { axis: axis.name, value: option.value };
+    });
+  }
+
+  /** Parent SKU plus a short code per option, e.g. CAN-AMB-1A2-20C-VAN */
+  private async createVariantSku(
+    parentSku: string,
+    options: VariantOption[],
+  ): Promise<string> {
+    const codes = options.map((option) =>
+      option.value
+        .replace(/[^a-z0-9]/gi, '')
+        .substring(0, 3)
+        .toUpperCase(),
+    );
+    const base = [parentSku, ...codes].join('-');
+
+    // Values can share a code, e.g. Amber and Amberwood
+    let sku = base;
+    for (let n = 2; await this.productModel.exists({ sku }); n++) {
+      sku = `${base}-${n}`;
+    }
+    return sku;
+  }
+
+  private describe(options: VariantOption[]): string {
+    return options.map((option) => option.value).join(' / ');
+  }
+
+  private async findParent(id: string): Promise<ProductDocument> {
+    const product = Types.ObjectId.isValid(id)
+      ? await this.productModel.findById(id)
+      : null;
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    if (product.parent) {
+      throw new BadRequestException(`${product.name} is itself a variant`);
+    }
+    return product;
+  }
+}
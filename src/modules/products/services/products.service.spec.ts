@@ -1,12 +1,110 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { ProductsService } from './products.service';
+import { Product, ProductType } from '../schemas/product.schema';
+import { Material } from '../../materials/schemas/material.schema';
+import { User } from '../../user/schemas/User.schema';
+import { CreateProductDto } from '../dto/create-product.dto';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { ConversionCostsService } from 'src/modules/costing/services/conversion-costs.service';
+import { RecipeVersionsService } from './recipe-versions.service';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+// `instanceof` on the injected models tells materials from products
+class ProductModel {
+  static findById = jest.fn();
+  static find = jest.fn();
+  static findByIdAndUpdate = jest.fn();
+  static distinct = jest.fn();
+  static countDocuments = jest.fn();
+}
+class MaterialModel {
+  static findById = jest.fn();
+}
 
 describe('ProductsService', () => {
   let service: ProductsService;
+  let unitsService: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+  let recipeVersionsService: Record<string, jest.Mock>;
+
+  const user = { _id: new Types.ObjectId() } as unknown as User;
+  const grams = new Types.ObjectId();
+
+  const wax = Object.assign(new MaterialModel(), {
+    _id: new Types.ObjectId(),
+    name: 'Soy wax',
+    unit: grams,
+    currentStock: 1000,
+  });
+
+  const product = (name: string, recipe: object[] = [], fields = {}) =>
+    Object.assign(new ProductModel(), {
+      _id: new Types.ObjectId(),
+      name,
+      recipe,
+      currentStock: 0,
+      ...fields,
+    });
+
+  // Candle uses a jar, which is filled with a wax blend
+  const blend = product('Wax blend', [
+    { itemType: 'material', material: wax._id, quantity: 100, unit: grams },
+  ]);
+  const jar = product('Filled jar', [
+    { itemType: 'product', product: blend._id, quantity: 1 },
+  ]);
+  const candle = product('Candle', [
+    { itemType: 'product', product: jar._id, quantity: 1 },
+  ]);
+  const products = [blend, jar, candle];
+
+  const uses = (subAssembly: { _id: Types.ObjectId }) => ({
+    itemType: 'product' as const,
+    product: subAssembly._id.toString(),
+    quantity: 1,
+  });
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    ProductModel.findById.mockImplementation((id: string) =>
+      mockQuery(products.find((p) => p._id.equals(id)) ?? null),
+    );
+    // Looks up sub-assemblies by id; no product here has variants
+    ProductModel.find.mockImplementation(
+      ({ _id }: { _id?: { $in: Types.ObjectId[] } }) =>
+        mockQuery(
+          products.filter((p) => _id?.$in.some((id) => p._id.equals(id))),
+        ),
+    );
+    MaterialModel.findById.mockResolvedValue(wax);
+    unitsService = {
+      convert: jest.fn((quantity: number) => Promise.resolve(quantity)),
+      getConversionFactor: jest.fn().mockResolvedValue(1),
+    };
+    locationsService = {
+      resolveLocationId: jest.fn(),
+      getQuantityAt: jest.fn(),
+    };
+    recipeVersionsService = {
+      getCurrent: jest.fn().mockResolvedValue({}),
+      record: jest.fn().mockResolvedValue({}),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProductsService],
+      providers: [
+        ProductsService,
+        { provide: getModelToken(Product.name), useValue: ProductModel },
+        { provide: getModelToken(Material.name), useValue: MaterialModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: {} },
+        { provide: UnitsService, useValue: unitsService },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: RecipeVersionsService, useValue: recipeVersionsService },
+        { provide: ConversionCostsService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<ProductsService>(ProductsService);
@@ -15,4 +113,345 @@ describe('ProductsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findAll', () => {
+    beforeEach(() => {
+      ProductModel.find.mockReturnValue(mockQuery([]));
+      ProductModel.countDocuments.mockResolvedValue(0);
+    });
+
+    it('finds the parent of a variant that matches a search', async () => {
+      const parents = [new Types.ObjectId()];
+      ProductModel.distinct.mockResolvedValue(parents);
+
+      await service.findAll(1, 10, { searchTerm: 'vanilla' });
+
+      const query = ProductModel.find.mock.calls[0][0];
+      expect(query.parent).toEqual({ $exists: false });
+      expect(query.$or).toContainEqual({ _id: { $in: parents } });
+    });
+
+    it('filters parents by the options their variants have', async () => {
+      const parents = [new Types.ObjectId()];
+      ProductModel.distinct.mockResolvedValue(parents);
+      const variantOptions = [{ axis: 'Scent', value: 'Vanilla' }];
+
+      await service.findAll(1, 10, { variantOptions });
+
+      expect(ProductModel.distinct).toHaveBeenCalledWith('parent', {
+        $and: [{ variantOptions: { $elemMatch: variantOptions[0] } }],
+      });
+      expect(ProductModel.find).toHaveBeenCalledWith({
+        parent: { $exists: false },
+        _id: { $in: parents },
+      });
+    });
+
+    it('filters variants themselves when asked for them', async () => {
+      const parent = new Types.ObjectId();
+
+      await service.findAll(1, 10, {
+        parent: parent.toString(),
+        variantOptions: [{ axis: 'Size', value: '20cl' }],
+      });
+
+      expect(ProductModel.distinct).not.toHaveBeenCalled();
+      expect(ProductModel.find).toHaveBeenCalledWith({
+        parent,
+        $and: [
+          { variantOptions: { $elemMatch: { axis: 'Size', value: '20cl' } } },
+        ],
+      });
+    });
+  });
+
+  describe('applyRecipeOverrides', () => {
+    it('replaces, removes and adds lines by what they use', () => {
+      const amber = new Types.ObjectId();
+      const vanilla = new Types.ObjectId();
+      const recipe = [
+        { itemType: 'material' as const, material: wax._id, quantity: 180 },
+        { itemType: 'material' as const, material: amber, quantity: 10 },
+      ];
+
+      const merged = service.applyRecipeOverrides(recipe, [
+        { itemType: 'material', material: wax._id, quantity: 270 },
+        { itemType: 'material', material: amber, quantity: 0 },
+        { itemType: 'material', material: vanilla, quantity: 15 },
+      ]);
+
+      expect(merged).toEqual([
+        { itemType: 'material', material: wax._id, quantity: 270 },
+        { itemType: 'material', material: vanilla, quantity: 15 },
+      ]);
+    });
+  });
+
+  describe('validateRecipe', () => {
+    it('accepts a product made from other products', async () => {
+      await expect(
+        service.validateRecipe([uses(jar)], candle._id.toString()),
+      ).resolves.toBeUndefined();
+    });
+
+    it('refuses a product used in its own recipe', async () => {
+      await expect(
+        service.validateRecipe([uses(blend)], blend._id.toString()),
+      ).rejects.toThrow('Recipe would contain itself: Wax blend');
+    });
+
+    it('refuses a product that uses itself further down', async () => {
+      await expect(
+        service.validateRecipe([uses(candle)], blend._id.toString()),
+      ).rejects.toThrow(
+        'Recipe would contain itself: Candle → Filled jar → Wax blend',
+      );
+    });
+
+    it('refuses a recipe that reaches any of the products it ends up in', async () => {
+      await expect(
+        service.validateRecipe(
+          [uses(candle)],
+          new Types.ObjectId().toString(),
+          blend._id.toString(),
+        ),
+      ).rejects.toThrow(
+        'Recipe would contain itself: Candle → Filled jar → Wax blend',
+      );
+    });
+
+    it('refuses a sub-assembly that does not exist', async () => {
+      const missing = new Types.ObjectId().toString();
+
+      await expect(
+        service.validateRecipe([uses({ _id: new Types.ObjectId(missing) })]),
+      ).rejects.toThrow(`Product ${missing} not found`);
+    });
+
+    it('refuses a unit the material cannot be converted to', async () => {
+      unitsService.getConversionFactor.mockRejectedValue(
+        new Error('Cannot convert Piece (count) to Gram (mass)'),
+      );
+
+      await expect(
+        service.validateRecipe([
+          {
+            itemType: 'material',
+            material: wax._id.toString(),
+            quantity: 1,
+            unit: new Types.ObjectId().toString(),
+          },
+        ]),
+      ).rejects.toThrow(
+        'Recipe unit for Soy wax cannot be used: Cannot convert Piece (count) to Gram (mass)',
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('refuses a recipe change that makes a cycle before saving', async () => {
+      await expect(
+        service.update(blend._id.toString(), { recipe: [uses(candle)] }, user),
+      ).rejects.toThrow('Recipe would contain itself');
+      expect(ProductModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('saves a changed recipe as the next version', async () => {
+      const versioned = { ...blend, recipeVersion: 2 };
+      ProductModel.findById.mockReturnValue(mockQuery(versioned));
+      ProductModel.findByIdAndUpdate.mockReturnValue(mockQuery(versioned));
+      const effectiveFrom = '2026-11-01';
+
+      await service.update(
+        blend._id.toString(),
+        {
+          recipe: [
+            {
+              itemType: 'material',
+              material: wax._id.toString(),
+              quantity: 80,
+              unit: grams.toString(),
+            },
+          ],
+          recipeChangeNotes: 'Less wax',
+          recipeEffectiveFrom: effectiveFrom,
+        },
+        user,
+      );
+
+      expect(ProductModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        blend._id.toString(),
+        expect.objectContaining({ recipeVersion: 3 }),
+        { new: true },
+      );
+      expect(recipeVersionsService.record).toHaveBeenCalledWith(
+        blend._id,
+        3,
+        [expect.objectContaining({ material: wax._id, quantity: 80 })],
+        {
+          effectiveFrom: new Date(effectiveFrom),
+          changeNotes: 'Less wax',
+          createdBy: user._id,
+        },
+      );
+    });
+
+    it('keeps the version when the recipe is saved unchanged', async () => {
+      ProductModel.findByIdAndUpdate.mockReturnValue(mockQuery(blend));
+
+      await service.update(
+        blend._id.toString(),
+        {
+          recipe: [
+            {
+              itemType: 'material',
+              material: wax._id.toString(),
+              quantity: 100,
+              unit: grams.toString(),
+            },
+          ],
+        },
+        user,
+      );
+
+      expect(ProductModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        blend._id.toString(),
+        expect.not.objectContaining({ recipeVersion: expect.anything() }),
+        { new: true },
+      );
+      expect(recipeVersionsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkMaterialAvailability', () => {
+    it('checks sub-assemblies against finished stock', async () => {
+      const filled = { ...jar, currentStock: 3 };
+      ProductModel.findById.mockReturnValue(
+        mockQuery({
+          ...candle,
+          recipe: [{ itemType: 'product', product: filled, quantity: 1 }],
+        }),
+      );
+
+      const result = await service.checkMaterialAvailability(
+        candle._id.toString(),
+        5,
+      );
+
+      expect(result.available).toBe(false);
+      expect(result.missingMaterials).toEqual([
+        {
+          itemType: 'product',
+          material: jar._id.toString(),
+          materialName: 'Filled jar',
+          required: 5,
+          available: 3,
+          shortage: 2,
+        },
+      ]);
+    });
+
+    it('converts material quantities into the stock unit', async () => {
+      // 100 g of wax per blend, stocked in kilograms
+      unitsService.convert.mockResolvedValue(0.1);
+      ProductModel.findById.mockReturnValue(
+        mockQuery({
+          ...blend,
+          recipe: [
+            {
+              itemType: 'material',
+              material: { ...wax, currentStock: 0.5 },
+              quantity: 100,
+              unit: grams,
+            },
+          ],
+        }),
+      );
+
+      const result = await service.checkMaterialAvailability(
+        blend._id.toString(),
+        10,
+      );
+
+      expect(result.missingMaterials?.[0]).toMatchObject({
+        required: 1,
+        available: 0.5,
+        shortage: 0.5,
+      });
+    });
+  });
+
+  describe('bundles', () => {
+    const pieces = new Types.ObjectId();
+    const box = Object.assign(new MaterialModel(), {
+      _id: new Types.ObjectId(),
+      name: 'Gift box',
+      unit: pieces,
+    });
+    const giftSet = product(
+      'Gift set',
+      [
+        { itemType: 'product', product: candle._id, quantity: 2 },
+        { itemType: 'material', material: box._id, quantity: 1, unit: pieces },
+      ],
+      { productType: ProductType.BUNDLE },
+    );
+    const location = new Types.ObjectId();
+
+    it('can sell those assembled plus as many as the scarcest component allows', async () => {
+      ProductModel.findById.mockImplementation((id: string) =>
+        mockQuery([giftSet, candle].find((p) => p._id.equals(id))),
+      );
+      MaterialModel.findById.mockResolvedValue(box);
+      locationsService.resolveLocationId.mockResolvedValue(location);
+      locationsService.getQuantityAt.mockImplementation((item) =>
+        Promise.resolve(
+          item === candle ? 7 : item === box ? 10 : /* assembled */ 1,
+        ),
+      );
+
+      const availability = await service.getBundleAvailability(
+        giftSet._id.toString(),
+      );
+
+      expect(availability).toMatchObject({
+        onHand: 1,
+        canAssemble: 3,
+        available: 4,
+        limitedBy: 'Candle',
+      });
+      expect(availability.components).toEqual([
+        expect.objectContaining({ perBundle: 2, bundlesPossible: 3 }),
+        expect.objectContaining({ perBundle: 1, bundlesPossible: 10 }),
+      ]);
+    });
+
+    it('refuses a product that is not a bundle', async () => {
+      await expect(
+        service.getBundleAvailability(candle._id.toString()),
+      ).rejects.toThrow('Candle is not a bundle');
+    });
+
+    it('refuses a bundle made only of materials', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'Empty box',
+            productType: ProductType.BUNDLE,
+            recipe: [
+              {
+                itemType: 'material',
+                material: box._id.toString(),
+                quantity: 1,
+                unit: pieces.toString(),
+              },
+            ],
+          } as CreateProductDto,
+          user,
+        ),
+      ).rejects.toThrow(
+        'A bundle needs at least one product among its components',
+      );
+    });
+  });
 });
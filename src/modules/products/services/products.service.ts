@@ -9,6 +9,7 @@ import {
   Product,
   ProductDocument,
   ProductStatus,
+  ProductType,
 } from '../schemas/product.schema';
 import {
   Material,
@@ -17,6 +18,13 @@ import {
 import { User } from '../../user/schemas/User.schema';
 import { CreateProductDto } from '../dto/create-product.dto';
 import { UpdateProductDto } from '../dto/update-product.dto';
+import { ProductFiltersDto } from '../dto/product-filters.dto';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { ConversionCostsService } from 'src/modules/costing/services/conversion-costs.service';
+import {
+  BundleAvailability,
+  BundleComponentAvailability,
+} from '../types/BundleAvailability';
 import * as fs from 'fs';
 import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
 import * as crypto from 'crypto';
@@ -24,6 +32,10 @@ import {
   ProductionBatch,
   ProductionBatchDocument,
 } from 'src/modules/production/schemas/production-batch.schema';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { RecipeItemDto } from '../dto/create-product.dto';
+import { RecipeLine } from '../schemas/recipe-item.schema';
+import { RecipeVersionsService } from './recipe-versions.service';
 
 @Injectable()
 export class ProductsService {
@@ -32,20 +44,32 @@ export class ProductsService {
     @InjectModel(ProductionBatch.name)
     private productionBatchModel: Model<ProductionBatchDocument>,
     @InjectModel(Material.name) private materialModel: Model<MaterialDocument>,
+    private readonly unitsService: UnitsService,
+    private readonly recipeVersionsService: RecipeVersionsService,
+    private readonly locationsService: LocationsService,
+    private readonly conversionCostsService: ConversionCostsService,
   ) {}
 
+  /**
+   * Lists parents and standalone products. A search or option filter that
+   * matches a variant brings back its parent, unless variants are asked for
+   * directly with `includeVariants` or `parent`.
+   */
   async findAll(
     page = 1,
     pageSize = 10,
-    filters?: {
-      searchTerm?: string;
-      category?: string;
-      status?: string;
-    },
+    filters?: ProductFiltersDto,
   ): Promise<PaginatedResponse<Product>> {
     const skip = (page - 1) * pageSize;
 
-    const query: FilterQuery<Material> = {};
+    const query: FilterQuery<Product> = {};
+    const variantLevel = !!(filters?.includeVariants || filters?.parent);
+
+    if (filters?.parent) {
+      query.parent = new Types.ObjectId(filters.parent);
+    } else if (!filters?.includeVariants) {
+      query.parent = { $exists: false };
+    }
 
     if (filters?.searchTerm) {
       query.$or = [
@@ -53,15 +77,56 @@ export class ProductsService {
         { sku: { $regex: filters.searchTerm, $options: 'i' } },
         { description: { $regex: filters.searchTerm, $options: 'i' } },
         { category: { $regex: filters.searchTerm, $options: 'i' } },
+        {
+          'variantOptions.value': {
+            $regex: filters.searchTerm,
+            $options: 'i',
+          },
+        },
       ];
+
+      if (!variantLevel) {
+        const parents = await this.productModel.distinct('parent', {
+          parent: { $exists: true },
+          $or: [
+            { sku: { $regex: filters.searchTerm, $options: 'i' } },
+            {
+              'variantOptions.value': {
+                $regex: filters.searchTerm,
+                $options: 'i',
+              },
+            },
+          ],
+        });
+        query.$or.push({ _id: { $in: parents } });
+      }
     }
     if (filters?.category) query.category = filters.category;
     if (filters?.status) query.status = filters.status;
 
+    if (filters?.variantOptions?.length) {
+      const optionsQuery = {
+        $and: filters.variantOptions.map((option) => ({
+          variantOptions: {
+            $elemMatch: { axis: option.axis, value: option.value },
+          },
+        })),
+      };
+
+      if (variantLevel) {
+        Object.assign(query, optionsQuery);
+      } else {
+        query._id = {
+          $in: await this.productModel.distinct('parent', optionsQuery),
+        };
+      }
+    }
+
     const [data, total] = await Promise.all([
       this.productModel
         .find(query)
         .populate('recipe.material')
+        .populate('recipe.product', 'name sku averageUnitCost currentStock')
         .populate('recipe.unit')
         .sort('-createdAt')
         .skip(skip)
@@ -86,6 +151,7 @@ export class ProductsService {
     return this.productModel
       .findById(id)
       .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
       .populate('recipe.unit')
       .exec();
   }
@@ -94,6 +160,7 @@ export class ProductsService {
     return this.productModel
       .find({ category })
       .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
       .populate('recipe.unit')
       .sort('-createdAt')
       .exec();
@@ -103,6 +170,7 @@ export class ProductsService {
     return this.productModel
       .find({ status })
       .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
       .populate('recipe.unit')
       .sort('-createdAt')
       .exec();
@@ -112,6 +180,7 @@ export class ProductsService {
     return this.productModel
       .find({ status: 'active' })
       .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
       .populate('recipe.unit')
       .sort('name')
       .exec();
@@ -132,6 +201,7 @@ export class ProductsService {
     return await this.productModel
       .find(filter)
       .populate('recipe.material')
+      .populate('recipe.product', 'name sku averageUnitCost currentStock')
       .populate('recipe.unit');
   }
 
@@ -149,30 +219,44 @@ export class ProductsService {
 
     const sku = this.createSku(createProductDto);
 
+    if (createProductDto.variantAxes) {
+      this.checkAxes(createProductDto.variantAxes);
+    }
+
     // Validate recipe materials and units exist
     if (createProductDto.recipe && createProductDto.recipe.length > 0) {
-      for (const item of createProductDto.recipe) {
-        const material = await this.materialModel.findById(item.material);
-        if (!material) {
-          throw new BadRequestException(`Material ${item.material} not found`);
-        }
-      }
+      await this.validateRecipe(createProductDto.recipe);
+    }
+    this.checkBundle(createProductDto.productType, createProductDto.recipe);
+    if (createProductDto.labour) {
+      await this.conversionCostsService.validateLabour(createProductDto.labour);
     }
 
+    const { recipeChangeNotes, recipeEffectiveFrom, ...productData } =
+      createProductDto;
+    const recipe = createProductDto.recipe?.map((item) =>
+      this.toRecipeItem(item),
+    );
+
     const createdProduct = new this.productModel({
-      ...createProductDto,
+      ...productData,
       sku,
-      recipe: createProductDto.recipe?.map((recipe) => ({
-        ...recipe,
-        material: new Types.ObjectId(recipe.material),
-        unit: new Types.ObjectId(recipe.unit),
-      })),
+      recipe,
+      recipeVersion: 1,
       imageUrl: imagePath,
       createdBy: user._id,
     });
 
     const saved = await createdProduct.save();
-    return saved.populate(['recipe.material', 'recipe.unit']);
+    await this.recipeVersionsService.record(saved._id, 1, recipe ?? [], {
+      effectiveFrom: recipeEffectiveFrom
+        ? new Date(recipeEffectiveFrom)
+        : undefined,
+      changeNotes: recipeChangeNotes ?? 'Initial recipe',
+      createdBy: user._id,
+    });
+
+    return saved.populate(['recipe.material', 'recipe.product', 'recipe.unit']);
   }
 
   async update(
@@ -185,23 +269,57 @@ export class ProductsService {
       return null;
     }
 
+    const existingProduct = await this.productModel.findById(id);
+    if (!existingProduct) {
+      return null;
+    }
+
+    if (existingProduct.parent && updateProductDto.recipe) {
+      throw new BadRequestException(
+        "A variant's recipe comes from its parent. Change its recipe overrides instead",
+      );
+    }
+    if (updateProductDto.variantAxes) {
+      await this.validateVariantAxes(
+        existingProduct,
+        updateProductDto.variantAxes,
+      );
+    }
+
     // Validate recipe materials if updating recipe
     if (updateProductDto.recipe && updateProductDto.recipe.length > 0) {
-      for (const item of updateProductDto.recipe) {
-        const material = await this.materialModel.findById(item.material);
-        if (!material) {
-          throw new BadRequestException(`Material ${item.material} not found`);
-        }
-      }
+      await this.validateRecipe(updateProductDto.recipe, id);
     }
+    if (updateProductDto.labour) {
+      await this.conversionCostsService.validateLabour(updateProductDto.labour);
+    }
+    if (updateProductDto.productType || updateProductDto.recipe) {
+      this.checkBundle(
+        updateProductDto.productType ?? existingProduct.productType,
+        updateProductDto.recipe ?? existingProduct.recipe,
+      );
+    }
+
+    const { recipeChangeNotes, recipeEffectiveFrom, ...productData } =
+      updateProductDto;
+    const recipe = updateProductDto.recipe?.map((item) =>
+      this.toRecipeItem(item),
+    );
+
+    // A changed recipe becomes a new version; the old one stays in history
+    let recipeVersion: number | undefined;
+    if (recipe && !this.isSameRecipe(recipe, existingProduct.recipe)) {
+      await this.recipeVersionsService.getCurrent(existingProduct);
+      recipeVersion = (existingProduct.recipeVersion ?? 1) + 1;
+    }
+
     // Handle image upload
     let imageUrl = updateProductDto.imageUrl;
     if (file) {
       imageUrl = `/uploads/products/${file.filename}`;
 
       // Optional: Delete old image file if it exists
-      const existingProduct = await this.productModel.findById(id);
-      if (existingProduct?.imageUrl) {
+      if (existingProduct.imageUrl) {
         const oldPath = `.${existingProduct.imageUrl}`;
         if (fs.existsSync(oldPath)) {
           try {
@@ -217,19 +335,32 @@ export class ProductsService {
       .findByIdAndUpdate(
         id,
         {
-          ...updateProductDto,
-          recipe: updateProductDto.recipe?.map((recipe) => ({
-            ...recipe,
-            material: new Types.ObjectId(recipe.material),
-            unit: new Types.ObjectId(recipe.unit),
-          })),
+          ...productData,
+          recipe,
+          ...(recipeVersion && { recipeVersion }),
           ...(imageUrl && { imageUrl }),
           updatedBy: user._id,
           updatedAt: new Date(),
         },
         { new: true },
       )
-      .populate(['recipe.material', 'recipe.unit']);
+      .populate(['recipe.material', 'recipe.product', 'recipe.unit']);
+
+    if (updated && recipe && recipeVersion) {
+      await this.recipeVersionsService.record(
+        updated._id,
+        recipeVersion,
+        recipe,
+        {
+          effectiveFrom: recipeEffectiveFrom
+            ? new Date(recipeEffectiveFrom)
+            : undefined,
+          changeNotes: recipeChangeNotes,
+          createdBy: user._id,
+        },
+      );
+      await this.refreshVariantRecipes(updated._id, recipe, user._id!);
+    }
 
     return updated;
   }
@@ -247,6 +378,22 @@ export class ProductsService {
         'Product already exists in a production batch so cannot be deleted. Please change its status to discontinued instead',
       );
 
+    const hasVariants = await this.productModel.exists({
+      parent: new Types.ObjectId(id),
+    });
+    if (hasVariants)
+      throw new BadRequestException(
+        'Product has variants so cannot be deleted. Delete its variants first',
+      );
+
+    const usedAsSubAssembly = await this.productModel.exists({
+      'recipe.product': new Types.ObjectId(id),
+    });
+    if (usedAsSubAssembly)
+      throw new BadRequestException(
+        'Product is used in the recipe of another product so cannot be deleted. Remove it from those recipes first',
+      );
+
     const deletedProduct = await this.productModel.findOneAndDelete({
       _id: id,
     });
@@ -264,35 +411,77 @@ export class ProductsService {
     return !!deletedProduct;
   }
 
-  async calculateProductCost(
+  /**
+   * How many of a bundle can be sold from a location: those already
+   * assembled plus as many as the scarcest component allows.
+   */
+  async getBundleAvailability(
     id: string,
-  ): Promise<{ cost: number; margin: number; marginPercentage: number }> {
-    const product = await this.productModel
-      .findById(id)
-      .populate('recipe.material')
-      .exec();
-
+    locationId?: string,
+  ): Promise<BundleAvailability> {
+    const product = Types.ObjectId.isValid(id)
+      ? await this.productModel.findById(id)
+      : null;
     if (!product) {
       throw new NotFoundException('Product not found');
     }
+    if (product.productType !== ProductType.BUNDLE) {
+      throw new BadRequestException(`${product.name} is not a bundle`);
+    }
 
-    let totalCost = 0;
+    const location = await this.locationsService.resolveLocationId(locationId);
+    const components: BundleComponentAvailability[] = [];
 
     for (const item of product.recipe) {
-      const material = item.material as any;
-      if (material && material.costPerUnit) {
-        totalCost += material.costPerUnit * item.quantity;
+      const component =
+        item.itemType === 'product'
+          ? await this.productModel.findById(item.product)
+          : await this.materialModel.findById(item.material);
+      if (!component) {
+        throw new NotFoundException(
+          `A component of ${product.name} no longer exists`,
+        );
       }
+
+      const perBundle =
+        component instanceof this.materialModel
+          ? await this.unitsService.convert(
+              item.quantity,
+              item.unit!,
+              component.unit,
+              component,
+            )
+          : item.quantity;
+      const available = await this.locationsService.getQuantityAt(
+        component,
+        location,
+      );
+
+      components.push({
+        itemType: item.itemType,
+        item: component._id,
+        name: component.name,
+        perBundle,
+        available,
+        bundlesPossible: Math.floor(available / perBundle),
+      });
     }
 
-    const margin = product.sellingPrice - totalCost;
-    const marginPercentage =
-      product.sellingPrice > 0 ? (margin / product.sellingPrice) * 100 : 0;
+    const canAssemble =
+      components.length > 0
+        ? Math.min(...components.map((c) => c.bundlesPossible))
+        : 0;
+    const onHand = await this.locationsService.getQuantityAt(product, location);
 
     return {
-      cost: totalCost,
-      margin,
-      marginPercentage,
+      product: product._id,
+      location,
+      onHand,
+      canAssemble,
+      available: onHand + canAssemble,
+      limitedBy: components.find((c) => c.bundlesPossible === canAssemble)
+        ?.name,
+      components,
     };
   }
 
@@ -302,6 +491,7 @@ export class ProductsService {
   ): Promise<{
     available: boolean;
     missingMaterials?: Array<{
+      itemType: 'material' | 'product';
       material: string;
       materialName: string;
       required: number;
@@ -312,6 +502,7 @@ export class ProductsService {
     const product = await this.productModel
       .findById(productId)
       .populate('recipe.material')
+      .populate('recipe.product')
       .exec();
 
     if (!product) {
@@ -319,6 +510,7 @@ export class ProductsService {
     }
 
     const missingMaterials: Array<{
+      itemType: 'material' | 'product';
       material: string;
       materialName: string;
       required: number;
@@ -327,11 +519,36 @@ export class ProductsService {
     }> = [];
 
     for (const item of product.recipe) {
+      // Sub-assemblies come out of finished stock, they are not made here
+      if (item.itemType === 'product') {
+        const subAssembly = item.product as any;
+        const requiredQuantity = item.quantity * quantity;
+
+        if (subAssembly.currentStock < requiredQuantity) {
+          missingMaterials.push({
+            itemType: 'product',
+            material: subAssembly._id.toString(),
+            materialName: subAssembly.name,
+            required: requiredQuantity,
+            available: subAssembly.currentStock,
+            shortage: requiredQuantity - subAssembly.currentStock,
+          });
+        }
+        continue;
+      }
+
       const material = item.material as any;
-      const requiredQuantity = item.quantity * quantity;
+      const requiredQuantity =
+        (await this.unitsService.convert(
+          item.quantity,
+          item.unit!,
+          material.unit,
+          material,
+        )) * quantity;
 
       if (material.currentStock < requiredQuantity) {
         missingMaterials.push({
+          itemType: 'material',
           material: material._id.toString(),
           materialName: material.name,
           required: requiredQuantity,
@@ -348,43 +565,243 @@ export class ProductsService {
     };
   }
 
-  // Helper method to deduct materials after a sale (called from sales service)
-  async deductMaterialsForSale(
-    productId: string,
-    quantity: number,
+  /**
+   * Every recipe item must point at a real material and be written in a unit
+   * that converts to the unit the material is stocked in, or at another
+   * product that does not, however indirectly, use any of the products the
+   * recipe ends up in.
+   */
+  async validateRecipe(
+    recipe: RecipeItemDto[],
+    ...productIds: string[]
   ): Promise<void> {
-    const product = await this.productModel
-      .findById(productId)
-      .populate('recipe.material')
-      .exec();
+    for (const item of recipe) {
+      if (item.itemType === 'product') {
+        await this.validateSubAssembly(item.product!, productIds);
+        continue;
+      }
 
-    if (!product) {
-      throw new NotFoundException('Product not found');
+      const material = await this.materialModel.findById(item.material);
+      if (!material) {
+        throw new BadRequestException(`Material ${item.material} not found`);
+      }
+
+      try {
+        await this.unitsService.getConversionFactor(
+          item.unit!,
+          material.unit,
+          material,
+        );
+      } catch (error) {
+        throw new BadRequestException(
+          `Recipe unit for ${material.name} cannot be used: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Walks down the sub-assembly's own recipe looking for the products being
+   * saved. A new product has no id yet so nothing can refer back to it.
+   */
+  private async validateSubAssembly(
+    subAssemblyId: string,
+    productIds: string[],
+  ): Promise<void> {
+    if (!Types.ObjectId.isValid(subAssemblyId)) {
+      throw new BadRequestException(`Product ${subAssemblyId} not found`);
     }
 
-    // First check availability
-    const availability = await this.checkMaterialAvailability(
-      productId,
-      quantity,
-    );
-    if (!availability.available) {
-      throw new BadRequestException({
-        message: 'Insufficient materials for sale',
-        missingMaterials: availability.missingMaterials,
-      });
+    const subAssembly = await this.productModel.findById(subAssemblyId);
+    if (!subAssembly) {
+      throw new BadRequestException(`Product ${subAssemblyId} not found`);
     }
+    if (productIds.length === 0) return;
+
+    const path = [subAssembly.name];
+    const visited = new Set<string>();
+    const stack: Array<{ product: ProductDocument; path: string[] }> = [
+      { product: subAssembly, path },
+    ];
+
+    while (stack.length > 0) {
+      const { product, path } = stack.pop()!;
+      const id = product._id.toString();
+
+      if (productIds.includes(id)) {
+        throw new BadRequestException(
+          `Recipe would contain itself: ${path.join(' → ')}`,
+        );
+      }
+      if (visited.has(id)) continue;
+      visited.add(id);
 
-    // Deduct materials
-    for (const item of product.recipe) {
-      const material = item.material as any;
-      const deductQuantity = item.quantity * quantity;
+      const childIds = product.recipe
+        .filter((item) => item.itemType === 'product' && item.product)
+        .map((item) => item.product as unknown as Types.ObjectId);
+      const children = await this.productModel.find({ _id: { $in: childIds } });
 
-      await this.materialModel.findByIdAndUpdate(material._id, {
-        $inc: { currentStock: -deductQuantity },
-      });
+      for (const child of children) {
+        stack.push({ product: child, path: [...path, child.name] });
+      }
+    }
+  }
+
+  /**
+   * A variant's recipe is its parent's with the variant's overrides applied
+   * line by line, matched on the material or product they use.
+   */
+  applyRecipeOverrides<T extends RecipeLine>(recipe: T[], overrides: T[]): T[] {
+    const lines = new Map(recipe.map((item) => [this.lineKey(item), item]));
+
+    for (const override of overrides) {
+      const key = this.lineKey(override);
+      if (override.quantity > 0) {
+        lines.set(key, override);
+      } else {
+        lines.delete(key);
+      }
+    }
+
+    return [...lines.values()];
+  }
+
+  /**
+   * Re-applies each variant's overrides after the parent's recipe changes,
+   * giving any variant whose recipe moved a new version of its own.
+   */
+  private async refreshVariantRecipes(
+    parentId: Types.ObjectId,
+    recipe: RecipeLine[],
+    userId: string,
+  ): Promise<void> {
+    const variants = await this.productModel.find({ parent: parentId });
+
+    for (const variant of variants) {
+      const variantRecipe = this.applyRecipeOverrides(
+        recipe,
+        variant.recipeOverrides as RecipeLine[],
+      );
+      if (this.isSameRecipe(variantRecipe, variant.recipe)) {
+        continue;
+      }
+
+      await this.recipeVersionsService.getCurrent(variant);
+      variant.set('recipe', variantRecipe);
+      variant.recipeVersion = (variant.recipeVersion ?? 1) + 1;
+      await variant.save();
+
+      await this.recipeVersionsService.record(
+        variant._id,
+        variant.recipeVersion,
+        variantRecipe,
+        { changeNotes: 'Parent recipe changed', createdBy: userId },
+      );
+    }
+  }
+
+  /** Axis names must be unique and every axis needs at least one value */
+  checkAxes(axes: { name: string; values: string[] }[]): void {
+    const names = axes.map((axis) => axis.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Variant axis names must be unique');
+    }
+
+    for (const axis of axes) {
+      if (axis.values.length === 0) {
+        throw new BadRequestException(
+          `Variant axis ${axis.name} has no values`,
+        );
+      }
+      if (new Set(axis.values).size !== axis.values.length) {
+        throw new BadRequestException(
+          `Variant axis ${axis.name} lists a value twice`,
+        );
+      }
+    }
+  }
+
+  /** Existing variants must still fit the axes after they are edited */
+  private async validateVariantAxes(
+    product: ProductDocument,
+    axes: { name: string; values: string[] }[],
+  ): Promise<void> {
+    if (product.parent) {
+      throw new BadRequestException('A variant cannot have variants');
+    }
+    this.checkAxes(axes);
+
+    const variants = await this.productModel.find({ parent: product._id });
+    for (const variant of variants) {
+      for (const option of variant.variantOptions) {
+        const axis = axes.find((a) => a.name === option.axis);
+        if (!axis?.values.includes(option.value)) {
+          throw new BadRequestException(
+            `${variant.name} uses ${option.axis}: ${option.value}, which these axes no longer include`,
+          );
+        }
+      }
+      if (variant.variantOptions.length !== axes.length) {
+        throw new BadRequestException(
+          `Axes cannot be added while ${product.name} has variants`,
+        );
+      }
     }
   }
 
+  private checkBundle(type?: ProductType, recipe: RecipeLine[] = []): void {
+    if (type !== ProductType.BUNDLE) return;
+
+    if (!recipe.some((item) => item.itemType === 'product')) {
+      throw new BadRequestException(
+        'A bundle needs at least one product among its components',
+      );
+    }
+  }
+
+  isSameRecipe(a: RecipeLine[], b: RecipeLine[]): boolean {
+    return this.recipeKey(a) === this.recipeKey(b);
+  }
+
+  /** Compares recipes by content, ignoring whether refs are populated */
+  private recipeKey(recipe: RecipeLine[]): string {
+    return recipe
+      .map((item) =>
+        [this.lineKey(item), item.quantity, this.refId(item.unit)].join(':'),
+      )
+      .join('|');
+  }
+
+  private lineKey(item: RecipeLine): string {
+    return [
+      item.itemType ?? 'material',
+      this.refId(item.material),
+      this.refId(item.product),
+    ].join(':');
+  }
+
+  // Both ObjectIds and populated documents expose _id
+  private refId(ref: unknown): string {
+    return ref ? (ref as { _id: Types.ObjectId })._id.toString() : '';
+  }
+
+  toRecipeItem(item: RecipeItemDto) {
+    if (item.itemType === 'product') {
+      return {
+        itemType: item.itemType,
+        product: new Types.ObjectId(item.product),
+        quantity: item.quantity,
+      };
+    }
+
+    return {
+      itemType: 'material',
+      material: new Types.ObjectId(item.material),
+      quantity: item.quantity,
+      unit: new Types.ObjectId(item.unit),
+    };
+  }
+
   private createSku(createProductDto: CreateProductDto): string {
     const CAT = createProductDto.category?.substring(0, 3).toUpperCase();
     const NAME = createProductDto.name.substring(0, 3).toUpperCase();
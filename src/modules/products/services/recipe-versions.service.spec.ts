@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { RecipeVersionsService } from './recipe-versions.service';
+import { RecipeVersion } from '../schemas/recipe-version.schema';
+import { ProductDocument } from '../schemas/product.schema';
+
+describe('RecipeVersionsService', () => {
+  let service: RecipeVersionsService;
+  let recipeVersionModel: Record<string, jest.Mock>;
+
+  const recipe = [
+    {
+      itemType: 'material' as const,
+      material: new Types.ObjectId(),
+      quantity: 200,
+      unit: new Types.ObjectId(),
+    },
+  ];
+
+  const candle = (fields = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      recipe,
+      createdAt: new Date('2025-06-01'),
+      ...fields,
+    }) as unknown as ProductDocument;
+
+  beforeEach(async () => {
+    recipeVersionModel = {
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      create: jest.fn((data) => Promise.resolve(data)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipeVersionsService,
+        {
+          provide: getModelToken(RecipeVersion.name),
+          useValue: recipeVersionModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecipeVersionsService>(RecipeVersionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getCurrent', () => {
+    it('finds the version matching the live recipe', async () => {
+      const product = candle({ recipeVersion: 3 });
+      const version = { version: 3 };
+      recipeVersionModel.findOneAndUpdate.mockResolvedValue(version);
+
+      await expect(service.getCurrent(product)).resolves.toBe(version);
+      expect(recipeVersionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { product: product._id, version: 3 },
+        expect.anything(),
+        { upsert: true, new: true },
+      );
+    });
+
+    it('saves the recipe of a product from before versions as version 1', async () => {
+      const product = candle();
+
+      await service.getCurrent(product);
+
+      expect(recipeVersionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { product: product._id, version: 1 },
+        {
+          $setOnInsert: {
+            recipe,
+            effectiveFrom: product.createdAt,
+            changeNotes: 'Recipe in use before version history was kept',
+          },
+        },
+        { upsert: true, new: true },
+      );
+      expect(recipeVersionModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('takes effect now unless given a date', async () => {
+      const before = Date.now();
+
+      const version = await service.record(new Types.ObjectId(), 2, recipe, {
+        changeNotes: 'Less wax',
+      });
+
+      expect(version.effectiveFrom.getTime()).toBeGreaterThanOrEqual(before);
+      expect(version.changeNotes).toBe('Less wax');
+    });
+  });
+
+  describe('findVersion', () => {
+    it('refuses a version that does not exist', async () => {
+      recipeVersionModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.findVersion(new Types.ObjectId().toString(), 9),
+      ).rejects.toThrow('Recipe version 9 not found');
+    });
+  });
+});
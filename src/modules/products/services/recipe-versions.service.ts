@@ -0,0 +1,85 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  RecipeVersion,
+  RecipeVersionDocument,
+} from '../schemas/recipe-version.schema';
+import { ProductDocument } from '../schemas/product.schema';
+import { RecipeLine } from '../schemas/recipe-item.schema';
+
+@Injectable()
+export class RecipeVersionsService {
+  constructor(
+    @InjectModel(RecipeVersion.name)
+    private readonly recipeVersionModel: Model<RecipeVersionDocument>,
+  ) {}
+
+  async findAll(productId: string): Promise<RecipeVersion[]> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return this.recipeVersionModel
+      .find({ product: new Types.ObjectId(productId) })
+      .populate('createdBy', 'name email')
+      .sort('-version')
+      .exec();
+  }
+
+  async findVersion(
+    productId: string,
+    version: number,
+  ): Promise<RecipeVersionDocument> {
+    const recipeVersion = Types.ObjectId.isValid(productId)
+      ? await this.recipeVersionModel.findOne({
+          product: new Types.ObjectId(productId),
+          version,
+        })
+      : null;
+
+    if (!recipeVersion) {
+      throw new NotFoundException(`Recipe version ${version} not found`);
+    }
+    return recipeVersion;
+  }
+
+  async record(
+    productId: Types.ObjectId,
+    version: number,
+    recipe: RecipeLine[],
+    details: { effectiveFrom?: Date; changeNotes?: string; createdBy?: string },
+  ): Promise<RecipeVersionDocument> {
+    return this.recipeVersionModel.create({
+      product: productId,
+      version,
+      recipe,
+      effectiveFrom: details.effectiveFrom ?? new Date(),
+      changeNotes: details.changeNotes,
+      createdBy: details.createdBy
+        ? new Types.ObjectId(details.createdBy)
+        : undefined,
+    });
+  }
+
+  /**
+   * The version matching the product's live recipe. Products created before
+   * versions were kept get their recipe saved as the first one on demand, in
+   * a single upsert so two requests at once cannot both save it.
+   */
+  async getCurrent(product: ProductDocument): Promise<RecipeVersionDocument> {
+    const version = product.recipeVersion ?? 1;
+
+    return this.recipeVersionModel.findOneAndUpdate(
+      { product: product._id, version },
+      {
+        $setOnInsert: {
+          recipe: product.recipe,
+          effectiveFrom: product.createdAt,
+          changeNotes: 'Recipe in use before version history was kept',
+        },
+      },
+      { upsert: true, new: true },
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { Types } from 'mongoose';
+import { RecipeItemType } from '../schemas/recipe-item.schema';
+
+export type BundleComponentAvailability = {
+  itemType: RecipeItemType;
+  item: Types.ObjectId;
+  name: string;
+  perBundle: number; // In the component's stock unit
+  available: number;
+  bundlesPossible: number;
+};
+
+export type BundleAvailability = {
+  product: Types.ObjectId;
+  location: Types.ObjectId;
+  onHand: number; // Already assembled
+  canAssemble: number; // More that the components on hand allow for
+  available: number;
+  limitedBy?: string;
+  components: BundleComponentAvailability[];
+};
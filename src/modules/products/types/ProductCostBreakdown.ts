@@ -0,0 +1,59 @@
+import { Types } from 'mongoose';
+import {
+  LabourCostLine,
+  OverheadCostLine,
+} from 'src/modules/costing/types/ConversionCost';
+import { RecipeItemType } from '../schemas/recipe-item.schema';
+
+export type IngredientCost = {
+  itemType: RecipeItemType;
+  item: Types.ObjectId;
+  name: string;
+  quantity: number; // As written in the recipe
+  unit?: string;
+  stockQuantity: number; // Converted to the unit the item is stocked in
+  stockUnit?: string;
+  unitCost: number; // Per stock unit
+  cost: number;
+};
+
+/** Everything that goes into one unit, at today's costs */
+export type ProductCostBreakdown = {
+  product: Types.ObjectId;
+  name: string;
+  sku: string;
+  batchSize: number; // Per-batch overheads are spread over this many
+  ingredients: IngredientCost[];
+  materialCost: number;
+  labour: LabourCostLine[];
+  labourCost: number;
+  overhead: OverheadCostLine[];
+  overheadCost: number;
+  unitCost: number;
+  sellingPrice: number;
+  margin: number;
+  marginPercentage: number;
+  targetMargin?: number;
+  priceForTargetMargin?: number;
+};
+
+export type MarginReportLine = {
+  product: Types.ObjectId;
+  name: string;
+  sku: string;
+  sellingPrice: number;
+  unitCost: number;
+  margin: number;
+  marginPercentage: number;
+  belowCost: boolean;
+  belowTarget?: boolean;
+  priceForTargetMargin?: number;
+};
+
+export type MarginReport = {
+  lines: MarginReportLine[]; // Lowest margin first
+  totalProducts: number;
+  belowCostCount: number;
+  belowTargetCount?: number;
+  averageMarginPercentage: number;
+};
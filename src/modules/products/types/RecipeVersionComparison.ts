@@ -0,0 +1,28 @@
+import { Types } from 'mongoose';
+import { RecipeItemType } from '../schemas/recipe-item.schema';
+
+export type RecipeVersionSummary = {
+  version: number;
+  effectiveFrom: Date;
+  changeNotes?: string;
+  unitCost: number;
+};
+
+export type RecipeLineChange = {
+  itemType: RecipeItemType;
+  item: Types.ObjectId;
+  name: string;
+  fromQuantity?: number;
+  toQuantity?: number;
+  fromUnit?: string;
+  toUnit?: string;
+};
+
+export type RecipeVersionComparison = {
+  from: RecipeVersionSummary;
+  to: RecipeVersionSummary;
+  costDifference: number;
+  added: RecipeLineChange[];
+  removed: RecipeLineChange[];
+  changed: RecipeLineChange[];
+};
@@ -0,0 +1,106 @@
+import { Body, Controller, Get, Param, Post, Put, Query } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { PurchaseOrdersService } from '../services/purchase-orders.service';
+import { PurchaseOrder } from '../schemas/purchase-order.schema';
+import {
+  CreatePurchaseOrderDto,
+  UpdateChargesDto,
+  UpdatePurchaseOrderDto,
+} from '../dto/purchase-order.dto';
+import { ReceiveGoodsDto } from '../dto/receive-goods.dto';
+import { PurchaseOrderFiltersDto } from '../dto/purchase-order-filters.dto';
+import { OnOrder } from '../types/OnOrder';
+
+@RequireVerified()
+@Controller('purchase-orders')
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async create(
+    @Body() createPurchaseOrderDto: CreatePurchaseOrderDto,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.create(createPurchaseOrderDto, user._id!);
+  }
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: PurchaseOrderFiltersDto,
+  ): Promise<PaginatedResponse<PurchaseOrder>> {
+    return this.purchaseOrdersService.findAll(page, pageSize, body);
+  }
+
+  @Get('on-order')
+  async getOnOrder(@Query('material') materialId?: string): Promise<OnOrder[]> {
+    return this.purchaseOrdersService.getOnOrder(materialId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async update(
+    @Param('id') id: string,
+    @Body() updatePurchaseOrderDto: UpdatePurchaseOrderDto,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.update(id, updatePurchaseOrderDto);
+  }
+
+  @Put(':id/charges')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async updateCharges(
+    @Param('id') id: string,
+    @Body() updateChargesDto: UpdateChargesDto,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.updateCharges(id, updateChargesDto);
+  }
+
+  @Post(':id/send')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async send(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.send(id, user._id!);
+  }
+
+  /** anyone on the team can book in a delivery */
+  @Post(':id/receipts')
+  async receive(
+    @Param('id') id: string,
+    @Body() receiveGoodsDto: ReceiveGoodsDto,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.receive(id, receiveGoodsDto, user._id!);
+  }
+
+  @Post(':id/close')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async close(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.close(id, user._id!);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async cancel(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder> {
+    return this.purchaseOrdersService.cancel(id, user._id!);
+  }
+}
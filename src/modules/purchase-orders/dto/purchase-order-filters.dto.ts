@@ -0,0 +1,20 @@
+import { IsEnum, IsMongoId, IsOptional, IsString } from 'class-validator';
+import { PurchaseOrderStatus } from '../schemas/purchase-order.schema';
+
+export class PurchaseOrderFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsEnum(PurchaseOrderStatus)
+  status?: PurchaseOrderStatus;
+
+  @IsOptional()
+  @IsMongoId()
+  supplier?: string;
+
+  @IsOptional()
+  @IsMongoId()
+  material?: string;
+}
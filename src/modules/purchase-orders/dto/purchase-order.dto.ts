@@ -0,0 +1,77 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ExtraChargeDto } from 'src/modules/costing/dto/extra-charge.dto';
+
+export class PurchaseOrderLineDto {
+  @IsMongoId()
+  material: string;
+
+  @IsPositive()
+  quantity: number;
+
+  /** Unit the quantity is ordered in. Defaults to the material's own unit */
+  @IsOptional()
+  @IsMongoId()
+  unit?: string;
+
+  @IsNumber()
+  @Min(0)
+  totalCost: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @IsMongoId()
+  supplier: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines: PurchaseOrderLineDto[];
+
+  /** Postage, duty, fees and the like, shared across the lines */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExtraChargeDto)
+  charges?: ExtraChargeDto[];
+
+  /** Where deliveries will be received. Defaults to the main location */
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expectedAt?: Date;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/** Charges often arrive after the order is sent, e.g. duty on delivery */
+export class UpdateChargesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExtraChargeDto)
+  charges: ExtraChargeDto[];
+}
+
+/** Drafts can be edited; the supplier is fixed once raised */
+export class UpdatePurchaseOrderDto extends PartialType(
+  OmitType(CreatePurchaseOrderDto, ['supplier'] as const),
+) {}
@@ -0,0 +1,47 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsMongoId,
+  IsOptional,
+  IsPositive,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class ReceiveLineDto {
+  @IsMongoId()
+  lineId: string;
+
+  @IsPositive()
+  quantity: number;
+
+  /** Unit the delivery was counted in when it differs from the stock unit */
+  @IsOptional()
+  @IsMongoId()
+  unit?: string;
+
+  /** The supplier's batch or lot code, used to trace recalls */
+  @IsOptional()
+  @IsString()
+  supplierLotCode?: string;
+}
+
+export class ReceiveGoodsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveLineDto)
+  lines: ReceiveLineDto[];
+
+  /** Defaults to now */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  receivedAt?: Date;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
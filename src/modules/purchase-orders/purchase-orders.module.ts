@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  PurchaseOrder,
+  PurchaseOrderSchema,
+} from './schemas/purchase-order.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { StockAdjustmentsModule } from '../stock-adjustments/stock-adjustments.module';
+import { LocationsModule } from '../locations/locations.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { UnitsModule } from '../units/units.module';
+import { CostingModule } from '../costing/costing.module';
+import { PurchaseOrdersService } from './services/purchase-orders.service';
+import { PurchaseOrdersController } from './controllers/purchase-orders.controller';
+
+@Module({
+  imports: [
+    StockAdjustmentsModule,
+    LocationsModule,
+    SuppliersModule,
+    UnitsModule,
+    CostingModule,
+    MongooseModule.forFeature([
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema },
+      { name: Material.name, schema: MaterialSchema },
+    ]),
+  ],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
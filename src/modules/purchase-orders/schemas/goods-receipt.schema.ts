@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema({ _id: false })
+export class GoodsReceiptLine {
+  @Prop({ type: Types.ObjectId, required: true })
+  line: Types.ObjectId; // The purchase order line received against
+
+  @Prop({ type: Types.ObjectId, ref: 'Material', required: true })
+  material: Types.ObjectId;
+
+  @Prop({ required: true, min: 0 })
+  quantity: number; // In the material's stock unit
+
+  @Prop({ type: Types.ObjectId, ref: 'MaterialLot' })
+  lot: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'StockAdjustment' })
+  adjustment: Types.ObjectId;
+}
+
+export const GoodsReceiptLineSchema =
+  SchemaFactory.createForClass(GoodsReceiptLine);
+
+/** One delivery against a purchase order */
+@Schema()
+export class GoodsReceipt {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  receivedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  receivedBy: Types.ObjectId;
+
+  @Prop({ type: [GoodsReceiptLineSchema], default: [] })
+  lines: GoodsReceiptLine[];
+
+  @Prop()
+  notes: string;
+}
+
+export const GoodsReceiptSchema = SchemaFactory.createForClass(GoodsReceipt);
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema()
+export class PurchaseOrderLine {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Material', required: true })
+  material: Types.ObjectId;
+
+  @Prop({ required: true, min: 0 })
+  quantity: number; // In the material's stock unit
+
+  @Prop({ min: 0 })
+  orderedQuantity?: number; // As ordered, when ordered in another unit
+
+  @Prop({ type: Types.ObjectId, ref: 'Unit' })
+  orderedUnit?: Types.ObjectId;
+
+  @Prop({ required: true, min: 0 })
+  totalCost: number;
+
+  @Prop({ required: true, min: 0 })
+  unitCost: number; // Per stock unit
+
+  @Prop({ default: 0, min: 0 })
+  allocatedCharges: number; // This line's share of the order's charges
+
+  @Prop({ min: 0 })
+  landedUnitCost?: number; // Per stock unit including charges
+
+  @Prop({ default: 0, min: 0 })
+  quantityReceived: number;
+}
+
+export const PurchaseOrderLineSchema =
+  SchemaFactory.createForClass(PurchaseOrderLine);
@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import {
+  PurchaseOrderLine,
+  PurchaseOrderLineSchema,
+} from './purchase-order-line.schema';
+import { GoodsReceipt, GoodsReceiptSchema } from './goods-receipt.schema';
+import {
+  ExtraCharge,
+  ExtraChargeSchema,
+} from 'src/modules/costing/schemas/extra-charge.schema';
+
+export type PurchaseOrderDocument = HydratedDocument<PurchaseOrder>;
+
+export enum PurchaseOrderStatus {
+  DRAFT = 'draft',
+  SENT = 'sent',
+  PARTIALLY_RECEIVED = 'partially_received',
+  RECEIVED = 'received',
+  CLOSED = 'closed',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ timestamps: true })
+export class PurchaseOrder {
+  _id?: Types.ObjectId;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  orderNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Supplier', required: true })
+  supplier: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    enum: PurchaseOrderStatus,
+    default: PurchaseOrderStatus.DRAFT,
+  })
+  status: PurchaseOrderStatus;
+
+  @Prop({ type: [PurchaseOrderLineSchema], default: [] })
+  lines: PurchaseOrderLine[];
+
+  @Prop({ required: true, min: 0 })
+  total: number; // Goods only
+
+  @Prop({ type: [ExtraChargeSchema], default: [] })
+  charges: ExtraCharge[];
+
+  @Prop({ required: true })
+  currency: string; // The supplier's currency when the order was raised
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId; // Where deliveries are received
+
+  @Prop()
+  expectedAt: Date; // Defaults from the supplier's lead time when sent
+
+  @Prop({ type: [GoodsReceiptSchema], default: [] })
+  receipts: GoodsReceipt[];
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  sentBy: Types.ObjectId;
+
+  @Prop()
+  sentAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  closedBy: Types.ObjectId; // Closed or cancelled by
+
+  @Prop()
+  closedAt: Date;
+}
+
+export const PurchaseOrderSchema = SchemaFactory.createForClass(PurchaseOrder);
+
+PurchaseOrderSchema.plugin(workspaceScopePlugin);
+
+PurchaseOrderSchema.index({ workspace: 1, orderNumber: 1 }, { unique: true });
+PurchaseOrderSchema.index({ workspace: 1, status: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ workspace: 1, supplier: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ workspace: 1, 'lines.material': 1, status: 1 });
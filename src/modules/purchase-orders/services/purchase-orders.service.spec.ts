@@ -0,0 +1,364 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from '../schemas/purchase-order.schema';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { LandedCostService } from 'src/modules/costing/services/landed-cost.service';
+import { ChargeType } from 'src/modules/costing/enums/ChargeType.enum';
+import { AllocationBasis } from 'src/modules/costing/enums/AllocationBasis.enum';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+describe('PurchaseOrdersService', () => {
+  let service: PurchaseOrdersService;
+  let connection: ReturnType<typeof mockConnection>;
+  let purchaseOrderModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let stockAdjustmentsService: Record<string, jest.Mock>;
+  let suppliersService: Record<string, jest.Mock>;
+  let landedCostService: { allocate: jest.Mock };
+
+  const userId = new Types.ObjectId().toString();
+  const location = new Types.ObjectId();
+  const kilograms = new Types.ObjectId().toString();
+
+  const supplier = {
+    _id: new Types.ObjectId(),
+    name: 'Wax Co',
+    isActive: true,
+    currency: 'GBP',
+    minimumOrderValue: 50,
+    leadTimeDays: 7,
+  };
+  const wax = {
+    _id: new Types.ObjectId(),
+    name: 'Soy wax',
+    unit: new Types.ObjectId(),
+    save: jest.fn(),
+  };
+  const jars = { ...wax, _id: new Types.ObjectId(), name: 'Jar' };
+
+  const line = (material: { _id: Types.ObjectId }, fields: object = {}) => ({
+    _id: new Types.ObjectId(),
+    material: material._id,
+    quantity: 10,
+    quantityReceived: 0,
+    totalCost: 40,
+    unitCost: 4,
+    landedUnitCost: 4.5,
+    ...fields,
+  });
+
+  const order = (status: PurchaseOrderStatus, fields: object = {}) => ({
+    _id: new Types.ObjectId(),
+    orderNumber: 'PO-1',
+    status,
+    supplier: supplier._id,
+    location,
+    total: 80,
+    lines: [line(wax), line(jars)],
+    charges: [] as object[],
+    receipts: [] as object[],
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  const useOrder = (found: object) =>
+    purchaseOrderModel.findById.mockReturnValue(mockQuery(found));
+
+  beforeEach(async () => {
+    connection = mockConnection();
+    purchaseOrderModel = {
+      findById: jest.fn(),
+      create: jest.fn((data: object) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...data }),
+      ),
+    };
+    materialModel = {
+      findById: jest.fn((id: Types.ObjectId | string) =>
+        Promise.resolve([wax, jars].find((m) => m._id.equals(id))),
+      ),
+    };
+    stockAdjustmentsService = {
+      handleGoodsReceipt: jest.fn().mockResolvedValue({
+        adjustment: { _id: new Types.ObjectId() },
+        lotId: new Types.ObjectId(),
+      }),
+    };
+    suppliersService = {
+      findOne: jest.fn().mockResolvedValue(supplier),
+      recordPurchase: jest.fn(),
+    };
+    landedCostService = {
+      allocate: jest.fn((lines: object[]) =>
+        Promise.resolve(lines.map(() => 0)),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseOrdersService,
+        { provide: getConnectionToken(), useValue: connection },
+        {
+          provide: getModelToken(PurchaseOrder.name),
+          useValue: purchaseOrderModel,
+        },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: StockAdjustmentsService, useValue: stockAdjustmentsService },
+        {
+          provide: LocationsService,
+          useValue: {
+            resolveLocationId: jest.fn().mockResolvedValue(location),
+          },
+        },
+        { provide: SuppliersService, useValue: suppliersService },
+        {
+          provide: UnitsService,
+          // Ordered in kilograms, stocked in grams
+          useValue: {
+            convert: jest.fn((quantity: number) =>
+              Promise.resolve(quantity * 1000),
+            ),
+          },
+        },
+        { provide: LandedCostService, useValue: landedCostService },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseOrdersService>(PurchaseOrdersService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('raises a draft priced in the stock unit with its charges shared out', async () => {
+      landedCostService.allocate.mockResolvedValue([10]);
+      useOrder({});
+      const charges = [
+        {
+          type: ChargeType.SHIPPING,
+          amount: 10,
+          allocation: AllocationBasis.VALUE,
+        },
+      ];
+
+      await service.create(
+        {
+          supplier: supplier._id.toString(),
+          lines: [
+            {
+              material: wax._id.toString(),
+              quantity: 5,
+              unit: kilograms,
+              totalCost: 20,
+            },
+          ],
+          charges,
+        },
+        userId,
+      );
+
+      expect(purchaseOrderModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          supplier: supplier._id,
+          currency: 'GBP',
+          total: 20,
+          location,
+          lines: [
+            expect.objectContaining({
+              quantity: 5000,
+              orderedQuantity: 5,
+              unitCost: 0.004,
+              allocatedCharges: 10,
+              landedUnitCost: 0.006,
+              quantityReceived: 0,
+            }),
+          ],
+        }),
+      );
+      expect(stockAdjustmentsService.handleGoodsReceipt).not.toHaveBeenCalled();
+    });
+
+    it('refuses a supplier no longer used', async () => {
+      suppliersService.findOne.mockResolvedValue({
+        ...supplier,
+        isActive: false,
+      });
+
+      await expect(
+        service.create(
+          { supplier: supplier._id.toString(), lines: [] },
+          userId,
+        ),
+      ).rejects.toThrow('Wax Co is no longer active');
+    });
+
+    it('numbers orders created in the same millisecond apart', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1767225600000);
+      useOrder({});
+      const dto = { supplier: supplier._id.toString(), lines: [] };
+
+      await service.create(dto, userId);
+      await service.create(dto, userId);
+
+      const [first, second] = purchaseOrderModel.create.mock.calls.map(
+        ([data]: [{ orderNumber: string }]) => data.orderNumber,
+      );
+      expect(first).toMatch(/^PO-1767225600000-[0-9A-F]{6}$/);
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe('send', () => {
+    it('expects the goods after the supplier’s lead time', async () => {
+      const draft: ReturnType<typeof order> & {
+        expectedAt?: Date;
+        sentAt?: Date;
+      } = order(PurchaseOrderStatus.DRAFT);
+      useOrder(draft);
+
+      await service.send(draft._id.toString(), userId);
+
+      expect(draft.status).toBe(PurchaseOrderStatus.SENT);
+      expect(draft.expectedAt!.getTime() - draft.sentAt!.getTime()).toBe(
+        7 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('refuses an order below the supplier’s minimum', async () => {
+      const draft = order(PurchaseOrderStatus.DRAFT, { total: 30 });
+      useOrder(draft);
+
+      await expect(service.send(draft._id.toString(), userId)).rejects.toThrow(
+        'Wax Co has a minimum order value of 50 GBP',
+      );
+      expect(draft.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receive', () => {
+    it('books a short delivery into stock at the landed cost', async () => {
+      const sent = order(PurchaseOrderStatus.SENT);
+      useOrder(sent);
+
+      await service.receive(
+        sent._id.toString(),
+        {
+          lines: [
+            {
+              lineId: sent.lines[0]._id.toString(),
+              quantity: 6,
+              supplierLotCode: 'L42',
+            },
+          ],
+        },
+        userId,
+      );
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(stockAdjustmentsService.handleGoodsReceipt).toHaveBeenCalledWith(
+        wax._id,
+        6,
+        4.5,
+        expect.objectContaining({
+          purchaseOrder: sent._id,
+          orderNumber: 'PO-1',
+          supplier: 'Wax Co',
+          supplierLotCode: 'L42',
+        }),
+        userId,
+        location,
+      );
+      expect(suppliersService.recordPurchase).toHaveBeenCalledWith(
+        wax,
+        supplier._id,
+        4,
+        expect.any(Date),
+      );
+      expect(sent.lines[0].quantityReceived).toBe(6);
+      expect(sent.receipts).toHaveLength(1);
+      expect(sent.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+    });
+
+    it('marks the order received once every line has arrived', async () => {
+      const partial = order(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+      partial.lines[0].quantityReceived = 10;
+      useOrder(partial);
+
+      await service.receive(
+        partial._id.toString(),
+        {
+          lines: [{ lineId: partial.lines[1]._id.toString(), quantity: 10 }],
+        },
+        userId,
+      );
+
+      expect(partial.status).toBe(PurchaseOrderStatus.RECEIVED);
+    });
+
+    it('receives nothing when one line is over what is outstanding', async () => {
+      const sent = order(PurchaseOrderStatus.SENT);
+      useOrder(sent);
+
+      await expect(
+        service.receive(
+          sent._id.toString(),
+          {
+            lines: [
+              { lineId: sent.lines[0]._id.toString(), quantity: 10 },
+              { lineId: sent.lines[1]._id.toString(), quantity: 12 },
+            ],
+          },
+          userId,
+        ),
+      ).rejects.toThrow('Only 10 of Jar is still to be received');
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(sent.save).not.toHaveBeenCalled();
+      expect(sent.status).toBe(PurchaseOrderStatus.SENT);
+    });
+
+    it('refuses goods for a draft', async () => {
+      const draft = order(PurchaseOrderStatus.DRAFT);
+      useOrder(draft);
+
+      await expect(
+        service.receive(
+          draft._id.toString(),
+          { lines: [{ lineId: draft.lines[0]._id.toString(), quantity: 1 }] },
+          userId,
+        ),
+      ).rejects.toThrow('Purchase order PO-1 is draft');
+    });
+  });
+
+  describe('updateCharges', () => {
+    it('stops once goods have been costed', async () => {
+      useOrder(order(PurchaseOrderStatus.PARTIALLY_RECEIVED));
+
+      await expect(
+        service.updateCharges(new Types.ObjectId().toString(), { charges: [] }),
+      ).rejects.toThrow('Purchase order PO-1 is partially received');
+    });
+  });
+
+  describe('cancel', () => {
+    it('refuses an order with goods received', async () => {
+      useOrder(order(PurchaseOrderStatus.RECEIVED));
+
+      await expect(
+        service.cancel(new Types.ObjectId().toString(), userId),
+      ).rejects.toThrow('Purchase order PO-1 is received');
+    });
+  });
+});
@@ -0,0 +1,542 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import {
+  PurchaseOrder,
+  PurchaseOrderDocument,
+  PurchaseOrderStatus,
+} from '../schemas/purchase-order.schema';
+import { PurchaseOrderLine } from '../schemas/purchase-order-line.schema';
+import { GoodsReceiptLine } from '../schemas/goods-receipt.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { SuppliersService } from 'src/modules/suppliers/services/suppliers.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import {
+  LandedCostCharge,
+  LandedCostService,
+} from 'src/modules/costing/services/landed-cost.service';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import {
+  CreatePurchaseOrderDto,
+  PurchaseOrderLineDto,
+  UpdateChargesDto,
+  UpdatePurchaseOrderDto,
+} from '../dto/purchase-order.dto';
+import { ReceiveGoodsDto } from '../dto/receive-goods.dto';
+import { PurchaseOrderFiltersDto } from '../dto/purchase-order-filters.dto';
+import { OnOrder } from '../types/OnOrder';
+
+/** Orders that still have goods to come */
+const OPEN_STATUSES = [
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+@Injectable()
+export class PurchaseOrdersService {
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(PurchaseOrder.name)
+    private readonly purchaseOrderModel: Model<PurchaseOrderDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+    private readonly locationsService: LocationsService,
+    private readonly suppliersService: SuppliersService,
+    private readonly unitsService: UnitsService,
+    private readonly landedCostService: LandedCostService,
+  ) {}
+
+  /** Raises a draft. Nothing happens to stock until goods are received */
+  async create(
+    createPurchaseOrderDto: CreatePurchaseOrderDto,
+    userId: string,
+  ): Promise<PurchaseOrder> {
+    const supplier = await this.suppliersService.findOne(
+      createPurchaseOrderDto.supplier,
+    );
+    if (!supplier.isActive) {
+      throw new BadRequestException(`${supplier.name} is no longer active`);
+    }
+
+    const lines = await this.buildLines(createPurchaseOrderDto.lines);
+    await this.allocateCharges(lines, createPurchaseOrderDto.charges ?? []);
+    const location = await this.locationsService.resolveLocationId(
+      createPurchaseOrderDto.location,
+    );
+
+    // The id's counter keeps numbers unique for orders created in the same
+    // millisecond, e.g. by suggested reorders
+    const _id = new Types.ObjectId();
+
+    const order = await this.purchaseOrderModel.create({
+      ...createPurchaseOrderDto,
+      _id,
+      orderNumber: `PO-${Date.now()}-${_id.toHexString().slice(-6).toUpperCase()}`,
+      supplier: supplier._id,
+      lines,
+      total: this.totalOf(lines),
+      currency: supplier.currency,
+      location,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    return this.findOne(order._id.toString());
+  }
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: PurchaseOrderFiltersDto,
+  ): Promise<PaginatedResponse<PurchaseOrder>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<PurchaseOrder> = {};
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { orderNumber: { $regex: filters.searchTerm, $options: 'i' } },
+        { notes: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+    if (filters?.status) query.status = filters.status;
+    if (filters?.supplier) {
+      query.supplier = new Types.ObjectId(filters.supplier);
+    }
+    if (filters?.material) {
+      query['lines.material'] = new Types.ObjectId(filters.material);
+    }
+
+    const [data, total] = await Promise.all([
+      this.purchaseOrderModel
+        .find(query)
+        .select('-receipts')
+        .populate('supplier', 'name')
+        .populate('lines.material', 'name sku')
+        .sort('-createdAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.purchaseOrderModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+    };
+  }
+
+  async findOne(id: string): Promise<PurchaseOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    const order = await this.purchaseOrderModel
+      .findById(id)
+      .populate('supplier')
+      .populate({ path: 'lines.material', populate: { path: 'unit' } })
+      .populate('lines.orderedUnit', 'name abbreviation')
+      .populate('location', 'name')
+      .populate('createdBy', 'name email')
+      .populate('sentBy', 'name email')
+      .populate('closedBy', 'name email')
+      .populate('receipts.receivedBy', 'name email')
+      .exec();
+
+    if (!order) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return order;
+  }
+
+  async update(
+    id: string,
+    updatePurchaseOrderDto: UpdatePurchaseOrderDto,
+  ): Promise<PurchaseOrder> {
+    const order = await this.findWithStatus(id, [PurchaseOrderStatus.DRAFT]);
+    const { lines, location, charges, ...changes } = updatePurchaseOrderDto;
+
+    Object.assign(order, changes);
+    if (lines) {
+      order.lines = await this.buildLines(lines);
+      order.total = this.totalOf(order.lines);
+    }
+    if (charges) order.charges = charges;
+    if (lines || charges) {
+      await this.allocateCharges(order.lines, order.charges);
+    }
+    if (location) {
+      order.location = await this.locationsService.resolveLocationId(location);
+    }
+    await order.save();
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Marks the order as placed with the supplier. The expected date falls
+   * back to the supplier's lead time.
+   */
+  async send(id: string, userId: string): Promise<PurchaseOrder> {
+    const order = await this.findWithStatus(id, [PurchaseOrderStatus.DRAFT]);
+    const supplier = await this.suppliersService.findOne(order.supplier);
+
+    if (order.total < supplier.minimumOrderValue) {
+      throw new BadRequestException(
+        `${supplier.name} has a minimum order value of ${supplier.minimumOrderValue} ${supplier.currency}`,
+      );
+    }
+
+    const sentAt = new Date();
+    if (!order.expectedAt && supplier.leadTimeDays !== undefined) {
+      order.expectedAt = new Date(
+        sentAt.getTime() + supplier.leadTimeDays * 24 * 60 * 60 * 1000,
+      );
+    }
+    order.status = PurchaseOrderStatus.SENT;
+    order.sentBy = new Types.ObjectId(userId);
+    order.sentAt = sentAt;
+    await order.save();
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Replaces the order's charges and reshares them across the lines. Goods
+   * already received were costed without them, so this stops at the first
+   * delivery.
+   */
+  async updateCharges(
+    id: string,
+    updateChargesDto: UpdateChargesDto,
+  ): Promise<PurchaseOrder> {
+    const order = await this.findWithStatus(id, [
+      PurchaseOrderStatus.DRAFT,
+      PurchaseOrderStatus.SENT,
+    ]);
+
+    order.charges = updateChargesDto.charges;
+    await this.allocateCharges(order.lines, order.charges);
+    await order.save();
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Books a delivery into stock. Each line received becomes a lot and a
+   * RECEIPT adjustment carrying the order number, and updates the
+   * material's average cost at the landed cost and the price last paid to
+   * the supplier.
+   */
+  async receive(
+    id: string,
+    receiveGoodsDto: ReceiveGoodsDto,
+    userId: string,
+  ): Promise<PurchaseOrder> {
+    await this.connection.transaction(async () => {
+      const order = await this.findWithStatus(id, OPEN_STATUSES);
+      const supplier = await this.suppliersService.findOne(order.supplier);
+      const receivedAt = receiveGoodsDto.receivedAt ?? new Date();
+      const receiptLines: GoodsReceiptLine[] = [];
+
+      for (const lineDto of receiveGoodsDto.lines) {
+        const line = order.lines.find(
+          (l) => l._id?.toString() === lineDto.lineId,
+        );
+        if (!line) {
+          throw new BadRequestException(
+            `Line ${lineDto.lineId} is not part of this purchase order`,
+          );
+        }
+
+        const material = await this.materialModel.findById(line.material);
+        if (!material) {
+          throw new NotFoundException('Material not found');
+        }
+
+        const quantity = lineDto.unit
+          ? await this.unitsService.convert(
+              lineDto.quantity,
+              lineDto.unit,
+              material.unit,
+              material,
+            )
+          : lineDto.quantity;
+
+        // allow for floating point dust from unit conversion
+        const outstanding = line.quantity - line.quantityReceived;
+        if (quantity - outstanding > 1e-9) {
+          throw new BadRequestException(
+            `Only ${outstanding} of ${material.name} is still to be received`,
+          );
+        }
+
+        const { adjustment, lotId } =
+          await this.stockAdjustmentsService.handleGoodsReceipt(
+            material._id,
+            quantity,
+            line.landedUnitCost ?? line.unitCost, // Orders before charges
+            {
+              purchaseOrder: order._id,
+              orderNumber: order.orderNumber,
+              supplier: supplier.name,
+              supplierLotCode: lineDto.supplierLotCode,
+              receivedAt,
+            },
+            userId,
+            order.location,
+          );
+
+        // The receipt saved its own copy of the material, so work on a fresh one
+        const received = (await this.materialModel.findById(material._id))!;
+        this.suppliersService.recordPurchase(
+          received,
+          supplier._id,
+          line.unitCost,
+          receivedAt,
+        );
+        await received.save();
+
+        line.quantityReceived += quantity;
+        receiptLines.push({
+          line: line._id!,
+          material: material._id,
+          quantity,
+          lot: lotId,
+          adjustment: adjustment._id,
+        });
+      }
+
+      order.receipts.push({
+        receivedAt,
+        receivedBy: new Types.ObjectId(userId),
+        lines: receiptLines,
+        notes: receiveGoodsDto.notes ?? '',
+      });
+      order.status = order.lines.every(
+        (l) => l.quantity - l.quantityReceived <= 1e-9,
+      )
+        ? PurchaseOrderStatus.RECEIVED
+        : PurchaseOrderStatus.PARTIALLY_RECEIVED;
+      await order.save();
+    });
+
+    return this.findOne(id);
+  }
+
+  /** Accepts whatever has arrived; anything short is no longer on order */
+  async close(id: string, userId: string): Promise<PurchaseOrder> {
+    const order = await this.findWithStatus(id, [
+      PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      PurchaseOrderStatus.RECEIVED,
+    ]);
+
+    order.status = PurchaseOrderStatus.CLOSED;
+    order.closedBy = new Types.ObjectId(userId);
+    order.closedAt = new Date();
+    await order.save();
+
+    return this.findOne(id);
+  }
+
+  async cancel(id: string, userId: string): Promise<PurchaseOrder> {
+    const order = await this.findWithStatus(id, [
+      PurchaseOrderStatus.DRAFT,
+      PurchaseOrderStatus.SENT,
+    ]);
+
+    order.status = PurchaseOrderStatus.CANCELLED;
+    order.closedBy = new Types.ObjectId(userId);
+    order.closedAt = new Date();
+    await order.save();
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Quantities still to arrive on sent and part-received orders, per
+   * material, in each material's stock unit.
+   */
+  async getOnOrder(materialId?: string): Promise<OnOrder[]> {
+    const material =
+      materialId && Types.ObjectId.isValid(materialId)
+        ? new Types.ObjectId(materialId)
+        : undefined;
+
+    return this.purchaseOrderModel
+      .aggregate<OnOrder>([
+        { $match: { status: { $in: OPEN_STATUSES } } },
+        { $unwind: '$lines' },
+        ...(material ? [{ $match: { 'lines.material': material } }] : []),
+        {
+          $project: {
+            material: '$lines.material',
+            orderNumber: 1,
+            supplier: 1,
+            status: 1,
+            expectedAt: 1,
+            outstanding: {
+              $subtract: ['$lines.quantity', '$lines.quantityReceived'],
+            },
+          },
+        },
+        { $match: { outstanding: { $gt: 0 } } },
+        {
+          $lookup: {
+            from: 'suppliers',
+            localField: 'supplier',
+            foreignField: '_id',
+            as: 'supplier',
+          },
+        },
+        { $unwind: '$supplier' },
+        { $sort: { expectedAt: 1 } },
+        {
+          $group: {
+            _id: '$material',
+            onOrder: { $sum: '$outstanding' },
+            orders: {
+              $push: {
+                purchaseOrder: '$_id',
+                orderNumber: '$orderNumber',
+                supplier: { _id: '$supplier._id', name: '$supplier.name' },
+                status: '$status',
+                outstanding: '$outstanding',
+                expectedAt: '$expectedAt',
+              },
+            },
+          },
+        },
+        {
+          $lookup: {
+            from: 'materials',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'material',
+          },
+        },
+        { $unwind: '$material' },
+        { $sort: { 'material.name': 1 } },
+        {
+          $project: {
+            _id: 0,
+            material: {
+              _id: '$material._id',
+              name: '$material.name',
+              sku: '$material.sku',
+            },
+            onOrder: 1,
+            orders: 1,
+          },
+        },
+      ])
+      .exec();
+  }
+
+  /** Converts each line into the material's stock unit and prices it */
+  private async buildLines(
+    lineDtos: PurchaseOrderLineDto[],
+  ): Promise<PurchaseOrderLine[]> {
+    const lines: PurchaseOrderLine[] = [];
+
+    for (const lineDto of lineDtos) {
+      const material = await this.materialModel.findById(lineDto.material);
+      if (!material) {
+        throw new BadRequestException(`Material ${lineDto.material} not found`);
+      }
+
+      const quantity = lineDto.unit
+        ? await this.unitsService.convert(
+            lineDto.quantity,
+            lineDto.unit,
+            material.unit,
+            material,
+          )
+        : lineDto.quantity;
+
+      lines.push({
+        material: material._id,
+        quantity,
+        ...(lineDto.unit && {
+          orderedQuantity: lineDto.quantity,
+          orderedUnit: new Types.ObjectId(lineDto.unit),
+        }),
+        totalCost: lineDto.totalCost,
+        unitCost: lineDto.totalCost / quantity,
+        allocatedCharges: 0,
+        quantityReceived: 0,
+      });
+    }
+
+    return lines;
+  }
+
+  /** Shares the charges across the lines and prices each line landed */
+  private async allocateCharges(
+    lines: PurchaseOrderLine[],
+    charges: LandedCostCharge[],
+  ): Promise<void> {
+    const materials = await Promise.all(
+      lines.map(async (line) => {
+        const material = await this.materialModel.findById(line.material);
+        if (!material) {
+          throw new BadRequestException(
+            `Material ${line.material.toString()} not found`,
+          );
+        }
+        return material;
+      }),
+    );
+
+    const allocated = await this.landedCostService.allocate(
+      lines.map((line, index) => ({
+        material: materials[index],
+        quantity: line.quantity,
+        totalCost: line.totalCost,
+      })),
+      charges,
+    );
+
+    lines.forEach((line, index) => {
+      line.allocatedCharges = allocated[index];
+      line.landedUnitCost = (line.totalCost + allocated[index]) / line.quantity;
+    });
+  }
+
+  private totalOf(lines: PurchaseOrderLine[]): number {
+    return lines.reduce((sum, line) => sum + line.totalCost, 0);
+  }
+
+  private async findWithStatus(
+    id: string,
+    statuses: PurchaseOrderStatus[],
+  ): Promise<PurchaseOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    const order = await this.purchaseOrderModel.findById(id);
+    if (!order) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    if (!statuses.includes(order.status)) {
+      throw new BadRequestException(
+        `Purchase order ${order.orderNumber} is ${order.status.replace('_', ' ')}`,
+      );
+    }
+
+    return order;
+  }
+}
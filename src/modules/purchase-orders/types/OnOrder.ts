@@ -0,0 +1,17 @@
+import { Types } from 'mongoose';
+
+export type OnOrderLine = {
+  purchaseOrder: Types.ObjectId;
+  orderNumber: string;
+  supplier: { _id: Types.ObjectId; name: string };
+  status: string;
+  outstanding: number;
+  expectedAt?: Date;
+};
+
+/** What is still to arrive for a material, across open purchase orders */
+export type OnOrder = {
+  material: { _id: Types.ObjectId; name: string; sku: string };
+  onOrder: number;
+  orders: OnOrderLine[];
+};
@@ -0,0 +1,48 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReplenishmentController } from './replenishment.controller';
+import { ReplenishmentService } from '../services/replenishment.service';
+
+describe('ReplenishmentController', () => {
+  let controller: ReplenishmentController;
+  let replenishmentService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    replenishmentService = {
+      getReorderLevels: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReplenishmentController],
+      providers: [
+        { provide: ReplenishmentService, useValue: replenishmentService },
+      ],
+    }).compile();
+
+    controller = module.get<ReplenishmentController>(ReplenishmentController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('passes whole days on to the reorder levels', async () => {
+    await controller.getReorderLevels('730', '365');
+
+    expect(replenishmentService.getReorderLevels).toHaveBeenCalledWith({
+      days: 730,
+      coverDays: 365,
+    });
+  });
+
+  it('refuses days that are not whole or are too many', async () => {
+    for (const days of ['Infinity', '0.5', '731']) {
+      await expect(controller.getReorderLevels(days)).rejects.toThrow(
+        'days must be a whole number from 1 to 730',
+      );
+    }
+    await expect(controller.getReorderLevels(undefined, '366')).rejects.toThrow(
+      'coverDays must be a whole number from 1 to 365',
+    );
+    expect(replenishmentService.getReorderLevels).not.toHaveBeenCalled();
+  });
+});
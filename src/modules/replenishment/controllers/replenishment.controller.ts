@@ -0,0 +1,80 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { PurchaseOrder } from 'src/modules/purchase-orders/schemas/purchase-order.schema';
+import { ReplenishmentService } from '../services/replenishment.service';
+import { CreateSuggestedOrdersDto } from '../dto/create-suggested-orders.dto';
+import {
+  ReorderSuggestion,
+  SuggestedPurchase,
+} from '../types/ReorderSuggestion';
+
+const MAX_HISTORY_DAYS = 730;
+const MAX_COVER_DAYS = 365;
+
+@RequireVerified()
+@Controller('replenishment')
+export class ReplenishmentController {
+  constructor(private readonly replenishmentService: ReplenishmentService) {}
+
+  @Get('reorder-levels')
+  async getReorderLevels(
+    @Query('days') days?: string,
+    @Query('coverDays') coverDays?: string,
+  ): Promise<ReorderSuggestion[]> {
+    return this.replenishmentService.getReorderLevels({
+      days: this.parsePositive('days', days, MAX_HISTORY_DAYS),
+      coverDays: this.parsePositive('coverDays', coverDays, MAX_COVER_DAYS),
+    });
+  }
+
+  @Get('suggested-purchases')
+  async getSuggestedPurchases(
+    @Query('days') days?: string,
+    @Query('coverDays') coverDays?: string,
+  ): Promise<SuggestedPurchase[]> {
+    return this.replenishmentService.getSuggestedPurchases({
+      days: this.parsePositive('days', days, MAX_HISTORY_DAYS),
+      coverDays: this.parsePositive('coverDays', coverDays, MAX_COVER_DAYS),
+    });
+  }
+
+  @Post('suggested-purchases/orders')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async createDraftOrders(
+    @Body() createSuggestedOrdersDto: CreateSuggestedOrdersDto,
+    @GetUser() user: User,
+  ): Promise<PurchaseOrder[]> {
+    return this.replenishmentService.createDraftOrders(
+      createSuggestedOrdersDto,
+      user._id!,
+    );
+  }
+
+  /** Whole days only, up to `max` */
+  private parsePositive(
+    name: string,
+    value: string | undefined,
+    max: number,
+  ): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0 || number > max) {
+      throw new BadRequestException(
+        `${name} must be a whole number from 1 to ${max}`,
+      );
+    }
+    return number;
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  IsArray,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsPositive,
+} from 'class-validator';
+
+export class CreateSuggestedOrdersDto {
+  /** Only raise orders for these suppliers. Defaults to all of them */
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  suppliers?: string[];
+
+  /** Days of usage history to work from */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  days?: number;
+
+  /** Days of usage each order should cover beyond the reorder point */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  coverDays?: number;
+
+  /** Where deliveries will be received. Defaults to the main location */
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+}
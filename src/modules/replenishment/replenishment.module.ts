@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import {
+  ProductionBatch,
+  ProductionBatchSchema,
+} from '../production/schemas/production-batch.schema';
+import {
+  StockAdjustment,
+  StockAdjustmentSchema,
+} from '../stock-adjustments/schemas/stock-adjustment.schema';
+import { Supplier, SupplierSchema } from '../suppliers/schemas/supplier.schema';
+import { PurchaseOrdersModule } from '../purchase-orders/purchase-orders.module';
+import { ReplenishmentService } from './services/replenishment.service';
+import { ReplenishmentController } from './controllers/replenishment.controller';
+
+@Module({
+  imports: [
+    PurchaseOrdersModule,
+    MongooseModule.forFeature([
+      { name: Material.name, schema: MaterialSchema },
+      { name: ProductionBatch.name, schema: ProductionBatchSchema },
+      { name: StockAdjustment.name, schema: StockAdjustmentSchema },
+      { name: Supplier.name, schema: SupplierSchema },
+    ]),
+  ],
+  controllers: [ReplenishmentController],
+  providers: [ReplenishmentService],
+})
+export class ReplenishmentModule {}
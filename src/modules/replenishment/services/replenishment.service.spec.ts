@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ReplenishmentService } from './replenishment.service';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { StockAdjustment } from 'src/modules/stock-adjustments/schemas/stock-adjustment.schema';
+import { Supplier } from 'src/modules/suppliers/schemas/supplier.schema';
+import { PurchaseOrdersService } from 'src/modules/purchase-orders/services/purchase-orders.service';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+describe('ReplenishmentService', () => {
+  let service: ReplenishmentService;
+  let materialModel: Record<string, jest.Mock>;
+  let batchModel: Record<string, jest.Mock>;
+  let stockAdjustmentModel: Record<string, jest.Mock>;
+  let supplierModel: Record<string, jest.Mock>;
+  let purchaseOrdersService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+  const options = { days: 10, coverDays: 5 };
+
+  const waxCo = {
+    _id: new Types.ObjectId(),
+    name: 'Wax Co',
+    currency: 'GBP',
+    leadTimeDays: 5,
+    minimumOrderValue: 250,
+  };
+  const closedDown = new Types.ObjectId();
+
+  const material = (name: string, fields: object) => ({
+    _id: new Types.ObjectId(),
+    name,
+    sku: name.toUpperCase(),
+    unit: new Types.ObjectId(),
+    currentStock: 0,
+    minimumStock: 0,
+    averageCost: 0.5,
+    suppliers: [] as object[],
+    ...fields,
+  });
+  const wax = material('Wax', {
+    currentStock: 50,
+    minimumStock: 40,
+    suppliers: [
+      { supplier: closedDown, isPreferred: true, lastPrice: 1 },
+      { supplier: waxCo._id, packSize: 25, lastPrice: 2 },
+    ],
+  });
+  const jar = material('Jar', { currentStock: 5, minimumStock: 10 });
+  const wick = material('Wick', { currentStock: 100, minimumStock: 10 });
+
+  beforeEach(async () => {
+    materialModel = {
+      find: jest.fn().mockReturnValue(mockQuery([jar, wax, wick])),
+    };
+    // 80 g of wax kept from one batch, 20 g from a batch half reversed
+    batchModel = {
+      find: jest.fn().mockReturnValue(
+        mockQuery([
+          {
+            batchNumber: 'B1',
+            quantity: 10,
+            materialCosts: [{ material: wax._id, quantity: 80 }],
+          },
+          {
+            batchNumber: 'B2',
+            quantity: 10,
+            reversedQuantity: 5,
+            materialCosts: [{ material: wax._id, quantity: 40 }],
+          },
+        ]),
+      ),
+    };
+    stockAdjustmentModel = {
+      find: jest.fn().mockReturnValue(
+        mockQuery([
+          // Already counted through its batch
+          { material: wax._id, quantity: -80, batchNumber: 'B1' },
+          { material: wax._id, quantity: -20 },
+          { material: jar._id, quantity: -10 },
+        ]),
+      ),
+    };
+    supplierModel = { find: jest.fn().mockReturnValue(mockQuery([waxCo])) };
+    purchaseOrdersService = {
+      getOnOrder: jest
+        .fn()
+        .mockResolvedValue([{ material: { _id: wax._id }, onOrder: 20 }]),
+      create: jest.fn((dto: { supplier: string }) =>
+        Promise.resolve({ orderNumber: 'PO-1', supplier: dto.supplier }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReplenishmentService,
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: getModelToken(ProductionBatch.name), useValue: batchModel },
+        {
+          provide: getModelToken(StockAdjustment.name),
+          useValue: stockAdjustmentModel,
+        },
+        { provide: getModelToken(Supplier.name), useValue: supplierModel },
+        { provide: PurchaseOrdersService, useValue: purchaseOrdersService },
+      ],
+    }).compile();
+
+    service = module.get<ReplenishmentService>(ReplenishmentService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getReorderLevels', () => {
+    it('reorders to cover the lead time plus the minimum stock', async () => {
+      const [, waxLevel] = await service.getReorderLevels(options);
+
+      // 120 g over 10 days, 5 days lead time, 40 g held back
+      expect(waxLevel).toMatchObject({
+        consumed: 120,
+        averageDailyUsage: 12,
+        leadTimeDays: 5,
+        onOrder: 20,
+        reorderPoint: 100,
+        needsReorder: true,
+      });
+      expect(waxLevel.daysOfCover).toBeCloseTo(50 / 12);
+    });
+
+    it('rounds the quantity up to whole packs at the last price paid', async () => {
+      const [, waxLevel] = await service.getReorderLevels(options);
+
+      // 100 + 5 days of cover - 70 available is 90, so four packs of 25
+      expect(waxLevel).toMatchObject({
+        reorderQuantity: 100,
+        packSize: 25,
+        unitCost: 2,
+        estimatedCost: 200,
+      });
+    });
+
+    it('assumes a two week lead time without a supplier', async () => {
+      const [jarLevel] = await service.getReorderLevels(options);
+
+      expect(jarLevel).toMatchObject({
+        averageDailyUsage: 1,
+        leadTimeDays: 14,
+        reorderPoint: 24,
+        reorderQuantity: 24,
+        unitCost: 0.5,
+        needsReorder: true,
+      });
+    });
+
+    it('leaves alone a material with stock to spare', async () => {
+      const [, , wickLevel] = await service.getReorderLevels(options);
+
+      expect(wickLevel).toMatchObject({
+        averageDailyUsage: 0,
+        daysOfCover: null,
+        reorderPoint: 10,
+        reorderQuantity: 0,
+        needsReorder: false,
+      });
+    });
+  });
+
+  describe('getSuggestedPurchases', () => {
+    it('groups by supplier and puts materials with none last', async () => {
+      const purchases = await service.getSuggestedPurchases(options);
+
+      expect(purchases).toEqual([
+        expect.objectContaining({
+          supplier: expect.objectContaining({ name: 'Wax Co' }),
+          lines: [expect.objectContaining({ name: 'Wax' })],
+          estimatedTotal: 200,
+          belowMinimumOrder: true,
+        }),
+        expect.objectContaining({
+          supplier: null,
+          lines: [expect.objectContaining({ name: 'Jar' })],
+          belowMinimumOrder: false,
+        }),
+      ]);
+    });
+  });
+
+  describe('createDraftOrders', () => {
+    it('raises a draft for each supplier and leaves the rest to be sourced', async () => {
+      const orders = await service.createDraftOrders(options, userId);
+
+      expect(orders).toHaveLength(1);
+      expect(purchaseOrdersService.create).toHaveBeenCalledWith(
+        {
+          supplier: waxCo._id.toString(),
+          lines: [
+            { material: wax._id.toString(), quantity: 100, totalCost: 200 },
+          ],
+          location: undefined,
+          notes: 'Raised from reorder suggestions',
+        },
+        userId,
+      );
+    });
+
+    it('only raises orders for the suppliers asked for', async () => {
+      const orders = await service.createDraftOrders(
+        { ...options, suppliers: [new Types.ObjectId().toString()] },
+        userId,
+      );
+
+      expect(orders).toEqual([]);
+      expect(purchaseOrdersService.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  ProductionBatch,
+  ProductionBatchDocument,
+} from 'src/modules/production/schemas/production-batch.schema';
+import {
+  AdjustmentType,
+  StockAdjustment,
+  StockAdjustmentDocument,
+} from 'src/modules/stock-adjustments/schemas/stock-adjustment.schema';
+import {
+  Supplier,
+  SupplierDocument,
+} from 'src/modules/suppliers/schemas/supplier.schema';
+import { PurchaseOrdersService } from 'src/modules/purchase-orders/services/purchase-orders.service';
+import { PurchaseOrder } from 'src/modules/purchase-orders/schemas/purchase-order.schema';
+import { CreateSuggestedOrdersDto } from '../dto/create-suggested-orders.dto';
+import {
+  ReorderSuggestion,
+  SuggestedPurchase,
+  SupplierSummary,
+} from '../types/ReorderSuggestion';
+
+const DEFAULT_HISTORY_DAYS = 90;
+const DEFAULT_COVER_DAYS = 30;
+const DEFAULT_LEAD_TIME_DAYS = 14; // When the supplier hasn't given one
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReorderOptions = { days?: number; coverDays?: number };
+
+/**
+ * Works out when to buy materials from how fast production is using them.
+ * The reorder point is usage over the supplier's lead time plus the
+ * material's minimum stock, which is kept back as safety stock.
+ */
+@Injectable()
+export class ReplenishmentService {
+  constructor(
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    @InjectModel(ProductionBatch.name)
+    private readonly batchModel: Model<ProductionBatchDocument>,
+    @InjectModel(StockAdjustment.name)
+    private readonly stockAdjustmentModel: Model<StockAdjustmentDocument>,
+    @InjectModel(Supplier.name)
+    private readonly supplierModel: Model<SupplierDocument>,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+  ) {}
+
+  /** Every active material with its usage, reorder point and quantity */
+  async getReorderLevels(
+    options: ReorderOptions = {},
+  ): Promise<ReorderSuggestion[]> {
+    const { suggestions } = await this.buildSuggestions(options);
+    return suggestions;
+  }
+
+  /** Materials due a reorder, grouped by the supplier to buy them from */
+  async getSuggestedPurchases(
+    options: ReorderOptions = {},
+  ): Promise<SuggestedPurchase[]> {
+    const { suggestions, suppliers } = await this.buildSuggestions(options);
+    const groups = new Map<string, SuggestedPurchase>();
+
+    for (const suggestion of suggestions) {
+      if (!suggestion.needsReorder) continue;
+
+      const supplier = suppliers.get(suggestion.material.toString()) ?? null;
+      const key = supplier?._id.toString() ?? '';
+      const group = groups.get(key) ?? {
+        supplier,
+        lines: [],
+        estimatedTotal: 0,
+        belowMinimumOrder: false,
+      };
+
+      group.lines.push(suggestion);
+      group.estimatedTotal += suggestion.estimatedCost;
+      groups.set(key, group);
+    }
+
+    return [...groups.values()]
+      .map((group) => ({
+        ...group,
+        belowMinimumOrder:
+          !!group.supplier &&
+          group.estimatedTotal < group.supplier.minimumOrderValue,
+      }))
+      .sort((a, b) => {
+        // Anything without a supplier goes last
+        if (!a.supplier || !b.supplier) return a.supplier ? -1 : 1;
+        return a.supplier.name.localeCompare(b.supplier.name);
+      });
+  }
+
+  /**
+   * Raises a draft purchase order per supplier from the suggested purchase
+   * list. Materials with no supplier are left for a person to source.
+   */
+  async createDraftOrders(
+    createSuggestedOrdersDto: CreateSuggestedOrdersDto,
+    userId: string,
+  ): Promise<PurchaseOrder[]> {
+    const purchases = await this.getSuggestedPurchases(
+      createSuggestedOrdersDto,
+    );
+    const orders: PurchaseOrder[] = [];
+
+    for (const purchase of purchases) {
+      if (!purchase.supplier) continue;
+      if (
+        createSuggestedOrdersDto.suppliers &&
+        !createSuggestedOrdersDto.suppliers.includes(
+          purchase.supplier._id.toString(),
+        )
+      ) {
+        continue;
+      }
+
+      orders.push(
+        await this.purchaseOrdersService.create(
+          {
+            supplier: purchase.supplier._id.toString(),
+            lines: purchase.lines.map((line) => ({
+              material: line.material.toString(),
+              quantity: line.reorderQuantity,
+              totalCost: line.estimatedCost,
+            })),
+            location: createSuggestedOrdersDto.location,
+            notes: 'Raised from reorder suggestions',
+          },
+          userId,
+        ),
+      );
+    }
+
+    return orders;
+  }
+
+  private async buildSuggestions({
+    days = DEFAULT_HISTORY_DAYS,
+    coverDays = DEFAULT_COVER_DAYS,
+  }: ReorderOptions): Promise<{
+    suggestions: ReorderSuggestion[];
+    suppliers: Map<string, SupplierSummary>; // Keyed by material
+  }> {
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const [materials, consumption, onOrder] = await Promise.all([
+      this.materialModel.find({ isActive: true }).sort('name').exec(),
+      this.getConsumption(since),
+      this.purchaseOrdersService.getOnOrder(),
+    ]);
+
+    const onOrderByMaterial = new Map(
+      onOrder.map((entry) => [entry.material._id.toString(), entry.onOrder]),
+    );
+    const supplierIds = materials.flatMap((material) =>
+      material.suppliers.map((link) => link.supplier),
+    );
+    const supplierDocs = await this.supplierModel
+      .find({ _id: { $in: supplierIds }, isActive: true })
+      .exec();
+    const suppliersById = new Map(
+      supplierDocs.map((supplier) => [supplier._id.toString(), supplier]),
+    );
+
+    const suppliers = new Map<string, SupplierSummary>();
+    const suggestions = materials.map((material) => {
+      const id = material._id.toString();
+
+      // Buy from the preferred supplier, else whichever is still active
+      const link =
+        material.suppliers.find(
+          (s) => s.isPreferred && suppliersById.has(s.supplier.toString()),
+        ) ??
+        material.suppliers.find((s) =>
+          suppliersById.has(s.supplier.toString()),
+        );
+      const supplier = link && suppliersById.get(link.supplier.toString());
+      if (supplier) {
+        suppliers.set(id, {
+          _id: supplier._id,
+          name: supplier.name,
+          currency: supplier.currency,
+          leadTimeDays: supplier.leadTimeDays,
+          minimumOrderValue: supplier.minimumOrderValue,
+        });
+      }
+
+      const consumed = consumption.get(id) ?? 0;
+      const averageDailyUsage = consumed / days;
+      const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+      const available =
+        material.currentStock + (onOrderByMaterial.get(id) ?? 0);
+
+      const reorderPoint =
+        averageDailyUsage * leadTimeDays + material.minimumStock;
+      const needsReorder = available <= reorderPoint;
+
+      // Enough to get back above the reorder point and last the cover period
+      let reorderQuantity = needsReorder
+        ? Math.max(0, reorderPoint + averageDailyUsage * coverDays - available)
+        : 0;
+      if (reorderQuantity > 0 && link?.packSize) {
+        reorderQuantity =
+          Math.ceil(reorderQuantity / link.packSize) * link.packSize;
+      }
+
+      const unitCost = link?.lastPrice ?? material.averageCost ?? 0;
+
+      return {
+        material: material._id,
+        name: material.name,
+        sku: material.sku,
+        unit: material.unit as unknown as Types.ObjectId,
+        currentStock: material.currentStock,
+        onOrder: onOrderByMaterial.get(id) ?? 0,
+        minimumStock: material.minimumStock,
+        consumed,
+        averageDailyUsage,
+        daysOfCover:
+          averageDailyUsage > 0
+            ? material.currentStock / averageDailyUsage
+            : null,
+        leadTimeDays,
+        reorderPoint,
+        reorderQuantity,
+        packSize: link?.packSize,
+        unitCost,
+        estimatedCost: reorderQuantity * unitCost,
+        needsReorder: needsReorder && reorderQuantity > 0,
+      };
+    });
+
+    return { suggestions, suppliers };
+  }
+
+  /**
+   * Material used by production since the given date, per material, in
+   * stock units. Batches are the main record, less anything reversed;
+   * PRODUCTION adjustments that no batch accounts for are added on top.
+   */
+  private async getConsumption(since: Date): Promise<Map<string, number>> {
+    const [batches, adjustments] = await Promise.all([
+      this.batchModel
+        .find({ createdAt: { $gte: since } })
+        .select('batchNumber quantity reversedQuantity materialCosts')
+        .lean()
+        .exec(),
+      this.stockAdjustmentModel
+        .find({
+          itemType: 'material',
+          adjustmentType: AdjustmentType.PRODUCTION,
+          createdAt: { $gte: since },
+        })
+        .select('material quantity batchNumber')
+        .lean()
+        .exec(),
+    ]);
+
+    const consumption = new Map<string, number>();
+    const add = (material: Types.ObjectId, quantity: number) => {
+      const key = material.toString();
+      consumption.set(key, (consumption.get(key) ?? 0) + quantity);
+    };
+
+    const batchNumbers = new Set<string>();
+    for (const batch of batches) {
+      batchNumbers.add(batch.batchNumber);
+      const kept = 1 - (batch.reversedQuantity ?? 0) / batch.quantity;
+      for (const cost of batch.materialCosts ?? []) {
+        add(cost.material, cost.quantity * kept);
+      }
+    }
+
+    for (const adjustment of adjustments) {
+      if (adjustment.batchNumber && batchNumbers.has(adjustment.batchNumber)) {
+        continue;
+      }
+      add(adjustment.material, -adjustment.quantity);
+    }
+
+    return consumption;
+  }
+}
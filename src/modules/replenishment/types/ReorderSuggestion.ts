@@ -0,0 +1,38 @@
+import { Types } from 'mongoose';
+
+/** How quickly a material is being used and when to buy more */
+export type ReorderSuggestion = {
+  material: Types.ObjectId;
+  name: string;
+  sku: string;
+  unit?: Types.ObjectId;
+  currentStock: number;
+  onOrder: number;
+  minimumStock: number; // Held back as safety stock
+  consumed: number; // Over the period looked at
+  averageDailyUsage: number;
+  daysOfCover: number | null; // Null when nothing is being used
+  leadTimeDays: number;
+  reorderPoint: number;
+  reorderQuantity: number; // Rounded up to the supplier's pack size
+  packSize?: number;
+  unitCost: number; // Last price paid to the supplier, else average cost
+  estimatedCost: number;
+  needsReorder: boolean;
+};
+
+export type SupplierSummary = {
+  _id: Types.ObjectId;
+  name: string;
+  currency: string;
+  leadTimeDays?: number;
+  minimumOrderValue: number;
+};
+
+/** Materials to buy from one supplier; no supplier for unlinked materials */
+export type SuggestedPurchase = {
+  supplier: SupplierSummary | null;
+  lines: ReorderSuggestion[];
+  estimatedTotal: number;
+  belowMinimumOrder: boolean;
+};
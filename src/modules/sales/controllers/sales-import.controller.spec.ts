@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SalesImportController } from './sales-import.controller';
+import { SalesImportService } from '../services/sales-import.service';
+
+describe('SalesImportController', () => {
+  let controller: SalesImportController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SalesImportController],
+      providers: [{ provide: SalesImportService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SalesImportController>(SalesImportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
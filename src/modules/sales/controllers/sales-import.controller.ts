@@ -0,0 +1,101 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { SalesImportService } from '../services/sales-import.service';
+import { ImportSalesDto } from '../dto/import-sales.dto';
+import { SkuMappingDto } from '../dto/sku-mapping.dto';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import { SkuMapping } from '../schemas/sku-mapping.schema';
+import {
+  SalesImportPreview,
+  SalesImportResult,
+} from '../types/SalesImportPreview';
+
+const csvUpload = FileInterceptor('file', {
+  fileFilter: (req, file, callback) => {
+    if (!file.originalname.toLowerCase().endsWith('.csv')) {
+      return callback(
+        new BadRequestException('Only CSV files are allowed!'),
+        false,
+      );
+    }
+    callback(null, true);
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024,
+  },
+});
+
+@RequireVerified()
+@Controller('sales-imports')
+export class SalesImportController {
+  constructor(private readonly salesImportService: SalesImportService) {}
+
+  @Post('preview')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @UseInterceptors(csvUpload)
+  async preview(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importSalesDto: ImportSalesDto,
+  ): Promise<SalesImportPreview> {
+    if (!file) throw new BadRequestException('A CSV file is required');
+    return this.salesImportService.preview(file.buffer, importSalesDto);
+  }
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @UseInterceptors(csvUpload)
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importSalesDto: ImportSalesDto,
+    @GetUser() user: User,
+  ): Promise<SalesImportResult> {
+    if (!file) throw new BadRequestException('A CSV file is required');
+    return this.salesImportService.import(
+      file.buffer,
+      importSalesDto,
+      user._id!,
+    );
+  }
+
+  @Get('sku-mappings')
+  async findMappings(
+    @Query('channel') channel?: SalesChannel,
+  ): Promise<SkuMapping[]> {
+    return this.salesImportService.findMappings(channel);
+  }
+
+  @Put('sku-mappings')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async saveMapping(
+    @Body() skuMappingDto: SkuMappingDto,
+    @GetUser() user: User,
+  ): Promise<SkuMapping> {
+    return this.salesImportService.saveMapping(skuMappingDto, user._id!);
+  }
+
+  @Delete('sku-mappings/:id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeMapping(@Param('id') id: string): Promise<void> {
+    return this.salesImportService.removeMapping(id);
+  }
+}
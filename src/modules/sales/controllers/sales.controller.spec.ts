@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SalesController } from './sales.controller';
+import { SalesService } from '../services/sales.service';
+
+describe('SalesController', () => {
+  let controller: SalesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SalesController],
+      providers: [{ provide: SalesService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SalesController>(SalesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { SalesService } from '../services/sales.service';
+import { SalesOrder } from '../schemas/sales-order.schema';
+import { CreateSalesOrderDto } from '../dto/create-sales-order.dto';
+import { CloseSalesOrderDto } from '../dto/close-sales-order.dto';
+import { SalesOrderFiltersDto } from '../dto/sales-order-filters.dto';
+
+@RequireVerified()
+@Controller('sales')
+export class SalesController {
+  constructor(private readonly salesService: SalesService) {}
+
+  @Post()
+  async create(
+    @Body() createSalesOrderDto: CreateSalesOrderDto,
+    @GetUser() user: User,
+  ): Promise<SalesOrder> {
+    return this.salesService.create(createSalesOrderDto, user._id!);
+  }
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: SalesOrderFiltersDto,
+  ) {
+    return this.salesService.findAll(page, pageSize, body);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<SalesOrder> {
+    return this.salesService.findOne(id);
+  }
+
+  @Post(':id/fulfil')
+  async fulfil(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<SalesOrder> {
+    return this.salesService.fulfil(id, user._id!);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async cancel(
+    @Param('id') id: string,
+    @Body() closeSalesOrderDto: CloseSalesOrderDto,
+    @GetUser() user: User,
+  ): Promise<SalesOrder> {
+    return this.salesService.cancel(id, closeSalesOrderDto, user._id!);
+  }
+
+  @Post(':id/refund')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async refund(
+    @Param('id') id: string,
+    @Body() closeSalesOrderDto: CloseSalesOrderDto,
+    @GetUser() user: User,
+  ): Promise<SalesOrder> {
+    return this.salesService.refund(id, closeSalesOrderDto, user._id!);
+  }
+}
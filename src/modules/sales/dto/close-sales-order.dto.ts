@@ -0,0 +1,12 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class CloseSalesOrderDto {
+  /** Put fulfilled goods back into stock. Ignored for unfulfilled orders */
+  @IsBoolean()
+  @IsOptional()
+  restock?: boolean = false;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+
+export class SalesOrderLineDto {
+  @IsMongoId()
+  product: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  /** Defaults to the product's selling price */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  unitPrice?: number;
+
+  /** Amount off the whole line */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  discount?: number;
+}
+
+export class CreateSalesOrderDto {
+  @IsEnum(SalesChannel)
+  channel: SalesChannel;
+
+  @IsString()
+  @IsOptional()
+  externalReference?: string;
+
+  @IsString()
+  @IsOptional()
+  customerName?: string;
+
+  @IsEmail()
+  @IsOptional()
+  customerEmail?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => SalesOrderLineDto)
+  lines: SalesOrderLineDto[];
+
+  /** Amount off the whole order, after line discounts */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  discount?: number;
+
+  @IsMongoId()
+  @IsOptional()
+  location?: string;
+
+  @IsDateString()
+  @IsOptional()
+  orderedAt?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
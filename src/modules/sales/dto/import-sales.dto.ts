@@ -0,0 +1,14 @@
+import { IsIn, IsMongoId, IsOptional } from 'class-validator';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import { IMPORT_LAYOUTS } from '../types/SalesImportLayout';
+
+/** Sent as form fields alongside the uploaded CSV */
+export class ImportSalesDto {
+  @IsIn(Object.keys(IMPORT_LAYOUTS))
+  channel: SalesChannel;
+
+  /** Where imported orders are picked from */
+  @IsMongoId()
+  @IsOptional()
+  location?: string;
+}
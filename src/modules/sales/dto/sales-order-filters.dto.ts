@@ -0,0 +1,25 @@
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+import { SalesOrderStatus } from '../schemas/sales-order.schema';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+
+export class SalesOrderFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsEnum(SalesOrderStatus)
+  status?: SalesOrderStatus;
+
+  @IsOptional()
+  @IsEnum(SalesChannel)
+  channel?: SalesChannel;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
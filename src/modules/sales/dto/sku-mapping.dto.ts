@@ -0,0 +1,14 @@
+import { IsEnum, IsMongoId, IsNotEmpty, IsString } from 'class-validator';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+
+export class SkuMappingDto {
+  @IsEnum(SalesChannel)
+  channel: SalesChannel;
+
+  @IsString()
+  @IsNotEmpty()
+  externalSku: string;
+
+  @IsMongoId()
+  product: string;
+}
@@ -0,0 +1,8 @@
+export enum SalesChannel {
+  ETSY = 'etsy',
+  SHOPIFY = 'shopify',
+  WEBSITE = 'website',
+  MARKET = 'market',
+  WHOLESALE = 'wholesale',
+  OTHER = 'other',
+}
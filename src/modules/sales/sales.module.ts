@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SalesOrder, SalesOrderSchema } from './schemas/sales-order.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { StockAdjustmentsModule } from '../stock-adjustments/stock-adjustments.module';
+import { LocationsModule } from '../locations/locations.module';
+import { SalesService } from './services/sales.service';
+import { SalesController } from './controllers/sales.controller';
+import { SkuMapping, SkuMappingSchema } from './schemas/sku-mapping.schema';
+import { SalesImportService } from './services/sales-import.service';
+import { SalesImportController } from './controllers/sales-import.controller';
+
+@Module({
+  imports: [
+    StockAdjustmentsModule,
+    LocationsModule,
+    MongooseModule.forFeature([
+      { name: SalesOrder.name, schema: SalesOrderSchema },
+      { name: SkuMapping.name, schema: SkuMappingSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [SalesController, SalesImportController],
+  providers: [SalesService, SalesImportService],
+  exports: [SalesService],
+})
+export class SalesModule {}
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema()
+export class SalesOrderLine {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string; // Snapshot so old orders still read correctly
+
+  @Prop()
+  sku: string;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true, min: 0 })
+  unitPrice: number;
+
+  @Prop({ default: 0, min: 0 })
+  discount: number; // Amount off the line, not per unit
+
+  @Prop({ required: true, min: 0 })
+  lineTotal: number;
+
+  @Prop({ min: 0 })
+  unitCost?: number; // averageUnitCost when the order was fulfilled
+
+  @Prop({ min: 0 })
+  costOfGoods?: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'StockAdjustment' })
+  adjustment?: Types.ObjectId; // SALE written when the order was fulfilled
+
+  @Prop({ type: Types.ObjectId, ref: 'StockAdjustment' })
+  returnAdjustment?: Types.ObjectId; // RETURN written if the goods were restocked
+}
+
+export const SalesOrderLineSchema =
+  SchemaFactory.createForClass(SalesOrderLine);
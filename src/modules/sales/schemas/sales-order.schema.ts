@@ -0,0 +1,113 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import {
+  SalesOrderLine,
+  SalesOrderLineSchema,
+} from './sales-order-line.schema';
+
+export type SalesOrderDocument = HydratedDocument<SalesOrder>;
+
+export enum SalesOrderStatus {
+  PENDING = 'pending',
+  FULFILLED = 'fulfilled',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+}
+
+@Schema({ timestamps: true })
+export class SalesOrder {
+  _id?: Types.ObjectId;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  orderNumber: string;
+
+  @Prop({ required: true, enum: SalesChannel })
+  channel: SalesChannel;
+
+  @Prop()
+  externalReference: string; // Order number on the marketplace or shop
+
+  @Prop()
+  customerName: string;
+
+  @Prop()
+  customerEmail: string;
+
+  @Prop({
+    required: true,
+    enum: SalesOrderStatus,
+    default: SalesOrderStatus.PENDING,
+  })
+  status: SalesOrderStatus;
+
+  @Prop({ type: [SalesOrderLineSchema], default: [] })
+  lines: SalesOrderLine[];
+
+  @Prop({ required: true, min: 0 })
+  subtotal: number; // Line totals, after line discounts
+
+  @Prop({ default: 0, min: 0 })
+  discount: number; // Amount off the whole order
+
+  @Prop({ required: true, min: 0 })
+  total: number;
+
+  @Prop({ default: 0, min: 0 })
+  costOfGoods: number; // Set when the order is fulfilled
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId; // Where the goods are picked from
+
+  @Prop({ required: true })
+  orderedAt: Date;
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  fulfilledBy: Types.ObjectId;
+
+  @Prop()
+  fulfilledAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  closedBy: Types.ObjectId; // Cancelled or refunded by
+
+  @Prop()
+  closedAt: Date;
+
+  @Prop()
+  closeReason: string;
+
+  @Prop({ default: false })
+  restocked: boolean;
+}
+
+export const SalesOrderSchema = SchemaFactory.createForClass(SalesOrder);
+
+SalesOrderSchema.plugin(workspaceScopePlugin);
+
+SalesOrderSchema.index({ workspace: 1, orderNumber: 1 }, { unique: true });
+SalesOrderSchema.index({ workspace: 1, status: 1, orderedAt: -1 });
+
+// A marketplace order is only ever recorded once, however often it is imported
+SalesOrderSchema.index(
+  { workspace: 1, channel: 1, externalReference: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { externalReference: { $type: 'string' } },
+  },
+);
+SalesOrderSchema.index({ workspace: 1, 'lines.product': 1 });
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+
+export type SkuMappingDocument = HydratedDocument<SkuMapping>;
+
+/** Ties a listing SKU on a sales channel to one of our products */
+@Schema({ timestamps: true })
+export class SkuMapping {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true, enum: SalesChannel })
+  channel: SalesChannel;
+
+  @Prop({ required: true })
+  externalSku: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+}
+
+export const SkuMappingSchema = SchemaFactory.createForClass(SkuMapping);
+
+SkuMappingSchema.plugin(workspaceScopePlugin);
+
+SkuMappingSchema.index(
+  { workspace: 1, channel: 1, externalSku: 1 },
+  { unique: true },
+);
+SkuMappingSchema.index({ workspace: 1, product: 1 });
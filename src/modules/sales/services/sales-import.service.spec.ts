@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SalesImportService } from './sales-import.service';
+import { SalesService } from './sales.service';
+import { SalesOrder } from '../schemas/sales-order.schema';
+import { SkuMapping } from '../schemas/sku-mapping.schema';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+describe('SalesImportService', () => {
+  let service: SalesImportService;
+  let connection: ReturnType<typeof mockConnection>;
+  let salesOrderModel: Record<string, jest.Mock>;
+  let skuMappingModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+  let salesService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+  const candle = { _id: new Types.ObjectId(), name: 'Candle', sku: 'CAN-1' };
+  const melt = { _id: new Types.ObjectId(), name: 'Wax melt', sku: 'MEL-1' };
+
+  // An Etsy export with two lines on order 1001
+  const csv = Buffer.from(
+    [
+      'Sale Date,Item Name,Quantity,Price,Discount Amount,Order ID,SKU,Ship Name',
+      '01/05/2026,Amber candle,2,£12.00,1.00,1001,CAN-1,Ada',
+      '01/05/2026,Amber melt,1,4.00,,1001,ETSY-MELT,Ada',
+      '02/05/2026,Mystery box,1,20.00,,1002,ETSY-BOX,Grace',
+      '02/05/2026,Amber candle,1,12.00,,1003,CAN-1,Alan',
+    ].join('\n'),
+  );
+  const dto = { channel: SalesChannel.ETSY };
+
+  beforeEach(async () => {
+    connection = mockConnection();
+    salesOrderModel = { find: jest.fn().mockResolvedValue([]) };
+    skuMappingModel = {
+      find: jest
+        .fn()
+        .mockReturnValue(
+          mockQuery([{ externalSku: 'ETSY-MELT', product: melt }]),
+        ),
+    };
+    productModel = { find: jest.fn().mockResolvedValue([candle]) };
+    salesService = {
+      create: jest.fn((order: { externalReference: string }) =>
+        Promise.resolve({ orderNumber: `SO-${order.externalReference}` }),
+      ),
+      recordFulfilment: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SalesImportService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(SalesOrder.name), useValue: salesOrderModel },
+        { provide: getModelToken(SkuMapping.name), useValue: skuMappingModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: SalesService, useValue: salesService },
+      ],
+    }).compile();
+
+    service = module.get<SalesImportService>(SalesImportService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('preview', () => {
+    it('matches lines through mappings first and then by SKU', async () => {
+      const preview = await service.preview(csv, dto);
+
+      expect(preview.orders[0].lines).toEqual([
+        expect.objectContaining({
+          externalSku: 'CAN-1',
+          quantity: 2,
+          unitPrice: 12,
+          discount: 1,
+          product: { _id: candle._id.toString(), name: 'Candle', sku: 'CAN-1' },
+        }),
+        expect.objectContaining({
+          externalSku: 'ETSY-MELT',
+          product: expect.objectContaining({ name: 'Wax melt' }),
+        }),
+      ]);
+      expect(productModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({ sku: { $in: ['CAN-1', 'ETSY-BOX'] } }),
+      );
+      expect(preview.unmatchedSkus).toEqual([
+        { externalSku: 'ETSY-BOX', name: 'Mystery box' },
+      ]);
+      expect(preview.totals).toEqual({
+        orders: 3,
+        readyToImport: 2,
+        alreadyImported: 0,
+        withUnmatchedLines: 1,
+      });
+    });
+
+    it('refuses a file missing the channel’s columns', async () => {
+      await expect(
+        service.preview(Buffer.from('Order ID,SKU\n1001,CAN-1'), dto),
+      ).rejects.toThrow(
+        "This doesn't look like a etsy export. Missing columns: Item Name, Quantity, Price",
+      );
+    });
+  });
+
+  describe('import', () => {
+    it('creates and fulfils each new order in its own transaction', async () => {
+      const result = await service.import(csv, dto, userId);
+
+      expect(result.imported).toEqual([
+        { externalReference: '1001', orderNumber: 'SO-1001' },
+        { externalReference: '1003', orderNumber: 'SO-1003' },
+      ]);
+      expect(result.skipped).toEqual([
+        {
+          externalReference: '1002',
+          reason: 'ETSY-BOX is not mapped to a product',
+        },
+      ]);
+      expect(connection.transaction).toHaveBeenCalledTimes(2);
+      expect(salesService.recordFulfilment).toHaveBeenCalledTimes(2);
+      expect(salesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: SalesChannel.ETSY,
+          externalReference: '1001',
+          lines: [
+            {
+              product: candle._id.toString(),
+              quantity: 2,
+              unitPrice: 12,
+              discount: 1,
+            },
+            {
+              product: melt._id.toString(),
+              quantity: 1,
+              unitPrice: 4,
+              discount: 0,
+            },
+          ],
+        }),
+        userId,
+      );
+    });
+
+    it('skips orders imported before, so a file can be uploaded again', async () => {
+      salesOrderModel.find.mockResolvedValue([
+        { externalReference: '1001' },
+        { externalReference: '1003' },
+      ]);
+
+      const result = await service.import(csv, dto, userId);
+
+      expect(result.imported).toEqual([]);
+      expect(result.skipped).toEqual([
+        { externalReference: '1001', reason: 'Already imported' },
+        expect.objectContaining({ externalReference: '1002' }),
+        { externalReference: '1003', reason: 'Already imported' },
+      ]);
+      expect(salesService.create).not.toHaveBeenCalled();
+    });
+
+    it('fails an order another import recorded first and carries on', async () => {
+      salesService.create.mockRejectedValueOnce(
+        Object.assign(new Error('E11000 duplicate key error'), {
+          code: 11000,
+        }),
+      );
+
+      const result = await service.import(csv, dto, userId);
+
+      expect(result.failed).toEqual([
+        {
+          externalReference: '1001',
+          reason: 'An order with this reference already exists',
+        },
+      ]);
+      expect(result.imported).toEqual([
+        { externalReference: '1003', orderNumber: 'SO-1003' },
+      ]);
+    });
+
+    it('fails an order short of stock and carries on', async () => {
+      salesService.recordFulfilment.mockRejectedValueOnce(
+        new BadRequestException('Not enough Candle at this location'),
+      );
+
+      const result = await service.import(csv, dto, userId);
+
+      expect(result.failed).toEqual([
+        {
+          externalReference: '1001',
+          reason: 'Not enough Candle at this location',
+        },
+      ]);
+      expect(result.imported).toHaveLength(1);
+    });
+
+    it('stops on an unexpected error', async () => {
+      salesService.create.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.import(csv, dto, userId)).rejects.toThrow(
+        'connection lost',
+      );
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model, Types } from 'mongoose';
+import { parseCsv } from 'src/core/utils/csv';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { SalesOrder, SalesOrderDocument } from '../schemas/sales-order.schema';
+import { SkuMapping, SkuMappingDocument } from '../schemas/sku-mapping.schema';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import { ImportSalesDto } from '../dto/import-sales.dto';
+import { SkuMappingDto } from '../dto/sku-mapping.dto';
+import { IMPORT_LAYOUTS, SalesImportLayout } from '../types/SalesImportLayout';
+import {
+  SalesImportLine,
+  SalesImportOrder,
+  SalesImportPreview,
+  SalesImportResult,
+} from '../types/SalesImportPreview';
+import { SalesService } from './sales.service';
+
+type MatchedProduct = NonNullable<SalesImportLine['product']>;
+
+const DUPLICATE_KEY = 11000; // MongoDB error code for a unique index clash
+
+@Injectable()
+export class SalesImportService {
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(SalesOrder.name)
+    private readonly salesOrderModel: Model<SalesOrderDocument>,
+    @InjectModel(SkuMapping.name)
+    private readonly skuMappingModel: Model<SkuMappingDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    private readonly salesService: SalesService,
+  ) {}
+
+  /**
+   * Reads a channel's order export and matches each line to a product,
+   * first through saved mappings and then by our own SKU. Nothing is saved.
+   */
+  async preview(
+    csv: Buffer,
+    importSalesDto: ImportSalesDto,
+  ): Promise<SalesImportPreview> {
+    const { channel } = importSalesDto;
+    const orders = this.readOrders(csv, channel);
+
+    const externalSkus = [
+      ...new Set(orders.flatMap((o) => o.lines.map((l) => l.externalSku))),
+    ];
+    const products = await this.matchSkus(channel, externalSkus);
+
+    const imported = await this.salesOrderModel.find(
+      {
+        channel,
+        externalReference: { $in: orders.map((o) => o.externalReference) },
+      },
+      { externalReference: 1 },
+    );
+    const importedRefs = new Set(imported.map((o) => o.externalReference));
+
+    const unmatched = new Map<string, string>();
+    for (const order of orders) {
+      order.alreadyImported = importedRefs.has(order.externalReference);
+
+      for (const line of order.lines) {
+        line.product = products.get(line.externalSku) ?? null;
+        if (!line.product) unmatched.set(line.externalSku, line.name);
+      }
+    }
+
+    const withUnmatchedLines = orders.filter((o) =>
+      o.lines.some((l) => !l.product),
+    ).length;
+    const alreadyImported = orders.filter((o) => o.alreadyImported).length;
+
+    return {
+      orders,
+      unmatchedSkus: [...unmatched].map(([externalSku, name]) => ({
+        externalSku,
+        name,
+      })),
+      totals: {
+        orders: orders.length,
+        readyToImport: orders.filter(
+          (o) => !o.alreadyImported && o.lines.every((l) => l.product),
+        ).length,
+        alreadyImported,
+        withUnmatchedLines,
+      },
+    };
+  }
+
+  /**
+   * Creates and fulfils a sales order for every order in the export that
+   * has not been imported before. Orders with unmatched lines are skipped,
+   * so the file can be uploaded again once mappings are added.
+   */
+  async import(
+    csv: Buffer,
+    importSalesDto: ImportSalesDto,
+    userId: string,
+  ): Promise<SalesImportResult> {
+    const { channel, location } = importSalesDto;
+    const preview = await this.preview(csv, importSalesDto);
+    const result: SalesImportResult = { imported: [], skipped: [], failed: [] };
+
+    for (const order of preview.orders) {
+      const { externalReference } = order;
+
+      if (order.alreadyImported) {
+        result.skipped.push({ externalReference, reason: 'Already imported' });
+        continue;
+      }
+
+      const unmatched = order.lines.find((l) => !l.product);
+      if (unmatched) {
+        result.skipped.push({
+          externalReference,
+          reason: `${unmatched.externalSku} is not mapped to a product`,
+        });
+        continue;
+      }
+
+      // Each order stands alone so one short of stock doesn't stop the rest
+      try {
+        const salesOrder = await this.connection.transaction(async () => {
+          const created = await this.salesService.create(
+            {
+              channel,
+              externalReference,
+              customerName: order.customerName,
+              customerEmail: order.customerEmail,
+              orderedAt: order.orderedAt.toISOString(),
+              discount: order.discount,
+              location,
+              lines: order.lines.map((line) => ({
+                product: line.product!._id,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+                discount: line.discount,
+              })),
+              notes: `Imported from ${channel}`,
+            },
+            userId,
+          );
+          await this.salesService.recordFulfilment(created, userId);
+          return created;
+        });
+
+        result.imported.push({
+          externalReference,
+          orderNumber: salesOrder.orderNumber,
+        });
+      } catch (error) {
+        // e.g. another import of the same order got there first
+        if ((error as { code?: number }).code === DUPLICATE_KEY) {
+          result.failed.push({
+            externalReference,
+            reason: 'An order with this reference already exists',
+          });
+          continue;
+        }
+        if (!(error instanceof HttpException)) throw error;
+        result.failed.push({ externalReference, reason: error.message });
+      }
+    }
+
+    return result;
+  }
+
+  async findMappings(channel?: SalesChannel): Promise<SkuMapping[]> {
+    return this.skuMappingModel
+      .find(channel ? { channel } : {})
+      .populate('product', 'name sku')
+      .sort('externalSku')
+      .exec();
+  }
+
+  /** Creates the mapping, or points an existing one at a different product */
+  async saveMapping(
+    skuMappingDto: SkuMappingDto,
+    userId: string,
+  ): Promise<SkuMapping> {
+    const product = await this.productModel.findById(skuMappingDto.product);
+    if (!product) {
+      throw new BadRequestException('Product not found');
+    }
+    if (product.variantAxes?.length) {
+      throw new BadRequestException(
+        `${product.name} is sold as its variants. Map to a variant instead`,
+      );
+    }
+
+    const mapping = await this.skuMappingModel
+      .findOneAndUpdate(
+        {
+          channel: skuMappingDto.channel,
+          externalSku: skuMappingDto.externalSku,
+        },
+        { product: product._id, createdBy: new Types.ObjectId(userId) },
+        { upsert: true, new: true },
+      )
+      .populate('product', 'name sku')
+      .exec();
+
+    return mapping;
+  }
+
+  async removeMapping(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Mapping not found');
+    }
+
+    const deleted = await this.skuMappingModel.findByIdAndDelete(id);
+    if (!deleted) {
+      throw new NotFoundException('Mapping not found');
+    }
+  }
+
+  /** Groups the export's rows, one per line item, into orders */
+  private readOrders(csv: Buffer, channel: SalesChannel): SalesImportOrder[] {
+    const layout = IMPORT_LAYOUTS[channel];
+    if (!layout) {
+      throw new BadRequestException(`Orders from ${channel} can't be imported`);
+    }
+
+    const rows = parseCsv(csv.toString('utf-8'));
+    if (rows.length === 0) {
+      throw new BadRequestException('The file has no orders in it');
+    }
+
+    const required = [
+      layout.orderId,
+      layout.sku,
+      layout.name,
+      layout.quantity,
+      layout.price,
+    ];
+    const missing = required.filter((column) => !(column in rows[0]));
+    if (missing.length) {
+      throw new BadRequestException(
+        `This doesn't look like a ${channel} export. Missing columns: ${missing.join(', ')}`,
+      );
+    }
+
+    const orders = new Map<string, SalesImportOrder>();
+
+    for (const row of rows) {
+      const externalReference = row[layout.orderId];
+      if (!externalReference) continue;
+
+      let order = orders.get(externalReference);
+      if (!order) {
+        order = {
+          externalReference,
+          customerName: row[layout.customerName] ?? '',
+          customerEmail: this.column(row, layout.customerEmail),
+          orderedAt: this.parseDate(row[layout.orderedAt]),
+          discount: 0,
+          lines: [],
+          alreadyImported: false,
+        };
+        orders.set(externalReference, order);
+      }
+
+      order.discount += this.parseAmount(
+        this.column(row, layout.orderDiscount),
+      );
+      order.lines.push(this.readLine(row, layout));
+    }
+
+    return [...orders.values()];
+  }
+
+  private readLine(
+    row: Record<string, string>,
+    layout: SalesImportLayout,
+  ): SalesImportLine {
+    const name = row[layout.name];
+    const quantity = parseInt(row[layout.quantity], 10);
+
+    if (!quantity || quantity < 1) {
+      throw new BadRequestException(
+        `Order ${row[layout.orderId]} has an invalid quantity for ${name}`,
+      );
+    }
+
+    return {
+      // Listings without a SKU are matched on their title instead
+      externalSku: row[layout.sku] || name,
+      name,
+      quantity,
+      unitPrice: this.parseAmount(row[layout.price]),
+      discount: this.parseAmount(this.column(row, layout.lineDiscount)),
+      product: null,
+    };
+  }
+
+  private async matchSkus(
+    channel: SalesChannel,
+    externalSkus: string[],
+  ): Promise<Map<string, MatchedProduct>> {
+    const matches = new Map<string, MatchedProduct>();
+    const toMatch = (product: ProductDocument): MatchedProduct => ({
+      _id: product._id.toString(),
+      name: product.name,
+      sku: product.sku,
+    });
+
+    const mappings = await this.skuMappingModel
+      .find({ channel, externalSku: { $in: externalSkus } })
+      .populate<{ product: ProductDocument | null }>('product')
+      .exec();
+    for (const mapping of mappings) {
+      // A mapping to a deleted product leaves the line unmatched
+      if (mapping.product) {
+        matches.set(mapping.externalSku, toMatch(mapping.product));
+      }
+    }
+
+    const products = await this.productModel.find({
+      sku: { $in: externalSkus.filter((sku) => !matches.has(sku)) },
+      'variantAxes.0': { $exists: false },
+    });
+    for (const product of products) {
+      matches.set(product.sku, toMatch(product));
+    }
+
+    return matches;
+  }
+
+  private column(row: Record<string, string>, column?: string) {
+    return column ? row[column] || undefined : undefined;
+  }
+
+  /** Amounts may carry a currency symbol or thousands separator */
+  private parseAmount(value?: string): number {
+    if (!value) return 0;
+    const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+    return Number.isNaN(amount) ? 0 : Math.abs(amount);
+  }
+
+  private parseDate(value?: string): Date {
+    const date = value ? new Date(value) : new Date();
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+  }
+}
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SalesService } from './sales.service';
+import { SalesOrder, SalesOrderStatus } from '../schemas/sales-order.schema';
+import { SalesChannel } from '../enums/SalesChannel.enum';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+describe('SalesService', () => {
+  let service: SalesService;
+  let connection: ReturnType<typeof mockConnection>;
+  let salesOrderModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+  let stockAdjustmentsService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+  const location = new Types.ObjectId();
+
+  const candle = {
+    _id: new Types.ObjectId(),
+    name: 'Candle',
+    sku: 'CAN-1',
+    sellingPrice: 12,
+  };
+  const melt = {
+    _id: new Types.ObjectId(),
+    name: 'Wax melt',
+    sku: 'MEL-1',
+    sellingPrice: 4,
+  };
+
+  const order = (status: SalesOrderStatus, fields = {}) => ({
+    _id: new Types.ObjectId(),
+    orderNumber: 'SO-1',
+    status,
+    location,
+    lines: [
+      { product: candle._id, quantity: 2, unitCost: 3 },
+      { product: melt._id, quantity: 5, unitCost: 1 },
+    ],
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    connection = mockConnection();
+    salesOrderModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => Promise.resolve(data)),
+      findById: jest.fn(),
+    };
+    productModel = {
+      findById: jest.fn((id: string) =>
+        Promise.resolve([candle, melt].find((p) => p._id.equals(id))),
+      ),
+    };
+    stockAdjustmentsService = {
+      handleSale: jest.fn((_product, quantity: number) =>
+        Promise.resolve({
+          _id: new Types.ObjectId(),
+          unitCost: 3,
+          totalCost: 3 * quantity,
+        }),
+      ),
+      handleSaleReturn: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SalesService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(SalesOrder.name), useValue: salesOrderModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: StockAdjustmentsService, useValue: stockAdjustmentsService },
+        {
+          provide: LocationsService,
+          useValue: {
+            resolveLocationId: jest.fn().mockResolvedValue(location),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SalesService>(SalesService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('prices each line from the product unless a price is given', async () => {
+      const created = await service.create(
+        {
+          channel: SalesChannel.MARKET,
+          lines: [
+            { product: candle._id.toString(), quantity: 2, discount: 4 },
+            { product: melt._id.toString(), quantity: 3, unitPrice: 3.5 },
+          ],
+          discount: 0.5,
+        },
+        userId,
+      );
+
+      expect(created.lines).toEqual([
+        expect.objectContaining({
+          name: 'Candle',
+          sku: 'CAN-1',
+          unitPrice: 12,
+          discount: 4,
+          lineTotal: 20,
+        }),
+        expect.objectContaining({ unitPrice: 3.5, lineTotal: 10.5 }),
+      ]);
+      expect(created).toMatchObject({ subtotal: 30.5, total: 30, location });
+      expect(stockAdjustmentsService.handleSale).not.toHaveBeenCalled();
+    });
+
+    it('numbers orders created in the same millisecond apart', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1767225600000);
+      const dto = {
+        channel: SalesChannel.ETSY,
+        lines: [{ product: candle._id.toString(), quantity: 1 }],
+      };
+
+      const first = await service.create(dto, userId);
+      const second = await service.create(dto, userId);
+
+      expect(first.orderNumber).toMatch(/^SO-1767225600000-[0-9A-F]{6}$/);
+      expect(second.orderNumber).not.toBe(first.orderNumber);
+    });
+
+    it('refuses an order already recorded from the channel', async () => {
+      salesOrderModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(
+        service.create(
+          {
+            channel: SalesChannel.ETSY,
+            externalReference: '1234',
+            lines: [{ product: candle._id.toString(), quantity: 1 }],
+          },
+          userId,
+        ),
+      ).rejects.toThrow('Order 1234 from etsy has already been recorded');
+    });
+
+    it('refuses a discount worth more than the line', async () => {
+      await expect(
+        service.create(
+          {
+            channel: SalesChannel.MARKET,
+            lines: [{ product: melt._id.toString(), quantity: 1, discount: 5 }],
+          },
+          userId,
+        ),
+      ).rejects.toThrow('Discount on Wax melt is more than the line is worth');
+    });
+  });
+
+  describe('fulfil', () => {
+    it('takes every line out of stock and records the cost of goods', async () => {
+      const pending = order(SalesOrderStatus.PENDING);
+      salesOrderModel.findById
+        .mockResolvedValueOnce(pending)
+        .mockReturnValueOnce(mockQuery(pending));
+
+      await service.fulfil(pending._id.toString(), userId);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(stockAdjustmentsService.handleSale).toHaveBeenCalledWith(
+        candle._id,
+        2,
+        { _id: pending._id, orderNumber: 'SO-1' },
+        userId,
+        location,
+      );
+      expect(pending).toMatchObject({
+        status: SalesOrderStatus.FULFILLED,
+        costOfGoods: 21,
+      });
+      expect(pending.lines[1]).toMatchObject({ unitCost: 3, costOfGoods: 15 });
+      expect(pending.save).toHaveBeenCalled();
+    });
+
+    it('ships nothing when a line cannot be taken from stock', async () => {
+      const pending = order(SalesOrderStatus.PENDING);
+      salesOrderModel.findById.mockResolvedValue(pending);
+      stockAdjustmentsService.handleSale
+        .mockResolvedValueOnce({ _id: new Types.ObjectId(), totalCost: 6 })
+        .mockRejectedValueOnce(
+          new Error('Not enough Wax melt at this location'),
+        );
+
+      await expect(
+        service.fulfil(pending._id.toString(), userId),
+      ).rejects.toThrow('Not enough Wax melt at this location');
+      expect(pending.status).toBe(SalesOrderStatus.PENDING);
+      expect(pending.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses an order that has already shipped', async () => {
+      salesOrderModel.findById.mockResolvedValue(
+        order(SalesOrderStatus.FULFILLED),
+      );
+
+      await expect(
+        service.fulfil(new Types.ObjectId().toString(), userId),
+      ).rejects.toThrow('Sales order SO-1 is already fulfilled');
+    });
+  });
+
+  describe('refund', () => {
+    it('restocks each line at the cost it left at when asked', async () => {
+      const fulfilled = order(SalesOrderStatus.FULFILLED);
+      salesOrderModel.findById
+        .mockResolvedValueOnce(fulfilled)
+        .mockReturnValueOnce(mockQuery(fulfilled));
+
+      await service.refund(
+        fulfilled._id.toString(),
+        { restock: true, reason: 'Arrived broken' },
+        userId,
+      );
+
+      expect(stockAdjustmentsService.handleSaleReturn).toHaveBeenCalledWith(
+        melt._id,
+        5,
+        1,
+        { _id: fulfilled._id, orderNumber: 'SO-1' },
+        userId,
+        'Sales order SO-1 refunded - 5 units restocked',
+        location,
+      );
+      expect(fulfilled).toMatchObject({
+        status: SalesOrderStatus.REFUNDED,
+        restocked: true,
+        closeReason: 'Arrived broken',
+      });
+    });
+
+    it('leaves stock alone unless asked to restock', async () => {
+      const fulfilled = order(SalesOrderStatus.FULFILLED);
+      salesOrderModel.findById
+        .mockResolvedValueOnce(fulfilled)
+        .mockReturnValueOnce(mockQuery(fulfilled));
+
+      await service.refund(fulfilled._id.toString(), {}, userId);
+
+      expect(stockAdjustmentsService.handleSaleReturn).not.toHaveBeenCalled();
+      expect(fulfilled.status).toBe(SalesOrderStatus.REFUNDED);
+    });
+
+    it('refuses an order that never shipped', async () => {
+      salesOrderModel.findById.mockResolvedValue(
+        order(SalesOrderStatus.PENDING),
+      );
+
+      await expect(
+        service.refund(new Types.ObjectId().toString(), {}, userId),
+      ).rejects.toThrow('Sales order SO-1 is already pending');
+    });
+  });
+
+  describe('cancel', () => {
+    it('has nothing to restock for an order that never shipped', async () => {
+      const pending = order(SalesOrderStatus.PENDING);
+      salesOrderModel.findById
+        .mockResolvedValueOnce(pending)
+        .mockReturnValueOnce(mockQuery(pending));
+
+      await service.cancel(pending._id.toString(), { restock: true }, userId);
+
+      expect(stockAdjustmentsService.handleSaleReturn).not.toHaveBeenCalled();
+      expect(pending.status).toBe(SalesOrderStatus.CANCELLED);
+    });
+  });
+});
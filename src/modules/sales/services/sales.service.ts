@@ -0,0 +1,367 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import {
+  SalesOrder,
+  SalesOrderDocument,
+  SalesOrderStatus,
+} from '../schemas/sales-order.schema';
+import { SalesOrderLine } from '../schemas/sales-order-line.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { CreateSalesOrderDto } from '../dto/create-sales-order.dto';
+import { CloseSalesOrderDto } from '../dto/close-sales-order.dto';
+import { SalesOrderFiltersDto } from '../dto/sales-order-filters.dto';
+import { SalesListStats } from '../types/SalesListStats';
+
+@Injectable()
+export class SalesService {
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(SalesOrder.name)
+    private readonly salesOrderModel: Model<SalesOrderDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+    private readonly locationsService: LocationsService,
+  ) {}
+
+  /**
+   * Records an order and snapshots each product's name and price. Stock is
+   * not touched until the order is fulfilled.
+   */
+  async create(
+    createSalesOrderDto: CreateSalesOrderDto,
+    userId: string,
+  ): Promise<SalesOrderDocument> {
+    const { channel, externalReference } = createSalesOrderDto;
+    if (
+      externalReference &&
+      (await this.salesOrderModel.exists({ channel, externalReference }))
+    ) {
+      throw new BadRequestException(
+        `Order ${externalReference} from ${channel} has already been recorded`,
+      );
+    }
+
+    const lines: SalesOrderLine[] = [];
+
+    for (const lineDto of createSalesOrderDto.lines) {
+      const product = await this.productModel.findById(lineDto.product);
+      if (!product) {
+        throw new BadRequestException(`Product ${lineDto.product} not found`);
+      }
+      if (product.variantAxes?.length) {
+        throw new BadRequestException(
+          `${product.name} is sold as its variants. Choose a variant to sell`,
+        );
+      }
+
+      const unitPrice = lineDto.unitPrice ?? product.sellingPrice;
+      const discount = lineDto.discount ?? 0;
+      const gross = unitPrice * lineDto.quantity;
+      if (discount > gross) {
+        throw new BadRequestException(
+          `Discount on ${product.name} is more than the line is worth`,
+        );
+      }
+
+      lines.push({
+        product: product._id,
+        name: product.name,
+        sku: product.sku,
+        quantity: lineDto.quantity,
+        unitPrice,
+        discount,
+        lineTotal: gross - discount,
+      });
+    }
+
+    const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+    const discount = createSalesOrderDto.discount ?? 0;
+    if (discount > subtotal) {
+      throw new BadRequestException(
+        'Order discount is more than the order is worth',
+      );
+    }
+
+    const location = await this.locationsService.resolveLocationId(
+      createSalesOrderDto.location,
+    );
+
+    // The id's counter keeps numbers unique for orders created in the same
+    // millisecond, e.g. by an import
+    const _id = new Types.ObjectId();
+
+    return this.salesOrderModel.create({
+      ...createSalesOrderDto,
+      _id,
+      orderNumber: `SO-${Date.now()}-${_id.toHexString().slice(-6).toUpperCase()}`,
+      lines,
+      subtotal,
+      discount,
+      total: subtotal - discount,
+      location,
+      orderedAt: createSalesOrderDto.orderedAt ?? new Date(),
+      createdBy: new Types.ObjectId(userId),
+    });
+  }
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: SalesOrderFiltersDto,
+  ): Promise<PaginatedResponse<SalesOrder> & { salesStats: SalesListStats }> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<SalesOrder> = {};
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { orderNumber: { $regex: filters.searchTerm, $options: 'i' } },
+        { externalReference: { $regex: filters.searchTerm, $options: 'i' } },
+        { customerName: { $regex: filters.searchTerm, $options: 'i' } },
+        { customerEmail: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+    if (filters?.status) query.status = filters.status;
+    if (filters?.channel) query.channel = filters.channel;
+    if (filters?.startDate && filters?.endDate) {
+      query.orderedAt = {
+        $gte: new Date(filters.startDate),
+        $lte: new Date(filters.endDate),
+      };
+    }
+
+    const [data, total, salesStats] = await Promise.all([
+      this.salesOrderModel
+        .find(query)
+        .populate('createdBy', 'name email')
+        .sort('-orderedAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.salesOrderModel.countDocuments(query),
+      this.getSalesStatistics(query),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      salesStats,
+    };
+  }
+
+  /** Revenue and margin count fulfilled orders only */
+  private async getSalesStatistics(
+    query: FilterQuery<SalesOrder>,
+  ): Promise<SalesListStats> {
+    const result = await this.salesOrderModel
+      .aggregate([
+        { $match: query },
+        {
+          $group: {
+            _id: null,
+            totalOrders: { $sum: 1 },
+            revenue: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$status', SalesOrderStatus.FULFILLED] },
+                  '$total',
+                  0,
+                ],
+              },
+            },
+            costOfGoods: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$status', SalesOrderStatus.FULFILLED] },
+                  '$costOfGoods',
+                  0,
+                ],
+              },
+            },
+          },
+        },
+      ])
+      .exec();
+
+    if (result.length === 0) {
+      return { totalOrders: 0, revenue: 0, costOfGoods: 0, grossProfit: 0 };
+    }
+
+    return {
+      totalOrders: result[0].totalOrders,
+      revenue: result[0].revenue,
+      costOfGoods: result[0].costOfGoods,
+      grossProfit: result[0].revenue - result[0].costOfGoods,
+    };
+  }
+
+  async findOne(id: string): Promise<SalesOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Sales order not found');
+    }
+
+    const order = await this.salesOrderModel
+      .findById(id)
+      .populate('lines.product', 'name sku currentStock')
+      .populate('location', 'name')
+      .populate('createdBy', 'name email')
+      .populate('fulfilledBy', 'name email')
+      .populate('closedBy', 'name email')
+      .exec();
+
+    if (!order) {
+      throw new NotFoundException('Sales order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Takes every line out of finished stock, writing a SALE adjustment for
+   * each, and records cost of goods sold. All lines ship or none do.
+   */
+  async fulfil(id: string, userId: string): Promise<SalesOrder> {
+    await this.connection.transaction(async () => {
+      const order = await this.findWithStatus(id, [SalesOrderStatus.PENDING]);
+      await this.recordFulfilment(order, userId);
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Must be called inside a transaction; imports create and fulfil each
+   * order in one.
+   */
+  async recordFulfilment(
+    order: SalesOrderDocument,
+    userId: string,
+  ): Promise<void> {
+    for (const line of order.lines) {
+      const adjustment = await this.stockAdjustmentsService.handleSale(
+        line.product,
+        line.quantity,
+        { _id: order._id, orderNumber: order.orderNumber },
+        userId,
+        order.location,
+      );
+
+      line.unitCost = adjustment.unitCost;
+      line.costOfGoods = adjustment.totalCost;
+      line.adjustment = adjustment._id;
+    }
+
+    order.costOfGoods = order.lines.reduce(
+      (sum, line) => sum + (line.costOfGoods ?? 0),
+      0,
+    );
+    order.status = SalesOrderStatus.FULFILLED;
+    order.fulfilledBy = new Types.ObjectId(userId);
+    order.fulfilledAt = new Date();
+    await order.save();
+  }
+
+  async cancel(
+    id: string,
+    closeSalesOrderDto: CloseSalesOrderDto,
+    userId: string,
+  ): Promise<SalesOrder> {
+    return this.close(
+      id,
+      SalesOrderStatus.CANCELLED,
+      [SalesOrderStatus.PENDING, SalesOrderStatus.FULFILLED],
+      closeSalesOrderDto,
+      userId,
+    );
+  }
+
+  async refund(
+    id: string,
+    closeSalesOrderDto: CloseSalesOrderDto,
+    userId: string,
+  ): Promise<SalesOrder> {
+    return this.close(
+      id,
+      SalesOrderStatus.REFUNDED,
+      [SalesOrderStatus.FULFILLED],
+      closeSalesOrderDto,
+      userId,
+    );
+  }
+
+  /**
+   * Closes an order. Goods that were fulfilled can be put back into stock
+   * at the cost they left at; otherwise they are treated as gone.
+   */
+  private async close(
+    id: string,
+    status: SalesOrderStatus,
+    from: SalesOrderStatus[],
+    { restock = false, reason }: CloseSalesOrderDto,
+    userId: string,
+  ): Promise<SalesOrder> {
+    await this.connection.transaction(async () => {
+      const order = await this.findWithStatus(id, from);
+
+      if (restock && order.status === SalesOrderStatus.FULFILLED) {
+        for (const line of order.lines) {
+          const adjustment =
+            await this.stockAdjustmentsService.handleSaleReturn(
+              line.product,
+              line.quantity,
+              line.unitCost ?? 0,
+              { _id: order._id, orderNumber: order.orderNumber },
+              userId,
+              `Sales order ${order.orderNumber} ${status} - ${line.quantity} units restocked`,
+              order.location,
+            );
+          line.returnAdjustment = adjustment._id;
+        }
+        order.restocked = true;
+      }
+
+      order.status = status;
+      order.closedBy = new Types.ObjectId(userId);
+      order.closedAt = new Date();
+      order.closeReason = reason ?? '';
+      await order.save();
+    });
+
+    return this.findOne(id);
+  }
+
+  private async findWithStatus(
+    id: string,
+    statuses: SalesOrderStatus[],
+  ): Promise<SalesOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Sales order not found');
+    }
+
+    const order = await this.salesOrderModel.findById(id);
+    if (!order) {
+      throw new NotFoundException('Sales order not found');
+    }
+
+    if (!statuses.includes(order.status)) {
+      throw new BadRequestException(
+        `Sales order ${order.orderNumber} is already ${order.status}`,
+      );
+    }
+
+    return order;
+  }
+}
@@ -0,0 +1,42 @@
+import { SalesChannel } from '../enums/SalesChannel.enum';
+
+/** Column names in a channel's order export */
+export type SalesImportLayout = {
+  orderId: string;
+  sku: string;
+  name: string;
+  quantity: string;
+  price: string;
+  lineDiscount?: string;
+  orderDiscount?: string; // Only filled on the first row of each order
+  customerName: string;
+  customerEmail?: string;
+  orderedAt: string;
+};
+
+export const IMPORT_LAYOUTS: Partial<Record<SalesChannel, SalesImportLayout>> =
+  {
+    // Etsy "Sold Order Items" export, one row per item
+    [SalesChannel.ETSY]: {
+      orderId: 'Order ID',
+      sku: 'SKU',
+      name: 'Item Name',
+      quantity: 'Quantity',
+      price: 'Price',
+      lineDiscount: 'Discount Amount',
+      customerName: 'Ship Name',
+      orderedAt: 'Sale Date',
+    },
+    // Shopify orders export, one row per line item
+    [SalesChannel.SHOPIFY]: {
+      orderId: 'Name',
+      sku: 'Lineitem sku',
+      name: 'Lineitem name',
+      quantity: 'Lineitem quantity',
+      price: 'Lineitem price',
+      orderDiscount: 'Discount Amount',
+      customerName: 'Billing Name',
+      customerEmail: 'Email',
+      orderedAt: 'Created at',
+    },
+  };
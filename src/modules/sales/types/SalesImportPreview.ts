@@ -0,0 +1,35 @@
+export type SalesImportLine = {
+  externalSku: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  product: { _id: string; name: string; sku: string } | null; // null when unmatched
+};
+
+export type SalesImportOrder = {
+  externalReference: string;
+  customerName: string;
+  customerEmail?: string;
+  orderedAt: Date;
+  discount: number;
+  lines: SalesImportLine[];
+  alreadyImported: boolean;
+};
+
+export type SalesImportPreview = {
+  orders: SalesImportOrder[];
+  unmatchedSkus: { externalSku: string; name: string }[];
+  totals: {
+    orders: number;
+    readyToImport: number;
+    alreadyImported: number;
+    withUnmatchedLines: number;
+  };
+};
+
+export type SalesImportResult = {
+  imported: { externalReference: string; orderNumber: string }[];
+  skipped: { externalReference: string; reason: string }[];
+  failed: { externalReference: string; reason: string }[];
+};
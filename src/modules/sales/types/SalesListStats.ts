@@ -0,0 +1,6 @@
+export type SalesListStats = {
+  totalOrders: number;
+  revenue: number;
+  costOfGoods: number;
+  grossProfit: number;
+};
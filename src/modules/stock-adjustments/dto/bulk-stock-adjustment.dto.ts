@@ -0,0 +1,11 @@
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, ValidateNested } from 'class-validator';
+import { CreateStockAdjustmentDto } from './create-stock-adjustment.dto';
+
+export class BulkStockAdjustmentDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CreateStockAdjustmentDto)
+  adjustments: CreateStockAdjustmentDto[];
+}
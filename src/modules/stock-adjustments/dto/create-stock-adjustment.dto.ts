@@ -0,0 +1,36 @@
+import {
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class CreateStockAdjustmentDto {
+  @IsMongoId()
+  itemId: string;
+
+  @IsIn(['material', 'product'])
+  itemType: 'material' | 'product';
+
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+
+  @IsIn(['increase', 'decrease', 'correction'])
+  type: 'increase' | 'decrease' | 'correction';
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  /**
+   * Location the stock is added to or removed from. A correction with a
+   * location sets the quantity held there rather than the total.
+   */
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+}
@@ -0,0 +1,47 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsEnum, IsIn, IsMongoId, IsOptional } from 'class-validator';
+import { AdjustmentType } from '../schemas/stock-adjustment.schema';
+
+export class StockAdjustmentFiltersDto {
+  @IsOptional()
+  @IsMongoId()
+  itemId?: string;
+
+  @IsOptional()
+  @IsIn(['material', 'product'])
+  itemType?: 'material' | 'product';
+
+  @IsOptional()
+  @IsEnum(AdjustmentType)
+  adjustmentType?: AdjustmentType;
+
+  @IsOptional()
+  @IsMongoId()
+  adjustedBy?: string;
+
+  @IsOptional()
+  @IsMongoId()
+  location?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+}
+
+export class AdjustmentSummaryQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+}
@@ -0,0 +1,28 @@
+import {
+  IsIn,
+  IsMongoId,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+export class TransferStockDto {
+  @IsMongoId()
+  itemId: string;
+
+  @IsIn(['material', 'product'])
+  itemType: 'material' | 'product';
+
+  @IsMongoId()
+  fromLocation: string;
+
+  @IsMongoId()
+  toLocation: string;
+
+  @IsPositive()
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
 
 export type StockAdjustmentDocument = HydratedDocument<StockAdjustment>;
 
@@ -9,10 +10,17 @@ export enum AdjustmentType {
   REVERSAL = 'reversal',
   BREAKAGE = 'breakage',
   WASTE = 'waste',
+  TRANSFER = 'transfer',
+  SALE = 'sale',
+  RETURN = 'return',
+  RECEIPT = 'receipt',
 }
 
 @Schema({ timestamps: true })
 export class StockAdjustment {
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
   @Prop({ type: Types.ObjectId, ref: 'Material' })
   material: Types.ObjectId;
 
@@ -31,6 +39,9 @@ export class StockAdjustment {
   @Prop({ type: Types.ObjectId, ref: 'Unit' })
   unit: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId; // Where the stock moved; totals are in previous/newStock
+
   @Prop({ required: true })
   previousStock: number;
 
@@ -46,6 +57,15 @@ export class StockAdjustment {
   @Prop()
   orderNumber: string; // For purchase tracking
 
+  @Prop()
+  transferNumber: string; // Pairs the two sides of a transfer
+
+  @Prop({ type: Types.ObjectId, ref: 'SalesOrder' })
+  salesOrder: Types.ObjectId; // For goods sold, returned or restocked
+
+  @Prop({ type: Types.ObjectId, ref: 'Stocktake' })
+  stocktake: Types.ObjectId; // For corrections committed from a stock count
+
   @Prop({ min: 0 })
   unitCost: number; // Cost per unit at time of adjustment
 
@@ -56,8 +76,13 @@ export class StockAdjustment {
   adjustedBy: Types.ObjectId;
 
   @Prop({ type: Types.ObjectId, ref: 'Product' })
-  relatedProduct: Types.ObjectId; // For material adjustments related to production
+  relatedProduct: Types.ObjectId; // Product being made when materials or sub-assemblies were used
 }
 
 export const StockAdjustmentSchema =
   SchemaFactory.createForClass(StockAdjustment);
+
+StockAdjustmentSchema.plugin(workspaceScopePlugin);
+
+StockAdjustmentSchema.index({ workspace: 1, createdAt: -1 });
+StockAdjustmentSchema.index({ workspace: 1, transferNumber: 1 });
@@ -1,7 +1,118 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  BadRequestException,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
 import { StockAdjustmentsService } from './stock-adjustments.service';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { StockAdjustment } from './schemas/stock-adjustment.schema';
+import { CreateStockAdjustmentDto } from './dto/create-stock-adjustment.dto';
+import { BulkStockAdjustmentDto } from './dto/bulk-stock-adjustment.dto';
+import { TransferStockDto } from './dto/transfer-stock.dto';
+import {
+  AdjustmentSummaryQueryDto,
+  StockAdjustmentFiltersDto,
+} from './dto/stock-adjustment-filters.dto';
 
+@RequireVerified()
 @Controller('stock-adjustments')
 export class StockAdjustmentsController {
-  constructor(private readonly stockAdjustmentsService: StockAdjustmentsService) {}
+  constructor(
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+  ) {}
+
+  /** records breakage, found stock or a corrected count for one item */
+  @Post()
+  async createManualAdjustment(
+    @Body() createStockAdjustmentDto: CreateStockAdjustmentDto,
+    @GetUser() user: User,
+  ): Promise<StockAdjustment> {
+    return this.stockAdjustmentsService.createManualAdjustment(
+      createStockAdjustmentDto.itemId,
+      createStockAdjustmentDto.itemType,
+      createStockAdjustmentDto.quantity,
+      createStockAdjustmentDto.type,
+      createStockAdjustmentDto.reason,
+      user._id!,
+      { location: createStockAdjustmentDto.location },
+    );
+  }
+
+  /** moves stock between two locations, e.g. workshop to market stall */
+  @Post('transfer')
+  async transferStock(
+    @Body() transferStockDto: TransferStockDto,
+    @GetUser() user: User,
+  ): Promise<StockAdjustment[]> {
+    return this.stockAdjustmentsService.transferStock(
+      transferStockDto,
+      user._id!,
+    );
+  }
+
+  @Post('bulk')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async bulkAdjustStock(
+    @Body() bulkStockAdjustmentDto: BulkStockAdjustmentDto,
+    @GetUser() user: User,
+  ): Promise<StockAdjustment[]> {
+    return this.stockAdjustmentsService.bulkAdjustStock(
+      bulkStockAdjustmentDto.adjustments,
+      user._id!,
+    );
+  }
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: StockAdjustmentFiltersDto,
+  ): Promise<PaginatedResponse<StockAdjustment>> {
+    return this.stockAdjustmentsService.findAll(page, pageSize, body);
+  }
+
+  @Get('summary')
+  async getAdjustmentSummary(@Query() query: AdjustmentSummaryQueryDto) {
+    return this.stockAdjustmentsService.getAdjustmentSummary(
+      query.startDate,
+      query.endDate,
+    );
+  }
+
+  @Get('batch/:batchNumber')
+  async getProductionBatchAdjustments(
+    @Param('batchNumber') batchNumber: string,
+  ): Promise<StockAdjustment[]> {
+    return this.stockAdjustmentsService.getProductionBatchAdjustments(
+      batchNumber,
+    );
+  }
+
+  @Get(':itemType/:itemId')
+  async getAdjustmentHistory(
+    @Param('itemType') itemType: string,
+    @Param('itemId') itemId: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<StockAdjustment[]> {
+    if (itemType !== 'material' && itemType !== 'product') {
+      throw new BadRequestException(`Invalid item type: ${itemType}`);
+    }
+
+    return this.stockAdjustmentsService.getAdjustmentHistory(
+      itemId,
+      itemType,
+      limit,
+    );
+  }
 }
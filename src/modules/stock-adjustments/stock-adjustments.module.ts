@@ -8,9 +8,17 @@ import {
 import { StockAdjustmentsService } from './stock-adjustments.service';
 import { Product, ProductSchema } from '../products/schemas/product.schema';
 import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { LocationsModule } from '../locations/locations.module';
+import { LotsModule } from '../lots/lots.module';
+import { CostingModule } from '../costing/costing.module';
+import { UnitsModule } from '../units/units.module';
 
 @Module({
   imports: [
+    LocationsModule,
+    LotsModule,
+    CostingModule,
+    UnitsModule,
     MongooseModule.forFeature([
       { name: StockAdjustment.name, schema: StockAdjustmentSchema },
       { name: Product.name, schema: ProductSchema },
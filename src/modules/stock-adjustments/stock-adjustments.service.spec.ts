@@ -1,12 +1,101 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { StockAdjustmentsService } from './stock-adjustments.service';
+import {
+  AdjustmentType,
+  StockAdjustment,
+} from './schemas/stock-adjustment.schema';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { CostingService } from 'src/modules/costing/services/costing.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+// `instanceof` on the injected model tells materials from products
+class MaterialModel {
+  static findById = jest.fn();
+}
+class ProductModel {
+  static findById = jest.fn();
+}
 
 describe('StockAdjustmentsService', () => {
   let service: StockAdjustmentsService;
+  let connection: ReturnType<typeof mockConnection>;
+  let stockAdjustmentModel: Record<string, jest.Mock>;
+  let locationsService: Record<string, jest.Mock>;
+  let lotsService: Record<string, jest.Mock>;
+  let costingService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+  const defaultLocation = new Types.ObjectId();
+
+  const material = (fields = {}) =>
+    Object.assign(new MaterialModel(), {
+      _id: new Types.ObjectId(),
+      name: 'Soy wax',
+      unit: new Types.ObjectId(),
+      currentStock: 10,
+      averageCost: 2,
+      save: jest.fn().mockResolvedValue(undefined),
+      ...fields,
+    });
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    connection = mockConnection();
+    stockAdjustmentModel = {
+      find: jest.fn(),
+      countDocuments: jest.fn(),
+      aggregate: jest.fn().mockResolvedValue([]),
+      create: jest.fn((data) => Promise.resolve(data)),
+    };
+    locationsService = {
+      resolveLocationId: jest.fn((id) =>
+        Promise.resolve(id ? new Types.ObjectId(id) : defaultLocation),
+      ),
+      getQuantityAt: jest.fn(),
+      // Mirrors the real bookkeeping on currentStock
+      applyStockChange: jest.fn((item, _location, delta) => {
+        item.currentStock += delta;
+        return Promise.resolve();
+      }),
+    };
+    lotsService = {
+      consume: jest.fn().mockResolvedValue([]),
+      createFromReceipt: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+      transfer: jest.fn().mockResolvedValue(undefined),
+    };
+    costingService = {
+      onIssue: jest.fn().mockResolvedValue({ unitCost: 2, totalCost: 0 }),
+      onReceipt: jest.fn().mockResolvedValue(undefined),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [StockAdjustmentsService],
+      providers: [
+        StockAdjustmentsService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(Material.name), useValue: MaterialModel },
+        { provide: getModelToken(Product.name), useValue: ProductModel },
+        {
+          provide: getModelToken(StockAdjustment.name),
+          useValue: stockAdjustmentModel,
+        },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: LotsService, useValue: lotsService },
+        { provide: CostingService, useValue: costingService },
+        {
+          provide: UnitsService,
+          useValue: {
+            convert: jest.fn((quantity) => Promise.resolve(quantity)),
+          },
+        },
+      ],
     }).compile();
 
     service = module.get<StockAdjustmentsService>(StockAdjustmentsService);
@@ -15,4 +104,405 @@ describe('StockAdjustmentsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findAll', () => {
+    it('filters the log and pages through it', async () => {
+      const query = mockQuery([]);
+      stockAdjustmentModel.find.mockReturnValue(query);
+      stockAdjustmentModel.countDocuments.mockResolvedValue(25);
+      const itemId = new Types.ObjectId().toString();
+
+      const result = await service.findAll(3, 10, {
+        itemType: 'material',
+        itemId,
+        adjustmentType: AdjustmentType.BREAKAGE,
+      });
+
+      expect(stockAdjustmentModel.find).toHaveBeenCalledWith({
+        itemType: 'material',
+        material: new Types.ObjectId(itemId),
+        adjustmentType: AdjustmentType.BREAKAGE,
+      });
+      expect(query.skip).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(10);
+      expect(result).toEqual({ data: [], page: 3, pageSize: 10, total: 25 });
+    });
+
+    it('matches an item of either type when no type is given', async () => {
+      stockAdjustmentModel.find.mockReturnValue(mockQuery([]));
+      stockAdjustmentModel.countDocuments.mockResolvedValue(0);
+      const itemId = new Types.ObjectId();
+
+      await service.findAll(1, 10, { itemId: itemId.toString() });
+
+      expect(stockAdjustmentModel.find).toHaveBeenCalledWith({
+        $or: [{ material: itemId }, { product: itemId }],
+      });
+    });
+  });
+
+  describe('getAdjustmentSummary', () => {
+    it('counts from a start date with no end', async () => {
+      stockAdjustmentModel.countDocuments.mockResolvedValue(0);
+      const startDate = new Date('2026-01-01');
+
+      await service.getAdjustmentSummary(startDate);
+
+      expect(stockAdjustmentModel.countDocuments).toHaveBeenCalledWith({
+        createdAt: { $gte: startDate },
+      });
+    });
+
+    it('counts up to an end date with no start', async () => {
+      stockAdjustmentModel.countDocuments.mockResolvedValue(0);
+      const endDate = new Date('2026-01-31');
+
+      await service.getAdjustmentSummary(undefined, endDate);
+
+      expect(stockAdjustmentModel.aggregate).toHaveBeenCalledWith([
+        { $match: { createdAt: { $lte: endDate } } },
+        expect.anything(),
+      ]);
+    });
+  });
+
+  describe('bulkAdjustStock', () => {
+    it('applies every adjustment in one transaction', async () => {
+      const wax = material();
+      MaterialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+
+      const results = await service.bulkAdjustStock(
+        [
+          {
+            itemId: wax._id.toString(),
+            itemType: 'material',
+            quantity: 2,
+            type: 'decrease',
+            reason: 'Spilt',
+          },
+        ],
+        userId,
+      );
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(results).toHaveLength(1);
+      expect(results[0].quantity).toBe(-2);
+    });
+
+    it('fails as a whole when one adjustment fails', async () => {
+      MaterialModel.findById
+        .mockResolvedValueOnce(material())
+        .mockResolvedValueOnce(null);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+
+      await expect(
+        service.bulkAdjustStock(
+          [
+            {
+              itemId: new Types.ObjectId().toString(),
+              itemType: 'material',
+              quantity: 1,
+              type: 'decrease',
+              reason: 'Spilt',
+            },
+            {
+              itemId: new Types.ObjectId().toString(),
+              itemType: 'material',
+              quantity: 1,
+              type: 'decrease',
+              reason: 'Spilt',
+            },
+          ],
+          userId,
+        ),
+      ).rejects.toThrow('material not found');
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('transferStock', () => {
+    const shed = new Types.ObjectId();
+
+    it('moves stock and its lots between locations', async () => {
+      const wax = material();
+      MaterialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+
+      const [out, into] = await service.transferStock(
+        {
+          itemId: wax._id.toString(),
+          itemType: 'material',
+          quantity: 4,
+          fromLocation: defaultLocation.toString(),
+          toLocation: shed.toString(),
+        },
+        userId,
+      );
+
+      expect(locationsService.applyStockChange).toHaveBeenCalledWith(
+        wax,
+        defaultLocation,
+        -4,
+      );
+      expect(locationsService.applyStockChange).toHaveBeenCalledWith(
+        wax,
+        shed,
+        4,
+      );
+      expect(lotsService.transfer).toHaveBeenCalledWith(
+        wax,
+        4,
+        defaultLocation,
+        shed,
+        10,
+      );
+      expect(wax.currentStock).toBe(10);
+      expect(out).toMatchObject({ location: defaultLocation, quantity: -4 });
+      expect(into).toMatchObject({ location: shed, quantity: 4 });
+      expect(out.transferNumber).toBe(into.transferNumber);
+    });
+
+    it('refuses a transfer to the same location', async () => {
+      await expect(
+        service.transferStock(
+          {
+            itemId: new Types.ObjectId().toString(),
+            itemType: 'material',
+            quantity: 1,
+            fromLocation: shed.toString(),
+            toLocation: shed.toString(),
+          },
+          userId,
+        ),
+      ).rejects.toThrow('Cannot transfer to the same location');
+    });
+  });
+
+  describe('createManualAdjustment', () => {
+    it('takes a decrease from the oldest lots at the location', async () => {
+      const wax = material();
+      const lots = [{ lot: new Types.ObjectId(), quantity: 3 }];
+      MaterialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(6);
+      lotsService.consume.mockResolvedValue(lots);
+      costingService.onIssue.mockResolvedValue({ unitCost: 2, totalCost: 6 });
+
+      const adjustment = await service.createManualAdjustment(
+        wax._id.toString(),
+        'material',
+        3,
+        'decrease',
+        'Spilt',
+        userId,
+      );
+
+      expect(lotsService.consume).toHaveBeenCalledWith(
+        wax,
+        3,
+        defaultLocation,
+        6,
+      );
+      expect(costingService.onIssue).toHaveBeenCalledWith(wax, 10, 3, lots);
+      expect(adjustment).toMatchObject({
+        adjustmentType: AdjustmentType.BREAKAGE,
+        quantity: -3,
+        newStock: 7,
+        totalCost: 6,
+      });
+    });
+
+    it('puts stock found into a lot at the current average cost', async () => {
+      const wax = material({ averageCost: 2.5 });
+      MaterialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+
+      const adjustment = await service.createManualAdjustment(
+        wax._id.toString(),
+        'material',
+        4,
+        'increase',
+        'Found in the shed',
+        userId,
+      );
+
+      expect(lotsService.createFromReceipt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          material: wax._id,
+          quantity: 4,
+          unitCost: 2.5,
+          location: defaultLocation,
+        }),
+      );
+      expect(costingService.onReceipt).toHaveBeenCalledWith(wax, 10, 4, 10);
+      expect(lotsService.consume).not.toHaveBeenCalled();
+      expect(adjustment).toMatchObject({ unitCost: 2.5, totalCost: 10 });
+    });
+
+    it('corrects to a count at the location rather than in total', async () => {
+      const wax = material();
+      MaterialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(4);
+      const shed = new Types.ObjectId();
+
+      const adjustment = await service.createManualAdjustment(
+        wax._id.toString(),
+        'material',
+        6,
+        'correction',
+        'Counted',
+        userId,
+        { location: shed },
+      );
+
+      expect(adjustment.quantity).toBe(2);
+      expect(locationsService.applyStockChange).toHaveBeenCalledWith(
+        wax,
+        shed,
+        2,
+      );
+    });
+
+    it('keeps lots out of product adjustments', async () => {
+      const candle = Object.assign(new ProductModel(), {
+        _id: new Types.ObjectId(),
+        currentStock: 5,
+        save: jest.fn().mockResolvedValue(undefined),
+      });
+      ProductModel.findById.mockResolvedValue(candle);
+      locationsService.getQuantityAt.mockResolvedValue(5);
+
+      await service.createManualAdjustment(
+        candle._id.toString(),
+        'product',
+        2,
+        'increase',
+        'Returned',
+        userId,
+      );
+
+      expect(lotsService.createFromReceipt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleProductionDeduction', () => {
+    it('takes component products and packaging out of stock for a bundle', async () => {
+      const candle = Object.assign(new ProductModel(), {
+        _id: new Types.ObjectId(),
+        name: 'Candle',
+        currentStock: 10,
+        averageUnitCost: 6,
+        save: jest.fn().mockResolvedValue(undefined),
+      });
+      const box = material({ name: 'Gift box', currentStock: 20 });
+      const giftSet = {
+        _id: new Types.ObjectId(),
+        name: 'Gift set',
+        recipe: [
+          { itemType: 'product', product: candle._id, quantity: 2 },
+          { itemType: 'material', material: box, quantity: 1, unit: box.unit },
+        ],
+      };
+      ProductModel.findById
+        .mockReturnValueOnce(mockQuery(giftSet))
+        .mockResolvedValueOnce(candle);
+      MaterialModel.findById.mockResolvedValue(box);
+      costingService.onIssue.mockResolvedValue({
+        unitCost: 1.5,
+        totalCost: 4.5,
+      });
+
+      const result = await service.handleProductionDeduction(
+        giftSet._id.toString(),
+        3,
+        userId,
+        'ASM-1',
+      );
+
+      expect(candle.currentStock).toBe(4);
+      expect(box.currentStock).toBe(17);
+      expect(result.componentCosts).toEqual([
+        { product: candle._id, quantity: 6, unitCost: 6, totalCost: 36 },
+      ]);
+      expect(result.totalCost).toBe(40.5);
+      expect(stockAdjustmentModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product: candle._id,
+          itemType: 'product',
+          adjustmentType: AdjustmentType.PRODUCTION,
+          quantity: -6,
+          relatedProduct: giftSet._id,
+          batchNumber: 'ASM-1',
+        }),
+      );
+      expect(stockAdjustmentModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          material: box._id,
+          quantity: -3,
+          batchNumber: 'ASM-1',
+        }),
+      );
+    });
+  });
+
+  describe('handleSale', () => {
+    const salesOrder = { _id: new Types.ObjectId(), orderNumber: 'SO-1' };
+
+    it('takes sold goods out of stock at their average cost', async () => {
+      const candle = Object.assign(new ProductModel(), {
+        _id: new Types.ObjectId(),
+        currentStock: 10,
+        averageUnitCost: 2.5,
+        save: jest.fn().mockResolvedValue(undefined),
+      });
+      ProductModel.findById.mockResolvedValue(candle);
+
+      const adjustment = await service.handleSale(
+        candle._id,
+        4,
+        salesOrder,
+        userId,
+      );
+
+      expect(candle.currentStock).toBe(6);
+      expect(adjustment).toMatchObject({
+        adjustmentType: AdjustmentType.SALE,
+        quantity: -4,
+        location: defaultLocation,
+        previousStock: 10,
+        newStock: 6,
+        unitCost: 2.5,
+        totalCost: 10,
+        salesOrder: salesOrder._id,
+      });
+    });
+
+    it('rolls returned goods back into the average cost', async () => {
+      // 6 left at 3, 4 back at 1.5
+      const candle = Object.assign(new ProductModel(), {
+        _id: new Types.ObjectId(),
+        currentStock: 6,
+        averageUnitCost: 3,
+        save: jest.fn().mockResolvedValue(undefined),
+      });
+      ProductModel.findById.mockResolvedValue(candle);
+
+      const adjustment = await service.handleSaleReturn(
+        candle._id,
+        4,
+        1.5,
+        salesOrder,
+        userId,
+        'Refunded',
+      );
+
+      expect(candle.averageUnitCost).toBe(2.4);
+      expect(candle.currentStock).toBe(10);
+      expect(adjustment).toMatchObject({
+        adjustmentType: AdjustmentType.RETURN,
+        quantity: 4,
+        totalCost: 6,
+      });
+    });
+  });
 });
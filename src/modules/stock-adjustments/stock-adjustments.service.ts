@@ -3,8 +3,8 @@ import {
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
 import {
   Product,
   ProductDocument,
@@ -18,16 +18,29 @@ import {
   StockAdjustmentDocument,
   AdjustmentType,
 } from './schemas/stock-adjustment.schema';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { StockAdjustmentFiltersDto } from './dto/stock-adjustment-filters.dto';
+import { TransferStockDto } from './dto/transfer-stock.dto';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { LotsService } from 'src/modules/lots/services/lots.service';
+import { LotUsage } from 'src/modules/lots/types/LotUsage';
+import { CostingService } from 'src/modules/costing/services/costing.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
 
 @Injectable()
 export class StockAdjustmentsService {
   constructor(
+    @InjectConnection() private readonly connection: Connection,
     @InjectModel(Product.name)
     private readonly productModel: Model<ProductDocument>,
     @InjectModel(Material.name)
     private readonly materialModel: Model<MaterialDocument>,
     @InjectModel(StockAdjustment.name)
     private readonly stockAdjustmentModel: Model<StockAdjustmentDocument>,
+    private readonly locationsService: LocationsService,
+    private readonly lotsService: LotsService,
+    private readonly costingService: CostingService,
+    private readonly unitsService: UnitsService,
   ) {}
 
   /**
@@ -40,6 +53,7 @@ export class StockAdjustmentsService {
     quantityProduced: number,
     producedBy?: string,
     batchNumber?: string,
+    locationId?: Types.ObjectId,
   ): Promise<{
     adjustmentIds: Types.ObjectId[];
     materialCosts: Array<{
@@ -47,6 +61,13 @@ export class StockAdjustmentsService {
       quantity: number;
       unitCost: number;
       totalCost: number;
+      lots: LotUsage[];
+    }>;
+    componentCosts: Array<{
+      product: Types.ObjectId;
+      quantity: number;
+      unitCost: number;
+      totalCost: number;
     }>;
     totalCost: number;
   }> {
@@ -57,62 +78,103 @@ export class StockAdjustmentsService {
 
     if (!product) throw new BadRequestException('Product not found');
 
+    const location = await this.locationsService.resolveLocationId(locationId);
     const adjustmentIds: Types.ObjectId[] = [];
     const materialCosts: Array<{
       material: Types.ObjectId;
       quantity: number;
       unitCost: number;
       totalCost: number;
+      lots: LotUsage[];
+    }> = [];
+    const componentCosts: Array<{
+      product: Types.ObjectId;
+      quantity: number;
+      unitCost: number;
+      totalCost: number;
     }> = [];
     let totalCost = 0;
 
     for (const recipeItem of product.recipe) {
+      if (recipeItem.itemType === 'product') {
+        const component = await this.issueSubAssembly(
+          product,
+          recipeItem.product as unknown as Types.ObjectId,
+          recipeItem.quantity * quantityProduced,
+          location,
+          producedBy,
+          batchNumber,
+        );
+        totalCost += component.totalCost;
+        componentCosts.push(component.cost);
+        adjustmentIds.push(component.adjustmentId);
+        continue;
+      }
+
       const material = await this.materialModel.findById(
-        recipeItem.material._id || recipeItem.material,
+        recipeItem.material!._id || recipeItem.material,
       );
 
       if (!material) {
         throw new NotFoundException(
-          `Material ${recipeItem.material.name} not found`,
+          `Material ${recipeItem.material!.name} not found`,
         );
       }
 
-      const requiredQty = recipeItem.quantity * quantityProduced;
+      // Recipes can be written in a different unit to the one stocked
+      const requiredQty =
+        (await this.unitsService.convert(
+          recipeItem.quantity,
+          recipeItem.unit!,
+          material.unit,
+          material,
+        )) * quantityProduced;
       const previousStock = material.currentStock;
-      const newStock = previousStock - requiredQty;
+      const lots = await this.lotsService.consume(
+        material,
+        requiredQty,
+        location,
+      );
 
-      if (newStock < 0) {
-        throw new BadRequestException(
-          `Insufficient stock of ${material.name}. Required: ${requiredQty}, Available: ${previousStock}`,
-        );
-      }
+      // Update material stock at the production location
+      await this.locationsService.applyStockChange(
+        material,
+        location,
+        -requiredQty,
+      );
 
       // Calculate cost for this material
-      const materialCost = requiredQty * material.averageCost;
-      totalCost += materialCost;
+      const cost = await this.costingService.onIssue(
+        material,
+        previousStock,
+        requiredQty,
+        lots,
+      );
+      await material.save();
+      totalCost += cost.totalCost;
 
       materialCosts.push({
         material: material._id,
         quantity: requiredQty,
-        unitCost: material.averageCost,
-        totalCost: materialCost,
+        unitCost: cost.unitCost,
+        totalCost: cost.totalCost,
+        lots,
       });
 
-      // Update material stock
-      material.currentStock = newStock;
-      await material.save();
-
       // Create stock adjustment for production
       const adjustment = await this.stockAdjustmentModel.create({
         material: material._id,
         itemType: 'material',
         adjustmentType: AdjustmentType.PRODUCTION,
         quantity: -requiredQty, // Negative for deduction
-        unit: recipeItem.unit,
+        unit: material.unit,
         relatedProduct: product._id,
+        location,
         adjustedBy: producedBy ? new Types.ObjectId(producedBy) : undefined,
         previousStock,
-        newStock,
+        newStock: material.currentStock,
+        unitCost: cost.unitCost,
+        totalCost: cost.totalCost,
         reason: `Production of ${quantityProduced} units of ${product.name}`,
         batchNumber,
       });
@@ -120,7 +182,69 @@ export class StockAdjustmentsService {
       adjustmentIds.push(adjustment._id);
     }
 
-    return { adjustmentIds, materialCosts, totalCost };
+    return { adjustmentIds, materialCosts, componentCosts, totalCost };
+  }
+
+  /**
+   * Takes a sub-assembly out of finished stock at its average cost, the
+   * same way a material is issued to production.
+   */
+  private async issueSubAssembly(
+    parent: ProductDocument,
+    componentId: Types.ObjectId,
+    quantity: number,
+    location: Types.ObjectId,
+    producedBy?: string,
+    batchNumber?: string,
+  ): Promise<{
+    cost: {
+      product: Types.ObjectId;
+      quantity: number;
+      unitCost: number;
+      totalCost: number;
+    };
+    totalCost: number;
+    adjustmentId: Types.ObjectId;
+  }> {
+    const component = await this.productModel.findById(componentId);
+    if (!component) {
+      throw new NotFoundException(
+        `A product used in the recipe for ${parent.name} no longer exists`,
+      );
+    }
+
+    const previousStock = component.currentStock;
+    const unitCost = component.averageUnitCost || 0;
+    const totalCost = unitCost * quantity;
+
+    await this.locationsService.applyStockChange(
+      component,
+      location,
+      -quantity,
+    );
+    await component.save();
+
+    const adjustment = await this.stockAdjustmentModel.create({
+      product: component._id,
+      itemType: 'product',
+      adjustmentType: AdjustmentType.PRODUCTION,
+      quantity: -quantity,
+      relatedProduct: parent._id,
+      location,
+      adjustedBy: producedBy ? new Types.ObjectId(producedBy) : undefined,
+      previousStock,
+      newStock: component.currentStock,
+      unitCost,
+      totalCost,
+      reason: `Used in production of ${parent.name}`,
+      batchNumber,
+    });
+
+    return {
+      cost: { product: component._id, quantity, unitCost, totalCost },
+      totalCost,
+      adjustmentId: adjustment._id,
+    };
   }
 
   /**
@@ -132,13 +256,16 @@ export class StockAdjustmentsService {
     unitCost: number,
     producedBy?: string,
     batchNumber?: string,
-  ): Promise<StockAdjustment> {
+    locationId?: Types.ObjectId,
+  ): Promise<StockAdjustmentDocument> {
     const product = await this.productModel.findById(productId);
 
     if (!product) {
       throw new NotFoundException('Product not found');
     }
 
+    const location = await this.locationsService.resolveLocationId(locationId);
+
     const previousStock = product.currentStock;
     const newStock = previousStock + quantity;
     const totalCost = unitCost * quantity;
@@ -147,7 +274,7 @@ export class StockAdjustmentsService {
     const oldTotalValue = previousStock * product.averageUnitCost;
     const newTotalValue = oldTotalValue + totalCost;
     product.averageUnitCost = newTotalValue / newStock;
-    product.currentStock = newStock;
+    await this.locationsService.applyStockChange(product, location, quantity);
     await product.save();
 
     // Create adjustment record
@@ -156,6 +283,7 @@ export class StockAdjustmentsService {
       itemType: 'product',
       adjustmentType: AdjustmentType.PRODUCTION,
       quantity: quantity, // Positive for addition
+      location,
       adjustedBy: producedBy ? new Types.ObjectId(producedBy) : undefined,
       previousStock,
       newStock,
@@ -168,6 +296,161 @@ export class StockAdjustmentsService {
     return adjustment;
   }
 
+  /**
+   * Receives material delivered against a purchase order into a new lot and
+   * rolls its cost into the material's average.
+   */
+  async handleGoodsReceipt(
+    materialId: Types.ObjectId,
+    quantity: number,
+    unitCost: number,
+    receipt: {
+      purchaseOrder: Types.ObjectId;
+      orderNumber: string;
+      supplier?: string;
+      supplierLotCode?: string;
+      receivedAt?: Date;
+    },
+    receivedBy: string,
+    locationId?: Types.ObjectId,
+  ): Promise<{ adjustment: StockAdjustmentDocument; lotId: Types.ObjectId }> {
+    const material = await this.materialModel.findById(materialId);
+
+    if (!material) {
+      throw new NotFoundException('Material not found');
+    }
+
+    const location = await this.locationsService.resolveLocationId(locationId);
+    const previousStock = material.currentStock;
+    const totalCost = unitCost * quantity;
+
+    await this.locationsService.applyStockChange(material, location, quantity);
+
+    const lot = await this.lotsService.createFromReceipt({
+      material: material._id,
+      quantity,
+      unitCost,
+      purchaseOrder: receipt.purchaseOrder,
+      location,
+      supplier: receipt.supplier,
+      supplierLotCode: receipt.supplierLotCode,
+      receivedAt: receipt.receivedAt,
+    });
+
+    await this.costingService.onReceipt(
+      material,
+      previousStock,
+      quantity,
+      totalCost,
+    );
+    await material.save();
+
+    const adjustment = await this.stockAdjustmentModel.create({
+      material: material._id,
+      unit: material.unit,
+      itemType: 'material',
+      adjustmentType: AdjustmentType.RECEIPT,
+      quantity,
+      location,
+      adjustedBy: new Types.ObjectId(receivedBy),
+      previousStock,
+      newStock: material.currentStock,
+      unitCost,
+      totalCost,
+      orderNumber: receipt.orderNumber,
+      reason: `Purchase order ${receipt.orderNumber} - ${quantity} received`,
+    });
+
+    return { adjustment, lotId: lot._id };
+  }
+
+  /**
+   * Takes sold goods out of finished stock. Cost of goods sold is the
+   * product's average unit cost at the time.
+   */
+  async handleSale(
+    productId: Types.ObjectId,
+    quantity: number,
+    salesOrder: { _id: Types.ObjectId; orderNumber: string },
+    soldBy: string,
+    locationId?: Types.ObjectId,
+  ): Promise<StockAdjustmentDocument> {
+    const product = await this.productModel.findById(productId);
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const location = await this.locationsService.resolveLocationId(locationId);
+    const previousStock = product.currentStock;
+    const unitCost = product.averageUnitCost || 0;
+
+    await this.locationsService.applyStockChange(product, location, -quantity);
+    await product.save();
+
+    return this.stockAdjustmentModel.create({
+      product: product._id,
+      itemType: 'product',
+      adjustmentType: AdjustmentType.SALE,
+      quantity: -quantity,
+      location,
+      adjustedBy: new Types.ObjectId(soldBy),
+      previousStock,
+      newStock: product.currentStock,
+      unitCost,
+      totalCost: unitCost * quantity,
+      salesOrder: salesOrder._id,
+      orderNumber: salesOrder.orderNumber,
+      reason: `Sales order ${salesOrder.orderNumber} - ${quantity} units sold`,
+    });
+  }
+
+  /**
+   * Puts sold goods back into finished stock at the cost they left at, and
+   * rolls that into the product's average.
+   */
+  async handleSaleReturn(
+    productId: Types.ObjectId,
+    quantity: number,
+    unitCost: number,
+    salesOrder: { _id: Types.ObjectId; orderNumber: string },
+    returnedBy: string,
+    reason: string,
+    locationId?: Types.ObjectId,
+  ): Promise<StockAdjustmentDocument> {
+    const product = await this.productModel.findById(productId);
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const location = await this.locationsService.resolveLocationId(locationId);
+    const previousStock = product.currentStock;
+    const totalCost = unitCost * quantity;
+
+    product.averageUnitCost =
+      (previousStock * product.averageUnitCost + totalCost) /
+      (previousStock + quantity);
+    await this.locationsService.applyStockChange(product, location, quantity);
+    await product.save();
+
+    return this.stockAdjustmentModel.create({
+      product: product._id,
+      itemType: 'product',
+      adjustmentType: AdjustmentType.RETURN,
+      quantity,
+      location,
+      adjustedBy: new Types.ObjectId(returnedBy),
+      previousStock,
+      newStock: product.currentStock,
+      unitCost,
+      totalCost,
+      salesOrder: salesOrder._id,
+      orderNumber: salesOrder.orderNumber,
+      reason,
+    });
+  }
+
   /**
    * Creates a manual stock adjustment for materials or products.
    * Used for corrections, breakage, returns, etc.
@@ -179,9 +462,12 @@ export class StockAdjustmentsService {
     type: 'increase' | 'decrease' | 'correction',
     reason: string,
     adjustedBy: string,
-  ): Promise<StockAdjustment> {
-    let item: any;
-    let newStock: number;
+    references: {
+      stocktake?: Types.ObjectId;
+      location?: string | Types.ObjectId;
+    } = {},
+  ): Promise<StockAdjustmentDocument> {
+    let item: MaterialDocument | ProductDocument | null;
     let adjustmentType: AdjustmentType;
 
     if (itemType === 'material') {
@@ -194,44 +480,90 @@ export class StockAdjustmentsService {
       throw new NotFoundException(`${itemType} not found`);
     }
     const previousStock: number = item.currentStock;
+    const location = await this.locationsService.resolveLocationId(
+      references.location,
+    );
 
     switch (type) {
       case 'increase':
-        newStock = previousStock + quantity;
         adjustmentType = AdjustmentType.CORRECTION;
         break;
       case 'decrease':
-        newStock = previousStock - quantity;
         adjustmentType = AdjustmentType.BREAKAGE;
         quantity = -quantity; // Store as negative
         break;
-      case 'correction':
-        newStock = quantity; // Set to specific value
-        quantity = quantity - previousStock; // Calculate difference
+      case 'correction': {
+        // Set to specific value, either at the location or in total
+        const current = references.location
+          ? await this.locationsService.getQuantityAt(item, location)
+          : previousStock;
+        quantity = quantity - current; // Calculate difference
         adjustmentType = AdjustmentType.CORRECTION;
         break;
+      }
     }
 
-    if (newStock < 0) {
-      throw new BadRequestException('Stock cannot be negative');
+    const heldBefore = await this.locationsService.getQuantityAt(
+      item,
+      location,
+    );
+
+    // Update stock, rejecting anything that would go negative
+    await this.locationsService.applyStockChange(item, location, quantity);
+
+    // Material that leaves stock comes out of the oldest lots held there
+    let cost: { unitCost: number; totalCost: number } | undefined;
+    if (item instanceof this.materialModel && quantity < 0) {
+      const lots = await this.lotsService.consume(
+        item,
+        -quantity,
+        location,
+        heldBefore,
+      );
+      cost = await this.costingService.onIssue(
+        item,
+        previousStock,
+        -quantity,
+        lots,
+      );
     }
 
-    // Update stock
-    item.currentStock = newStock;
+    // Material found or added goes into a lot at the current average cost,
+    // so it is not drawn ahead of older, priced lots
+    if (item instanceof this.materialModel && quantity > 0) {
+      const unitCost = item.averageCost || 0;
+      await this.lotsService.createFromReceipt({
+        material: item._id,
+        quantity,
+        unitCost,
+        location,
+        lotNumber: `ADJ-${Date.now()}`,
+      });
+      await this.costingService.onReceipt(
+        item,
+        previousStock,
+        quantity,
+        quantity * unitCost,
+      );
+      cost = { unitCost, totalCost: quantity * unitCost };
+    }
     await item.save();
 
     // Create adjustment record
     const adjustmentData: any = {
+      stocktake: references.stocktake,
+      location,
       itemType,
       adjustmentType,
       quantity,
       adjustedBy: new Types.ObjectId(adjustedBy),
       previousStock,
-      newStock,
+      newStock: item.currentStock,
       reason,
+      ...cost,
     };
 
-    if (itemType === 'material') {
+    if (item instanceof this.materialModel) {
       adjustmentData.material = item._id;
       adjustmentData.unit = item.unit;
     } else {
@@ -242,6 +574,134 @@ export class StockAdjustmentsService {
     return adjustment;
   }
 
+  /**
+   * Moves stock of one item between two locations. Writes a TRANSFER
+   * adjustment for each side, linked by a shared transfer number.
+   */
+  async transferStock(
+    transferStockDto: TransferStockDto,
+    adjustedBy: string,
+  ): Promise<StockAdjustment[]> {
+    const { itemId, itemType, quantity } = transferStockDto;
+
+    if (transferStockDto.fromLocation === transferStockDto.toLocation) {
+      throw new BadRequestException('Cannot transfer to the same location');
+    }
+
+    return await this.connection.transaction(async () => {
+      const item =
+        itemType === 'material'
+          ? await this.materialModel.findById(itemId)
+          : await this.productModel.findById(itemId);
+
+      if (!item) {
+        throw new NotFoundException(`${itemType} not found`);
+      }
+
+      const [from, to] = await Promise.all([
+        this.locationsService.resolveLocationId(transferStockDto.fromLocation),
+        this.locationsService.resolveLocationId(transferStockDto.toLocation),
+      ]);
+
+      const heldBefore = await this.locationsService.getQuantityAt(item, from);
+
+      await this.locationsService.applyStockChange(item, from, -quantity);
+      await this.locationsService.applyStockChange(item, to, quantity);
+
+      // Lots go with the material so it is drawn from where it is held
+      if (item instanceof this.materialModel) {
+        await this.lotsService.transfer(item, quantity, from, to, heldBefore);
+      }
+      await item.save();
+
+      const transferNumber = `TRF-${Date.now()}`;
+      const base = {
+        [itemType]: item._id,
+        unit: item instanceof this.materialModel ? item.unit : undefined,
+        itemType,
+        adjustmentType: AdjustmentType.TRANSFER,
+        adjustedBy: new Types.ObjectId(adjustedBy),
+        // a transfer never changes the total held
+        previousStock: item.currentStock,
+        newStock: item.currentStock,
+        reason: transferStockDto.reason ?? `Transfer ${transferNumber}`,
+        transferNumber,
+      };
+
+      return this.stockAdjustmentModel.create([
+        { ...base, location: from, quantity: -quantity },
+        { ...base, location: to, quantity },
+      ]);
+    });
+  }
+
+  /**
+   * Paginated adjustment log filtered by item, type, user, location and
+   * date range.
+   */
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: StockAdjustmentFiltersDto,
+  ): Promise<PaginatedResponse<StockAdjustment>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<StockAdjustment> = {};
+
+    if (filters?.itemType) {
+      query.itemType = filters.itemType;
+    }
+
+    if (filters?.itemId) {
+      const itemId = new Types.ObjectId(filters.itemId);
+      if (filters.itemType) {
+        query[filters.itemType] = itemId;
+      } else {
+        query.$or = [{ material: itemId }, { product: itemId }];
+      }
+    }
+
+    if (filters?.adjustmentType) {
+      query.adjustmentType = filters.adjustmentType;
+    }
+
+    if (filters?.adjustedBy) {
+      query.adjustedBy = new Types.ObjectId(filters.adjustedBy);
+    }
+
+    if (filters?.location) {
+      query.location = new Types.ObjectId(filters.location);
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      query.createdAt = {
+        ...(filters.startDate && { $gte: filters.startDate }),
+        ...(filters.endDate && { $lte: filters.endDate }),
+      };
+    }
+
+    const [data, total] = await Promise.all([
+      this.stockAdjustmentModel
+        .find(query)
+        .populate('adjustedBy', 'name email')
+        .populate('material', 'name sku')
+        .populate('product', 'name sku')
+        .populate('unit', 'name abbreviation')
+        .populate('location', 'name')
+        .sort('-createdAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.stockAdjustmentModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+    };
+  }
+
   /**
    * Gets adjustment history for a material or product.
    */
@@ -292,24 +752,29 @@ export class StockAdjustmentsService {
       quantity: number;
       type: 'increase' | 'decrease' | 'correction';
       reason: string;
+      location?: string;
     }>,
     adjustedBy: string,
   ): Promise<StockAdjustment[]> {
-    const results: StockAdjustment[] = [];
-
-    for (const adjustment of adjustments) {
-      const result = await this.createManualAdjustment(
-        adjustment.itemId,
-        adjustment.itemType,
-        adjustment.quantity,
-        adjustment.type,
-        adjustment.reason,
-        adjustedBy,
-      );
-      results.push(result);
-    }
+    // All or nothing so a count is never left half applied
+    return await this.connection.transaction(async () => {
+      const results: StockAdjustment[] = [];
+
+      for (const adjustment of adjustments) {
+        const result = await this.createManualAdjustment(
+          adjustment.itemId,
+          adjustment.itemType,
+          adjustment.quantity,
+          adjustment.type,
+          adjustment.reason,
+          adjustedBy,
+          { location: adjustment.location },
+        );
+        results.push(result);
+      }
 
-    return results;
+      return results;
+    });
   }
 
   /**
@@ -335,10 +800,10 @@ export class StockAdjustmentsService {
   }> {
     const query: any = {};
 
-    if (startDate && endDate) {
+    if (startDate || endDate) {
       query.createdAt = {
-        $gte: startDate,
-        $lte: endDate,
+        ...(startDate && { $gte: startDate }),
+        ...(endDate && { $lte: endDate }),
       };
     }
 
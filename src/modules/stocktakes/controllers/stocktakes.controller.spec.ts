@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StocktakesController } from './stocktakes.controller';
+import { StocktakesService } from '../services/stocktakes.service';
+
+describe('StocktakesController', () => {
+  let controller: StocktakesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [StocktakesController],
+      providers: [{ provide: StocktakesService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<StocktakesController>(StocktakesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
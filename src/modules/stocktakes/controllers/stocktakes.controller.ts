@@ -0,0 +1,71 @@
+import { Body, Controller, Get, Param, Post, Put, Query } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { User } from 'src/modules/user/schemas/User.schema';
+import { StocktakesService } from '../services/stocktakes.service';
+import { Stocktake } from '../schemas/stocktake.schema';
+import { CreateStocktakeDto } from '../dto/create-stocktake.dto';
+import { RecordCountsDto } from '../dto/record-counts.dto';
+import { StocktakeFiltersDto } from '../dto/stocktake-filters.dto';
+
+@RequireVerified()
+@Controller('stocktakes')
+export class StocktakesController {
+  constructor(private readonly stocktakesService: StocktakesService) {}
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async open(
+    @Body() createStocktakeDto: CreateStocktakeDto,
+    @GetUser() user: User,
+  ): Promise<Stocktake> {
+    return this.stocktakesService.open(createStocktakeDto, user._id!);
+  }
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: StocktakeFiltersDto,
+  ): Promise<PaginatedResponse<Stocktake>> {
+    return this.stocktakesService.findAll(page, pageSize, body);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<Stocktake> {
+    return this.stocktakesService.findOne(id);
+  }
+
+  @Get(':id/variances')
+  async getVariances(@Param('id') id: string) {
+    return this.stocktakesService.getVariances(id);
+  }
+
+  /** anyone on the team can enter counts while the session is open */
+  @Put(':id/counts')
+  async recordCounts(
+    @Param('id') id: string,
+    @Body() recordCountsDto: RecordCountsDto,
+    @GetUser() user: User,
+  ): Promise<Stocktake> {
+    return this.stocktakesService.recordCounts(id, recordCountsDto, user._id!);
+  }
+
+  @Post(':id/commit')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async commit(@Param('id') id: string, @GetUser() user: User) {
+    return this.stocktakesService.commit(id, user._id!);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async cancel(
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ): Promise<Stocktake> {
+    return this.stocktakesService.cancel(id, user._id!);
+  }
+}
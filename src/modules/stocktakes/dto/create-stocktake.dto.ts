@@ -0,0 +1,41 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { MaterialCategory } from 'src/modules/materials/schemas/material.schema';
+import { ProductCategory } from 'src/modules/products/schemas/product.schema';
+
+export class CreateStocktakeDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsBoolean()
+  @IsOptional()
+  includeMaterials?: boolean = true;
+
+  @IsBoolean()
+  @IsOptional()
+  includeProducts?: boolean = true;
+
+  @IsEnum(MaterialCategory)
+  @IsOptional()
+  materialCategory?: MaterialCategory;
+
+  @IsEnum(ProductCategory)
+  @IsOptional()
+  productCategory?: ProductCategory;
+
+  /** Required once there is more than one location, else the default */
+  @IsMongoId()
+  @IsOptional()
+  location?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
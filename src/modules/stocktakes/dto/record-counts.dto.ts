@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class StocktakeCountDto {
+  @IsMongoId()
+  lineId: string;
+
+  @IsNumber()
+  @Min(0)
+  countedQuantity: number;
+
+  /** Unit the count was taken in when it differs from the line's unit */
+  @IsMongoId()
+  @IsOptional()
+  unit?: string;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+export class RecordCountsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => StocktakeCountDto)
+  counts: StocktakeCountDto[];
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { StocktakeStatus } from '../schemas/stocktake.schema';
+
+export class StocktakeFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsEnum(StocktakeStatus)
+  status?: StocktakeStatus;
+}
@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+@Schema({ _id: false })
+export class StocktakeCount {
+  @Prop({ required: true, min: 0 })
+  quantity: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  countedBy: Types.ObjectId;
+
+  @Prop({ required: true })
+  countedAt: Date;
+
+  @Prop()
+  note: string;
+}
+
+export const StocktakeCountSchema =
+  SchemaFactory.createForClass(StocktakeCount);
+
+@Schema()
+export class StocktakeLine {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['material', 'product'] })
+  itemType: 'material' | 'product';
+
+  @Prop({ type: Types.ObjectId, ref: 'Material' })
+  material?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product' })
+  product?: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string; // Snapshot so closed sessions still read correctly
+
+  @Prop()
+  sku: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Unit' })
+  unit?: Types.ObjectId;
+
+  @Prop({ required: true })
+  expectedQuantity: number; // Stock level when the session was opened
+
+  @Prop({ default: 0, min: 0 })
+  unitCost: number; // averageCost / averageUnitCost when the session was opened
+
+  @Prop({ min: 0 })
+  countedQuantity?: number; // Latest entry in counts
+
+  @Prop({ type: [StocktakeCountSchema], default: [] })
+  counts: StocktakeCount[];
+
+  @Prop({ type: Types.ObjectId, ref: 'StockAdjustment' })
+  adjustment?: Types.ObjectId; // Correction written when the session was committed
+}
+
+export const StocktakeLineSchema = SchemaFactory.createForClass(StocktakeLine);
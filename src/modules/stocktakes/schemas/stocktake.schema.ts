@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+import { MaterialCategory } from 'src/modules/materials/schemas/material.schema';
+import { ProductCategory } from 'src/modules/products/schemas/product.schema';
+import { StocktakeLine, StocktakeLineSchema } from './stocktake-line.schema';
+
+export type StocktakeDocument = HydratedDocument<Stocktake>;
+
+export enum StocktakeStatus {
+  OPEN = 'open',
+  COMMITTED = 'committed',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ timestamps: true })
+export class Stocktake {
+  _id?: Types.ObjectId;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  reference: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({
+    required: true,
+    enum: StocktakeStatus,
+    default: StocktakeStatus.OPEN,
+  })
+  status: StocktakeStatus;
+
+  @Prop({ default: true })
+  includeMaterials: boolean;
+
+  @Prop({ default: true })
+  includeProducts: boolean;
+
+  @Prop({ enum: MaterialCategory })
+  materialCategory?: MaterialCategory;
+
+  @Prop({ enum: ProductCategory })
+  productCategory?: ProductCategory;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location?: Types.ObjectId;
+
+  @Prop({ type: [StocktakeLineSchema], default: [] })
+  lines: StocktakeLine[];
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  openedBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  committedBy: Types.ObjectId;
+
+  @Prop()
+  committedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy: Types.ObjectId;
+
+  @Prop()
+  cancelledAt: Date;
+}
+
+export const StocktakeSchema = SchemaFactory.createForClass(Stocktake);
+
+StocktakeSchema.plugin(workspaceScopePlugin);
+
+StocktakeSchema.index({ workspace: 1, status: 1, createdAt: -1 });
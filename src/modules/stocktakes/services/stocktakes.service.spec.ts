@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { StocktakesService } from './stocktakes.service';
+import { Stocktake, StocktakeStatus } from '../schemas/stocktake.schema';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { mockConnection, mockQuery } from 'src/core/testing/mock-query';
+
+describe('StocktakesService', () => {
+  let service: StocktakesService;
+  let connection: ReturnType<typeof mockConnection>;
+  let stocktakeModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let productModel: Record<string, jest.Mock>;
+  let stockAdjustmentsService: { createManualAdjustment: jest.Mock };
+  let locationsService: Record<string, jest.Mock>;
+
+  const userId = new Types.ObjectId().toString();
+  const store = new Types.ObjectId();
+
+  const wax = {
+    _id: new Types.ObjectId(),
+    name: 'Soy wax',
+    sku: 'WAX',
+    unit: new Types.ObjectId(),
+    averageCost: 2,
+  };
+
+  const line = (fields = {}) => ({
+    _id: new Types.ObjectId(),
+    itemType: 'material' as const,
+    material: wax._id,
+    name: wax.name,
+    expectedQuantity: 10,
+    unitCost: 2,
+    counts: [] as unknown[],
+    ...fields,
+  });
+
+  const openStocktake = (lines: ReturnType<typeof line>[]) => ({
+    _id: new Types.ObjectId(),
+    reference: 'STK-1',
+    status: StocktakeStatus.OPEN,
+    location: store,
+    lines,
+    save: jest.fn().mockResolvedValue(undefined),
+  });
+
+  beforeEach(async () => {
+    connection = mockConnection();
+    stocktakeModel = { create: jest.fn(), findById: jest.fn() };
+    materialModel = { find: jest.fn(), findById: jest.fn() };
+    productModel = { find: jest.fn(), findById: jest.fn() };
+    stockAdjustmentsService = {
+      createManualAdjustment: jest
+        .fn()
+        .mockResolvedValue({ _id: new Types.ObjectId() }),
+    };
+    locationsService = {
+      findAll: jest.fn().mockResolvedValue([{ _id: store }]),
+      resolveLocationId: jest.fn((id) => Promise.resolve(id)),
+      getDefaultLocationId: jest.fn().mockResolvedValue(store),
+      getQuantityAt: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StocktakesService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: getModelToken(Stocktake.name), useValue: stocktakeModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        { provide: getModelToken(Product.name), useValue: productModel },
+        { provide: StockAdjustmentsService, useValue: stockAdjustmentsService },
+        { provide: LocationsService, useValue: locationsService },
+        { provide: UnitsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<StocktakesService>(StocktakesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('open', () => {
+    it('snapshots what the counted location holds', async () => {
+      materialModel.find.mockReturnValue(mockQuery([wax]));
+      locationsService.getQuantityAt.mockResolvedValue(7);
+      stocktakeModel.create.mockImplementation((data) => Promise.resolve(data));
+
+      const stocktake = await service.open(
+        { name: 'Year end', includeProducts: false },
+        userId,
+      );
+
+      expect(stocktake.location).toBe(store);
+      expect(stocktake.lines).toEqual([
+        expect.objectContaining({
+          material: wax._id,
+          expectedQuantity: 7,
+          unitCost: 2,
+        }),
+      ]);
+    });
+
+    it('needs a location once stock is held in more than one', async () => {
+      locationsService.findAll.mockResolvedValue([
+        { _id: store },
+        { _id: new Types.ObjectId() },
+      ]);
+
+      await expect(service.open({ name: 'Year end' }, userId)).rejects.toThrow(
+        'Choose which location this stocktake counts',
+      );
+      expect(stocktakeModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordCounts', () => {
+    it('keeps every count and uses the latest', async () => {
+      const counted = line();
+      const stocktake = openStocktake([counted]);
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+
+      await service.recordCounts(
+        stocktake._id.toString(),
+        { counts: [{ lineId: counted._id.toString(), countedQuantity: 8 }] },
+        userId,
+      );
+      await service.recordCounts(
+        stocktake._id.toString(),
+        { counts: [{ lineId: counted._id.toString(), countedQuantity: 9 }] },
+        userId,
+      );
+
+      expect(counted).toMatchObject({ countedQuantity: 9 });
+      expect(counted.counts).toHaveLength(2);
+    });
+  });
+
+  describe('getVariances', () => {
+    it('values gains and losses at the snapshot cost', async () => {
+      const stocktake = openStocktake([
+        line({ countedQuantity: 12 }), // +2 at 2
+        line({ countedQuantity: 7, unitCost: 3 }), // -3 at 3
+        line(), // not counted
+      ]);
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+
+      const report = await service.getVariances(stocktake._id.toString());
+
+      expect(report.totals).toEqual({
+        totalLines: 3,
+        countedLines: 2,
+        linesWithVariance: 2,
+        gainValue: 4,
+        lossValue: 9,
+        netVarianceValue: -5,
+      });
+    });
+  });
+
+  describe('commit', () => {
+    it('applies the variance on top of the live stock at the location', async () => {
+      const stocktake = openStocktake([line({ countedQuantity: 8 })]);
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+      materialModel.findById.mockResolvedValue(wax);
+      // 3 used since the session opened
+      locationsService.getQuantityAt.mockResolvedValue(7);
+
+      await service.commit(stocktake._id.toString(), userId);
+
+      expect(
+        stockAdjustmentsService.createManualAdjustment,
+      ).toHaveBeenCalledWith(
+        wax._id.toString(),
+        'material',
+        5,
+        'correction',
+        expect.any(String),
+        userId,
+        { stocktake: stocktake._id, location: store },
+      );
+      expect(stocktake.status).toBe(StocktakeStatus.COMMITTED);
+    });
+
+    it('rolls back and leaves the session open when a line fails', async () => {
+      const stocktake = openStocktake([
+        line({ countedQuantity: 8 }),
+        line({ countedQuantity: 1 }),
+      ]);
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+      materialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(10);
+      stockAdjustmentsService.createManualAdjustment
+        .mockResolvedValueOnce({ _id: new Types.ObjectId() })
+        .mockRejectedValueOnce(new Error('write conflict'));
+
+      await expect(
+        service.commit(stocktake._id.toString(), userId),
+      ).rejects.toThrow('write conflict');
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(stocktake.status).toBe(StocktakeStatus.OPEN);
+      expect(stocktake.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a variance that would leave negative stock', async () => {
+      const stocktake = openStocktake([line({ countedQuantity: 2 })]);
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+      materialModel.findById.mockResolvedValue(wax);
+      locationsService.getQuantityAt.mockResolvedValue(5);
+
+      await expect(
+        service.commit(stocktake._id.toString(), userId),
+      ).rejects.toThrow('would leave negative stock');
+    });
+
+    it('refuses a session that is already committed', async () => {
+      const stocktake = {
+        ...openStocktake([]),
+        status: StocktakeStatus.COMMITTED,
+      };
+      stocktakeModel.findById.mockReturnValue(mockQuery(stocktake));
+
+      await expect(
+        service.commit(stocktake._id.toString(), userId),
+      ).rejects.toThrow('Stocktake STK-1 is already committed');
+    });
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import {
+  Stocktake,
+  StocktakeDocument,
+  StocktakeStatus,
+} from '../schemas/stocktake.schema';
+import { StocktakeLine } from '../schemas/stocktake-line.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { StockAdjustmentsService } from 'src/modules/stock-adjustments/stock-adjustments.service';
+import { LocationsService } from 'src/modules/locations/services/locations.service';
+import { UnitsService } from 'src/modules/units/services/units.service';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { CreateStocktakeDto } from '../dto/create-stocktake.dto';
+import { RecordCountsDto } from '../dto/record-counts.dto';
+import { StocktakeFiltersDto } from '../dto/stocktake-filters.dto';
+import {
+  StocktakeVarianceLine,
+  StocktakeVarianceReport,
+} from '../types/StocktakeVarianceReport';
+
+@Injectable()
+export class StocktakesService {
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(Stocktake.name)
+    private readonly stocktakeModel: Model<StocktakeDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    private readonly stockAdjustmentsService: StockAdjustmentsService,
+    private readonly locationsService: LocationsService,
+    private readonly unitsService: UnitsService,
+  ) {}
+
+  /**
+   * Opens a count session and snapshots the expected quantity and unit cost
+   * of every item in scope.
+   */
+  async open(
+    createStocktakeDto: CreateStocktakeDto,
+    userId: string,
+  ): Promise<Stocktake> {
+    const {
+      includeMaterials = true,
+      includeProducts = true,
+      materialCategory,
+      productCategory,
+    } = createStocktakeDto;
+
+    if (!includeMaterials && !includeProducts) {
+      throw new BadRequestException(
+        'A stocktake must include materials, products or both',
+      );
+    }
+
+    const location = await this.resolveCountLocation(
+      createStocktakeDto.location,
+    );
+
+    // Expected quantity is what the location holds
+    const expectedOf = (item: MaterialDocument | ProductDocument) =>
+      this.locationsService.getQuantityAt(item, location);
+
+    const lines: StocktakeLine[] = [];
+
+    if (includeMaterials) {
+      const materials = await this.materialModel
+        .find({
+          isActive: true,
+          ...(materialCategory && { category: materialCategory }),
+        })
+        .sort('name')
+        .exec();
+
+      for (const material of materials) {
+        lines.push({
+          itemType: 'material',
+          material: material._id,
+          name: material.name,
+          sku: material.sku,
+          unit: material.unit as unknown as Types.ObjectId,
+          expectedQuantity: await expectedOf(material),
+          unitCost: material.averageCost || 0,
+          counts: [],
+        });
+      }
+    }
+
+    if (includeProducts) {
+      const products = await this.productModel
+        .find({
+          ...(productCategory && { category: productCategory }),
+        })
+        .sort('name')
+        .exec();
+
+      for (const product of products) {
+        lines.push({
+          itemType: 'product',
+          product: product._id,
+          name: product.name,
+          sku: product.sku,
+          expectedQuantity: await expectedOf(product),
+          unitCost: product.averageUnitCost || 0,
+          counts: [],
+        });
+      }
+    }
+
+    if (lines.length === 0) {
+      throw new BadRequestException('No items match this stocktake');
+    }
+
+    const stocktake = await this.stocktakeModel.create({
+      ...createStocktakeDto,
+      includeMaterials,
+      includeProducts,
+      reference: `STK-${Date.now()}`,
+      location,
+      lines,
+      openedBy: new Types.ObjectId(userId),
+    });
+
+    return stocktake;
+  }
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: StocktakeFiltersDto,
+  ): Promise<PaginatedResponse<Stocktake>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<Stocktake> = {};
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { name: { $regex: filters.searchTerm, $options: 'i' } },
+        { reference: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+    if (filters?.status) query.status = filters.status;
+
+    const [data, total] = await Promise.all([
+      this.stocktakeModel
+        .find(query)
+        .select('-lines')
+        .populate('openedBy', 'name email')
+        .populate('committedBy', 'name email')
+        .sort('-createdAt')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.stocktakeModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+    };
+  }
+
+  async findOne(id: string): Promise<StocktakeDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Stocktake not found');
+    }
+
+    const stocktake = await this.stocktakeModel
+      .findById(id)
+      .populate('openedBy', 'name email')
+      .populate('committedBy', 'name email')
+      .populate('cancelledBy', 'name email')
+      .populate('lines.unit', 'name abbreviation')
+      .populate('lines.counts.countedBy', 'name email')
+      .exec();
+
+    if (!stocktake) {
+      throw new NotFoundException('Stocktake not found');
+    }
+
+    return stocktake;
+  }
+
+  /**
+   * Records counted quantities against lines of an open session. Every entry
+   * is kept in the line's history and the latest one is used for variances.
+   */
+  async recordCounts(
+    id: string,
+    recordCountsDto: RecordCountsDto,
+    userId: string,
+  ): Promise<Stocktake> {
+    const stocktake = await this.findOpen(id);
+    const countedAt = new Date();
+
+    for (const count of recordCountsDto.counts) {
+      const line = stocktake.lines.find(
+        (l) => l._id?.toString() === count.lineId,
+      );
+      if (!line) {
+        throw new BadRequestException(
+          `Line ${count.lineId} is not part of this stocktake`,
+        );
+      }
+
+      const quantity = count.unit
+        ? await this.convertCount(line, count.countedQuantity, count.unit)
+        : count.countedQuantity;
+
+      line.countedQuantity = quantity;
+      line.counts.push({
+        quantity,
+        countedBy: new Types.ObjectId(userId),
+        countedAt,
+        note: count.note ?? '',
+      });
+    }
+
+    await stocktake.save();
+    return this.findOne(id);
+  }
+
+  private async convertCount(
+    line: StocktakeLine,
+    quantity: number,
+    unit: string,
+  ): Promise<number> {
+    if (line.itemType !== 'material' || !line.unit) {
+      throw new BadRequestException(
+        `${line.name} is counted in whole units, not ${unit}`,
+      );
+    }
+
+    // Density lives on the live material, not the line snapshot
+    const material = await this.materialModel.findById(line.material);
+    if (!material) {
+      throw new NotFoundException(`${line.name} no longer exists`);
+    }
+
+    return this.unitsService.convert(quantity, unit, line.unit, material);
+  }
+
+  async getVariances(id: string): Promise<StocktakeVarianceReport> {
+    const stocktake = await this.findOne(id);
+    return this.buildVarianceReport(stocktake);
+  }
+
+  /**
+   * Writes a CORRECTION adjustment for every counted line with a variance,
+   * all in one transaction. The variance is applied on top of the live stock
+   * level so movements recorded since the session opened are kept.
+   */
+  async commit(
+    id: string,
+    userId: string,
+  ): Promise<{ stocktake: Stocktake; report: StocktakeVarianceReport }> {
+    await this.connection.transaction(async () => {
+      const stocktake = await this.findOpen(id);
+      // sessions opened before a location was required counted totals
+      const location = await this.resolveCountLocation(stocktake.location);
+
+      for (const line of stocktake.lines) {
+        if (line.countedQuantity === undefined) continue;
+
+        const variance = line.countedQuantity - line.expectedQuantity;
+        if (variance === 0) continue;
+
+        const itemId =
+          line.itemType === 'material' ? line.material! : line.product!;
+        const item =
+          line.itemType === 'material'
+            ? await this.materialModel.findById(itemId)
+            : await this.productModel.findById(itemId);
+
+        if (!item) {
+          throw new NotFoundException(`${line.name} no longer exists`);
+        }
+
+        const current = await this.locationsService.getQuantityAt(
+          item,
+          location,
+        );
+        const newStock = current + variance;
+        if (newStock < 0) {
+          throw new BadRequestException(
+            `Applying a variance of ${variance} to ${line.name} would leave negative stock`,
+          );
+        }
+
+        const adjustment =
+          await this.stockAdjustmentsService.createManualAdjustment(
+            itemId.toString(),
+            line.itemType,
+            newStock,
+            'correction',
+            `Stocktake ${stocktake.reference}: counted ${line.countedQuantity}, expected ${line.expectedQuantity}`,
+            userId,
+            { stocktake: stocktake._id, location },
+          );
+
+        line.adjustment = adjustment._id;
+      }
+
+      stocktake.status = StocktakeStatus.COMMITTED;
+      stocktake.committedBy = new Types.ObjectId(userId);
+      stocktake.committedAt = new Date();
+      await stocktake.save();
+    });
+
+    const stocktake = await this.findOne(id);
+    return { stocktake, report: this.buildVarianceReport(stocktake) };
+  }
+
+  async cancel(id: string, userId: string): Promise<Stocktake> {
+    const stocktake = await this.findOpen(id);
+
+    stocktake.status = StocktakeStatus.CANCELLED;
+    stocktake.cancelledBy = new Types.ObjectId(userId);
+    stocktake.cancelledAt = new Date();
+    await stocktake.save();
+
+    return stocktake;
+  }
+
+  /**
+   * The location a session counts. A variance can only be applied where it
+   * was counted, so one must be chosen once stock is held in more than one.
+   */
+  private async resolveCountLocation(
+    location?: string | Types.ObjectId,
+  ): Promise<Types.ObjectId> {
+    if (location) return this.locationsService.resolveLocationId(location);
+
+    const locations = await this.locationsService.findAll();
+    if (locations.length > 1) {
+      throw new BadRequestException(
+        'Choose which location this stocktake counts',
+      );
+    }
+    return this.locationsService.getDefaultLocationId();
+  }
+
+  private async findOpen(id: string): Promise<StocktakeDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Stocktake not found');
+    }
+
+    const stocktake = await this.stocktakeModel.findById(id);
+    if (!stocktake) {
+      throw new NotFoundException('Stocktake not found');
+    }
+
+    if (stocktake.status !== StocktakeStatus.OPEN) {
+      throw new BadRequestException(
+        `Stocktake ${stocktake.reference} is already ${stocktake.status}`,
+      );
+    }
+
+    return stocktake;
+  }
+
+  private buildVarianceReport(stocktake: Stocktake): StocktakeVarianceReport {
+    const lines: StocktakeVarianceLine[] = stocktake.lines.map((line) => {
+      const counted = line.countedQuantity ?? null;
+      const variance =
+        counted === null ? null : counted - line.expectedQuantity;
+
+      return {
+        lineId: line._id!.toString(),
+        itemType: line.itemType,
+        itemId: (line.material ?? line.product)!.toString(),
+        name: line.name,
+        sku: line.sku,
+        expectedQuantity: line.expectedQuantity,
+        countedQuantity: counted,
+        variance,
+        unitCost: line.unitCost,
+        varianceValue: variance === null ? null : variance * line.unitCost,
+      };
+    });
+
+    const counted = lines.filter((l) => l.variance !== null);
+    const gainValue = counted
+      .filter((l) => l.varianceValue! > 0)
+      .reduce((sum, l) => sum + l.varianceValue!, 0);
+    const lossValue = counted
+      .filter((l) => l.varianceValue! < 0)
+      .reduce((sum, l) => sum + Math.abs(l.varianceValue!), 0);
+
+    return {
+      lines,
+      totals: {
+        totalLines: lines.length,
+        countedLines: counted.length,
+        linesWithVariance: counted.filter((l) => l.variance !== 0).length,
+        gainValue,
+        lossValue,
+        netVarianceValue: gainValue - lossValue,
+      },
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Stocktake, StocktakeSchema } from './schemas/stocktake.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { StockAdjustmentsModule } from '../stock-adjustments/stock-adjustments.module';
+import { LocationsModule } from '../locations/locations.module';
+import { UnitsModule } from '../units/units.module';
+import { StocktakesService } from './services/stocktakes.service';
+import { StocktakesController } from './controllers/stocktakes.controller';
+
+@Module({
+  imports: [
+    StockAdjustmentsModule,
+    LocationsModule,
+    UnitsModule,
+    MongooseModule.forFeature([
+      { name: Stocktake.name, schema: StocktakeSchema },
+      { name: Material.name, schema: MaterialSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [StocktakesController],
+  providers: [StocktakesService],
+})
+export class StocktakesModule {}
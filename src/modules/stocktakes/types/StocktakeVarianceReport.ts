@@ -0,0 +1,24 @@
+export type StocktakeVarianceLine = {
+  lineId: string;
+  itemType: 'material' | 'product';
+  itemId: string;
+  name: string;
+  sku: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  variance: number | null;
+  unitCost: number;
+  varianceValue: number | null;
+};
+
+export type StocktakeVarianceReport = {
+  lines: StocktakeVarianceLine[];
+  totals: {
+    totalLines: number;
+    countedLines: number;
+    linesWithVariance: number;
+    gainValue: number;
+    lossValue: number;
+    netVarianceValue: number;
+  };
+};
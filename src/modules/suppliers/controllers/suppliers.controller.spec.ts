@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SuppliersController } from './suppliers.controller';
+import { SuppliersService } from '../services/suppliers.service';
+
+describe('SuppliersController', () => {
+  let controller: SuppliersController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SuppliersController],
+      providers: [{ provide: SuppliersService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SuppliersController>(SuppliersController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
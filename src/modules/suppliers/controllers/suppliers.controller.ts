@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+import { SuppliersService } from '../services/suppliers.service';
+import { Supplier } from '../schemas/supplier.schema';
+import { CreateSupplierDto, UpdateSupplierDto } from '../dto/supplier.dto';
+import { SupplierFiltersDto } from '../dto/supplier-filters.dto';
+import { SupplierPriceListLine } from '../types/SupplierPriceListLine';
+
+@RequireVerified()
+@Controller('suppliers')
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  @Post('find-all')
+  async findAll(
+    @Query('page') page = 1,
+    @Query('pageSize') pageSize = 10,
+    @Body() body: SupplierFiltersDto,
+  ): Promise<PaginatedResponse<Supplier>> {
+    return this.suppliersService.findAll(page, pageSize, body);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<Supplier> {
+    return this.suppliersService.findOne(id);
+  }
+
+  @Get(':id/price-list')
+  async getPriceList(
+    @Param('id') id: string,
+  ): Promise<SupplierPriceListLine[]> {
+    return this.suppliersService.getPriceList(id);
+  }
+
+  @Post()
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async create(@Body() createSupplierDto: CreateSupplierDto) {
+    return this.suppliersService.create(createSupplierDto);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async update(
+    @Param('id') id: string,
+    @Body() updateSupplierDto: UpdateSupplierDto,
+  ) {
+    return this.suppliersService.update(id, updateSupplierDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async remove(@Param('id') id: string): Promise<void> {
+    const deleted = await this.suppliersService.remove(id);
+    if (!deleted) {
+      throw new NotFoundException(`Supplier with ID "${id}" not found`);
+    }
+  }
+}
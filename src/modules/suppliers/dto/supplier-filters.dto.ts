@@ -0,0 +1,11 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class SupplierFiltersDto {
+  @IsOptional()
+  @IsString()
+  searchTerm?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  includeInactive?: boolean;
+}
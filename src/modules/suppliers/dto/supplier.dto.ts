@@ -0,0 +1,63 @@
+import { PartialType } from '@nestjs/mapped-types';
+import {
+  IsBoolean,
+  IsEmail,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Min,
+} from 'class-validator';
+
+export class CreateSupplierDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  contactName?: string;
+
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsUrl()
+  @IsOptional()
+  website?: string;
+
+  @IsString()
+  @IsOptional()
+  address?: string;
+
+  @IsISO4217CurrencyCode()
+  @IsOptional()
+  currency?: string;
+
+  /** Typical days from ordering to delivery */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  leadTimeDays?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minimumOrderValue?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class UpdateSupplierDto extends PartialType(CreateSupplierDto) {
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
+
+export type SupplierDocument = HydratedDocument<Supplier>;
+
+@Schema({ timestamps: true })
+export class Supplier {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  contactName: string;
+
+  @Prop()
+  email: string;
+
+  @Prop()
+  phone: string;
+
+  @Prop()
+  website: string;
+
+  @Prop()
+  address: string;
+
+  @Prop({ default: 'GBP' })
+  currency: string; // ISO 4217 code the supplier invoices in
+
+  @Prop({ min: 0 })
+  leadTimeDays?: number; // Typical days from ordering to delivery
+
+  @Prop({ default: 0, min: 0 })
+  minimumOrderValue: number;
+
+  @Prop()
+  notes: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SupplierSchema = SchemaFactory.createForClass(Supplier);
+
+SupplierSchema.plugin(workspaceScopePlugin);
+
+SupplierSchema.index({ workspace: 1, name: 1 }, { unique: true });
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SuppliersService } from './suppliers.service';
+import { Supplier } from '../schemas/supplier.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import { MaterialOrder } from 'src/modules/material-order/schemas/material-order.schema';
+import { PurchaseOrder } from 'src/modules/purchase-orders/schemas/purchase-order.schema';
+import { mockQuery } from 'src/core/testing/mock-query';
+
+describe('SuppliersService', () => {
+  let service: SuppliersService;
+  let supplierModel: Record<string, jest.Mock>;
+  let materialModel: Record<string, jest.Mock>;
+  let materialOrderModel: Record<string, jest.Mock>;
+  let purchaseOrderModel: Record<string, jest.Mock>;
+
+  const waxCo = { _id: new Types.ObjectId(), name: 'Wax Co' };
+
+  beforeEach(async () => {
+    supplierModel = {
+      findById: jest.fn().mockResolvedValue(waxCo),
+      findOne: jest.fn().mockResolvedValue(null),
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data: object) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...data }),
+      ),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    materialModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      exists: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn(),
+    };
+    materialOrderModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      exists: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn(),
+    };
+    purchaseOrderModel = { exists: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuppliersService,
+        { provide: getModelToken(Supplier.name), useValue: supplierModel },
+        { provide: getModelToken(Material.name), useValue: materialModel },
+        {
+          provide: getModelToken(MaterialOrder.name),
+          useValue: materialOrderModel,
+        },
+        {
+          provide: getModelToken(PurchaseOrder.name),
+          useValue: purchaseOrderModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SuppliersService>(SuppliersService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('refuses a name already taken, whatever its case', async () => {
+      supplierModel.exists.mockResolvedValue({ _id: waxCo._id });
+
+      await expect(service.create({ name: 'WAX CO' })).rejects.toThrow(
+        'A supplier called WAX CO already exists',
+      );
+      expect(supplierModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('keeps a supplier that materials are bought from', async () => {
+      materialModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.remove(waxCo._id.toString())).rejects.toThrow(
+        'Supplier is linked to materials or orders so cannot be deleted',
+      );
+      expect(supplierModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateLinks', () => {
+    it('refuses the same supplier twice', async () => {
+      await expect(
+        service.validateLinks([
+          { supplier: waxCo._id },
+          { supplier: waxCo._id },
+        ]),
+      ).rejects.toThrow('Each supplier can only be listed once');
+    });
+  });
+
+  describe('recordPurchase', () => {
+    it('adds the supplier as preferred on a first purchase', () => {
+      const material = { suppliers: [] } as unknown as MaterialDocument;
+      const purchasedAt = new Date('2026-05-01');
+
+      service.recordPurchase(material, waxCo._id, 3.2, purchasedAt);
+
+      expect(material.suppliers).toEqual([
+        {
+          supplier: waxCo._id,
+          supplierSku: '',
+          isPreferred: true,
+          lastPrice: 3.2,
+          lastPurchasedAt: purchasedAt,
+        },
+      ]);
+    });
+
+    it('updates the price on an existing link', () => {
+      const link = { supplier: waxCo._id, supplierSku: 'W-1', lastPrice: 3 };
+      const material = { suppliers: [link] } as unknown as MaterialDocument;
+
+      service.recordPurchase(material, waxCo._id, 3.5);
+
+      expect(material.suppliers).toHaveLength(1);
+      expect(link.lastPrice).toBe(3.5);
+    });
+  });
+
+  describe('migrateFreeText', () => {
+    it('creates one supplier per name, matching names regardless of case', async () => {
+      const wax = { _id: new Types.ObjectId(), supplier: 'Candle Supplies' };
+      const jars = { _id: new Types.ObjectId(), supplier: '  ' };
+      const order = { _id: new Types.ObjectId(), supplier: 'candle supplies ' };
+      materialModel.find.mockReturnValue(mockQuery([wax, jars]));
+      materialOrderModel.find.mockReturnValue(mockQuery([order]));
+      const created = new Types.ObjectId();
+      supplierModel.create.mockResolvedValue({ _id: created });
+
+      await service.migrateFreeText();
+
+      expect(supplierModel.create).toHaveBeenCalledTimes(1);
+      expect(supplierModel.create).toHaveBeenCalledWith({
+        name: 'Candle Supplies',
+      });
+      expect(materialModel.updateOne).toHaveBeenCalledWith(
+        { _id: wax._id },
+        {
+          $unset: { supplier: 1 },
+          $addToSet: { suppliers: { supplier: created, isPreferred: true } },
+        },
+        { strict: false },
+      );
+      // A blank name is cleared rather than turned into a supplier
+      expect(materialModel.updateOne).toHaveBeenCalledWith(
+        { _id: jars._id },
+        { $unset: { supplier: 1 } },
+        { strict: false },
+      );
+      expect(materialOrderModel.updateOne).toHaveBeenCalledWith(
+        { _id: order._id },
+        { $set: { supplier: created } },
+        { strict: false },
+      );
+    });
+
+    it('links to a supplier already in the directory', async () => {
+      supplierModel.findOne.mockResolvedValue(waxCo);
+      const order = { _id: new Types.ObjectId(), supplier: 'wax co' };
+      materialOrderModel.find.mockReturnValue(mockQuery([order]));
+
+      await service.migrateFreeText();
+
+      expect(supplierModel.create).not.toHaveBeenCalled();
+      expect(materialOrderModel.updateOne).toHaveBeenCalledWith(
+        { _id: order._id },
+        { $set: { supplier: waxCo._id } },
+        { strict: false },
+      );
+    });
+
+    it('does nothing once every name has been moved', async () => {
+      await service.migrateFreeText();
+
+      expect(supplierModel.findOne).not.toHaveBeenCalled();
+      expect(materialModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Supplier, SupplierDocument } from '../schemas/supplier.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  MaterialOrder,
+  MaterialOrderDocument,
+} from 'src/modules/material-order/schemas/material-order.schema';
+import {
+  PurchaseOrder,
+  PurchaseOrderDocument,
+} from 'src/modules/purchase-orders/schemas/purchase-order.schema';
+import { PaginatedResponse } from 'src/core/types/PaginatedResponse';
+import { CreateSupplierDto, UpdateSupplierDto } from '../dto/supplier.dto';
+import { SupplierFiltersDto } from '../dto/supplier-filters.dto';
+import { SupplierPriceListLine } from '../types/SupplierPriceListLine';
+
+@Injectable()
+export class SuppliersService {
+  constructor(
+    @InjectModel(Supplier.name)
+    private readonly supplierModel: Model<SupplierDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    @InjectModel(MaterialOrder.name)
+    private readonly materialOrderModel: Model<MaterialOrderDocument>,
+    @InjectModel(PurchaseOrder.name)
+    private readonly purchaseOrderModel: Model<PurchaseOrderDocument>,
+  ) {}
+
+  async findAll(
+    page = 1,
+    pageSize = 10,
+    filters?: SupplierFiltersDto,
+  ): Promise<PaginatedResponse<Supplier>> {
+    const skip = (page - 1) * pageSize;
+    const query: FilterQuery<Supplier> = {};
+
+    if (filters?.searchTerm) {
+      query.$or = [
+        { name: { $regex: filters.searchTerm, $options: 'i' } },
+        { contactName: { $regex: filters.searchTerm, $options: 'i' } },
+        { email: { $regex: filters.searchTerm, $options: 'i' } },
+      ];
+    }
+    if (!filters?.includeInactive) query.isActive = true;
+
+    const [data, total] = await Promise.all([
+      this.supplierModel
+        .find(query)
+        .sort('name')
+        .skip(skip)
+        .limit(pageSize)
+        .exec(),
+      this.supplierModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+    };
+  }
+
+  async findOne(id: string | Types.ObjectId): Promise<SupplierDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Supplier not found');
+    }
+    const supplier = await this.supplierModel.findById(id);
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+    return supplier;
+  }
+
+  /** Ids of suppliers whose name matches, for searching what they supply */
+  async findIdsMatching(searchTerm: string): Promise<Types.ObjectId[]> {
+    const suppliers = await this.supplierModel.find(
+      { name: { $regex: searchTerm, $options: 'i' } },
+      { _id: 1 },
+    );
+    return suppliers.map((supplier) => supplier._id);
+  }
+
+  async create(createSupplierDto: CreateSupplierDto): Promise<Supplier> {
+    await this.checkNameFree(createSupplierDto.name);
+    return this.supplierModel.create(createSupplierDto);
+  }
+
+  async update(
+    id: string,
+    updateSupplierDto: UpdateSupplierDto,
+  ): Promise<Supplier> {
+    const supplier = await this.findOne(id);
+
+    if (updateSupplierDto.name && updateSupplierDto.name !== supplier.name) {
+      await this.checkNameFree(updateSupplierDto.name);
+    }
+
+    Object.assign(supplier, updateSupplierDto);
+    return supplier.save();
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const supplier = await this.findOne(id);
+
+    const [suppliesMaterials, hasOrders, hasPurchaseOrders] = await Promise.all(
+      [
+        this.materialModel.exists({ 'suppliers.supplier': supplier._id }),
+        this.materialOrderModel.exists({ supplier: supplier._id }),
+        this.purchaseOrderModel.exists({ supplier: supplier._id }),
+      ],
+    );
+
+    if (suppliesMaterials || hasOrders || hasPurchaseOrders) {
+      throw new BadRequestException(
+        'Supplier is linked to materials or orders so cannot be deleted. If you no longer use this supplier please update it to no longer be active.',
+      );
+    }
+
+    const res = await this.supplierModel.deleteOne({ _id: supplier._id });
+    return res.deletedCount === 1;
+  }
+
+  /** Every material bought from the supplier, with its terms */
+  async getPriceList(id: string): Promise<SupplierPriceListLine[]> {
+    const supplier = await this.findOne(id);
+
+    const materials = await this.materialModel
+      .find({ 'suppliers.supplier': supplier._id })
+      .sort('name')
+      .exec();
+
+    return materials.map((material) => {
+      const terms = material.suppliers.find((s) =>
+        s.supplier.equals(supplier._id),
+      )!;
+
+      return {
+        material: { _id: material._id, name: material.name, sku: material.sku },
+        supplierSku: terms.supplierSku,
+        packSize: terms.packSize,
+        lastPrice: terms.lastPrice,
+        lastPurchasedAt: terms.lastPurchasedAt,
+        isPreferred: terms.isPreferred,
+      };
+    });
+  }
+
+  /**
+   * Checks that a material's supplier links point at real suppliers and
+   * name each supplier once.
+   */
+  async validateLinks(links: { supplier: string | Types.ObjectId }[]) {
+    const ids = links.map((link) => link.supplier.toString());
+
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each supplier can only be listed once');
+    }
+
+    for (const id of ids) {
+      await this.findOne(id);
+    }
+  }
+
+  /**
+   * Records the price paid per stock unit against the material's link to
+   * the supplier, adding the link on a first purchase. The caller is
+   * responsible for saving the material.
+   */
+  recordPurchase(
+    material: MaterialDocument,
+    supplier: Types.ObjectId,
+    unitCost: number,
+    purchasedAt = new Date(),
+  ): void {
+    let link = material.suppliers.find((s) => s.supplier.equals(supplier));
+    if (!link) {
+      material.suppliers.push({
+        supplier,
+        supplierSku: '',
+        isPreferred: material.suppliers.length === 0,
+      });
+      link = material.suppliers[material.suppliers.length - 1];
+    }
+
+    link.lastPrice = unitCost;
+    link.lastPurchasedAt = purchasedAt;
+  }
+
+  /**
+   * Moves the supplier names typed on materials and orders before the
+   * directory existed into Supplier records, matching names regardless of
+   * case. Safe to run repeatedly; only untouched free text is picked up.
+   * Must be called inside a workspace context, as the suppliers it creates
+   * belong to that workspace.
+   */
+  async migrateFreeText(): Promise<void> {
+    // The supplier paths no longer hold text, so read the raw documents
+    const [materials, orders] = await Promise.all([
+      this.materialModel
+        .find({ supplier: { $type: 'string' } }, { supplier: 1, suppliers: 1 })
+        .lean<{ _id: Types.ObjectId; supplier: string }[]>(),
+      this.materialOrderModel
+        .find({ supplier: { $type: 'string' } }, { supplier: 1 })
+        .lean<{ _id: Types.ObjectId; supplier: string }[]>(),
+    ]);
+    if (materials.length === 0 && orders.length === 0) return;
+
+    const suppliers = new Map<string, Types.ObjectId>();
+    const supplierFor = async (name: string) => {
+      const key = name.trim().toLowerCase();
+      if (!key) return undefined;
+
+      if (!suppliers.has(key)) {
+        const existing = await this.supplierModel.findOne({
+          name: { $regex: `^${this.escapeRegex(name.trim())}$`, $options: 'i' },
+        });
+        const supplier =
+          existing ?? (await this.supplierModel.create({ name: name.trim() }));
+        suppliers.set(key, supplier._id);
+      }
+      return suppliers.get(key);
+    };
+
+    for (const material of materials) {
+      const supplier = await supplierFor(material.supplier);
+
+      await this.materialModel.updateOne(
+        { _id: material._id },
+        {
+          $unset: { supplier: 1 },
+          ...(supplier && {
+            $addToSet: { suppliers: { supplier, isPreferred: true } },
+          }),
+        },
+        { strict: false },
+      );
+    }
+
+    for (const order of orders) {
+      const supplier = await supplierFor(order.supplier);
+
+      await this.materialOrderModel.updateOne(
+        { _id: order._id },
+        supplier ? { $set: { supplier } } : { $unset: { supplier: 1 } },
+        { strict: false },
+      );
+    }
+  }
+
+  private async checkNameFree(name: string): Promise<void> {
+    const exists = await this.supplierModel.exists({
+      name: { $regex: `^${this.escapeRegex(name)}$`, $options: 'i' },
+    });
+    if (exists) {
+      throw new BadRequestException(`A supplier called ${name} already exists`);
+    }
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Supplier, SupplierSchema } from './schemas/supplier.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import {
+  MaterialOrder,
+  MaterialOrderSchema,
+} from '../material-order/schemas/material-order.schema';
+import {
+  PurchaseOrder,
+  PurchaseOrderSchema,
+} from '../purchase-orders/schemas/purchase-order.schema';
+import { SuppliersService } from './services/suppliers.service';
+import { SuppliersController } from './controllers/suppliers.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Supplier.name, schema: SupplierSchema },
+      { name: Material.name, schema: MaterialSchema },
+      { name: MaterialOrder.name, schema: MaterialOrderSchema },
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema },
+    ]),
+  ],
+  controllers: [SuppliersController],
+  providers: [SuppliersService],
+  exports: [SuppliersService],
+})
+export class SuppliersModule {}
@@ -0,0 +1,11 @@
+import { Types } from 'mongoose';
+
+/** A material bought from a supplier, on that supplier's terms */
+export type SupplierPriceListLine = {
+  material: { _id: Types.ObjectId; name: string; sku: string };
+  supplierSku: string;
+  packSize?: number;
+  lastPrice?: number;
+  lastPurchasedAt?: Date;
+  isPreferred: boolean;
+};
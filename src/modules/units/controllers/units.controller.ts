@@ -10,6 +10,7 @@ import {
   BadRequestException,
   UseGuards,
   Inject,
+  Query,
 } from '@nestjs/common';
 
 import { AuthGuard } from 'src/core/guards/Auth.guard';
@@ -17,6 +18,9 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Unit, UnitType } from '../schemas/unit.schema';
 import { UnitsService } from '../services/units.service';
+import { CreateUnitDto, UpdateUnitDto } from '../dto/unit.dto';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
 
 @UseGuards(AuthGuard)
 @Controller('units')
@@ -38,6 +42,27 @@ export class UnitsController {
     return newData;
   }
 
+  // Convert a quantity between two compatible units, with an optional
+  // density in g/ml for weight to volume
+  @Get('convert')
+  async convert(
+    @Query('quantity') quantity: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('density') density?: string,
+  ): Promise<{ quantity: number; factor: number; result: number }> {
+    const amount = Number(quantity);
+    if (Number.isNaN(amount)) {
+      throw new BadRequestException('quantity must be a number');
+    }
+    const factor = await this.unitsService.getConversionFactor(
+      from,
+      to,
+      density ? { name: 'this material', density: Number(density) } : undefined,
+    );
+    return { quantity: amount, factor, result: amount * factor };
+  }
+
   // Get a single unit by id
   @Get(':id')
   async findOne(@Param('id') id: string): Promise<Unit> {
@@ -50,7 +75,8 @@ export class UnitsController {
 
   // Create a new unit
   @Post()
-  async create(@Body() createUnitDto: Partial<Unit>): Promise<Unit> {
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async create(@Body() createUnitDto: CreateUnitDto): Promise<Unit> {
     try {
       return await this.unitsService.create(createUnitDto);
     } catch (err) {
@@ -60,9 +86,10 @@ export class UnitsController {
 
   // Update a unit
   @Put(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async update(
     @Param('id') id: string,
-    @Body() updateUnitDto: Partial<Unit>,
+    @Body() updateUnitDto: UpdateUnitDto,
   ): Promise<Unit> {
     const updated = await this.unitsService.update(id, updateUnitDto);
     if (!updated) {
@@ -73,6 +100,7 @@ export class UnitsController {
 
   // Delete a unit
   @Delete(':id')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async remove(@Param('id') id: string): Promise<void> {
     const deleted = await this.unitsService.remove(id);
     if (!deleted) {
@@ -91,6 +119,7 @@ export class UnitsController {
 
   // Seed default units
   @Post('seed')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
   async seed(): Promise<Unit[]> {
     return await this.unitsService.seedDefaults();
   }
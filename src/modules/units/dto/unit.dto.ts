@@ -0,0 +1,39 @@
+import { PartialType } from '@nestjs/mapped-types';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { UnitDimension, UnitType } from '../schemas/unit.schema';
+
+export class CreateUnitDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  abbreviation: string;
+
+  @IsEnum(UnitType)
+  type: UnitType;
+
+  @IsString()
+  @IsNotEmpty()
+  plural: string;
+
+  @IsEnum(UnitDimension)
+  @IsOptional()
+  dimension?: UnitDimension;
+
+  /** How many of the dimension's base unit one of this unit is, e.g. 1000 for kg */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  toBaseFactor?: number;
+}
+
+export class UpdateUnitDto extends PartialType(CreateUnitDto) {}
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { HydratedDocument } from 'mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { workspaceScopePlugin } from 'src/core/plugins/workspace-scope.plugin';
 
 export type UnitDocument = HydratedDocument<Unit>;
 
@@ -8,9 +9,21 @@ export enum UnitType {
   CONTINUOUS = 'continuous',
 }
 
+/** What a unit measures. Units of the same dimension convert between each other */
+export enum UnitDimension {
+  MASS = 'mass', // base unit: gram
+  VOLUME = 'volume', // base unit: millilitre
+  COUNT = 'count', // base unit: piece
+}
+
 @Schema({ timestamps: true })
 export class Unit {
-  @Prop({ required: true, unique: true })
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Workspace', required: true })
+  workspace: Types.ObjectId;
+
+  @Prop({ required: true })
   name: string;
 
   @Prop({ required: true })
@@ -21,6 +34,17 @@ export class Unit {
 
   @Prop({ required: true })
   plural: string;
+
+  @Prop({ enum: UnitDimension })
+  dimension?: UnitDimension;
+
+  @Prop({ min: 0 })
+  toBaseFactor?: number; // How many of the dimension's base unit one of this unit is, e.g. 1000 for kg
 }
 
 export const UnitSchema = SchemaFactory.createForClass(Unit);
+
+UnitSchema.plugin(workspaceScopePlugin);
+
+// Unit names only need to be unique within a workspace
+UnitSchema.index({ workspace: 1, name: 1 }, { unique: true });
@@ -1,12 +1,48 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { UnitsService } from './units.service';
+import { Unit, UnitDimension, UnitType } from '../schemas/unit.schema';
+import { mockQuery } from 'src/core/testing/mock-query';
 
 describe('UnitsService', () => {
   let service: UnitsService;
+  let unitModel: Record<string, jest.Mock>;
+
+  const unit = (
+    name: string,
+    dimension?: UnitDimension,
+    toBaseFactor?: number,
+  ): Unit => ({
+    _id: new Types.ObjectId(),
+    workspace: new Types.ObjectId(),
+    name,
+    abbreviation: name,
+    plural: name,
+    type: UnitType.CONTINUOUS,
+    dimension,
+    toBaseFactor,
+  });
+
+  const gram = unit('Gram', UnitDimension.MASS, 1);
+  const kilogram = unit('Kilogram', UnitDimension.MASS, 1000);
+  const ounce = unit('Ounce', UnitDimension.MASS, 28.349523125);
+  const piece = unit('Piece', UnitDimension.COUNT, 1);
+  const pinch = unit('Pinch');
+  const millilitre = unit('Milliliter', UnitDimension.VOLUME, 1);
+  const litre = unit('Liter', UnitDimension.VOLUME, 1000);
+
+  // Fragrance oil is a little lighter than water
+  const oil = { name: 'Lavender oil', density: 0.9 };
 
   beforeEach(async () => {
+    unitModel = { findById: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UnitsService],
+      providers: [
+        UnitsService,
+        { provide: getModelToken(Unit.name), useValue: unitModel },
+      ],
     }).compile();
 
     service = module.get<UnitsService>(UnitsService);
@@ -15,4 +51,100 @@ describe('UnitsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('convert', () => {
+    it('converts between units of the same dimension', async () => {
+      await expect(service.convert(200, gram, kilogram)).resolves.toBe(0.2);
+      await expect(service.convert(1.5, kilogram, gram)).resolves.toBe(1500);
+      await expect(service.convert(16, ounce, gram)).resolves.toBeCloseTo(
+        453.59,
+        2,
+      );
+    });
+
+    it('leaves a quantity alone in its own unit, even without a factor', async () => {
+      await expect(service.convert(3, pinch, pinch)).resolves.toBe(3);
+    });
+
+    it('looks up units given by id', async () => {
+      unitModel.findById.mockImplementation((id: string) =>
+        mockQuery(id === gram._id!.toString() ? gram : kilogram),
+      );
+
+      await expect(
+        service.convert(500, gram._id!.toString(), kilogram._id!.toString()),
+      ).resolves.toBe(0.5);
+    });
+
+    it('refuses units that measure different things', async () => {
+      await expect(service.convert(1, piece, gram)).rejects.toThrow(
+        'Cannot convert Piece (count) to Gram (mass)',
+      );
+    });
+
+    it('refuses a unit with no conversion set up', async () => {
+      await expect(service.convert(1, pinch, gram)).rejects.toThrow(
+        'No conversion set up between Pinch and Gram',
+      );
+    });
+
+    it('refuses a unit that does not exist', async () => {
+      unitModel.findById.mockReturnValue(mockQuery(null));
+      const missing = new Types.ObjectId();
+
+      await expect(service.convert(1, missing, gram)).rejects.toThrow(
+        `Unit ${missing.toString()} not found`,
+      );
+    });
+  });
+
+  describe('convert with a density', () => {
+    it('weighs a volume', async () => {
+      await expect(service.convert(100, millilitre, gram, oil)).resolves.toBe(
+        90,
+      );
+      await expect(
+        service.convert(0.5, litre, kilogram, oil),
+      ).resolves.toBeCloseTo(0.45);
+    });
+
+    it('measures a weight as a volume', async () => {
+      await expect(service.convert(90, gram, millilitre, oil)).resolves.toBe(
+        100,
+      );
+    });
+
+    it('refuses mass and volume for a material without a density', async () => {
+      await expect(
+        service.convert(100, millilitre, gram, { name: 'Mystery oil' }),
+      ).rejects.toThrow(
+        'Converting Milliliter to Gram needs a density on Mystery oil',
+      );
+    });
+
+    it('refuses mass and volume when no material is given', async () => {
+      await expect(service.convert(100, millilitre, gram)).rejects.toThrow(
+        'Converting Milliliter to Gram needs a density',
+      );
+    });
+  });
+
+  describe('toGrams', () => {
+    it('weighs mass units directly and volumes by density', async () => {
+      await expect(service.toGrams(2, kilogram)).resolves.toBe(2000);
+      await expect(service.toGrams(10, millilitre, oil)).resolves.toBe(9);
+    });
+
+    it('refuses a volume without a density', async () => {
+      await expect(service.toGrams(10, millilitre)).rejects.toThrow(
+        'Weight of Milliliter is unknown in Milliliter without a density',
+      );
+    });
+
+    it('refuses units counted in pieces', async () => {
+      await expect(service.toGrams(1, piece, oil)).rejects.toThrow(
+        'Weight of Lavender oil is unknown in Piece',
+      );
+    });
+  });
 });
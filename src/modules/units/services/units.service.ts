@@ -1,7 +1,19 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Unit, UnitDocument, UnitType } from '../schemas/unit.schema';
+import { Model, Types } from 'mongoose';
+import {
+  Unit,
+  UnitDimension,
+  UnitDocument,
+  UnitType,
+} from '../schemas/unit.schema';
+import { CreateUnitDto, UpdateUnitDto } from '../dto/unit.dto';
+
+/** A unit id or an already populated unit */
+export type UnitRef = Types.ObjectId | string | Unit;
+
+/** The material being measured, for converting between mass and volume */
+export type DensityHolder = { name: string; density?: number };
 
 @Injectable()
 export class UnitsService {
@@ -15,12 +27,17 @@ export class UnitsService {
     return this.unitModel.findById(id).exec();
   }
 
-  async create(createUnitDto: Partial<Unit>): Promise<Unit> {
+  async create(createUnitDto: CreateUnitDto): Promise<Unit> {
+    this.validateConversion(createUnitDto);
     const created = new this.unitModel(createUnitDto);
     return created.save();
   }
 
-  async update(id: string, updateUnitDto: Partial<Unit>): Promise<Unit | null> {
+  async update(id: string, updateUnitDto: UpdateUnitDto): Promise<Unit | null> {
+    const existing = await this.unitModel.findById(id).exec();
+    if (!existing) return null;
+
+    this.validateConversion({ ...existing.toObject(), ...updateUnitDto });
     return this.unitModel
       .findByIdAndUpdate(id, updateUnitDto, { new: true })
       .exec();
@@ -35,6 +52,103 @@ export class UnitsService {
     return this.unitModel.find({ type }).exec();
   }
 
+  /**
+   * Multiplier that turns a quantity in `from` into the same amount in `to`.
+   * Mass and volume only convert for a material with a density. Throws when
+   * the units measure different things or either one has no conversion
+   * factor set up.
+   */
+  async getConversionFactor(
+    from: UnitRef,
+    to: UnitRef,
+    material?: DensityHolder,
+  ): Promise<number> {
+    const [fromUnit, toUnit] = await Promise.all([
+      this.resolve(from),
+      this.resolve(to),
+    ]);
+
+    if (fromUnit._id!.equals(toUnit._id)) return 1;
+
+    if (
+      !fromUnit.dimension ||
+      !toUnit.dimension ||
+      !fromUnit.toBaseFactor ||
+      !toUnit.toBaseFactor
+    ) {
+      throw new BadRequestException(
+        `No conversion set up between ${fromUnit.name} and ${toUnit.name}`,
+      );
+    }
+
+    const factor = fromUnit.toBaseFactor / toUnit.toBaseFactor;
+
+    if (fromUnit.dimension === toUnit.dimension) return factor;
+
+    const dimensions = [fromUnit.dimension, toUnit.dimension];
+    if (
+      !dimensions.includes(UnitDimension.MASS) ||
+      !dimensions.includes(UnitDimension.VOLUME)
+    ) {
+      throw new BadRequestException(
+        `Cannot convert ${fromUnit.name} (${fromUnit.dimension}) to ${toUnit.name} (${toUnit.dimension})`,
+      );
+    }
+
+    if (!material?.density) {
+      throw new BadRequestException(
+        `Converting ${fromUnit.name} to ${toUnit.name} needs a density` +
+          (material ? ` on ${material.name}` : ''),
+      );
+    }
+
+    // density is grams per millilitre, the two base units
+    return fromUnit.dimension === UnitDimension.VOLUME
+      ? factor * material.density
+      : factor / material.density;
+  }
+
+  async convert(
+    quantity: number,
+    from: UnitRef,
+    to: UnitRef,
+    material?: DensityHolder,
+  ): Promise<number> {
+    return quantity * (await this.getConversionFactor(from, to, material));
+  }
+
+  /**
+   * Weight of a quantity in grams, for units that measure mass or, given a
+   * density, volume. Throws for anything counted in pieces.
+   */
+  async toGrams(
+    quantity: number,
+    unit: UnitRef,
+    material?: DensityHolder,
+  ): Promise<number> {
+    const resolved = await this.resolve(unit);
+
+    if (!resolved.toBaseFactor) {
+      throw new BadRequestException(
+        `${resolved.name} has no conversion set up, so it has no weight`,
+      );
+    }
+
+    const base = quantity * resolved.toBaseFactor;
+    if (resolved.dimension === UnitDimension.MASS) return base;
+
+    if (resolved.dimension === UnitDimension.VOLUME && material?.density) {
+      return base * material.density;
+    }
+
+    throw new BadRequestException(
+      `Weight of ${material?.name ?? resolved.name} is unknown in ${resolved.name}` +
+        (resolved.dimension === UnitDimension.VOLUME
+          ? ' without a density'
+          : ''),
+    );
+  }
+
   async seedDefaults(): Promise<Unit[]> {
     const defaults: Partial<Unit>[] = [
       {
@@ -42,30 +156,56 @@ export class UnitsService {
         abbreviation: 'pc',
         plural: 'pieces',
         type: UnitType.DISCRETE,
+        dimension: UnitDimension.COUNT,
+        toBaseFactor: 1,
       },
       {
         name: 'Gram',
         abbreviation: 'g',
         plural: 'grams',
         type: UnitType.CONTINUOUS,
+        dimension: UnitDimension.MASS,
+        toBaseFactor: 1,
       },
       {
         name: 'Kilogram',
         abbreviation: 'kg',
         plural: 'kilograms',
         type: UnitType.CONTINUOUS,
+        dimension: UnitDimension.MASS,
+        toBaseFactor: 1000,
+      },
+      {
+        name: 'Ounce',
+        abbreviation: 'oz',
+        plural: 'ounces',
+        type: UnitType.CONTINUOUS,
+        dimension: UnitDimension.MASS,
+        toBaseFactor: 28.349523125,
       },
       {
         name: 'Milliliter',
         abbreviation: 'ml',
         plural: 'milliliters',
         type: UnitType.CONTINUOUS,
+        dimension: UnitDimension.VOLUME,
+        toBaseFactor: 1,
       },
       {
         name: 'Liter',
         abbreviation: 'l',
         plural: 'liters',
         type: UnitType.CONTINUOUS,
+        dimension: UnitDimension.VOLUME,
+        toBaseFactor: 1000,
+      },
+      {
+        name: 'Drop',
+        abbreviation: 'drop',
+        plural: 'drops',
+        type: UnitType.DISCRETE,
+        dimension: UnitDimension.VOLUME,
+        toBaseFactor: 0.05,
       },
     ];
 
@@ -74,9 +214,36 @@ export class UnitsService {
       const exists = await this.unitModel.findOne({ name: unit.name }).exec();
       if (!exists) {
         await this.unitModel.create(unit);
+      } else if (!exists.dimension) {
+        // units seeded before conversions existed
+        exists.dimension = unit.dimension;
+        exists.toBaseFactor = unit.toBaseFactor;
+        await exists.save();
       }
     }
 
     return this.unitModel.find().exec();
   }
+
+  private async resolve(ref: UnitRef): Promise<Unit> {
+    if (typeof ref === 'object' && 'name' in ref) return ref;
+
+    const unit = Types.ObjectId.isValid(ref)
+      ? await this.unitModel.findById(ref).exec()
+      : null;
+    if (!unit) {
+      throw new BadRequestException(`Unit ${ref.toString()} not found`);
+    }
+    return unit;
+  }
+
+  private validateConversion(unit: Partial<Unit>): void {
+    if (!unit.dimension && !unit.toBaseFactor) return;
+
+    if (!unit.dimension || !unit.toBaseFactor || unit.toBaseFactor <= 0) {
+      throw new BadRequestException(
+        'A unit that converts needs both a dimension and a positive toBaseFactor',
+      );
+    }
+  }
 }
@@ -10,5 +10,6 @@ import { UnitsController } from './controllers/units.controller';
   ],
   controllers: [UnitsController],
   providers: [UnitsService],
+  exports: [UnitsService],
 })
 export class UnitsModule {}
@@ -1,9 +1,20 @@
-import { Controller, Get, Delete, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Delete,
+  Put,
+  Param,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
 import { UserId } from 'src/core/decorators/user-id.decorator';
 import { UserService } from '../services/user.service';
 import { UserDocument } from '../schemas/User.schema';
 import { AuthGuard } from 'src/core/guards/Auth.guard';
 import { GetUser } from 'src/core/decorators/user.decorator';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from '../enums/UserRole.enum';
+import { UpdateUserRoleDto } from '../dto/update-user-role.dto';
 
 @Controller('user-details')
 @UseGuards(AuthGuard)
@@ -20,9 +31,33 @@ export class UserController {
       id: user._id,
       verifiedEmail: user.verifiedEmail,
       authProvider: user.authProvider,
+      workspace: user.workspace,
+      role: user.role,
     };
   }
 
+  /** lists everyone in the caller's workspace along with their role */
+  @Get('team')
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  async getTeam(@GetUser() user: UserDocument) {
+    return this.userService.findWorkspaceMembers(user.workspace!);
+  }
+
+  @Put('team/:userId/role')
+  @Roles(UserRole.OWNER)
+  async updateRole(
+    @GetUser() user: UserDocument,
+    @Param('userId') userId: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+  ) {
+    return this.userService.updateRole(
+      user.workspace!,
+      String(user._id),
+      userId,
+      updateUserRoleDto.role,
+    );
+  }
+
   @Delete('delete-user-account')
   async deleteUserAccount(@UserId() userId: string) {
     return this.userService.deleteUserAccount(userId);
@@ -0,0 +1,5 @@
+export enum UserRole {
+  OWNER = 'owner',
+  MANAGER = 'manager',
+  MAKER = 'maker',
+}
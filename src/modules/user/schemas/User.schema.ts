@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { AuthProviders } from '../enums/AuthProviders.enum';
+import { UserRole } from '../enums/UserRole.enum';
 
 export type UserDocument = User & Document;
 
@@ -14,6 +15,12 @@ export class User {
   @Prop()
   businessName?: string;
 
+  @Prop({ type: Types.ObjectId, ref: 'Workspace' })
+  workspace?: Types.ObjectId;
+
+  @Prop({ enum: UserRole })
+  role?: UserRole;
+
   @Prop({ required: true })
   email: string;
 
@@ -55,3 +62,4 @@ export class User {
 export const UserSchema = SchemaFactory.createForClass(User);
 
 UserSchema.index({ email: 1 });
+UserSchema.index({ workspace: 1, role: 1 });
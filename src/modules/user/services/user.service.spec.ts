@@ -1,12 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { UserService } from './user.service';
+import { User } from '../schemas/User.schema';
+import { UserRole } from '../enums/UserRole.enum';
 
 describe('UserService', () => {
   let service: UserService;
+  let userModel: Record<string, jest.Mock>;
 
   beforeEach(async () => {
+    userModel = { findOne: jest.fn(), countDocuments: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UserService],
+      providers: [
+        UserService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getConnectionToken(), useValue: {} },
+      ],
     }).compile();
 
     service = module.get<UserService>(UserService);
@@ -15,4 +26,89 @@ describe('UserService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('updateRole', () => {
+    const workspaceId = new Types.ObjectId();
+    const actingUserId = new Types.ObjectId().toString();
+    const targetUserId = new Types.ObjectId().toString();
+
+    const member = (role: UserRole) => ({
+      role,
+      save: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('changes the role of another member of the workspace', async () => {
+      const user = member(UserRole.MAKER);
+      userModel.findOne.mockResolvedValue(user);
+
+      await service.updateRole(
+        workspaceId,
+        actingUserId,
+        targetUserId,
+        UserRole.MANAGER,
+      );
+
+      expect(userModel.findOne).toHaveBeenCalledWith({
+        _id: new Types.ObjectId(targetUserId),
+        workspace: workspaceId,
+      });
+      expect(user.role).toBe(UserRole.MANAGER);
+      expect(user.save).toHaveBeenCalled();
+    });
+
+    it('does not let a user change their own role', async () => {
+      await expect(
+        service.updateRole(
+          workspaceId,
+          actingUserId,
+          actingUserId,
+          UserRole.MAKER,
+        ),
+      ).rejects.toThrow('You cannot change your own role');
+    });
+
+    it('rejects members of other workspaces', async () => {
+      userModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateRole(
+          workspaceId,
+          actingUserId,
+          targetUserId,
+          UserRole.MAKER,
+        ),
+      ).rejects.toThrow('User not found in this workspace');
+    });
+
+    it('keeps at least one owner', async () => {
+      const owner = member(UserRole.OWNER);
+      userModel.findOne.mockResolvedValue(owner);
+      userModel.countDocuments.mockResolvedValue(1);
+
+      await expect(
+        service.updateRole(
+          workspaceId,
+          actingUserId,
+          targetUserId,
+          UserRole.MANAGER,
+        ),
+      ).rejects.toThrow('A workspace must keep at least one owner');
+      expect(owner.save).not.toHaveBeenCalled();
+    });
+
+    it('demotes an owner when another owner remains', async () => {
+      const owner = member(UserRole.OWNER);
+      userModel.findOne.mockResolvedValue(owner);
+      userModel.countDocuments.mockResolvedValue(2);
+
+      await service.updateRole(
+        workspaceId,
+        actingUserId,
+        targetUserId,
+        UserRole.MAKER,
+      );
+
+      expect(owner.role).toBe(UserRole.MAKER);
+    });
+  });
 });
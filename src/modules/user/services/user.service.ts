@@ -1,7 +1,14 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectConnection, InjectModel } from '@nestjs/mongoose';
 import { Connection, Model, Types } from 'mongoose';
 import { User, UserDocument } from '../schemas/User.schema';
+import { UserRole } from '../enums/UserRole.enum';
 
 @Injectable()
 export class UserService {
@@ -15,6 +22,61 @@ export class UserService {
     return await this.userModel.findById(id);
   }
 
+  async findWorkspaceMembers(
+    workspaceId: Types.ObjectId,
+  ): Promise<UserDocument[]> {
+    return this.userModel
+      .find({ workspace: workspaceId })
+      .select('name email pictureUrl role verifiedEmail createdAt')
+      .sort('name')
+      .exec();
+  }
+
+  /**
+   * Changes the role of another member of the caller's workspace.
+   * A workspace must always keep at least one owner.
+   */
+  async updateRole(
+    workspaceId: Types.ObjectId,
+    actingUserId: string,
+    targetUserId: string,
+    role: UserRole,
+  ): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(targetUserId)) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (actingUserId === targetUserId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const user = await this.userModel.findOne({
+      _id: new Types.ObjectId(targetUserId),
+      workspace: workspaceId,
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found in this workspace');
+    }
+
+    if (user.role === UserRole.OWNER && role !== UserRole.OWNER) {
+      const ownerCount = await this.userModel.countDocuments({
+        workspace: workspaceId,
+        role: UserRole.OWNER,
+      });
+      if (ownerCount <= 1) {
+        throw new BadRequestException(
+          'A workspace must keep at least one owner',
+        );
+      }
+    }
+
+    user.role = role;
+    await user.save();
+
+    return user;
+  }
+
   async deleteUserAccount(userId: string): Promise<boolean> {
     try {
       return await this.connection.transaction(async () => {
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkspacesController } from './workspaces.controller';
+import { WorkspacesService } from '../services/workspaces.service';
+
+describe('WorkspacesController', () => {
+  let controller: WorkspacesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WorkspacesController],
+      providers: [{ provide: WorkspacesService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<WorkspacesController>(WorkspacesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
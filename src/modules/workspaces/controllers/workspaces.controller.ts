@@ -0,0 +1,28 @@
+import { Body, Controller, Get, Put } from '@nestjs/common';
+import { RequireVerified } from 'src/core/decorators/require-verified.decorator';
+import { GetUser } from 'src/core/decorators/user.decorator';
+import { UserDocument } from 'src/modules/user/schemas/User.schema';
+import { WorkspacesService } from '../services/workspaces.service';
+import { UpdateWorkspaceDto } from '../dto/update-workspace.dto';
+import { Roles } from 'src/core/decorators/roles.decorator';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+@RequireVerified()
+@Controller('workspaces')
+export class WorkspacesController {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  @Get('current')
+  async findCurrent(@GetUser() user: UserDocument) {
+    return this.workspacesService.findById(user.workspace!);
+  }
+
+  @Put('current')
+  @Roles(UserRole.OWNER)
+  async updateCurrent(
+    @GetUser() user: UserDocument,
+    @Body() updateWorkspaceDto: UpdateWorkspaceDto,
+  ) {
+    return this.workspacesService.update(user.workspace!, updateWorkspaceDto);
+  }
+}
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { CostingMethod } from 'src/modules/costing/enums/CostingMethod.enum';
+import {
+  LabourRate,
+  LabourRateSchema,
+  OverheadRate,
+  OverheadRateSchema,
+} from 'src/modules/costing/schemas/conversion-rate.schema';
+
+export type WorkspaceDocument = HydratedDocument<Workspace>;
+
+@Schema({ timestamps: true })
+export class Workspace {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  owner: Types.ObjectId;
+
+  @Prop({
+    enum: CostingMethod,
+    default: CostingMethod.WEIGHTED_AVERAGE,
+  })
+  costingMethod: CostingMethod; // How material stock and usage is valued
+
+  @Prop({ type: [LabourRateSchema], default: [] })
+  labourRates: LabourRate[];
+
+  @Prop({ type: [OverheadRateSchema], default: [] })
+  overheadRates: OverheadRate[];
+}
+
+export const WorkspaceSchema = SchemaFactory.createForClass(Workspace);
+
+WorkspaceSchema.index({ owner: 1 });
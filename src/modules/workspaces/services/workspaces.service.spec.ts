@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { WorkspacesService } from './workspaces.service';
+import { Workspace } from '../schemas/workspace.schema';
+import { User, UserDocument } from 'src/modules/user/schemas/User.schema';
+import { Material } from 'src/modules/materials/schemas/material.schema';
+import { Product } from 'src/modules/products/schemas/product.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { MaterialOrder } from 'src/modules/material-order/schemas/material-order.schema';
+import { StockAdjustment } from 'src/modules/stock-adjustments/schemas/stock-adjustment.schema';
+import { Unit } from 'src/modules/units/schemas/unit.schema';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+const legacyModel = () => ({
+  collection: { updateMany: jest.fn().mockResolvedValue({}) },
+  syncIndexes: jest.fn().mockResolvedValue([]),
+});
+
+describe('WorkspacesService', () => {
+  let service: WorkspacesService;
+  let workspaceModel: Record<string, jest.Mock>;
+  let userModel: Record<string, jest.Mock>;
+  let legacyModels: Record<string, ReturnType<typeof legacyModel>>;
+
+  const makeUser = (fields: Partial<User> = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      name: 'Ada',
+      businessName: 'Candle Co',
+      ...fields,
+    }) as unknown as UserDocument;
+
+  beforeEach(async () => {
+    workspaceModel = {
+      findById: jest.fn(),
+      findByIdAndUpdate: jest.fn(),
+      create: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+    userModel = { updateOne: jest.fn(), findById: jest.fn() };
+    legacyModels = {
+      [Material.name]: legacyModel(),
+      [Product.name]: legacyModel(),
+      [ProductionBatch.name]: legacyModel(),
+      [MaterialOrder.name]: legacyModel(),
+      [StockAdjustment.name]: legacyModel(),
+      [Unit.name]: legacyModel(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspacesService,
+        { provide: getModelToken(Workspace.name), useValue: workspaceModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        ...Object.entries(legacyModels).map(([name, model]) => ({
+          provide: getModelToken(name),
+          useValue: model,
+        })),
+      ],
+    }).compile();
+
+    service = module.get<WorkspacesService>(WorkspacesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('ensureWorkspaceForUser', () => {
+    it('returns the workspace a user already has', async () => {
+      const workspace = new Types.ObjectId();
+      const user = makeUser({ workspace, role: UserRole.MAKER });
+
+      await expect(service.ensureWorkspaceForUser(user)).resolves.toBe(
+        workspace,
+      );
+      expect(workspaceModel.create).not.toHaveBeenCalled();
+    });
+
+    it('creates a workspace named after the business and makes the user its owner', async () => {
+      const user = makeUser();
+      const workspaceId = new Types.ObjectId();
+      workspaceModel.create.mockResolvedValue({ _id: workspaceId });
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await expect(service.ensureWorkspaceForUser(user)).resolves.toBe(
+        workspaceId,
+      );
+      expect(workspaceModel.create).toHaveBeenCalledWith({
+        name: 'Candle Co',
+        owner: user._id,
+      });
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: user._id, workspace: null },
+        { workspace: workspaceId, role: UserRole.OWNER },
+      );
+      expect(user.role).toBe(UserRole.OWNER);
+    });
+
+    it('keeps the workspace another request linked first and drops its own', async () => {
+      const user = makeUser();
+      const created = new Types.ObjectId();
+      const linked = new Types.ObjectId();
+      workspaceModel.create.mockResolvedValue({ _id: created });
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+      userModel.findById.mockResolvedValue({
+        workspace: linked,
+        role: UserRole.OWNER,
+      });
+
+      await expect(service.ensureWorkspaceForUser(user)).resolves.toBe(linked);
+      expect(workspaceModel.deleteOne).toHaveBeenCalledWith({ _id: created });
+    });
+
+    it('never touches records from before workspaces', async () => {
+      const user = makeUser();
+      workspaceModel.create.mockResolvedValue({ _id: new Types.ObjectId() });
+      userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await service.ensureWorkspaceForUser(user);
+
+      for (const model of Object.values(legacyModels)) {
+        expect(model.collection.updateMany).not.toHaveBeenCalled();
+        expect(model.syncIndexes).not.toHaveBeenCalled();
+      }
+    });
+
+    it('gives a user who created their workspace before roles the owner role', async () => {
+      const user = makeUser({ workspace: new Types.ObjectId() });
+      workspaceModel.findById.mockResolvedValue({ owner: user._id });
+
+      await service.ensureWorkspaceForUser(user);
+
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: user._id },
+        { role: UserRole.OWNER },
+      );
+    });
+  });
+
+  describe('adoptLegacyRecords', () => {
+    it('hands records without a workspace to the given one and syncs indexes', async () => {
+      const workspaceId = new Types.ObjectId();
+      workspaceModel.findById.mockResolvedValue({ _id: workspaceId });
+
+      await service.adoptLegacyRecords(workspaceId.toString());
+
+      for (const model of Object.values(legacyModels)) {
+        expect(model.collection.updateMany).toHaveBeenCalledWith(
+          { workspace: { $exists: false } },
+          { $set: { workspace: workspaceId } },
+        );
+        expect(model.syncIndexes).toHaveBeenCalled();
+      }
+    });
+
+    it('rejects an unknown workspace before changing anything', async () => {
+      workspaceModel.findById.mockResolvedValue(null);
+
+      await expect(
+        service.adoptLegacyRecords(new Types.ObjectId().toString()),
+      ).rejects.toThrow('Workspace not found');
+      expect(
+        legacyModels[Material.name].collection.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
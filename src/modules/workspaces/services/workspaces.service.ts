@@ -0,0 +1,133 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Workspace, WorkspaceDocument } from '../schemas/workspace.schema';
+import { User, UserDocument } from 'src/modules/user/schemas/User.schema';
+import {
+  Material,
+  MaterialDocument,
+} from 'src/modules/materials/schemas/material.schema';
+import {
+  Product,
+  ProductDocument,
+} from 'src/modules/products/schemas/product.schema';
+import { ProductionBatch } from 'src/modules/production/schemas/production-batch.schema';
+import { MaterialOrder } from 'src/modules/material-order/schemas/material-order.schema';
+import { StockAdjustment } from 'src/modules/stock-adjustments/schemas/stock-adjustment.schema';
+import { Unit, UnitDocument } from 'src/modules/units/schemas/unit.schema';
+import { UserRole } from 'src/modules/user/enums/UserRole.enum';
+
+@Injectable()
+export class WorkspacesService {
+  constructor(
+    @InjectModel(Workspace.name)
+    private readonly workspaceModel: Model<WorkspaceDocument>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    @InjectModel(Material.name)
+    private readonly materialModel: Model<MaterialDocument>,
+    @InjectModel(Product.name)
+    private readonly productModel: Model<ProductDocument>,
+    @InjectModel(ProductionBatch.name)
+    private readonly batchModel: Model<ProductionBatch>,
+    @InjectModel(MaterialOrder.name)
+    private readonly orderModel: Model<MaterialOrder>,
+    @InjectModel(StockAdjustment.name)
+    private readonly stockAdjustmentModel: Model<StockAdjustment>,
+    @InjectModel(Unit.name) private readonly unitModel: Model<UnitDocument>,
+  ) {}
+
+  async findById(id: string | Types.ObjectId): Promise<WorkspaceDocument> {
+    const workspace = await this.workspaceModel.findById(id);
+    if (!workspace) throw new NotFoundException('Workspace not found');
+    return workspace;
+  }
+
+  async update(
+    id: string | Types.ObjectId,
+    updateWorkspaceDto: Pick<Partial<Workspace>, 'name'>,
+  ): Promise<WorkspaceDocument> {
+    const workspace = await this.workspaceModel.findByIdAndUpdate(
+      id,
+      { name: updateWorkspaceDto.name },
+      { new: true, runValidators: true },
+    );
+    if (!workspace) throw new NotFoundException('Workspace not found');
+    return workspace;
+  }
+
+  /**
+   * Returns the user's workspace, creating one named after their business
+   * the first time they make an authenticated request.
+   */
+  async ensureWorkspaceForUser(user: UserDocument): Promise<Types.ObjectId> {
+    if (user.workspace) {
+      if (!user.role) await this.assignDefaultRole(user);
+      return user.workspace;
+    }
+
+    const workspace = await this.workspaceModel.create({
+      name: user.businessName || `${user.name}'s Workspace`,
+      owner: user._id,
+    });
+
+    // Only link it if another request hasn't given the user one meanwhile
+    const { modifiedCount } = await this.userModel.updateOne(
+      { _id: user._id, workspace: null },
+      { workspace: workspace._id, role: UserRole.OWNER },
+    );
+    if (modifiedCount === 0) {
+      await this.workspaceModel.deleteOne({ _id: workspace._id });
+      const linked = await this.userModel.findById(user._id);
+      user.workspace = linked!.workspace;
+      user.role = linked!.role;
+      return user.workspace!;
+    }
+
+    user.workspace = workspace._id;
+    user.role = UserRole.OWNER;
+    return workspace._id;
+  }
+
+  /**
+   * Users who joined a workspace before roles existed get owner rights if
+   * they created it and maker rights otherwise.
+   */
+  private async assignDefaultRole(user: UserDocument) {
+    const workspace = await this.findById(user.workspace!);
+    const role = workspace.owner.equals(user._id as string)
+      ? UserRole.OWNER
+      : UserRole.MAKER;
+
+    await this.userModel.updateOne({ _id: user._id }, { role });
+    user.role = role;
+  }
+
+  /**
+   * Records created before workspaces existed have no owner. They all belong
+   * to the original business, so they are handed to that business's
+   * workspace and the old globally unique indexes are replaced with
+   * per-workspace ones. Run once from `npm run migrate:adopt-legacy`, never
+   * on a request.
+   */
+  async adoptLegacyRecords(workspaceId: string): Promise<void> {
+    const workspace = await this.findById(workspaceId);
+
+    await this.adopt(this.materialModel, workspace._id);
+    await this.adopt(this.productModel, workspace._id);
+    await this.adopt(this.batchModel, workspace._id);
+    await this.adopt(this.orderModel, workspace._id);
+    await this.adopt(this.stockAdjustmentModel, workspace._id);
+    await this.adopt(this.unitModel, workspace._id);
+  }
+
+  private async adopt(
+    model: Pick<Model<unknown>, 'collection' | 'syncIndexes'>,
+    workspaceId: Types.ObjectId,
+  ) {
+    await model.collection.updateMany(
+      { workspace: { $exists: false } },
+      { $set: { workspace: workspaceId } },
+    );
+    await model.syncIndexes();
+  }
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Workspace, WorkspaceSchema } from './schemas/workspace.schema';
+import { WorkspacesService } from './services/workspaces.service';
+import { WorkspacesController } from './controllers/workspaces.controller';
+import { User, UserSchema } from '../user/schemas/User.schema';
+import { Material, MaterialSchema } from '../materials/schemas/material.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import {
+  ProductionBatch,
+  ProductionBatchSchema,
+} from '../production/schemas/production-batch.schema';
+import {
+  MaterialOrder,
+  MaterialOrderSchema,
+} from '../material-order/schemas/material-order.schema';
+import {
+  StockAdjustment,
+  StockAdjustmentSchema,
+} from '../stock-adjustments/schemas/stock-adjustment.schema';
+import { Unit, UnitSchema } from '../units/schemas/unit.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Workspace.name, schema: WorkspaceSchema },
+      { name: User.name, schema: UserSchema },
+      { name: Material.name, schema: MaterialSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: ProductionBatch.name, schema: ProductionBatchSchema },
+      { name: MaterialOrder.name, schema: MaterialOrderSchema },
+      { name: StockAdjustment.name, schema: StockAdjustmentSchema },
+      { name: Unit.name, schema: UnitSchema },
+    ]),
+  ],
+  controllers: [WorkspacesController],
+  providers: [WorkspacesService],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {}
@@ -0,0 +1,46 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AppModule } from '../app.module';
+import { WorkspacesService } from '../modules/workspaces/services/workspaces.service';
+import { SuppliersService } from '../modules/suppliers/services/suppliers.service';
+import {
+  Workspace,
+  WorkspaceDocument,
+} from '../modules/workspaces/schemas/workspace.schema';
+import { workspaceContext } from '../core/utils/workspaceContext';
+
+/**
+ * Hands the records created before workspaces existed to one workspace, then
+ * moves the supplier names typed on every workspace's materials and orders
+ * into its supplier directory.
+ *
+ *   npm run migrate:adopt-legacy -- <workspaceId>
+ */
+async function run() {
+  const workspaceId = process.argv[2];
+  if (!workspaceId || !Types.ObjectId.isValid(workspaceId)) {
+    console.error('Usage: npm run migrate:adopt-legacy -- <workspaceId>');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule);
+  try {
+    await app.get(WorkspacesService).adoptLegacyRecords(workspaceId);
+
+    const workspaces = await app
+      .get<Model<WorkspaceDocument>>(getModelToken(Workspace.name))
+      .find({}, { _id: 1 })
+      .lean();
+    for (const workspace of workspaces) {
+      await workspaceContext.run({ workspaceId: workspace._id }, () =>
+        app.get(SuppliersService).migrateFreeText(),
+      );
+    }
+    console.log(`Legacy records now belong to workspace ${workspaceId}`);
+  } finally {
+    await app.close();
+  }
+}
+
+void run();